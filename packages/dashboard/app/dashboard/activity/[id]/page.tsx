@@ -1,5 +1,8 @@
+"use client";
+
+import { useEffect, useState } from "react";
 import Link from "next/link";
-import { notFound } from "next/navigation";
+import { useParams } from "next/navigation";
 import { AppSidebar } from "@/components/app-sidebar";
 import { PageHeader } from "@/components/page-header";
 import {
@@ -16,8 +19,9 @@ import {
 } from "@/components/ui/sidebar";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { fetchEvent } from "@/lib/guardio-api";
+import { fetchEvent, type DashboardActivityEvent } from "@/lib/guardio-api";
 import {
+  AlertTriangle,
   ArrowLeft,
   CheckCircle2,
   XCircle,
@@ -41,17 +45,55 @@ function formatTimestamp(iso: string): string {
   }
 }
 
-export default async function ActivityDetailPage({
-  params,
-}: {
-  params: Promise<{ id: string }>;
-}) {
-  const { id } = await params;
-  const event = await fetchEvent(id);
-  if (!event) notFound();
+export default function ActivityDetailPage() {
+  const params = useParams();
+  const id = typeof params.id === "string" ? params.id : "";
+  const [loaded, setLoaded] = useState<{
+    id: string;
+    event: DashboardActivityEvent | null;
+  } | null>(null);
+
+  // Fetched in the browser so the request carries the dashboard login token.
+  useEffect(() => {
+    let cancelled = false;
+    fetchEvent(id).then((data) => {
+      if (!cancelled) setLoaded({ id, event: data });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  // undefined while the event for the current id is loading, null when it does not exist.
+  const event = loaded?.id === id ? loaded.event : undefined;
+  if (!event) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <PageHeader breadcrumb={<Breadcrumb><BreadcrumbList><BreadcrumbItem><BreadcrumbPage>Activity</BreadcrumbPage></BreadcrumbItem></BreadcrumbList></Breadcrumb>} />
+          <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+            {event === undefined ? (
+              <p className="text-sm text-muted-foreground">Loading…</p>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground">Event not found.</p>
+                <div>
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href="/dashboard/activity">Back to Activity</Link>
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    );
+  }
 
   const decision = event.decision ?? "—";
   const isDenied = event.decision === "BLOCKED";
+  const isFlagged = event.decision === "FLAGGED";
   const policy = event.policyEvaluation;
   const simulation = event.simulation?.enabled ? event.simulation : null;
   const simulationLabel =
@@ -103,12 +145,14 @@ export default async function ActivityDetailPage({
               <div className="flex items-center gap-3">
                 {isDenied ? (
                   <XCircle className="size-8 text-red-600 dark:text-red-400 shrink-0" />
+                ) : isFlagged ? (
+                  <AlertTriangle className="size-8 text-amber-600 dark:text-amber-400 shrink-0" />
                 ) : (
                   <CheckCircle2 className="size-8 text-green-600 dark:text-green-400 shrink-0" />
                 )}
                 <div>
                   <h1 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
-                    {isDenied ? "Denied" : "Allowed"}
+                    {isDenied ? "Denied" : isFlagged ? "Flagged" : "Allowed"}
                   </h1>
                   <div className="mt-1 flex flex-wrap items-center gap-2">
                     {simulation ? (
@@ -157,13 +201,23 @@ export default async function ActivityDetailPage({
                         className={
                           isDenied
                             ? "text-red-600 dark:text-red-400 font-medium"
-                            : "text-green-600 dark:text-green-400 font-medium"
+                            : isFlagged
+                              ? "text-amber-600 dark:text-amber-400 font-medium"
+                              : "text-green-600 dark:text-green-400 font-medium"
                         }
                       >
                         {decision}
                       </span>
                     </dd>
                   </div>
+                  {event.errorCode != null && (
+                    <div>
+                      <dt className="text-xs text-gray-500 dark:text-gray-400">Error code</dt>
+                      <dd className="mt-0.5 text-sm text-red-600 dark:text-red-400 font-mono">
+                        {event.errorCode}
+                      </dd>
+                    </div>
+                  )}
                 </dl>
               </section>
 
@@ -231,6 +285,54 @@ export default async function ActivityDetailPage({
                         </dd>
                       </div>
                     )}
+                    {policy.modification != null && (
+                      <div className="sm:col-span-2">
+                        <dt className="text-xs text-gray-500 dark:text-gray-400">Modified by</dt>
+                        <dd className="mt-0.5 text-sm text-gray-900 dark:text-gray-100">
+                          <span className="font-medium">{policy.modification.policyName}</span>
+                          {policy.modification.code != null && (
+                            <>
+                              {" "}
+                              <code className="px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-800 font-mono text-xs">
+                                {policy.modification.code}
+                              </code>
+                            </>
+                          )}
+                          {policy.modification.reason != null && <>: {policy.modification.reason}</>}
+                        </dd>
+                      </div>
+                    )}
+                    {policy.failures != null && policy.failures.length > 0 && (
+                      <div className="sm:col-span-2">
+                        <dt className="text-xs text-gray-500 dark:text-gray-400">Failed policies</dt>
+                        <dd className="mt-0.5">
+                          <ul className="space-y-1">
+                            {policy.failures.map((failure, i) => (
+                              <li key={i} className="text-sm text-gray-900 dark:text-gray-100">
+                                <span className="font-medium">{failure.policyName}</span>{" "}
+                                <code className="px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-800 font-mono text-xs">
+                                  {failure.errorCode}
+                                </code>{" "}
+                                <span className="text-gray-500 dark:text-gray-400">
+                                  ({failure.failureMode === "open" ? "skipped" : "blocked the call"}):
+                                </span>{" "}
+                                {failure.message}
+                              </li>
+                            ))}
+                          </ul>
+                        </dd>
+                      </div>
+                    )}
+                    {policy.metadata != null && (
+                      <div className="sm:col-span-2">
+                        <dt className="text-xs text-gray-500 dark:text-gray-400">Metadata</dt>
+                        <dd className="mt-0.5">
+                          <pre className="text-xs font-mono text-gray-900 dark:text-gray-100 bg-gray-100 dark:bg-gray-800 rounded p-3 overflow-x-auto">
+                            {JSON.stringify(policy.metadata, null, 2)}
+                          </pre>
+                        </dd>
+                      </div>
+                    )}
                   </dl>
                 </section>
               )}
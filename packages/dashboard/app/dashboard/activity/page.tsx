@@ -1,3 +1,6 @@
+"use client";
+
+import { useEffect, useState } from "react";
 import { AppSidebar } from "@/components/app-sidebar";
 import { PageHeader } from "@/components/page-header";
 import {
@@ -13,7 +16,7 @@ import {
   SidebarProvider,
 } from "@/components/ui/sidebar";
 import { ActivityList } from "@/components/activity-list";
-import { fetchEvents } from "@/lib/guardio-api";
+import { fetchEvents, type DashboardEventsInfo } from "@/lib/guardio-api";
 import type { ActivityEntrySerialized } from "@/components/activity-list";
 
 function mapEventToActivity(e: {
@@ -25,25 +28,50 @@ function mapEventToActivity(e: {
   decision?: string | null;
   policyEvaluation?: { policyName?: string } | null;
   simulation?: { enabled: boolean; source?: "global" | "header" } | null;
+  errorCode?: string | null;
 }): ActivityEntrySerialized {
   return {
     id: e.eventId,
     timestamp: e.timestamp,
-    type: e.decision === "BLOCKED" ? "denied" : "allowed",
+    type:
+      e.decision === "BLOCKED"
+        ? "denied"
+        : e.decision === "FLAGGED"
+          ? "flagged"
+          : "allowed",
     agent: e.agentId ?? "Unknown",
     tool: e.actionType ?? e.eventType ?? "—",
     policy: e.policyEvaluation?.policyName,
     simulation: e.simulation,
+    errorCode: e.errorCode,
   };
 }
 
-export default async function ActivityPage() {
-  const eventsInfo = await fetchEvents();
+export default function ActivityPage() {
+  const [eventsInfo, setEventsInfo] = useState<DashboardEventsInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Fetched in the browser so the request carries the dashboard login token.
+  useEffect(() => {
+    let cancelled = false;
+    fetchEvents()
+      .then((data) => {
+        if (!cancelled) setEventsInfo(data);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   const activitiesSerialized: ActivityEntrySerialized[] = eventsInfo?.events?.length
     ? eventsInfo.events.map(mapEventToActivity)
     : [];
   const allowedCount = activitiesSerialized.filter((a) => a.type === "allowed").length;
-  const deniedCount = activitiesSerialized.length - allowedCount;
+  const flaggedCount = activitiesSerialized.filter((a) => a.type === "flagged").length;
+  const deniedCount = activitiesSerialized.length - allowedCount - flaggedCount;
 
   return (
     <SidebarProvider>
@@ -68,7 +96,7 @@ export default async function ActivityPage() {
         />
         <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
           {/* Summary cards */}
-          <div className="grid gap-4 md:grid-cols-3">
+          <div className="grid gap-4 md:grid-cols-4">
             <div className="p-6 rounded-xl border border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-950">
               <div className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-2">
                 Total Activities
@@ -85,6 +113,14 @@ export default async function ActivityPage() {
                 {allowedCount}
               </div>
             </div>
+            <div className="p-6 rounded-xl border border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-950">
+              <div className="text-xs font-medium text-amber-600 dark:text-amber-400 mb-2">
+                Flagged
+              </div>
+              <div className="text-3xl font-bold text-amber-600 dark:text-amber-400">
+                {flaggedCount}
+              </div>
+            </div>
             <div className="p-6 rounded-xl border border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-950">
               <div className="text-xs font-medium text-red-600 dark:text-red-400 mb-2">
                 Denied
@@ -103,7 +139,11 @@ export default async function ActivityPage() {
               </h2>
             </div>
             <div className="p-6">
-              <ActivityList activities={activitiesSerialized} />
+              {loading ? (
+                <p className="text-sm text-gray-500">Loading…</p>
+              ) : (
+                <ActivityList activities={activitiesSerialized} />
+              )}
             </div>
           </div>
         </div>
@@ -17,6 +17,7 @@ import {
 } from "@/components/ui/sidebar";
 import { DashboardActiveClientInfo, DashboardConnectionInfo, fetchConnectionInfo } from "@/lib/guardio-api";
 import { Card } from "@/components/ui/card";
+import { AgentApiKeysSection } from "@/components/agent-api-keys-section";
 
 export default function AgentsPage() {
   const [info, setInfo] = useState<DashboardConnectionInfo | null>(null);
@@ -90,6 +91,8 @@ export default function AgentsPage() {
               </ul>
             )}
           </div>
+
+          <AgentApiKeysSection />
         </div>
       </SidebarInset>
     </SidebarProvider>
@@ -0,0 +1,34 @@
+"use client"
+
+import { AppSidebar } from "@/components/app-sidebar"
+import { PageHeader } from "@/components/page-header"
+import { ApprovalsPageContent } from "@/components/approvals-page-content"
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbPage,
+} from "@/components/ui/breadcrumb"
+import {
+  SidebarInset,
+  SidebarProvider,
+} from "@/components/ui/sidebar"
+
+export default function ApprovalsPage() {
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <PageHeader
+          breadcrumb={
+            <Breadcrumb>
+              <BreadcrumbItem>
+                <BreadcrumbPage>Approvals</BreadcrumbPage>
+              </BreadcrumbItem>
+            </Breadcrumb>
+          }
+        />
+        <ApprovalsPageContent />
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
@@ -20,9 +20,38 @@ import {
   SidebarInset,
   SidebarProvider,
 } from "@/components/ui/sidebar";
-import { fetchConnectionInfo, getRemoteMcps, type RemoteMcpInfo, type RemoteMcpToolInfo } from "@/lib/guardio-api";
+import { fetchConnectionInfo, getRemoteMcps, type RemoteMcpInfo, type RemoteMcpProcessInfo, type RemoteMcpToolInfo } from "@/lib/guardio-api";
 import { Card } from "@/components/ui/card";
-import { ChevronRight, RefreshCw, Wrench } from "lucide-react";
+import { ToolVersionReview } from "@/components/tool-version-review";
+import { ChevronRight, RefreshCw, ShieldAlert, TriangleAlert, Wrench } from "lucide-react";
+
+/** Process line for spawned (command) servers: status, pid, restarts and last exit. */
+function ProcessStatus({ info }: { info: RemoteMcpProcessInfo }) {
+  const exit =
+    info.lastError ??
+    (info.lastExitSignal
+      ? `signal ${info.lastExitSignal}`
+      : info.lastExitCode != null
+        ? `exit code ${info.lastExitCode}`
+        : null);
+  return (
+    <div className="text-xs text-right text-gray-500 max-w-[240px]">
+      <div className={info.status === "running" ? undefined : "text-amber-600"}>
+        Process {info.status}
+        {info.pid != null && ` · pid ${info.pid}`}
+      </div>
+      {info.restarts > 0 && (
+        <div>
+          {info.restarts} restart{info.restarts === 1 ? "" : "s"}
+          {exit && ` · last ${exit}`}
+        </div>
+      )}
+      {info.status === "restarting" && info.nextRestartAt && (
+        <div>Next attempt {new Date(info.nextRestartAt).toLocaleTimeString()}</div>
+      )}
+    </div>
+  );
+}
 
 function getParamNames(tool: RemoteMcpToolInfo): string[] {
   const schema = tool.inputSchema as { properties?: Record<string, unknown> } | undefined;
@@ -30,11 +59,63 @@ function getParamNames(tool: RemoteMcpToolInfo): string[] {
   return Object.keys(schema.properties);
 }
 
-function ToolRow({ tool }: { tool: RemoteMcpToolInfo }) {
+function ToolRow({
+  serverName,
+  tool,
+  onApproved,
+}: {
+  serverName: string;
+  tool: RemoteMcpToolInfo;
+  onApproved: () => void;
+}) {
   const params = getParamNames(tool);
+  const changed = tool.pinning != null && !tool.pinning.approved;
+  const risky = tool.risk != null && tool.risk.score > 0;
+  const [reviewing, setReviewing] = useState(false);
+  const [showFindings, setShowFindings] = useState(false);
   return (
-    <div className="rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 p-2.5 text-sm">
-      <div className="font-mono font-medium text-gray-900 dark:text-gray-100">{tool.name}</div>
+    <div
+      className={`rounded border bg-white dark:bg-gray-900 p-2.5 text-sm ${
+        changed ? "border-amber-300 dark:border-amber-700" : "border-gray-200 dark:border-gray-700"
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        <span className="font-mono font-medium text-gray-900 dark:text-gray-100">{tool.name}</span>
+        {tool.pinning && (
+          <span className="text-xs text-gray-500" title={tool.pinning.fingerprint}>
+            v{tool.pinning.version}
+          </span>
+        )}
+        {risky && (
+          <button
+            onClick={() => setShowFindings((s) => !s)}
+            title="Suspicious instructions in the tool definition"
+            className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+              tool.risk!.quarantined
+                ? "bg-red-100 text-red-900 dark:bg-red-900/60 dark:text-red-100"
+                : "bg-amber-100 text-amber-900 dark:bg-amber-900/60 dark:text-amber-100"
+            }`}
+          >
+            <TriangleAlert className="h-3 w-3" />
+            Risk {tool.risk!.score}
+            {tool.risk!.quarantined && " · quarantined"}
+          </button>
+        )}
+        {changed && (
+          <>
+            <span className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-900 dark:bg-amber-900/60 dark:text-amber-100">
+              <ShieldAlert className="h-3 w-3" />
+              Definition changed
+            </span>
+            <button
+              onClick={() => setReviewing((r) => !r)}
+              className="ml-auto text-xs text-blue-600 hover:underline"
+            >
+              {reviewing ? "Hide changes" : "Review changes"}
+            </button>
+          </>
+        )}
+      </div>
       {(tool.title || tool.description) && (
         <div className="text-xs text-gray-600 dark:text-gray-400 mt-0.5">
           {tool.title ?? tool.description}
@@ -46,6 +127,22 @@ function ToolRow({ tool }: { tool: RemoteMcpToolInfo }) {
           <span className="font-mono">{params.join(", ")}</span>
         </div>
       )}
+      {risky && showFindings && (
+        <ul className="mt-2 space-y-1 text-xs">
+          {tool.risk!.findings.map((finding, idx) => (
+            <li key={idx}>
+              <span className="font-medium">{finding.rule.replace(/_/g, " ")}</span>{" "}
+              <span className="text-gray-500">in {finding.field}</span>
+              <div className="font-mono text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 rounded px-2 py-1 mt-0.5 break-all">
+                {finding.excerpt}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {changed && reviewing && (
+        <ToolVersionReview serverName={serverName} toolName={tool.name} onApproved={onApproved} />
+      )}
     </div>
   );
 }
@@ -160,10 +257,14 @@ export default function McpsPage() {
                         >
                           {m.connected ? "connected" : "disconnected"}
                         </div>
-                        {m.remotePostUrl ? (
+                        {m.process ? (
+                          <ProcessStatus info={m.process} />
+                        ) : m.remotePostUrl ? (
                           <div className="text-xs text-gray-500 max-w-[200px] truncate" title={m.remotePostUrl}>
                             POST endpoint ready
                           </div>
+                        ) : m.connected ? (
+                          <div className="text-xs text-gray-500">Streamable HTTP endpoint</div>
                         ) : (
                           <div className="text-xs text-amber-600">Endpoint not yet discovered</div>
                         )}
@@ -178,6 +279,11 @@ export default function McpsPage() {
                             <ChevronRight className="h-3.5 w-3.5 data-[state=open]:rotate-90 transition-transform" />
                             <Wrench className="h-3.5 w-3.5" />
                             Tools ({m.tools.length})
+                            {m.tools.some((t) => t.pinning && !t.pinning.approved) && (
+                              <span className="text-amber-600">
+                                · {m.tools.filter((t) => t.pinning && !t.pinning.approved).length} changed
+                              </span>
+                            )}
                           </CollapsibleTrigger>
                           <CollapsibleContent>
                             <div className="mt-2 flex flex-wrap gap-2 pl-5">
@@ -194,7 +300,7 @@ export default function McpsPage() {
                             <ul className="mt-3 space-y-2 pl-5">
                               {m.tools.map((tool) => (
                                 <li key={tool.name}>
-                                  <ToolRow tool={tool} />
+                                  <ToolRow serverName={m.name ?? ""} tool={tool} onApproved={load} />
                                 </li>
                               ))}
                             </ul>
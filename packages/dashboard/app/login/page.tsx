@@ -0,0 +1,83 @@
+"use client"
+
+import { useState, type FormEvent } from "react";
+import { Shield } from "lucide-react";
+import { login } from "@/lib/guardio-api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+/** Only same-site paths are followed after sign-in. */
+function nextPath(): string {
+  const next = new URLSearchParams(window.location.search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/";
+}
+
+export default function LoginPage() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await login(username, password);
+      window.location.assign(nextPath());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign in failed");
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-svh items-center justify-center p-4">
+      <Card className="w-full max-w-sm px-6 py-5">
+        <CardHeader className="px-0">
+          <CardTitle className="flex items-center gap-2">
+            <div className="bg-primary text-primary-foreground flex size-7 items-center justify-center rounded-lg">
+              <Shield className="size-4" />
+            </div>
+            Sign in to Guardio
+          </CardTitle>
+          <CardDescription>Use a dashboard user from the Guardio config.</CardDescription>
+        </CardHeader>
+        <CardContent className="px-0">
+          <form className="flex flex-col gap-3" onSubmit={(e) => void handleSubmit(e)}>
+            <Input
+              placeholder="Username"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              disabled={busy}
+            />
+            <Input
+              type="password"
+              placeholder="Password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={busy}
+            />
+            {error && (
+              <div className="rounded-md border border-destructive/40 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+            <Button type="submit" disabled={busy || !username || !password}>
+              Sign in
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
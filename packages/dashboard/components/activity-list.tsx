@@ -1,7 +1,7 @@
 "use client";
 
 import Link from "next/link";
-import { CheckCircle2, XCircle, Shield } from "lucide-react";
+import { AlertTriangle, CheckCircle2, XCircle, Shield } from "lucide-react";
 import { RelativeTime } from "./relative-time";
 import type { ActivityEntry } from "@/lib/mock-activities";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
@@ -13,6 +13,8 @@ export type ActivityEntrySerialized = Omit<ActivityEntry, "timestamp"> & {
     enabled: boolean;
     source?: "global" | "header";
   } | null;
+  /** Set when a policy threw or timed out on this call (e.g. POLICY_TIMEOUT). */
+  errorCode?: string | null;
 };
 
 interface ActivityListProps {
@@ -25,6 +27,12 @@ function getSimulationTooltipText(source?: "global" | "header") {
   return "Simulated";
 }
 
+function getActivityLabel(type: ActivityEntrySerialized["type"]) {
+  if (type === "allowed") return "Allowed";
+  if (type === "flagged") return "Flagged";
+  return "Denied";
+}
+
 export function ActivityList({ activities }: ActivityListProps) {
   if (activities.length === 0) {
     return (
@@ -41,12 +49,18 @@ export function ActivityList({ activities }: ActivityListProps) {
           <Link
             key={activity.id}
             href={`/dashboard/activity/${activity.id}`}
-            className="block p-4 rounded-lg bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-800 hover:border-gray-300 dark:hover:border-gray-700 transition-colors"
+            className={
+              activity.type === "flagged"
+                ? "block p-4 rounded-lg bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-900/70 hover:border-amber-300 dark:hover:border-amber-800 transition-colors"
+                : "block p-4 rounded-lg bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-800 hover:border-gray-300 dark:hover:border-gray-700 transition-colors"
+            }
           >
             <div className="flex items-start gap-3">
               <div className="shrink-0 mt-0.5">
                 {activity.type === "allowed" ? (
                   <CheckCircle2 className="size-5 text-green-600 dark:text-green-400" />
+                ) : activity.type === "flagged" ? (
+                  <AlertTriangle className="size-5 text-amber-600 dark:text-amber-400" />
                 ) : (
                   <XCircle className="size-5 text-red-600 dark:text-red-400" />
                 )}
@@ -55,10 +69,20 @@ export function ActivityList({ activities }: ActivityListProps) {
               <div className="flex-1 min-w-0">
                 <div className="flex items-center justify-between gap-2 mb-2">
                   <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                    {activity.type === "allowed" ? "Allowed" : "Denied"}{" "}
+                    {getActivityLabel(activity.type)}{" "}
                     <span className="text-gray-700 dark:text-gray-300">agent</span>
                   </span>
                   <div className="flex items-center gap-2 shrink-0">
+                    {activity.errorCode ? (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <span className="inline-flex items-center rounded-full border border-red-200/70 bg-red-50 px-2 py-0.5 text-[11px] font-medium text-red-900 dark:border-red-900/70 dark:bg-red-950/40 dark:text-red-100">
+                            Policy error
+                          </span>
+                        </TooltipTrigger>
+                        <TooltipContent sideOffset={6}>{activity.errorCode}</TooltipContent>
+                      </Tooltip>
+                    ) : null}
                     {activity.simulation?.enabled ? (
                       <Tooltip>
                         <TooltipTrigger asChild>
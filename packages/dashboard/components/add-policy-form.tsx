@@ -7,6 +7,7 @@ import validator from "@rjsf/validator-ajv8";
 import type {
   DashboardConnectionInfo,
   DashboardPolicyEntry,
+  PolicyFailureMode,
 } from "@/lib/guardio-api";
 import {
   fetchPoliciesInfo,
@@ -21,6 +22,7 @@ import {
   type PolicySummaryFormContext,
 } from "@/components/widgets/policy-summary-widget";
 import { ToolParameterSelectWidget } from "@/components/widgets/tool-parameter-select-widget";
+import { ExpressionEditorWidget } from "@/components/widgets/expression-editor-widget";
 import {
   Empty,
   EmptyContent,
@@ -106,6 +108,9 @@ export function AddPolicyForm({
   const [result, setResult] = useState<CreatePolicyInstanceResult | null>(null);
   const [submitting, setSubmitting] = useState(false);
   const [instanceName, setInstanceName] = useState("");
+  const [priority, setPriority] = useState("0");
+  const [failureMode, setFailureMode] = useState<PolicyFailureMode | "">("");
+  const [timeoutMs, setTimeoutMs] = useState("");
 
   const selected = policies.find((p) => p.name === selectedName);
   const hasConfig = selected ? hasConfigSchema(selected) : false;
@@ -134,11 +139,17 @@ export function AddPolicyForm({
         name: instanceName.trim() || undefined,
         agentId: assignment?.agentId ?? undefined,
         toolName: assignment?.toolName ?? undefined,
+        priority: Number(priority) || 0,
+        failureMode: failureMode || undefined,
+        timeoutMs: timeoutMs.trim() ? Number(timeoutMs) : undefined,
       });
       setResult(res);
       if ("id" in res) {
         setFormData({});
         setInstanceName("");
+        setPriority("0");
+        setFailureMode("");
+        setTimeoutMs("");
         onCreated?.();
       }
     } finally {
@@ -221,6 +232,58 @@ export function AddPolicyForm({
             />
           </div>
         )}
+        {selectedName && (
+          <div>
+            <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+              Priority
+            </label>
+            <input
+              type="number"
+              step={1}
+              className="w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-sm px-3 py-2"
+              value={priority}
+              onChange={(e) => setPriority(e.target.value)}
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Policies with a higher priority are evaluated first.
+            </p>
+          </div>
+        )}
+        {selectedName && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                On failure
+              </label>
+              <select
+                className="w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-sm px-3 py-2"
+                value={failureMode}
+                onChange={(e) => setFailureMode(e.target.value as PolicyFailureMode | "")}
+              >
+                <option value="">Guardio default</option>
+                <option value="closed">Block the call (fail closed)</option>
+                <option value="open">Skip this policy (fail open)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                Timeout (ms)
+              </label>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                className="w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-sm px-3 py-2"
+                placeholder="Guardio default"
+                value={timeoutMs}
+                onChange={(e) => setTimeoutMs(e.target.value)}
+              />
+            </div>
+            <p className="sm:col-span-2 text-xs text-gray-500 dark:text-gray-400">
+              Applies when the policy throws an error or does not answer within the timeout.
+            </p>
+          </div>
+        )}
         {schema && (
           <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 bg-gray-50/50 dark:bg-gray-900/50">
             <Form
@@ -233,6 +296,7 @@ export function AddPolicyForm({
               widgets={{
                 PolicySummary: PolicySummaryWidget,
                 ToolParameterSelect: ToolParameterSelectWidget,
+                ExpressionEditor: ExpressionEditorWidget,
               }}
               onChange={({ formData: fd }) =>
                 setFormData((fd as Record<string, unknown>) ?? {})
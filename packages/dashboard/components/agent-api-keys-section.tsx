@@ -0,0 +1,179 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Copy, KeyRound } from "lucide-react";
+import {
+  createAgent,
+  createAgentApiKey,
+  fetchAgentApiKeys,
+  revokeAgentApiKey,
+  type DashboardAgentApiKey,
+} from "@/lib/guardio-api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { RelativeTime } from "@/components/relative-time";
+
+export function AgentApiKeysSection() {
+  const [keys, setKeys] = useState<DashboardAgentApiKey[] | null>(null);
+  const [unavailable, setUnavailable] = useState(false);
+  const [agentName, setAgentName] = useState("");
+  const [label, setLabel] = useState("");
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const info = await fetchAgentApiKeys();
+    setUnavailable(info == null);
+    setKeys(info?.keys ?? []);
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleIssue = async () => {
+    const name = agentName.trim();
+    if (!name) return;
+    setBusy(true);
+    setError(null);
+    try {
+      // Keys of the same agent share its identity, so reuse the agent when it already has keys.
+      const agentId =
+        keys?.find((k) => k.agentName === name)?.agentId ??
+        (await createAgent(name)).id;
+      const issued = await createAgentApiKey(agentId, label.trim() || undefined);
+      setIssuedKey(issued.key);
+      setLabel("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to issue API key");
+    } finally {
+      setBusy(false);
+      await load();
+    }
+  };
+
+  const handleRevoke = async (key: DashboardAgentApiKey) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await revokeAgentApiKey(key.agentId, key.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke API key");
+    } finally {
+      setBusy(false);
+      await load();
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-950 p-6">
+      <h2 className="text-lg font-semibold mb-1">API keys</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Agents send a key as <code className="font-mono">Authorization: Bearer &lt;key&gt;</code>{" "}
+        so policies apply to a proven identity.
+      </p>
+
+      {unavailable ? (
+        <p className="text-sm text-gray-500">
+          API keys are not available. Check that Guardio is running with a storage plugin that supports them.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center mb-4">
+            <Input
+              placeholder="Agent name"
+              value={agentName}
+              onChange={(e) => setAgentName(e.target.value)}
+              disabled={busy}
+            />
+            <Input
+              placeholder="Key label (optional)"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              disabled={busy}
+            />
+            <Button size="sm" onClick={() => void handleIssue()} disabled={busy || !agentName.trim()}>
+              <KeyRound />
+              Issue key
+            </Button>
+          </div>
+
+          {issuedKey && (
+            <div className="mb-4 rounded-md border border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-950 px-3 py-2 text-sm">
+              <p className="text-amber-900 dark:text-amber-100 mb-2">
+                Copy this key now; it will not be shown again.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 font-mono text-xs break-all">{issuedKey}</code>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => void navigator.clipboard.writeText(issuedKey)}
+                >
+                  <Copy />
+                  Copy
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setIssuedKey(null)}>
+                  Done
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-4 rounded-md border border-destructive/40 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          {keys == null ? (
+            <p className="text-sm text-gray-500">Loading…</p>
+          ) : keys.length === 0 ? (
+            <p className="text-sm text-gray-500">No API keys issued.</p>
+          ) : (
+            <ul className="space-y-3">
+              {keys.map((k) => (
+                <li
+                  key={k.id}
+                  className="p-3 rounded-lg bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-800"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                        {k.agentName}
+                        {k.name ? <span className="font-normal text-gray-500"> · {k.name}</span> : null}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        <span className="font-mono">{k.prefix}…</span> · created <RelativeTime date={k.createdAt} />
+                        {k.lastUsedAt ? (
+                          <>
+                            {" "}· last used <RelativeTime date={k.lastUsedAt} />
+                          </>
+                        ) : (
+                          " · never used"
+                        )}
+                      </div>
+                    </div>
+                    {k.revokedAt ? (
+                      <span className="text-xs text-gray-500">Revoked</span>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => void handleRevoke(k)}
+                        disabled={busy}
+                      >
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
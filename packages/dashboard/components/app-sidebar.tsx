@@ -4,16 +4,24 @@ import * as React from "react";
 import {
   Activity,
   GalleryVerticalEnd,
+  Inbox,
   LayoutDashboard,
   Network,
   Shield,
   FlaskConical,
+  LogOut,
 } from "lucide-react";
 
 import { NavMain, type NavGroup } from "@/components/nav-main";
+import {
+  fetchAuthStatus,
+  logout,
+  type DashboardPrincipal,
+} from "@/lib/guardio-api";
 import {
   Sidebar,
   SidebarContent,
+  SidebarFooter,
   SidebarHeader,
   SidebarMenu,
   SidebarMenuButton,
@@ -29,6 +37,7 @@ const navGroups: NavGroup[] = [
       { title: "Topology", url: "/dashboard/topology", icon: Network },
       { title: "Policies", url: "/dashboard/policies", icon: Shield },
       { title: "Activity", url: "/dashboard/activity", icon: Activity },
+      { title: "Approvals", url: "/dashboard/approvals", icon: Inbox },
     ],
   },
   {
@@ -47,6 +56,24 @@ const navGroups: NavGroup[] = [
 ];
 
 export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
+  const [user, setUser] = React.useState<DashboardPrincipal | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    // Also sends signed-out users to /login when Guardio requires authentication.
+    fetchAuthStatus().then((status) => {
+      if (!cancelled) setUser(status?.user ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleSignOut = async () => {
+    await logout();
+    window.location.assign("/login");
+  };
+
   return (
     <Sidebar collapsible="icon" {...props}>
       <SidebarHeader>
@@ -64,6 +91,21 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
       <SidebarContent>
         <NavMain groups={navGroups} />
       </SidebarContent>
+      {user && (
+        <SidebarFooter>
+          <SidebarMenu>
+            <SidebarMenuItem>
+              <SidebarMenuButton onClick={() => void handleSignOut()} tooltip="Sign out">
+                <LogOut />
+                <span className="truncate">
+                  Sign out {user.username}
+                  <span className="text-muted-foreground"> · {user.role}</span>
+                </span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          </SidebarMenu>
+        </SidebarFooter>
+      )}
       <SidebarRail />
     </Sidebar>
   );
@@ -0,0 +1,251 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { CheckCircle2, Clock, Inbox, XCircle } from "lucide-react";
+import {
+  fetchApprovals,
+  resolveApproval,
+  type DashboardApproval,
+  type DashboardApprovalStatus,
+} from "@/lib/guardio-api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { RelativeTime } from "@/components/relative-time";
+
+/** Pending approvals expire server-side, so the inbox polls for new and timed-out calls. */
+const REFRESH_INTERVAL_MS = 5000;
+
+const STATUS_FILTERS: { label: string; value: DashboardApprovalStatus | undefined }[] = [
+  { label: "Pending", value: "pending" },
+  { label: "All", value: undefined },
+];
+
+const STATUS_STYLES: Record<DashboardApprovalStatus, string> = {
+  pending:
+    "bg-amber-100 text-amber-900 dark:bg-amber-900/60 dark:text-amber-100",
+  approved:
+    "bg-emerald-100 text-emerald-900 dark:bg-emerald-900/60 dark:text-emerald-100",
+  rejected: "bg-red-100 text-red-900 dark:bg-red-900/60 dark:text-red-100",
+  expired: "bg-slate-200 text-slate-900 dark:bg-slate-800 dark:text-slate-100",
+};
+
+function ApprovalCard({
+  approval,
+  busy,
+  onResolve,
+}: {
+  approval: DashboardApproval;
+  busy: boolean;
+  onResolve: (action: "approve" | "reject", note: string) => void;
+}) {
+  const [note, setNote] = useState("");
+  const isPending = approval.status === "pending";
+
+  return (
+    <Card className="px-6 py-5 border border-gray-200 dark:border-gray-800">
+      <CardHeader className="px-0 pb-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <CardTitle className="flex items-center gap-2">
+              <code className="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-800 font-mono text-sm">
+                {approval.toolName}
+              </code>
+              <span className="text-sm font-normal text-muted-foreground">
+                on {approval.serverName}
+              </span>
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Requested by{" "}
+              <span className="font-medium">
+                {approval.agentNameSnapshot ?? approval.agentId ?? "unknown agent"}
+              </span>{" "}
+              · <RelativeTime date={approval.createdAt} />
+            </CardDescription>
+          </div>
+          <span
+            className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[approval.status]}`}
+          >
+            {approval.status}
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent className="px-0 pt-0 space-y-3">
+        <div className="text-sm">
+          <span className="text-muted-foreground">Policy </span>
+          <span className="font-medium">{approval.policyName}</span>
+          {approval.code && (
+            <span className="ml-2 font-mono text-xs text-muted-foreground">
+              {approval.code}
+            </span>
+          )}
+          {approval.reason && (
+            <p className="mt-1 text-gray-700 dark:text-gray-300">{approval.reason}</p>
+          )}
+        </div>
+
+        <div>
+          <p className="text-xs text-muted-foreground mb-1">Arguments</p>
+          <pre className="text-xs font-mono text-gray-900 dark:text-gray-100 bg-gray-100 dark:bg-gray-800 rounded p-3 overflow-x-auto">
+            {JSON.stringify(approval.arguments ?? {}, null, 2)}
+          </pre>
+        </div>
+
+        {isPending ? (
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+            <Input
+              placeholder="Note for the agent (optional)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              disabled={busy}
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => onResolve("approve", note)}
+                disabled={busy}
+              >
+                <CheckCircle2 />
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => onResolve("reject", note)}
+                disabled={busy}
+              >
+                <XCircle />
+                Reject
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            {approval.resolvedAt ? (
+              <>
+                Resolved <RelativeTime date={approval.resolvedAt} />
+              </>
+            ) : null}
+            {approval.note ? ` · ${approval.note}` : null}
+          </p>
+        )}
+
+        {isPending && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Clock className="size-3.5" />
+            Expires {new Date(approval.expiresAt).toLocaleTimeString()}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function ApprovalsPageContent() {
+  const [status, setStatus] = useState<DashboardApprovalStatus | undefined>(
+    "pending",
+  );
+  const [approvals, setApprovals] = useState<DashboardApproval[] | null>(null);
+  const [unavailable, setUnavailable] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const info = await fetchApprovals(status);
+    setUnavailable(info == null);
+    setApprovals(info?.approvals ?? []);
+  }, [status]);
+
+  useEffect(() => {
+    void load();
+    const interval = setInterval(() => void load(), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [load]);
+
+  const handleResolve = async (
+    approval: DashboardApproval,
+    action: "approve" | "reject",
+    note: string,
+  ) => {
+    setBusyId(approval.id);
+    setError(null);
+    try {
+      await resolveApproval(approval.id, action, note.trim() || undefined);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : `Failed to ${action} request`,
+      );
+    } finally {
+      setBusyId(null);
+      await load();
+    }
+  };
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+            Approvals
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Tool calls held by a policy until someone approves or rejects them.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {STATUS_FILTERS.map((f) => (
+            <Button
+              key={f.label}
+              size="sm"
+              variant={status === f.value ? "default" : "outline"}
+              onClick={() => setStatus(f.value)}
+            >
+              {f.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-destructive/40 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      {approvals == null ? (
+        <Card className="h-40 animate-pulse bg-muted" />
+      ) : unavailable ? (
+        <p className="text-sm text-muted-foreground">
+          Approvals are not available. Check that Guardio is running with a
+          storage plugin that supports them.
+        </p>
+      ) : approvals.length === 0 ? (
+        <div className="flex flex-col items-center justify-center gap-2 rounded-xl border border-dashed border-gray-200 dark:border-gray-800 py-12 text-sm text-muted-foreground">
+          <Inbox className="size-6" />
+          {status === "pending"
+            ? "No tool calls are waiting for approval."
+            : "No approvals yet."}
+        </div>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {approvals.map((approval) => (
+            <ApprovalCard
+              key={approval.id}
+              approval={approval}
+              busy={busyId === approval.id}
+              onResolve={(action, note) =>
+                void handleResolve(approval, action, note)
+              }
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import validator from "@rjsf/validator-ajv8";
 import type {
   DashboardConnectionInfo,
   DashboardPolicyEntry,
+  PolicyFailureMode,
 } from "@/lib/guardio-api";
 import {
   fetchPoliciesInfo,
@@ -21,6 +22,7 @@ import {
   type PolicySummaryFormContext,
 } from "@/components/widgets/policy-summary-widget";
 import { ToolParameterSelectWidget } from "@/components/widgets/tool-parameter-select-widget";
+import { ExpressionEditorWidget } from "@/components/widgets/expression-editor-widget";
 
 const hasConfigSchema = (p: DashboardPolicyEntry) =>
   p.configSchema != null && Object.keys(p.configSchema).length > 0;
@@ -90,6 +92,13 @@ export function EditPolicyForm({
       : {},
   );
   const [instanceName, setInstanceName] = useState(instance.name ?? "");
+  const [priority, setPriority] = useState(String(instance.priority ?? 0));
+  const [failureMode, setFailureMode] = useState<PolicyFailureMode | "">(
+    instance.failureMode ?? "",
+  );
+  const [timeoutMs, setTimeoutMs] = useState(
+    instance.timeoutMs != null ? String(instance.timeoutMs) : "",
+  );
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -118,6 +127,9 @@ export function EditPolicyForm({
         name: instanceName.trim() || undefined,
         agentId: assignment?.agentId ?? undefined,
         toolName: assignment?.toolName ?? undefined,
+        priority: Number(priority) || 0,
+        failureMode: failureMode || null,
+        timeoutMs: timeoutMs.trim() ? Number(timeoutMs) : null,
       });
       onSaved?.();
     } catch (e) {
@@ -136,6 +148,9 @@ export function EditPolicyForm({
         : {},
     );
     setInstanceName(instance.name ?? "");
+    setPriority(String(instance.priority ?? 0));
+    setFailureMode(instance.failureMode ?? "");
+    setTimeoutMs(instance.timeoutMs != null ? String(instance.timeoutMs) : "");
     setError(null);
   };
 
@@ -147,7 +162,7 @@ export function EditPolicyForm({
     <div className="rounded-xl border border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-950 p-4 mb-6">
       <h3 className="font-semibold text-sm mb-3">Edit policy instance</h3>
       <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
-        Policy type cannot be changed. Update the assignment, name, and config
+        Policy type cannot be changed. Update the assignment, name, priority, failure handling, and config
         below.
       </p>
       <div className="space-y-4">
@@ -171,6 +186,54 @@ export function EditPolicyForm({
             onChange={(e) => setInstanceName(e.target.value)}
           />
         </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+            Priority
+          </label>
+          <input
+            type="number"
+            step={1}
+            className="w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-sm px-3 py-2"
+            value={priority}
+            onChange={(e) => setPriority(e.target.value)}
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Policies with a higher priority are evaluated first.
+          </p>
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+              On failure
+            </label>
+            <select
+              className="w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-sm px-3 py-2"
+              value={failureMode}
+              onChange={(e) => setFailureMode(e.target.value as PolicyFailureMode | "")}
+            >
+              <option value="">Guardio default</option>
+              <option value="closed">Block the call (fail closed)</option>
+              <option value="open">Skip this policy (fail open)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+              Timeout (ms)
+            </label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              className="w-full rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-sm px-3 py-2"
+              placeholder="Guardio default"
+              value={timeoutMs}
+              onChange={(e) => setTimeoutMs(e.target.value)}
+            />
+          </div>
+          <p className="sm:col-span-2 text-xs text-gray-500 dark:text-gray-400">
+            Applies when the policy throws an error or does not answer within the timeout.
+          </p>
+        </div>
         {schema && (
           <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 bg-gray-50/50 dark:bg-gray-900/50">
             <Form
@@ -183,6 +246,7 @@ export function EditPolicyForm({
               widgets={{
                 PolicySummary: PolicySummaryWidget,
                 ToolParameterSelect: ToolParameterSelectWidget,
+                ExpressionEditor: ExpressionEditorWidget,
               }}
               onChange={({ formData: fd }) =>
                 setFormData((fd as Record<string, unknown>) ?? {})
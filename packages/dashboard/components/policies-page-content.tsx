@@ -111,7 +111,8 @@ export function PoliciesPageContent() {
     );
   }
 
-  const list = instances ?? [];
+  // Same order Guardio evaluates them in: highest priority first.
+  const list = [...(instances ?? [])].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
   const isEmpty = list.length === 0;
 
   return (
@@ -152,6 +153,7 @@ export function PoliciesPageContent() {
                     <th className="text-left font-medium py-3 px-4">Type</th>
                     <th className="text-left font-medium py-3 px-4">Agents</th>
                     <th className="text-left font-medium py-3 px-4">Tools</th>
+                    <th className="text-left font-medium py-3 px-4">Priority</th>
                     <th className="w-10 py-3 px-4" aria-label="Actions" />
                   </tr>
                 </thead>
@@ -190,6 +192,9 @@ export function PoliciesPageContent() {
                       <td className="py-3 px-4 text-muted-foreground">
                         {summarizeTools(inst.assignments)}
                       </td>
+                      <td className="py-3 px-4 text-muted-foreground tabular-nums">
+                        {inst.priority ?? 0}
+                      </td>
                       <td className="py-3 px-4" onClick={(e) => e.stopPropagation()}>
                         <button
                           type="button"
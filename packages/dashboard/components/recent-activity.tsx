@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from "react";
 import Link from "next/link";
-import { ChevronRight, CheckCircle2, XCircle, Shield } from "lucide-react";
+import { AlertTriangle, ChevronRight, CheckCircle2, XCircle, Shield } from "lucide-react";
 import { fetchEvents } from "@/lib/guardio-api";
 import { RelativeTime } from "./relative-time";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
@@ -10,7 +10,7 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 export interface ActivityEntry {
   id: string;
   timestamp: string;
-  type: "allowed" | "denied";
+  type: "allowed" | "denied" | "flagged";
   agent: string;
   tool: string;
   policy?: string;
@@ -40,7 +40,12 @@ function mapEventToActivity(e: {
   return {
     id: e.eventId,
     timestamp: e.timestamp,
-    type: e.decision === "BLOCKED" ? "denied" : "allowed",
+    type:
+      e.decision === "BLOCKED"
+        ? "denied"
+        : e.decision === "FLAGGED"
+          ? "flagged"
+          : "allowed",
     agent: e.agentNameSnapshot ?? e.agentId ?? "Unknown",
     tool: e.actionType ?? e.eventType ?? "—",
     policy: e.policyEvaluation?.policyName,
@@ -71,6 +76,7 @@ export function RecentActivity() {
   }, []);
 
   const allowedCount = activities.filter((a) => a.type === "allowed").length;
+  const flaggedCount = activities.filter((a) => a.type === "flagged").length;
   const recentFive = activities.slice(0, 5);
 
   return (
@@ -84,7 +90,7 @@ export function RecentActivity() {
             <p className="text-xs text-gray-500 dark:text-gray-400">
               {loading
                 ? "Loading…"
-                : `${allowedCount} allowed, ${activities.length - allowedCount} denied recently`}
+                : `${allowedCount} allowed, ${flaggedCount} flagged, ${activities.length - allowedCount - flaggedCount} denied recently`}
             </p>
           </div>
           <Link
@@ -121,6 +127,8 @@ export function RecentActivity() {
                   <div className="shrink-0 mt-0.5">
                     {activity.type === "allowed" ? (
                       <CheckCircle2 className="size-5 text-green-600 dark:text-green-400" />
+                    ) : activity.type === "flagged" ? (
+                      <AlertTriangle className="size-5 text-amber-600 dark:text-amber-400" />
                     ) : (
                       <XCircle className="size-5 text-red-600 dark:text-red-400" />
                     )}
@@ -130,7 +138,11 @@ export function RecentActivity() {
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center justify-between gap-2 mb-2">
                       <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                        {activity.type === "allowed" ? "Allowed" : "Denied"}{" "}
+                        {activity.type === "allowed"
+                          ? "Allowed"
+                          : activity.type === "flagged"
+                            ? "Flagged"
+                            : "Denied"}{" "}
                         <span className="text-gray-700 dark:text-gray-300">
                           agent
                         </span>
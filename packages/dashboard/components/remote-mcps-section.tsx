@@ -75,13 +75,32 @@ export function RemoteMcpsSection({ info }: RemoteMcpsProps) {
                       {client.listenPort}/{mcp.name}/sse
                     </div>
                   )}
-                  {mcp.remotePostUrl ? (
+                  {mcp.name != null && client?.listenPort != null && (
+                    <div
+                      className="text-xs text-gray-500 dark:text-gray-400 truncate mb-1"
+                      title={`http://${client?.listenHost ?? "127.0.0.1"}:${client.listenPort}/${mcp.name}/mcp`}
+                    >
+                      Streamable HTTP: http://{client?.listenHost ?? "127.0.0.1"}:
+                      {client.listenPort}/{mcp.name}/mcp
+                    </div>
+                  )}
+                  {mcp.process ? (
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      stdio process {mcp.process.status}
+                      {mcp.process.restarts > 0 &&
+                        ` · ${mcp.process.restarts} restart${mcp.process.restarts === 1 ? "" : "s"}`}
+                    </div>
+                  ) : mcp.remotePostUrl ? (
                     <div
                       className="text-xs text-gray-500 dark:text-gray-400 truncate"
                       title={mcp.remotePostUrl}
                     >
                       POST {mcp.remotePostUrl}
                     </div>
+                  ) : mcp.connected ? (
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      Streamable HTTP endpoint
+                    </div>
                   ) : (
                     <div className="text-xs text-amber-600 dark:text-amber-400">
                       Endpoint not yet discovered
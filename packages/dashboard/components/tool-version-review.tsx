@@ -0,0 +1,126 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CheckCircle2 } from "lucide-react";
+import {
+  approveToolVersion,
+  fetchToolVersions,
+  type DashboardToolVersion,
+  type DashboardToolVersionsInfo,
+} from "@/lib/guardio-api";
+import { Button } from "@/components/ui/button";
+import { RelativeTime } from "@/components/relative-time";
+
+type DiffLine = { kind: "same" | "added" | "removed"; text: string };
+
+/** Line diff (longest common subsequence); definitions are small, so O(n·m) is fine. */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      lines.push({ kind: "same", text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ kind: "removed", text: before[i++] });
+    } else {
+      lines.push({ kind: "added", text: after[j++] });
+    }
+  }
+  while (i < before.length) lines.push({ kind: "removed", text: before[i++] });
+  while (j < after.length) lines.push({ kind: "added", text: after[j++] });
+  return lines;
+}
+
+function definitionLines(version: DashboardToolVersion | undefined): string[] {
+  return version ? JSON.stringify(version.definition, null, 2).split("\n") : [];
+}
+
+const LINE_STYLES: Record<DiffLine["kind"], string> = {
+  same: "text-gray-700 dark:text-gray-300",
+  added: "bg-emerald-100 text-emerald-900 dark:bg-emerald-900/50 dark:text-emerald-100",
+  removed: "bg-red-100 text-red-900 dark:bg-red-900/50 dark:text-red-100",
+};
+
+const LINE_PREFIX: Record<DiffLine["kind"], string> = { same: " ", added: "+", removed: "-" };
+
+/** Diff between a tool's last approved and current definition, with an Approve button. */
+export function ToolVersionReview({
+  serverName,
+  toolName,
+  onApproved,
+}: {
+  serverName: string;
+  toolName: string;
+  onApproved: () => void;
+}) {
+  const [info, setInfo] = useState<DashboardToolVersionsInfo | null | undefined>(undefined);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchToolVersions(serverName, toolName).then((data) => {
+      if (!cancelled) setInfo(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [serverName, toolName]);
+
+  if (info === undefined) return <p className="text-xs text-gray-500 mt-2">Loading versions…</p>;
+  if (info === null || info.versions.length === 0) {
+    return <p className="text-xs text-gray-500 mt-2">Version history not available.</p>;
+  }
+
+  const current = info.versions[0];
+  const approved = info.versions.find((v) => v.approvedAt != null);
+
+  const handleApprove = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await approveToolVersion(serverName, toolName);
+      onApproved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to approve tool definition");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        {approved ? `Approved v${approved.version}` : "No approved version"} → current v
+        {current.version}, first seen <RelativeTime date={current.firstSeenAt} />
+        {info.blockChanged && current.approvedAt == null && " · calls are blocked until approved"}
+      </p>
+      <pre className="text-xs font-mono bg-gray-100 dark:bg-gray-800 rounded p-2 overflow-x-auto">
+        {diffLines(definitionLines(approved), definitionLines(current)).map((line, idx) => (
+          <div key={idx} className={LINE_STYLES[line.kind]}>
+            {LINE_PREFIX[line.kind]} {line.text}
+          </div>
+        ))}
+      </pre>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {current.approvedAt == null && (
+        <Button size="sm" onClick={handleApprove} disabled={busy}>
+          <CheckCircle2 />
+          Approve v{current.version}
+        </Button>
+      )}
+    </div>
+  );
+}
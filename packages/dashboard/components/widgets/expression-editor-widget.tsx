@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { WidgetProps } from "@rjsf/utils";
+import {
+  validatePolicyExpression,
+  type ExpressionValidation,
+} from "@/lib/guardio-api";
+
+/** Wait this long after the last keystroke before asking Guardio to check the expression. */
+const VALIDATE_DELAY_MS = 300;
+
+/**
+ * RJSF widget for an expression policy rule (rules[].when). Checks the syntax with Guardio as
+ * the user types and points at the position of the first error.
+ */
+export function ExpressionEditorWidget(props: WidgetProps) {
+  const { value, onChange, onBlur, onFocus, id, required, readonly, disabled, placeholder } = props;
+  const text = value === undefined || value === null ? "" : String(value);
+  const [checked, setChecked] = useState<{
+    text: string;
+    result: ExpressionValidation | null;
+  } | null>(null);
+  // Only show the result for the text currently in the editor.
+  const result = checked?.text === text ? checked.result : null;
+
+  useEffect(() => {
+    if (!text.trim()) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      void validatePolicyExpression(text).then((validation) => {
+        if (!cancelled) setChecked({ text, result: validation });
+      });
+    }, VALIDATE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [text]);
+
+  const invalid = result?.valid === false;
+
+  return (
+    <div className="space-y-1">
+      <textarea
+        id={id}
+        rows={2}
+        spellCheck={false}
+        className={`w-full rounded-lg border ${
+          invalid ? "border-red-500" : "border-gray-300 dark:border-gray-700"
+        } bg-white dark:bg-gray-900 font-mono text-sm px-3 py-2 text-foreground disabled:opacity-50`}
+        value={text}
+        placeholder={placeholder}
+        required={required}
+        readOnly={readonly}
+        disabled={disabled}
+        aria-invalid={invalid}
+        aria-describedby={id ? `${id}__check` : undefined}
+        onChange={(e) => onChange(e.target.value === "" ? undefined : e.target.value)}
+        onBlur={() => onBlur(id, text)}
+        onFocus={() => onFocus(id, text)}
+      />
+      {result?.valid === false ? (
+        <div id={id ? `${id}__check` : undefined} className="text-xs text-red-600 dark:text-red-400">
+          <p>
+            {result.error} (at character {result.position + 1})
+          </p>
+          <pre className="mt-1 font-mono whitespace-pre-wrap">
+            {text}
+            {"\n"}
+            {" ".repeat(result.position)}^
+          </pre>
+        </div>
+      ) : (
+        <p id={id ? `${id}__check` : undefined} className="text-xs text-muted-foreground">
+          {result?.valid
+            ? "Expression is valid."
+            : "Use tool, args, agent, server and time, e.g. args.amount > 1000."}
+        </p>
+      )}
+    </div>
+  );
+}
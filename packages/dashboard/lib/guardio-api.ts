@@ -4,6 +4,78 @@ export interface RemoteMcpToolInfo {
   description?: string;
   title?: string;
   inputSchema?: object;
+  /** Pinned definition state; absent when tool pinning is off or unsupported by storage. */
+  pinning?: RemoteMcpToolPinning;
+  /** Poisoning scan of the definition; absent when the tool scanner is off. */
+  risk?: RemoteMcpToolRisk;
+}
+
+/** A hidden instruction found in a tool definition. */
+export interface RemoteMcpToolRiskFinding {
+  rule: string;
+  /** e.g. "description" or "inputSchema.properties.path.description". */
+  field: string;
+  excerpt: string;
+}
+
+/** Risk score (0-100) of a tool definition from the poisoning scanner. */
+export interface RemoteMcpToolRisk {
+  score: number;
+  findings: RemoteMcpToolRiskFinding[];
+  /** Removed from tools/list and blocked for agents. */
+  quarantined: boolean;
+}
+
+/** Pinning state of a tool: its current definition version and whether that is approved. */
+export interface RemoteMcpToolPinning {
+  version: number;
+  fingerprint: string;
+  /** False when the definition changed and an operator has not re-approved it yet. */
+  approved: boolean;
+  changedAt: string;
+  /** Latest approved version, when it is not the current one. */
+  approvedVersion?: number;
+}
+
+/** One stored version of a tool definition. */
+export interface DashboardToolVersion {
+  version: number;
+  fingerprint: string;
+  definition: {
+    name: string;
+    title?: string;
+    description?: string;
+    inputSchema?: object;
+  };
+  firstSeenAt: string;
+  approvedAt: string | null;
+  approvedBy: string | null;
+}
+
+export interface DashboardToolVersionsInfo {
+  serverName: string;
+  toolName: string;
+  /** Newest first. */
+  versions: DashboardToolVersion[];
+  /** Whether calls to a tool with an unapproved version are blocked. */
+  blockChanged: boolean;
+}
+
+/** Lifecycle of a spawned (type "command") MCP server process. */
+export type RemoteMcpProcessStatus = "starting" | "running" | "restarting" | "stopped";
+
+/** State of a spawned MCP server process. */
+export interface RemoteMcpProcessInfo {
+  status: RemoteMcpProcessStatus;
+  pid: number | null;
+  /** Restarts after the process exited unexpectedly. */
+  restarts: number;
+  startedAt: string | null;
+  lastExitCode: number | null;
+  lastExitSignal: string | null;
+  lastError: string | null;
+  /** When the next restart is scheduled (status "restarting"). */
+  nextRestartAt: string | null;
 }
 
 /**
@@ -12,9 +84,14 @@ export interface RemoteMcpToolInfo {
 export interface RemoteMcpInfo {
   /** Server name (mcp-id); used for path /{name}/sse. */
   name?: string;
+  /** Upstream transport from config. */
+  type?: "url" | "command";
+  /** Upstream URL; for command servers, the command line. */
   remoteUrl: string;
   remotePostUrl: string | null;
   connected: boolean;
+  /** Present for command servers. */
+  process?: RemoteMcpProcessInfo;
   /** Cached from upstream tools/list when available. */
   tools?: RemoteMcpToolInfo[];
 }
@@ -51,9 +128,11 @@ export interface DashboardConnectionInfo {
   /** Remote MCP servers. */
   servers?: Array<{
     name: string;
+    type?: "url" | "command";
     remoteUrl: string;
     remotePostUrl: string | null;
     connected: boolean;
+    process?: RemoteMcpProcessInfo;
     tools?: RemoteMcpToolInfo[];
   }>;
   /** Active SSE clients (agents). */
@@ -72,9 +151,11 @@ export function getRemoteMcps(info: DashboardConnectionInfo | null): RemoteMcpIn
   if (!info?.servers?.length) return [];
   return info.servers.map((s) => ({
     name: s.name,
+    type: s.type,
     remoteUrl: s.remoteUrl,
     remotePostUrl: s.remotePostUrl,
     connected: s.connected,
+    process: s.process,
     tools: s.tools,
   }));
 }
@@ -84,6 +165,33 @@ const defaultBaseUrl =
     ? process.env.NEXT_PUBLIC_GUARDIO_API_URL
     : "http://127.0.0.1:3939";
 
+const AUTH_TOKEN_STORAGE_KEY = "guardio.authToken";
+
+/** Session or static token sent to Guardio's /api/* (stored by login). */
+export function getAuthToken(): string | null {
+  if (typeof window === "undefined") return null;
+  return window.localStorage.getItem(AUTH_TOKEN_STORAGE_KEY);
+}
+
+function setAuthToken(token: string | null): void {
+  if (typeof window === "undefined") return;
+  if (token) window.localStorage.setItem(AUTH_TOKEN_STORAGE_KEY, token);
+  else window.localStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+}
+
+/** fetch() for Guardio's API: sends the stored token; a 401 drops it and redirects to /login. */
+async function guardioFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const token = getAuthToken();
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+  const res = await fetch(url, { ...init, headers });
+  if (res.status === 401 && typeof window !== "undefined" && window.location.pathname !== "/login") {
+    setAuthToken(null);
+    window.location.assign(`/login?next=${encodeURIComponent(window.location.pathname)}`);
+  }
+  return res;
+}
+
 export function getGuardioConnectionUrl(): string {
   const base = defaultBaseUrl.replace(/\/$/, "");
   return `${base}/api/connection`;
@@ -91,7 +199,7 @@ export function getGuardioConnectionUrl(): string {
 
 export async function fetchConnectionInfo(): Promise<DashboardConnectionInfo | null> {
   try {
-    const res = await fetch(getGuardioConnectionUrl(), {
+    const res = await guardioFetch(getGuardioConnectionUrl(), {
       cache: "no-store",
       headers: { Accept: "application/json" },
     });
@@ -125,7 +233,7 @@ export function getGuardioPoliciesUrl(): string {
 
 export async function fetchPoliciesInfo(): Promise<DashboardPoliciesInfo | null> {
   try {
-    const res = await fetch(getGuardioPoliciesUrl(), {
+    const res = await guardioFetch(getGuardioPoliciesUrl(), {
       cache: "no-store",
       headers: { Accept: "application/json" },
     });
@@ -136,12 +244,39 @@ export async function fetchPoliciesInfo(): Promise<DashboardPoliciesInfo | null>
   }
 }
 
+/** Syntax check result for an expression policy rule; position is a 0-based character offset. */
+export type ExpressionValidation =
+  | { valid: true }
+  | { valid: false; error: string; position: number };
+
+/** Check an expression policy rule (POST /api/policies/validate-expression); null when Guardio is unreachable. */
+export async function validatePolicyExpression(
+  expression: string,
+): Promise<ExpressionValidation | null> {
+  try {
+    const res = await guardioFetch(`${getGuardioPoliciesUrl()}/validate-expression`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({ expression }),
+    });
+    if (!res.ok) return null;
+    return (await res.json()) as ExpressionValidation;
+  } catch {
+    return null;
+  }
+}
+
 /** Single assignment scope (agent + tool) for a policy instance. */
 export interface DashboardPolicyAssignmentScope {
   agentId: string | null;
   toolName: string | null;
+  /** Evaluation order: higher runs first. */
+  priority: number;
 }
 
+/** What happens to a call when a policy throws or times out: "closed" blocks it, "open" skips the policy. */
+export type PolicyFailureMode = "open" | "closed";
+
 /** Policy instance (from GET /api/policy-instances). */
 export interface DashboardPolicyInstance {
   id: string;
@@ -149,6 +284,12 @@ export interface DashboardPolicyInstance {
   name?: string;
   config: unknown;
   isEnabled: boolean;
+  /** Highest priority of its assignments (0 when it has none). */
+  priority: number;
+  /** Failure mode override; omitted when the instance uses Guardio's default. */
+  failureMode?: PolicyFailureMode;
+  /** Evaluation timeout override in milliseconds; omitted when it uses Guardio's default. */
+  timeoutMs?: number;
   /** Assignment rows for this instance. Omitted when empty. */
   assignments?: DashboardPolicyAssignmentScope[];
 }
@@ -164,7 +305,7 @@ export function getGuardioPolicyInstancesUrl(): string {
 
 export async function fetchPolicyInstances(): Promise<DashboardPolicyInstancesInfo | null> {
   try {
-    const res = await fetch(getGuardioPolicyInstancesUrl(), {
+    const res = await guardioFetch(getGuardioPolicyInstancesUrl(), {
       cache: "no-store",
       headers: { Accept: "application/json" },
     });
@@ -183,6 +324,12 @@ export interface CreatePolicyInstanceBody {
   /** When omitted, policy is globally assigned. When provided, creates that assignment. */
   agentId?: string | null;
   toolName?: string | null;
+  /** Evaluation order: higher runs first. Default 0. */
+  priority?: number;
+  /** null or omitted uses Guardio's default. */
+  failureMode?: PolicyFailureMode | null;
+  /** Evaluation timeout in milliseconds; null or omitted uses Guardio's default. */
+  timeoutMs?: number | null;
 }
 
 /** Result of creating a policy instance. */
@@ -193,7 +340,7 @@ export type CreatePolicyInstanceResult =
 export async function createPolicyInstance(
   body: CreatePolicyInstanceBody,
 ): Promise<CreatePolicyInstanceResult> {
-  const res = await fetch(getGuardioPolicyInstancesUrl(), {
+  const res = await guardioFetch(getGuardioPolicyInstancesUrl(), {
     method: "POST",
     headers: { "Content-Type": "application/json", Accept: "application/json" },
     body: JSON.stringify(body),
@@ -209,7 +356,7 @@ export async function fetchPolicyInstance(
   id: string,
 ): Promise<DashboardPolicyInstance | null> {
   try {
-    const res = await fetch(`${getGuardioPolicyInstancesUrl()}/${id}`, {
+    const res = await guardioFetch(`${getGuardioPolicyInstancesUrl()}/${id}`, {
       cache: "no-store",
       headers: { Accept: "application/json" },
     });
@@ -226,13 +373,19 @@ export interface UpdatePolicyInstanceBody {
   name?: string;
   agentId?: string | null;
   toolName?: string | null;
+  /** When omitted, the current priority is kept. */
+  priority?: number;
+  /** When omitted, the current failure mode is kept; null goes back to Guardio's default. */
+  failureMode?: PolicyFailureMode | null;
+  /** When omitted, the current timeout is kept; null goes back to Guardio's default. */
+  timeoutMs?: number | null;
 }
 
 export async function updatePolicyInstance(
   id: string,
   body: UpdatePolicyInstanceBody,
 ): Promise<void> {
-  const res = await fetch(`${getGuardioPolicyInstancesUrl()}/${id}`, {
+  const res = await guardioFetch(`${getGuardioPolicyInstancesUrl()}/${id}`, {
     method: "PATCH",
     headers: { "Content-Type": "application/json", Accept: "application/json" },
     body: JSON.stringify(body),
@@ -251,7 +404,7 @@ export async function updatePolicyInstance(
 }
 
 export async function deletePolicyInstance(policyInstanceId: string): Promise<void> {
-  const res = await fetch(`${getGuardioPolicyInstancesUrl()}/${policyInstanceId}`, {
+  const res = await guardioFetch(`${getGuardioPolicyInstancesUrl()}/${policyInstanceId}`, {
     method: "DELETE",
     headers: { Accept: "application/json" },
   });
@@ -286,7 +439,7 @@ export function getGuardioSimulationUrl(): string {
 
 export async function fetchSimulationSettings(): Promise<DashboardSimulationSettings | null> {
   try {
-    const res = await fetch(getGuardioSimulationUrl(), {
+    const res = await guardioFetch(getGuardioSimulationUrl(), {
       cache: "no-store",
       headers: { Accept: "application/json" },
     });
@@ -300,7 +453,7 @@ export async function fetchSimulationSettings(): Promise<DashboardSimulationSett
 export async function updateSimulationSettings(
   body: DashboardSimulationSettings,
 ): Promise<{ error?: string } | void> {
-  const res = await fetch(getGuardioSimulationUrl(), {
+  const res = await guardioFetch(getGuardioSimulationUrl(), {
     method: "PUT",
     headers: { "Content-Type": "application/json", Accept: "application/json" },
     body: JSON.stringify(body),
@@ -316,6 +469,14 @@ export async function updateSimulationSettings(
   }
 }
 
+/** A policy that threw or timed out while evaluating a call. */
+export interface DashboardPolicyFailure {
+  policyName: string;
+  errorCode: string;
+  message: string;
+  failureMode: PolicyFailureMode;
+}
+
 /** Single event from GET /api/events (guardio_events for activity feed). */
 export interface DashboardActivityEvent {
   eventId: string;
@@ -324,8 +485,20 @@ export interface DashboardActivityEvent {
   actionType?: string | null;
   agentId?: string | null;
   agentNameSnapshot?: string | null;
+  /** ALLOWED, BLOCKED, MODIFIED or FLAGGED (forwarded but marked suspicious by a policy). */
   decision?: string | null;
-  policyEvaluation?: { policyName?: string; code?: string; reason?: string } | null;
+  policyEvaluation?: {
+    policyName?: string;
+    code?: string;
+    reason?: string;
+    metadata?: Record<string, unknown>;
+    /** Policies that threw or timed out on this call. */
+    failures?: DashboardPolicyFailure[];
+    /** On a FLAGGED event: the policy that also modified the arguments or result. */
+    modification?: { policyName: string; code?: string; reason?: string };
+  } | null;
+  /** POLICY_TIMEOUT or POLICY_ERROR when a policy failed on this call. */
+  errorCode?: string | null;
   simulation?: {
     enabled: boolean;
     source?: "global" | "header";
@@ -336,14 +509,24 @@ export interface DashboardEventsInfo {
   events: DashboardActivityEvent[];
 }
 
-export function getGuardioEventsUrl(): string {
+/** Optional filters for GET /api/events. */
+export interface FetchEventsOptions {
+  decision?: "ALLOWED" | "BLOCKED" | "MODIFIED" | "FLAGGED";
+}
+
+export function getGuardioEventsUrl(options: FetchEventsOptions = {}): string {
   const base = defaultBaseUrl.replace(/\/$/, "");
-  return `${base}/api/events`;
+  const query = options.decision
+    ? `?decision=${encodeURIComponent(options.decision)}`
+    : "";
+  return `${base}/api/events${query}`;
 }
 
-export async function fetchEvents(): Promise<DashboardEventsInfo | null> {
+export async function fetchEvents(
+  options: FetchEventsOptions = {},
+): Promise<DashboardEventsInfo | null> {
   try {
-    const res = await fetch(getGuardioEventsUrl(), {
+    const res = await guardioFetch(getGuardioEventsUrl(options), {
       cache: "no-store",
       headers: { Accept: "application/json" },
     });
@@ -363,3 +546,255 @@ export async function fetchEvent(
   return event;
 }
 
+
+/** Status of a parked tools/call in the approvals inbox. */
+export type DashboardApprovalStatus = "pending" | "approved" | "rejected" | "expired";
+
+/** Single approval from GET /api/approvals (tools/call parked by a "negotiate" verdict). */
+export interface DashboardApproval {
+  id: string;
+  status: DashboardApprovalStatus;
+  serverName: string;
+  toolName: string;
+  agentId: string | null;
+  agentNameSnapshot: string | null;
+  requestId: string | number | null;
+  /** Tool arguments that will be forwarded upstream on approval. */
+  arguments?: unknown;
+  policyName: string;
+  code: string | null;
+  reason: string | null;
+  metadata: Record<string, unknown> | null;
+  note: string | null;
+  createdAt: string;
+  expiresAt: string;
+  resolvedAt: string | null;
+}
+
+export interface DashboardApprovalsInfo {
+  approvals: DashboardApproval[];
+}
+
+export function getGuardioApprovalsUrl(): string {
+  const base = defaultBaseUrl.replace(/\/$/, "");
+  return `${base}/api/approvals`;
+}
+
+export async function fetchApprovals(
+  status?: DashboardApprovalStatus,
+): Promise<DashboardApprovalsInfo | null> {
+  const query = status ? `?status=${encodeURIComponent(status)}` : "";
+  try {
+    const res = await guardioFetch(`${getGuardioApprovalsUrl()}${query}`, {
+      cache: "no-store",
+      headers: { Accept: "application/json" },
+    });
+    if (!res.ok) return null;
+    return (await res.json()) as DashboardApprovalsInfo;
+  } catch {
+    return null;
+  }
+}
+
+/** Approve or reject a pending approval. Throws with the API error message on failure. */
+export async function resolveApproval(
+  id: string,
+  action: "approve" | "reject",
+  note?: string,
+): Promise<DashboardApproval> {
+  const res = await guardioFetch(`${getGuardioApprovalsUrl()}/${id}/${action}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify(note ? { note } : {}),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    let message: string;
+    try {
+      const json = JSON.parse(text) as { error?: string };
+      message = json.error ?? res.statusText;
+    } catch {
+      message = text || res.statusText;
+    }
+    throw new Error(message);
+  }
+  return (await res.json()) as DashboardApproval;
+}
+
+/** Agent registered via POST /api/agents. */
+export interface DashboardAgent {
+  id: string;
+  name: string;
+}
+
+/** Agent API key; the key itself is only returned once, by createAgentApiKey. */
+export interface DashboardAgentApiKey {
+  id: string;
+  agentId: string;
+  agentName: string;
+  name: string | null;
+  /** First characters of the key, to tell keys apart. */
+  prefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+export interface DashboardAgentApiKeysInfo {
+  keys: DashboardAgentApiKey[];
+}
+
+export interface DashboardIssuedAgentApiKey {
+  key: string;
+  apiKey: DashboardAgentApiKey;
+}
+
+function getGuardioApiBaseUrl(): string {
+  return `${defaultBaseUrl.replace(/\/$/, "")}/api`;
+}
+
+async function apiError(res: Response): Promise<Error> {
+  const text = await res.text();
+  try {
+    const json = JSON.parse(text) as { error?: string };
+    return new Error(json.error ?? res.statusText);
+  } catch {
+    return new Error(text || res.statusText);
+  }
+}
+
+export async function fetchAgentApiKeys(): Promise<DashboardAgentApiKeysInfo | null> {
+  try {
+    const res = await guardioFetch(`${getGuardioApiBaseUrl()}/agent-keys`, {
+      cache: "no-store",
+      headers: { Accept: "application/json" },
+    });
+    if (!res.ok) return null;
+    return (await res.json()) as DashboardAgentApiKeysInfo;
+  } catch {
+    return null;
+  }
+}
+
+/** Register an agent so a key can be issued before it connects. Throws with the API error message on failure. */
+export async function createAgent(name: string): Promise<DashboardAgent> {
+  const res = await guardioFetch(`${getGuardioApiBaseUrl()}/agents`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify({ name }),
+  });
+  if (!res.ok) throw await apiError(res);
+  return (await res.json()) as DashboardAgent;
+}
+
+/** Issue an API key for the agent. The returned key cannot be retrieved again. */
+export async function createAgentApiKey(
+  agentId: string,
+  name?: string,
+): Promise<DashboardIssuedAgentApiKey> {
+  const res = await guardioFetch(`${getGuardioApiBaseUrl()}/agents/${agentId}/keys`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify(name ? { name } : {}),
+  });
+  if (!res.ok) throw await apiError(res);
+  return (await res.json()) as DashboardIssuedAgentApiKey;
+}
+
+export async function revokeAgentApiKey(
+  agentId: string,
+  keyId: string,
+): Promise<DashboardAgentApiKey> {
+  const res = await guardioFetch(`${getGuardioApiBaseUrl()}/agents/${agentId}/keys/${keyId}`, {
+    method: "DELETE",
+    headers: { Accept: "application/json" },
+  });
+  if (!res.ok) throw await apiError(res);
+  return (await res.json()) as DashboardAgentApiKey;
+}
+
+export type DashboardRole = "viewer" | "operator" | "admin";
+
+export interface DashboardPrincipal {
+  username: string;
+  role: DashboardRole;
+}
+
+export interface DashboardLoginResult extends DashboardPrincipal {
+  token: string;
+  expiresAt: string;
+}
+
+/** GET /api/auth/me response; authEnabled is false when Guardio has no dashboard users or tokens. */
+export interface DashboardAuthStatus {
+  authEnabled: boolean;
+  user: DashboardPrincipal | null;
+}
+
+/** Sign in and keep the session token for later API calls. Throws with the API error message on failure. */
+export async function login(username: string, password: string): Promise<DashboardLoginResult> {
+  const res = await guardioFetch(`${getGuardioApiBaseUrl()}/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify({ username, password }),
+  });
+  if (!res.ok) throw await apiError(res);
+  const result = (await res.json()) as DashboardLoginResult;
+  setAuthToken(result.token);
+  return result;
+}
+
+export async function logout(): Promise<void> {
+  try {
+    await guardioFetch(`${getGuardioApiBaseUrl()}/auth/logout`, { method: "POST" });
+  } finally {
+    setAuthToken(null);
+  }
+}
+
+/** Current user; null when signed out (redirects to /login) or Guardio is unreachable. */
+export async function fetchAuthStatus(): Promise<DashboardAuthStatus | null> {
+  try {
+    const res = await guardioFetch(`${getGuardioApiBaseUrl()}/auth/me`, {
+      cache: "no-store",
+      headers: { Accept: "application/json" },
+    });
+    if (!res.ok) return null;
+    return (await res.json()) as DashboardAuthStatus;
+  } catch {
+    return null;
+  }
+}
+
+function toolPath(serverName: string, toolName: string): string {
+  return `${getGuardioApiBaseUrl()}/servers/${encodeURIComponent(serverName)}/tools/${encodeURIComponent(toolName)}`;
+}
+
+export async function fetchToolVersions(
+  serverName: string,
+  toolName: string,
+): Promise<DashboardToolVersionsInfo | null> {
+  try {
+    const res = await guardioFetch(`${toolPath(serverName, toolName)}/versions`, {
+      cache: "no-store",
+      headers: { Accept: "application/json" },
+    });
+    if (!res.ok) return null;
+    return (await res.json()) as DashboardToolVersionsInfo;
+  } catch {
+    return null;
+  }
+}
+
+/** Approve a tool's current (changed) definition. Throws with the API error message on failure. */
+export async function approveToolVersion(
+  serverName: string,
+  toolName: string,
+): Promise<DashboardToolVersion> {
+  const res = await guardioFetch(`${toolPath(serverName, toolName)}/approve`, {
+    method: "POST",
+    headers: { Accept: "application/json" },
+  });
+  if (!res.ok) throw await apiError(res);
+  return (await res.json()) as DashboardToolVersion;
+}
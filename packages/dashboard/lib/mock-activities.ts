@@ -1,7 +1,7 @@
 export interface ActivityEntry {
   id: string;
   timestamp: Date;
-  type: "allowed" | "denied";
+  type: "allowed" | "denied" | "flagged";
   agent: string;
   tool: string;
   policy?: string;
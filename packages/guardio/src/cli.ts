@@ -1,23 +1,72 @@
 /**
- * CLI – load config and start Guardio as an HTTP server only.
- * Requires server.type "url" (upstream MCP via HTTP/SSE). Clients connect to Guardio via HTTP.
+ * CLI – load config and start Guardio as an HTTP server, or with --stdio as a subprocess
+ * speaking JSON-RPC on stdin/stdout for one server (--server <name>).
+ * Servers are type "url" (upstream MCP via HTTP/SSE) or "command" (spawned, over stdio).
+ * --hash-password reads a password on stdin and prints its hash for dashboardAuth.users.
  */
 import { resolve, dirname } from "node:path";
 import { GuardioHttpServer } from "./server/index.js";
 import { loadConfigFromPath, getConfigPath } from "./config/index.js";
+import type { GuardioDashboardAuthConfig, GuardioServerConfig } from "./config/types.js";
+import { hashPassword, isPasswordHash } from "./core/services/dashboard-auth-service.js";
 import { logger } from "./logger.js";
 
-const configIdx = process.argv.indexOf("--config");
-const configPathArg =
-  configIdx >= 0 && process.argv[configIdx + 1]
-    ? process.argv[configIdx + 1]
-    : null;
+function argValue(flag: string): string | null {
+  const idx = process.argv.indexOf(flag);
+  return idx >= 0 && process.argv[idx + 1] ? process.argv[idx + 1] : null;
+}
+
+const configPathArg = argValue("--config");
+const stdioMode = process.argv.includes("--stdio");
+const serverArg = argValue("--server");
+const agentNameArg = argValue("--agent-name");
+const hashPasswordMode = process.argv.includes("--hash-password");
 
 const DEFAULT_PORT = 3939;
 const DEFAULT_HOST = "127.0.0.1";
 
+const DASHBOARD_ROLES = new Set(["viewer", "operator", "admin"]);
+
+/** Exit with an error when dashboardAuth has malformed users or tokens. */
+function validateDashboardAuth(auth: GuardioDashboardAuthConfig | undefined): void {
+  for (const u of auth?.users ?? []) {
+    if (!u.username || !DASHBOARD_ROLES.has(u.role) || !isPasswordHash(u.passwordHash ?? "")) {
+      logger.error(
+        { username: u.username },
+        'Each dashboardAuth user needs username, role ("viewer" | "operator" | "admin") and a passwordHash from `guardio --hash-password`.',
+      );
+      process.exit(1);
+    }
+  }
+  for (const t of auth?.tokens ?? []) {
+    if (!t.name || !DASHBOARD_ROLES.has(t.role) || (t.token ?? "").length < 16) {
+      logger.error(
+        { name: t.name },
+        'Each dashboardAuth token needs name, role ("viewer" | "operator" | "admin") and a token of at least 16 characters.',
+      );
+      process.exit(1);
+    }
+  }
+}
+
+/** --hash-password: read a password from stdin and print its hash for dashboardAuth.users. */
+async function printPasswordHash(): Promise<void> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  const password = Buffer.concat(chunks).toString("utf8").replace(/\r?\n$/, "");
+  if (!password) {
+    logger.error("Pipe the password on stdin, e.g. echo -n 'secret' | guardio --hash-password");
+    process.exit(1);
+  }
+  process.stdout.write(`${await hashPassword(password)}\n`);
+}
+
 async function main(): Promise<void> {
   logger.debug({ argv: process.argv }, "CLI starting");
+  if (hashPasswordMode) {
+    await printPasswordHash();
+    return;
+  }
   const resolved = configPathArg
     ? resolve(configPathArg)
     : getConfigPath(process.cwd());
@@ -42,9 +91,26 @@ async function main(): Promise<void> {
   const serverNameRe = /^[a-zA-Z0-9_-]+$/;
   const names = new Set<string>();
   for (const s of config.servers) {
-    if (s.type !== "url" || !s.url || !s.name) {
+    const valid =
+      !!s.name &&
+      ((s.type === "url" &&
+        !!s.url &&
+        (s.transport == null ||
+          s.transport === "sse" ||
+          s.transport === "streamable-http")) ||
+        (s.type === "command" &&
+          !!s.command &&
+          (s.args == null || Array.isArray(s.args))));
+    if (!valid) {
+      logger.error(
+        'Each server must have name and either type: "url" with url (optional transport "sse" | "streamable-http"), or type: "command" with command (and optional args array).',
+      );
+      process.exit(1);
+    }
+    if (s.type === "url" && s.proxy != null && !/^https?:\/\/[^/]/.test(s.proxy)) {
       logger.error(
-        'Each server must have name, type: "url", and url.',
+        { name: s.name, proxy: s.proxy },
+        'Server proxy must be an http:// or https:// URL.',
       );
       process.exit(1);
     }
@@ -65,13 +131,63 @@ async function main(): Promise<void> {
     names.add(s.name);
   }
 
-  const servers = config.servers.map((s) => ({
-    name: s.name,
-    type: "url" as const,
-    url: s.url,
-    headers: s.headers,
-    timeoutMs: s.timeoutMs,
-  }));
+  validateDashboardAuth(config.dashboardAuth);
+
+  const servers: GuardioServerConfig[] = config.servers.map((s) =>
+    s.type === "command"
+      ? {
+          name: s.name,
+          type: "command" as const,
+          command: s.command,
+          args: s.args,
+          env: s.env,
+          cwd: s.cwd ? resolve(cwd, s.cwd) : cwd,
+        }
+      : {
+          name: s.name,
+          type: "url" as const,
+          url: s.url,
+          headers: s.headers,
+          timeoutMs: s.timeoutMs,
+          retries: s.retries,
+          retryDelayMs: s.retryDelayMs,
+          proxy: s.proxy,
+          caFile: s.caFile ? resolve(cwd, s.caFile) : undefined,
+          transport: s.transport,
+        },
+  );
+
+  if (stdioMode) {
+    const serverName =
+      serverArg ?? (servers.length === 1 ? servers[0].name : null);
+    if (!serverName || !names.has(serverName)) {
+      logger.error(
+        { server: serverArg, servers: [...names] },
+        "--stdio needs --server <name> naming one of the configured servers.",
+      );
+      process.exit(1);
+    }
+    logger.info({ serverName }, "Starting stdio server");
+    const stdioServer = new GuardioHttpServer({
+      servers,
+      listen: { port: DEFAULT_PORT, host: DEFAULT_HOST },
+      cwd,
+      configPath,
+      approvals: config.approvals,
+      toolsList: config.toolsList,
+      toolPinning: config.toolPinning,
+      toolScan: config.toolScan,
+      policyEvaluation: config.policyEvaluation,
+      stdio: {
+        serverName,
+        agentName: agentNameArg ?? config.client?.agentName,
+      },
+    });
+    // run() resolves when stdin closes or SIGINT/SIGTERM triggers graceful shutdown;
+    // exit explicitly since upstream SSE streams would keep the process alive.
+    await stdioServer.run();
+    process.exit(0);
+  }
 
   const portEnv =
     process.env.GUARDIO_HTTP_PORT ?? process.env.GUARDIO_CLIENT_PORT;
@@ -95,8 +211,16 @@ async function main(): Promise<void> {
   const httpServer = new GuardioHttpServer({
     servers,
     listen: { port, host },
+    requireAgentAuth: config.client?.requireAgentAuth,
+    policyHeaders: config.client?.policyHeaders,
+    dashboardAuth: config.dashboardAuth,
     cwd,
     configPath,
+    approvals: config.approvals,
+    toolsList: config.toolsList,
+    toolPinning: config.toolPinning,
+    toolScan: config.toolScan,
+    policyEvaluation: config.policyEvaluation,
   });
   // run() resolves when SIGINT/SIGTERM triggers graceful shutdown
   await httpServer.run();
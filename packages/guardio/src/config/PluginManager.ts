@@ -24,6 +24,13 @@ import {
   denyToolAccessDefinition,
   denyRegexParameterDefinition,
   rateLimitToolDefinition,
+  concurrencyLimitDefinition,
+  piiRedactDefinition,
+  secretScanDefinition,
+  schemaValidateDefinition,
+  toolRiskDefinition,
+  promptInjectionDefinition,
+  expressionDefinition,
 } from "../plugins/policy/index.js";
 import {
   SqliteStoragePlugin,
@@ -75,6 +82,13 @@ const BUILT_IN_POLICY_PLUGINS: PolicyPluginDefinition[] = [
   denyToolAccessDefinition,
   denyRegexParameterDefinition,
   rateLimitToolDefinition,
+  concurrencyLimitDefinition,
+  piiRedactDefinition,
+  secretScanDefinition,
+  schemaValidateDefinition,
+  toolRiskDefinition,
+  promptInjectionDefinition,
+  expressionDefinition,
 ];
 
 /** Registered policy plugin names (from built-in or registerPolicyPlugin). */
@@ -15,7 +15,17 @@ export type {
   GuardioConfig,
   GuardioServerConfig,
   GuardioServerConfigUrl,
+  GuardioServerConfigCommand,
   GuardioClientConfig,
+  GuardioApprovalsConfig,
+  GuardioToolsListConfig,
+  GuardioToolPinningConfig,
+  GuardioToolScanConfig,
+  GuardioPolicyEvaluationConfig,
+  GuardioDashboardAuthConfig,
+  GuardioDashboardRole,
+  GuardioDashboardUserConfig,
+  GuardioDashboardTokenConfig,
   PolicyPluginConfigEntry,
   StoragePluginConfigEntry,
   PluginConfigEntry,
@@ -2,10 +2,13 @@ import type { GuardioCoreConfig } from "./types.js";
 import type { JsonRpcRequest } from "./types.js";
 import { PluginManager } from "../config/PluginManager.js";
 import {
+  BusTopic,
   createServerTransport,
   createClientTransport,
   type IServerTransport,
   type IClientTransport,
+  type ClientSessionPayload,
+  UpstreamTimeoutError,
 } from "./transports/index.js";
 import type {
   DashboardConnectionInfo,
@@ -14,20 +17,116 @@ import type {
   DashboardPolicyInstance,
   DashboardPolicyInstancesInfo,
   DashboardEventsInfo,
+  DashboardEventsQuery,
   DashboardSimulationSettings,
   DashboardSimulationToolSetting,
   UpdateSimulationSettingsBody,
+  DashboardApproval,
+  DashboardApprovalsInfo,
+  DashboardApprovalsQuery,
+  DashboardAgentApiKeysInfo,
+  DashboardToolVersion,
+  DashboardToolVersionsInfo,
 } from "./transports/dashboard-api-types.js";
-import { processMessage } from "./Processor.js";
+import {
+  processMessage,
+  buildGuardioBlockedResponse,
+  buildProcessingEvent,
+  emitProcessingEvent,
+  type ApprovalRequirement,
+  type ProcessInput,
+} from "./Processor.js";
+import type { EventSinkPluginInterface } from "../interfaces/EventSinkPluginInterface.js";
+import type { PendingApproval, ToolVersion } from "../interfaces/CoreRepository.js";
 import { logger } from "../logger.js";
 import { ToolsDiscoveryService } from "./services/tools-discovery-service.js";
 import { buildConnectionInfo } from "./services/connection-info-service.js";
 import { PolicyInstanceService } from "./services/policy-instance-service.js";
 import { listEventsForDashboard } from "./services/events-query-service.js";
-import { instantiatePolicyPlugins } from "./services/policy-instantiation.js";
+import { PolicyResolutionService } from "./services/policy-resolution-service.js";
+import { validateExpression } from "../plugins/policy/Expression.js";
 import { zodToJsonSchema } from "zod-to-json-schema";
-import { CreatePolicyInstanceBody, CreatePolicyInstanceResult, UpdatePolicyInstanceBody, UpdatePolicyInstanceResult } from "./transports/types.js";
+import { v7 as uuidv7 } from "uuid";
+import { CreatePolicyInstanceBody, CreatePolicyInstanceResult, UpdatePolicyInstanceBody, UpdatePolicyInstanceResult, ResolveApprovalBody, ResolveApprovalResult } from "./transports/types.js";
+import type {
+  AgentAuthHooks,
+  DashboardAuthHooks,
+  CreateAgentBody,
+  CreateAgentResult,
+  CreateAgentApiKeyBody,
+  CreateAgentApiKeyResult,
+  RevokeAgentApiKeyResult,
+  ApproveToolVersionResult,
+} from "./transports/types.js";
 import { SimulationService } from "./services/simulation-service.js";
+import { ApprovalService } from "./services/approval-service.js";
+import { AgentKeyService } from "./services/agent-key-service.js";
+import { DashboardAuthService } from "./services/dashboard-auth-service.js";
+import { ToolsListFilterService } from "./services/tools-list-filter-service.js";
+import { ToolRiskService } from "./services/tool-risk-service.js";
+import {
+  ToolPinningService,
+  type ToolChange,
+} from "./services/tool-pinning-service.js";
+import {
+  ResponseInspectionService,
+  type TrackedToolCall,
+} from "./services/response-inspection-service.js";
+import {
+  CallCompletionService,
+  type CompletableCall,
+} from "./services/call-completion-service.js";
+import type { PolicyPluginInterface } from "../interfaces/PolicyPluginInterface.js";
+import type {
+  PolicyEvaluationFailure,
+  PolicyEvaluationTraceEntry,
+} from "../interfaces/PolicyTypes.js";
+import {
+  UpstreamSessionService,
+  isUpstreamReady,
+} from "./services/upstream-session-service.js";
+
+/** Response-inspection scope: per client session when there is one, else per server. */
+function inspectionScope(serverName: string, sessionId: string | null): string {
+  return sessionId != null ? `${serverName}/${sessionId}` : serverName;
+}
+
+function toDashboardToolVersion(version: ToolVersion): DashboardToolVersion {
+  return {
+    version: version.version,
+    fingerprint: version.fingerprint,
+    definition: version.definition,
+    firstSeenAt: version.firstSeenAt,
+    approvedAt: version.approvedAt,
+    approvedBy: version.approvedBy,
+  };
+}
+
+/** Request context carried from POST /messages to a parked approval's continuation. */
+interface ApprovalContext {
+  serverName: string;
+  sessionId: string | null;
+  toolName: string;
+  request: JsonRpcRequest;
+  agentId: string | null;
+  agentNameSnapshot: string | null;
+  guardioMode: string | null;
+  simulation: ProcessInput["simulation"];
+  traceId: ProcessInput["traceId"];
+  /** Call details passed on to the response-side policies (see PolicyRequestContext). */
+  tool: ProcessInput["tool"];
+  callId: ProcessInput["callId"];
+  headers: ProcessInput["headers"];
+  policyPlugins: PolicyPluginInterface[];
+  /** Per-policy timeout and failure mode overrides, for the response-side policies. */
+  policySettings: ProcessInput["policySettings"];
+  eventSinks: EventSinkPluginInterface[];
+  completion: CompletableCall | null;
+  /** Verdicts of all policies, in "all" evaluation mode. */
+  trace?: PolicyEvaluationTraceEntry[];
+  /** Fail-open policies that threw or timed out before the call was parked. */
+  failures?: PolicyEvaluationFailure[];
+}
 
 export class GuardioCore {
   private readonly config: GuardioCoreConfig;
@@ -37,21 +136,72 @@ export class GuardioCore {
   private clientTransport: IClientTransport | null = null;
   private readonly toolsDiscovery: ToolsDiscoveryService;
   private readonly policyInstanceService: PolicyInstanceService;
+  private readonly policyResolution: PolicyResolutionService;
   private readonly simulationService: SimulationService;
+  private readonly approvalService: ApprovalService;
+  private readonly agentKeyService: AgentKeyService;
+  private readonly dashboardAuthService: DashboardAuthService;
+  private readonly responseInspection = new ResponseInspectionService();
+  private readonly callCompletion = new CallCompletionService();
+  private readonly toolsListFilter: ToolsListFilterService;
+  private readonly toolPinning: ToolPinningService;
+  private readonly toolRisk: ToolRiskService;
+  private readonly upstreamSessions: UpstreamSessionService;
 
   private static readonly GLOBAL_SETTINGS_SCOPE_TYPE = "global";
   private static readonly GLOBAL_SETTINGS_SCOPE_ID = "global";
 
   constructor(config: GuardioCoreConfig) {
     this.config = config;
+    this.toolPinning = new ToolPinningService(
+      this.config.coreRepository,
+      this.config.toolPinning,
+      (change) => {
+        this.onToolChanged(change).catch((err: unknown) => {
+          logger.warn(
+            { err, serverName: change.serverName, toolName: change.toolName },
+            "Reporting tool change failed",
+          );
+        });
+      },
+    );
+    this.toolRisk = new ToolRiskService(this.config.toolScan);
     this.toolsDiscovery = new ToolsDiscoveryService(
       this.config.servers,
       this.config.coreRepository,
+      (serverName, tools) => {
+        this.toolRisk.record(serverName, tools);
+        void this.toolPinning.record(serverName, tools);
+      },
+    );
+    this.policyResolution = new PolicyResolutionService(
+      this.config.coreRepository,
+      this.config.policyEvaluation?.cacheTtlMs,
     );
     this.policyInstanceService = new PolicyInstanceService(
       this.config.coreRepository,
+      this.policyResolution,
     );
     this.simulationService = new SimulationService();
+    this.approvalService = new ApprovalService(
+      this.config.coreRepository,
+      this.config.approvals?.timeoutMs,
+    );
+    this.agentKeyService = new AgentKeyService(this.config.coreRepository);
+    this.dashboardAuthService = new DashboardAuthService(this.config.dashboardAuth);
+    this.toolsListFilter = new ToolsListFilterService(
+      this.config.coreRepository,
+      this.config.toolsList,
+      this.toolRisk,
+    );
+    this.upstreamSessions = new UpstreamSessionService(this.config.servers, {
+      onMessage: ({ serverName, sessionId }, line) => {
+        this.relayUpstreamMessage(line, serverName, sessionId);
+      },
+      onReady: ({ serverName, sessionId }) => {
+        this.clientTransport?.setRemoteReady?.(serverName, sessionId);
+      },
+    });
   }
 
   async run(): Promise<void> {
@@ -68,8 +218,10 @@ export class GuardioCore {
       dashboardHooks: {
         handleConnectionRequest: () => this.getConnectionInfo(),
         handlePoliciesRequest: () => this.getPoliciesInfo(),
+        handleValidatePolicyExpression: async (expression) =>
+          validateExpression(expression),
         handleListPolicyInstances: () => this.listPolicyInstances(),
-        handleListEvents: () => this.listEvents(),
+        handleListEvents: (query) => this.listEvents(query),
         handleCreatePolicyInstance: (body) => this.createPolicyInstance(body),
         handleDeletePolicyInstance: (id) => this.deletePolicyInstance(id),
         handleGetPolicyInstance: (id) => this.getPolicyInstance(id),
@@ -78,7 +230,26 @@ export class GuardioCore {
         handleGetSimulationSettings: () => this.getSimulationSettings(),
         handleUpdateSimulationSettings: (body) =>
           this.updateSimulationSettings(body),
+        handleListApprovals: (query) => this.listApprovals(query),
+        handleGetApproval: (id) => this.getApproval(id),
+        handleApproveApproval: (id, body) => this.approveApproval(id, body),
+        handleRejectApproval: (id, body) => this.rejectApproval(id, body),
+        handleCreateAgent: (body) => this.createAgent(body),
+        handleListAgentApiKeys: () => this.listAgentApiKeys(),
+        handleListAgentApiKeysForAgent: (agentId) =>
+          this.listAgentApiKeys(agentId),
+        handleCreateAgentApiKey: (agentId, body) =>
+          this.createAgentApiKey(agentId, body),
+        handleRevokeAgentApiKey: (agentId, keyId) =>
+          this.revokeAgentApiKey(agentId, keyId),
+        handleListToolVersions: (serverName, toolName) =>
+          this.listToolVersions(serverName, toolName),
+        handleApproveToolVersion: (serverName, toolName, approvedBy) =>
+          this.approveToolVersion(serverName, toolName, approvedBy),
       },
+      agentAuth: this.buildAgentAuth(),
+      dashboardAuth: this.buildDashboardAuth(),
+      corsOrigins: this.config.dashboardAuth?.corsOrigins,
       serverNames,
       eventBus: this.config.eventBus,
       coreRepository: this.config.coreRepository,
@@ -91,6 +262,8 @@ export class GuardioCore {
     }
     await this.clientTransport.start();
     await this.toolsDiscovery.loadPersistedServerTools();
+    await this.toolPinning.load();
+    await this.approvalService.expireStale();
     logger.info("Core started");
   }
 
@@ -104,6 +277,14 @@ export class GuardioCore {
    * Idempotent.
    */
   async stop(): Promise<void> {
+    this.approvalService.close();
+    this.responseInspection.clear();
+    this.callCompletion.clear();
+    this.toolsListFilter.clear();
+    await this.upstreamSessions.closeAll();
+    for (const transport of this.serverTransports.values()) {
+      await transport.close?.();
+    }
     if (
       this.clientTransport &&
       "close" in this.clientTransport &&
@@ -138,22 +319,23 @@ export class GuardioCore {
         body,
         reply,
         serverName,
+        sessionId,
         agentId,
         agentNameSnapshot,
         guardioMode,
+        headers,
+        traceId,
       }) => {
         try {
-          const transport = this.serverTransports.get(serverName);
-          if (!transport?.getRemotePostUrl()) {
-            reply(503, "Remote MCP not ready");
-            return;
-          }
           const result = await this.handlePostMessage({
             body,
             serverName,
+            sessionId: sessionId ?? null,
             agentId: agentId ?? null,
             agentNameSnapshot: agentNameSnapshot ?? null,
             guardioMode: guardioMode ?? null,
+            headers,
+            traceId: traceId ?? undefined,
           });
           reply(result.status, result.body);
         } catch (err) {
@@ -163,22 +345,83 @@ export class GuardioCore {
       },
     );
 
+    this.clientTransport.on(
+      "sessionOpen",
+      ({ sessionId, serverName }: ClientSessionPayload) => {
+        this.upstreamSessions.open(sessionId, serverName);
+      },
+    );
+    this.clientTransport.on(
+      "sessionClose",
+      ({ sessionId }: ClientSessionPayload) => {
+        void this.upstreamSessions.close(sessionId);
+      },
+    );
+
     for (const [serverName, transport] of this.serverTransports) {
       transport.on("message", (line: string) => {
-        this.toolsDiscovery.handleSseMessage(line, serverName);
-        this.clientTransport?.send(line, serverName);
+        this.relayUpstreamMessage(line, serverName, null);
       });
       transport.on("endpointReady", () => {
         if (typeof this.clientTransport?.setRemoteReady === "function") {
           this.clientTransport.setRemoteReady(serverName);
         }
-        this.toolsDiscovery.handleEndpointReady(serverName);
+        this.toolsDiscovery.handleEndpointReady(serverName, transport);
       });
     }
   }
 
-  private sendToClient(message: string, serverName: string): void {
-    this.clientTransport?.send(message, serverName);
+  /**
+   * Deliver a message from an upstream (SSE stream or spawned process) to the agent. Answers
+   * to tracked tools/call requests pass response-side policies first, answers to tracked
+   * tools/list requests are filtered for the agent.
+   */
+  private relayUpstreamMessage(
+    line: string,
+    serverName: string,
+    sessionId: string | null,
+  ): void {
+    this.toolsDiscovery.handleSseMessage(line, serverName);
+    const scope = inspectionScope(serverName, sessionId);
+    this.callCompletion.completeIfTracked(scope, line);
+    const listing = this.toolsListFilter.take(scope, line);
+    if (listing) {
+      void this.toolsListFilter
+        .filter(line, listing)
+        .then((out) => this.sendToClient(out, serverName, sessionId));
+      return;
+    }
+    const tracked = this.responseInspection.take(scope, line);
+    if (!tracked) {
+      this.sendToClient(line, serverName, sessionId);
+      return;
+    }
+    void this.responseInspection
+      .inspect(line, tracked)
+      .then((out) => this.sendToClient(out, serverName, sessionId));
+  }
+
+  private sendToClient(
+    message: string,
+    serverName: string,
+    sessionId: string | null,
+  ): void {
+    this.clientTransport?.send(message, serverName, sessionId);
+  }
+
+  /**
+   * Upstream for a request: the client session's own connection (waiting for it to come
+   * up), or the server's shared transport for requests without a session.
+   */
+  private async resolveUpstream(
+    serverName: string,
+    sessionId: string | null,
+  ): Promise<IServerTransport | null> {
+    if (sessionId != null && this.upstreamSessions.has(sessionId)) {
+      return this.upstreamSessions.whenReady(sessionId);
+    }
+    const transport = this.serverTransports.get(serverName);
+    return isUpstreamReady(transport) ? transport! : null;
   }
 
   /** Dashboard GET /api/connection: build connection info from transports. */
@@ -188,7 +431,11 @@ export class GuardioCore {
       clientTransport: this.clientTransport,
       serverTransports: this.serverTransports,
       coreRepository: this.config.coreRepository,
-      toolsByServer: (name) => this.toolsDiscovery.getToolsForServer(name),
+      toolsByServer: (name) =>
+        this.toolPinning.annotate(
+          name,
+          this.toolRisk.annotate(this.toolsDiscovery.getToolsForServer(name)),
+        ),
     });
   }
 
@@ -198,8 +445,10 @@ export class GuardioCore {
   }
 
   /** GET /api/events: list recent guardio_events for dashboard activity (via EventSinkStore plugin). */
-  private async listEvents(): Promise<DashboardEventsInfo | null> {
-    return listEventsForDashboard(this.config.eventSinkStore);
+  private async listEvents(
+    query: DashboardEventsQuery,
+  ): Promise<DashboardEventsInfo | null> {
+    return listEventsForDashboard(this.config.eventSinkStore, query);
   }
 
   /** POST /api/policy-instances: validate config and create a policy instance. */
@@ -229,6 +478,158 @@ export class GuardioCore {
     return this.policyInstanceService.updatePolicyInstance(id, body);
   }
 
+  /** GET /api/approvals: list parked tools/call approvals for the dashboard inbox. */
+  private async listApprovals(
+    query: DashboardApprovalsQuery,
+  ): Promise<DashboardApprovalsInfo | null> {
+    return this.approvalService.list(query);
+  }
+
+  /** GET /api/approvals/:id: get one approval. */
+  private async getApproval(id: string): Promise<DashboardApproval | null> {
+    return this.approvalService.get(id);
+  }
+
+  /** POST /api/approvals/:id/approve: release the parked call (forwarded by its continuation). */
+  private async approveApproval(
+    id: string,
+    body: ResolveApprovalBody,
+  ): Promise<ResolveApprovalResult> {
+    return this.approvalService.approve(id, body.note);
+  }
+
+  /** POST /api/approvals/:id/reject: answer the parked call with a POLICY_VIOLATION result. */
+  private async rejectApproval(
+    id: string,
+    body: ResolveApprovalBody,
+  ): Promise<ResolveApprovalResult> {
+    return this.approvalService.reject(id, body.note);
+  }
+
+  /** POST /api/agents: register an agent so API keys can be issued before it connects. */
+  private async createAgent(body: CreateAgentBody): Promise<CreateAgentResult> {
+    return this.agentKeyService.createAgent(body.name);
+  }
+
+  /** GET /api/agent-keys and /api/agents/:id/keys: list API keys (never the keys themselves). */
+  private async listAgentApiKeys(
+    agentId?: string,
+  ): Promise<DashboardAgentApiKeysInfo | null> {
+    return this.agentKeyService.list(agentId);
+  }
+
+  /** POST /api/agents/:id/keys: issue a key; it is only ever returned here. */
+  private async createAgentApiKey(
+    agentId: string,
+    body: CreateAgentApiKeyBody,
+  ): Promise<CreateAgentApiKeyResult> {
+    return this.agentKeyService.issue(agentId, body.name);
+  }
+
+  /** DELETE /api/agents/:id/keys/:keyId: revoke a key; requests presenting it are rejected from then on. */
+  private async revokeAgentApiKey(
+    agentId: string,
+    keyId: string,
+  ): Promise<RevokeAgentApiKeyResult> {
+    return this.agentKeyService.revoke(agentId, keyId);
+  }
+
+  /** GET /api/servers/:serverName/tools/:toolName/versions: definition history, newest first. */
+  private async listToolVersions(
+    serverName: string,
+    toolName: string,
+  ): Promise<DashboardToolVersionsInfo | null> {
+    if (!this.toolPinning.isSupported()) return null;
+    const versions = await this.toolPinning.history(serverName, toolName);
+    return {
+      serverName,
+      toolName,
+      versions: versions.map(toDashboardToolVersion),
+      blockChanged: this.toolPinning.blocksChangedTools(),
+    };
+  }
+
+  /** POST /api/servers/:serverName/tools/:toolName/approve: trust the tool's current definition. */
+  private async approveToolVersion(
+    serverName: string,
+    toolName: string,
+    approvedBy: string | null,
+  ): Promise<ApproveToolVersionResult> {
+    if (!this.toolPinning.isSupported()) {
+      return { error: "Tool pinning is disabled or not supported by storage", kind: "unsupported" };
+    }
+    const version = await this.toolPinning.approve(serverName, toolName, approvedBy);
+    if (!version) return { error: "Tool not found", kind: "not_found" };
+    return { version: toDashboardToolVersion(version) };
+  }
+
+  /**
+   * An upstream server changed a tool's definition: publish it on the event bus and
+   * record a tool.changed event, so the change shows up in activity and alerting sinks.
+   */
+  private async onToolChanged(change: ToolChange): Promise<void> {
+    this.config.eventBus?.emit(BusTopic.TOOL_CHANGED, change);
+    if (!this.pluginManager) return;
+    const eventSinks = await this.pluginManager.getEventSinkPlugins(
+      this.config.cwd ?? process.cwd(),
+      this.config.configPath,
+    );
+    await emitProcessingEvent(eventSinks, {
+      eventId: uuidv7(),
+      timestamp: new Date().toISOString(),
+      schemaVersion: "0.1.0",
+      eventType: "tool.changed",
+      actionType: change.toolName,
+      targetResource: `${change.serverName}/${change.toolName}`,
+      metadata: {
+        serverName: change.serverName,
+        toolName: change.toolName,
+        previousVersion: change.previous.version,
+        previousFingerprint: change.previous.fingerprint,
+        version: change.current.version,
+        fingerprint: change.current.fingerprint,
+        approved: change.current.approvedAt != null,
+      },
+    });
+  }
+
+  /**
+   * Bearer checks for the HTTP client transport. When keys are required but storage cannot
+   * hold them, every agent is rejected rather than let through unauthenticated.
+   */
+  private buildAgentAuth(): AgentAuthHooks | undefined {
+    const required = this.config.client?.requireAgentAuth === true;
+    const supported = this.agentKeyService.isSupported();
+    if (!supported && !required) return undefined;
+    if (!supported) {
+      logger.error("client.requireAgentAuth is set but storage does not support agent API keys; all agents will be rejected");
+    }
+    return {
+      required,
+      authenticate: (key) => this.agentKeyService.authenticate(key),
+      hasActiveKeys: (agentId) => this.agentKeyService.hasActiveKeys(agentId),
+    };
+  }
+
+  /** Login and role checks for /api/*; undefined (open API) when no users or tokens are configured. */
+  private buildDashboardAuth(): DashboardAuthHooks | undefined {
+    if (!this.dashboardAuthService.isEnabled()) {
+      const host = this.config.client?.host ?? "127.0.0.1";
+      if (this.config.client?.type !== "stdio" && !["127.0.0.1", "localhost", "::1"].includes(host)) {
+        logger.warn(
+          { host },
+          "Dashboard API is open to anyone who can reach this host; configure dashboardAuth users or tokens",
+        );
+      }
+      return undefined;
+    }
+    return {
+      login: (username, password) => this.dashboardAuthService.login(username, password),
+      authenticate: (token) => this.dashboardAuthService.authenticate(token),
+      logout: (token) => this.dashboardAuthService.logout(token),
+    };
+  }
+
   /** Dashboard GET /api/policies: list policy plugin descriptors from config (names + config schemas). */
   private async getPoliciesInfo(): Promise<DashboardPoliciesInfo | null> {
     if (!this.pluginManager) return null;
@@ -348,18 +749,23 @@ export class GuardioCore {
   async handlePostMessage(input: {
     body: string;
     serverName: string;
+    /** Client session the request came from; responses go to that session only. */
+    sessionId?: string | null;
     agentId: string | null;
     agentNameSnapshot: string | null;
     guardioMode: string | null;
+    /** Request headers selected for policies. */
+    headers?: Record<string, string>;
+    /** W3C trace id of the request, passed to policies and events. */
+    traceId?: string;
   }): Promise<{ status: number; body: string }> {
-    const { body, serverName, agentId, agentNameSnapshot, guardioMode } = input;
-    const transport = this.serverTransports.get(serverName);
-    const url = transport?.getRemotePostUrl() ?? null;
-
-    if (!url) {
+    const { body, serverName, agentId, agentNameSnapshot, guardioMode, headers, traceId } = input;
+    const sessionId = input.sessionId ?? null;
+    if (!(await this.resolveUpstream(serverName, sessionId))) {
       logger.warn("POST /messages: remote MCP not ready");
       return { status: 503, body: "Remote MCP not ready" };
     }
+    let completion: CompletableCall | null = null;
     try {
       let toolName: string | null = null;
       let parsedRequest: JsonRpcRequest | null = null;
@@ -372,19 +778,27 @@ export class GuardioCore {
         // not JSON or missing params; forward as-is
       }
 
-      const assignments =
-        await this.config.coreRepository.getPoliciesForContext(
-          agentId,
-          toolName,
-        );
-
       const cwd = this.config.cwd ?? process.cwd();
       const storageAdapters = this.pluginManager
         ? await this.pluginManager.getStoragePlugins(cwd, this.config.configPath)
         : [];
       const storageAdapter = storageAdapters[0];
 
-      const policyPlugins = instantiatePolicyPlugins(assignments, storageAdapter);
+      const tool = toolName
+        ? this.toolRisk.withRisk(this.toolsDiscovery.findTool(serverName, toolName))
+        : undefined;
+      // Only tools/call messages are evaluated; everything else is forwarded without policies.
+      const resolved = toolName
+        ? await this.policyResolution.resolve(agentId, toolName, serverName, storageAdapter)
+        : null;
+      const policyPlugins = [...(resolved?.plugins ?? [])];
+      const policySettings = resolved?.settings;
+      const pinningPolicy = toolName
+        ? this.toolPinning.blockingPolicy(serverName, toolName)
+        : null;
+      if (pinningPolicy) policyPlugins.unshift(pinningPolicy);
+      const quarantinePolicy = this.toolRisk.blockingPolicy(tool);
+      if (quarantinePolicy) policyPlugins.unshift(quarantinePolicy);
 
       const eventSinks = this.pluginManager
         ? await this.pluginManager.getEventSinkPlugins(
@@ -457,6 +871,19 @@ export class GuardioCore {
         );
       }
 
+      const callId = toolName ? uuidv7() : undefined;
+      if (callId && toolName && parsedRequest?.id != null) {
+        completion = this.callCompletion.begin({
+          callId,
+          requestId: parsedRequest.id,
+          toolName,
+          args: parsedRequest.params?.arguments,
+          serverName,
+          agentId,
+          policyPlugins,
+        });
+      }
+
       const processResult = await processMessage({
         body,
         policyPlugins,
@@ -464,148 +891,466 @@ export class GuardioCore {
         agentId,
         agentNameSnapshot,
         simulation: simulationContext,
+        tool,
+        serverName,
+        callId,
+        headers,
+        traceId,
+        evaluationMode: this.config.policyEvaluation?.mode,
+        policyTimeoutMs: this.config.policyEvaluation?.timeoutMs,
+        policyFailureMode: this.config.policyEvaluation?.failureMode,
+        policySettings,
       });
       if (processResult.handled) {
+        await this.callCompletion.finish(completion, "blocked");
         if (processResult.body)
-          this.sendToClient(processResult.body, serverName);
+          this.sendToClient(processResult.body, serverName, sessionId);
         return { status: processResult.status, body: processResult.body };
       }
 
-      const bodyToSend = processResult.bodyToSend;
-      let request: JsonRpcRequest;
-      try {
-        request = JSON.parse(bodyToSend) as JsonRpcRequest;
-      } catch {
-        request = {};
-      }
-
-      const method = request.method;
-      if (method === "tools/call") {
-        logger.debug(
+      if (processResult.approval && parsedRequest) {
+        return await this.parkForApproval(
+          processResult.bodyToSend,
+          processResult.approval,
           {
             serverName,
-            requestId: request.id,
-            toolName: (request.params as { name?: string } | undefined)?.name,
-            argsKeys:
-              request.params && typeof request.params === "object"
-                ? Object.keys((request.params as { arguments?: unknown }).arguments ?? {})
-                : undefined,
+            sessionId,
+            toolName: toolName ?? "(unknown)",
+            request: parsedRequest,
+            agentId,
+            agentNameSnapshot,
+            guardioMode,
+            simulation: simulationContext,
+            traceId,
+            tool,
+            callId,
+            headers,
+            policyPlugins,
+            policySettings,
+            eventSinks,
+            completion,
+            trace: processResult.approval.trace,
+            failures: processResult.approval.failures,
           },
-          "tools/call parsed for proxying",
         );
       }
 
-      // Simulation Mode gate: after policies, before upstream MCP call.
-      const simulationActive =
-        method === "tools/call" && !!simulationContext && simulationContext.enabled;
+      const forwarded = await this.forwardProcessedMessage({
+        body,
+        bodyToSend: processResult.bodyToSend,
+        serverName,
+        sessionId,
+        agentId,
+        agentNameSnapshot,
+        guardioMode,
+        simulationContext,
+        inspection: {
+          policyPlugins,
+          eventSinks,
+          agentId,
+          agentNameSnapshot,
+          simulation: simulationContext,
+          traceId,
+          tool,
+          callId,
+          headers,
+          policyTimeoutMs: this.config.policyEvaluation?.timeoutMs,
+          policyFailureMode: this.config.policyEvaluation?.failureMode,
+          policySettings,
+        },
+        completion,
+      });
+      return { status: forwarded.status, body: forwarded.body };
+    } catch (err) {
+      logger.error({ err }, "Forward POST failed");
+      await this.callCompletion.finish(completion, "failed");
+      return { status: 500, body: "Proxy Error" };
+    }
+  }
+
+  /**
+   * Park a tools/call that a policy answered with "negotiate". The agent gets 202 now;
+   * the real JSON-RPC response is delivered over SSE once the approval is resolved.
+   */
+  private async parkForApproval(
+    bodyToSend: string,
+    requirement: ApprovalRequirement,
+    ctx: ApprovalContext,
+  ): Promise<{ status: number; body: string }> {
+    const parked = await this.approvalService.park({
+      serverName: ctx.serverName,
+      toolName: ctx.toolName,
+      agentId: ctx.agentId,
+      agentNameSnapshot: ctx.agentNameSnapshot,
+      requestId: ctx.request.id ?? null,
+      bodyToSend,
+      requirement,
+    });
+    if (!parked) {
+      logger.warn(
+        { toolName: ctx.toolName, policy: requirement.policyName },
+        "Approval required but storage does not support approvals; rejecting",
+      );
+      const responseBody = await this.rejectParkedCall(ctx, requirement, {
+        code: "APPROVAL_UNAVAILABLE",
+        reason:
+          "This tool requires human approval, but approvals are not available.",
+      });
+      return { status: 200, body: responseBody };
+    }
 
-      if (simulationActive) {
-        const sim = simulationContext!;
-        logger.info(
-          {
-            serverName,
-            toolName:
-              (request.params as { name?: string } | undefined)?.name ??
-              "(unknown)",
-            requestId: request.id,
-            source: sim.source,
-          },
-          "Simulation active: returning simulated result (skipping upstream MCP)",
+    parked.decision
+      .then((approval) => this.completeApproval(approval, ctx))
+      .catch((err) => {
+        logger.error(
+          { err, approvalId: parked.approval.id },
+          "Failed to complete approval",
         );
-        const tools = this.toolsDiscovery.getToolsForServer(serverName) ?? [];
-        const toolName =
-          (request.params as { name?: string } | undefined)?.name ??
-          "(unknown)";
-        const toolInfo =
-          tools.find((t) => t.name === toolName) ??
-          ({ name: toolName } as { name: string; inputSchema?: object });
+      });
+    return { status: 202, body: "Accepted" };
+  }
 
-        const simulatedResult = await this.simulationService.generateSimulatedResult(
-          {
-            serverName,
-            tool: toolInfo,
-            args: (request.params as { arguments?: unknown } | undefined)
-              ?.arguments,
-            agentId,
-            agentNameSnapshot,
-            requestId: request.id,
-            source: sim.source,
-          },
-        );
+  /** Continuation of a parked call: forward it on approval, otherwise answer with a blocked result. */
+  private async completeApproval(
+    approval: PendingApproval,
+    ctx: ApprovalContext,
+  ): Promise<void> {
+    const requirement: ApprovalRequirement = {
+      policyName: approval.policyName,
+      ...(approval.code != null && { code: approval.code }),
+      ...(approval.reason != null && { reason: approval.reason }),
+      ...(approval.metadata != null && { metadata: approval.metadata }),
+    };
+    const approvalMetadata = {
+      ...approval.metadata,
+      approvalId: approval.id,
+      approvalStatus: approval.status,
+      ...(approval.note != null && { approvalNote: approval.note }),
+    };
 
-        const responseBody = JSON.stringify({
-          jsonrpc: request.jsonrpc ?? "2.0",
-          id: request.id,
-          result: simulatedResult,
-        });
+    if (approval.status !== "approved") {
+      await this.rejectParkedCall(ctx, requirement, {
+        code: approval.status === "expired" ? "APPROVAL_EXPIRED" : "APPROVAL_REJECTED",
+        reason:
+          approval.note ??
+          (approval.status === "expired"
+            ? "No reviewer approved the request in time."
+            : "A reviewer rejected the request."),
+        metadata: approvalMetadata,
+      });
+      return;
+    }
 
-        // In MCP HTTP transport, clients typically listen on SSE for responses.
-        // Mirror the "handled" path behavior by broadcasting the simulated JSON-RPC response.
-        this.sendToClient(responseBody, serverName);
-        logger.debug(
-          { serverName, requestId: request.id, bytes: responseBody.length },
-          "Simulation response broadcast to SSE clients",
-        );
-        return { status: 200, body: responseBody };
-      }
+    await emitProcessingEvent(
+      ctx.eventSinks,
+      buildProcessingEvent(ctx, ctx.request, ctx.toolName, {
+        decision: "ALLOWED",
+        policyName: approval.policyName,
+        policyCode: approval.code ?? undefined,
+        policyReason: approval.reason ?? undefined,
+        policyMetadata: approvalMetadata,
+        trace: ctx.trace,
+        failures: ctx.failures,
+      }),
+    );
 
-      if (method === "tools/call") {
-        logger.debug(
-          {
-            serverName,
-            toolName:
-              (request.params as { name?: string } | undefined)?.name ??
-              "(unknown)",
-            requestId: request.id,
-            guardioMode,
-            simulationContext,
-          },
-          "Simulation inactive: forwarding tools/call to upstream MCP",
-        );
-      }
+    const forwarded = await this.forwardProcessedMessage({
+      body: approval.body,
+      bodyToSend: approval.body,
+      serverName: ctx.serverName,
+      sessionId: ctx.sessionId,
+      agentId: ctx.agentId,
+      agentNameSnapshot: ctx.agentNameSnapshot,
+      guardioMode: ctx.guardioMode,
+      simulationContext: ctx.simulation,
+      inspection: {
+        policyPlugins: ctx.policyPlugins,
+        eventSinks: ctx.eventSinks,
+        agentId: ctx.agentId,
+        agentNameSnapshot: ctx.agentNameSnapshot,
+        simulation: ctx.simulation,
+        traceId: ctx.traceId,
+        tool: ctx.tool,
+        callId: ctx.callId,
+        headers: ctx.headers,
+        policyTimeoutMs: this.config.policyEvaluation?.timeoutMs,
+        policyFailureMode: this.config.policyEvaluation?.failureMode,
+        policySettings: ctx.policySettings,
+      },
+      completion: ctx.completion,
+    });
+    const isAsyncAccept =
+      forwarded.status === 202 || forwarded.body.trim() === "Accepted";
+    // Upstream answering 202 replies over its own SSE stream (relayed already);
+    // a synchronous JSON-RPC response must be pushed to the agent here.
+    if (!forwarded.sentToClient && !isAsyncAccept && forwarded.body) {
+      this.sendToClient(forwarded.body, ctx.serverName, ctx.sessionId);
+    }
+    logger.info(
+      { approvalId: approval.id, status: forwarded.status },
+      "Approved tools/call forwarded",
+    );
+  }
+
+  /** Answer a parked call with a POLICY_VIOLATION blocked result over SSE and record it as BLOCKED. */
+  private async rejectParkedCall(
+    ctx: ApprovalContext,
+    requirement: ApprovalRequirement,
+    outcome: { code: string; reason: string; metadata?: Record<string, unknown> },
+  ): Promise<string> {
+    const responseBody = buildGuardioBlockedResponse(ctx.request.id, {
+      toolName: ctx.toolName,
+      reason: "rejected",
+      policy: requirement.policyName,
+      policyCode: outcome.code,
+      policyReason: outcome.reason,
+    });
+    await this.callCompletion.finish(ctx.completion, "blocked");
+    if (responseBody) {
+      this.sendToClient(responseBody, ctx.serverName, ctx.sessionId);
+    }
+    await emitProcessingEvent(
+      ctx.eventSinks,
+      buildProcessingEvent(ctx, ctx.request, ctx.toolName, {
+        decision: "BLOCKED",
+        policyName: requirement.policyName,
+        policyCode: outcome.code,
+        policyReason: outcome.reason,
+        policyMetadata: outcome.metadata ?? requirement.metadata,
+        trace: ctx.trace,
+        failures: ctx.failures,
+        httpStatus: 200,
+      }),
+    );
+    return responseBody;
+  }
+
+  /**
+   * After policies allowed a message: apply the Simulation Mode gate, otherwise forward
+   * bodyToSend upstream (the client session's own upstream when it has one). sentToClient is
+   * true when the response was already sent to the client session over SSE.
+   * With inspection set, the tools/call result (POST reply or upstream SSE) goes through
+   * response-side policies before it reaches the agent.
+   */
+  private async forwardProcessedMessage(input: {
+    body: string;
+    bodyToSend: string;
+    serverName: string;
+    sessionId: string | null;
+    agentId: string | null;
+    agentNameSnapshot: string | null;
+    guardioMode: string | null;
+    simulationContext: ProcessInput["simulation"];
+    inspection?: Omit<TrackedToolCall, "toolName" | "args">;
+    /** Reported to onCallComplete when the call is over. */
+    completion?: CompletableCall | null;
+  }): Promise<{ status: number; body: string; sentToClient: boolean }> {
+    const {
+      body,
+      bodyToSend,
+      serverName,
+      sessionId,
+      agentId,
+      agentNameSnapshot,
+      guardioMode,
+      simulationContext,
+      inspection,
+      completion,
+    } = input;
+    const transport = await this.resolveUpstream(serverName, sessionId);
+    if (!transport) {
+      logger.warn({ serverName }, "Forward: remote MCP not ready");
+      await this.callCompletion.finish(completion, "failed");
+      return { status: 503, body: "Remote MCP not ready", sentToClient: false };
+    }
+    const url = transport.getRemotePostUrl();
+
+    let request: JsonRpcRequest;
+    try {
+      request = JSON.parse(bodyToSend) as JsonRpcRequest;
+    } catch {
+      request = {};
+    }
+
+    const method = request.method;
+    if (method === "tools/call") {
+      logger.debug(
+        {
+          serverName,
+          requestId: request.id,
+          toolName: (request.params as { name?: string } | undefined)?.name,
+          argsKeys:
+            request.params && typeof request.params === "object"
+              ? Object.keys((request.params as { arguments?: unknown }).arguments ?? {})
+              : undefined,
+        },
+        "tools/call parsed for proxying",
+      );
+    }
+
+    // Simulation Mode gate: after policies, before upstream MCP call.
+    const simulationActive =
+      method === "tools/call" && !!simulationContext && simulationContext.enabled;
+
+    if (simulationActive) {
+      const sim = simulationContext!;
+      logger.info(
+        {
+          serverName,
+          toolName:
+            (request.params as { name?: string } | undefined)?.name ??
+            "(unknown)",
+          requestId: request.id,
+          source: sim.source,
+        },
+        "Simulation active: returning simulated result (skipping upstream MCP)",
+      );
+      const tools = this.toolsDiscovery.getToolsForServer(serverName) ?? [];
+      const toolName =
+        (request.params as { name?: string } | undefined)?.name ??
+        "(unknown)";
+      const toolInfo =
+        tools.find((t) => t.name === toolName) ??
+        ({ name: toolName } as { name: string; inputSchema?: object });
+
+      const simulatedResult = await this.simulationService.generateSimulatedResult(
+        {
+          serverName,
+          tool: toolInfo,
+          args: (request.params as { arguments?: unknown } | undefined)
+            ?.arguments,
+          agentId,
+          agentNameSnapshot,
+          requestId: request.id,
+          source: sim.source,
+        },
+      );
 
-      const methodFromBodyToSend =
-        bodyToSend !== body
-          ? (() => {
-              try {
-                return (JSON.parse(bodyToSend) as JsonRpcRequest).method;
-              } catch {
-                return undefined;
-              }
-            })()
-          : request.method;
-
-      const response = await fetch(url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: bodyToSend,
+      const responseBody = JSON.stringify({
+        jsonrpc: request.jsonrpc ?? "2.0",
+        id: request.id,
+        result: simulatedResult,
       });
-      const text = await response.text();
 
-      const isToolsListRequest = methodFromBodyToSend === "tools/list";
-      const isAsyncAccept =
-        response.status === 202 &&
-        (text === "Accepted" || text.trim() === "Accepted");
+      await this.callCompletion.finish(completion, "simulated");
+      // In MCP HTTP transport, clients typically listen on SSE for responses.
+      // Mirror the "handled" path behavior by sending the simulated JSON-RPC response.
+      this.sendToClient(responseBody, serverName, sessionId);
+      logger.debug(
+        { serverName, requestId: request.id, bytes: responseBody.length },
+        "Simulation response sent to SSE client",
+      );
+      return { status: 200, body: responseBody, sentToClient: true };
+    }
 
-      if (isToolsListRequest && response.ok && !isAsyncAccept) {
-        try {
-          const json = JSON.parse(text) as { result?: { tools?: unknown[] } };
-          const tools = json.result?.tools;
-          if (Array.isArray(tools)) {
-            const normalized = this.toolsDiscovery.normalizeToolsList(
-              tools as unknown[],
-            );
-            this.toolsDiscovery.setToolsForServer(serverName, normalized);
-          }
-        } catch {
-          // not JSON or wrong shape; response still forwarded to client
+    if (method === "tools/call") {
+      logger.debug(
+        {
+          serverName,
+          toolName:
+            (request.params as { name?: string } | undefined)?.name ??
+            "(unknown)",
+          requestId: request.id,
+          guardioMode,
+          simulationContext,
+        },
+        "Simulation inactive: forwarding tools/call to upstream MCP",
+      );
+    }
+
+    const methodFromBodyToSend =
+      bodyToSend !== body
+        ? (() => {
+            try {
+              return (JSON.parse(bodyToSend) as JsonRpcRequest).method;
+            } catch {
+              return undefined;
+            }
+          })()
+        : request.method;
+
+    if (method === "tools/list" && request.id != null) {
+      this.toolsListFilter.track(inspectionScope(serverName, sessionId), request.id, {
+        agentId,
+      });
+    }
+
+    if (method === "tools/call" && request.id != null && inspection) {
+      this.responseInspection.track(inspectionScope(serverName, sessionId), request.id, {
+        ...inspection,
+        serverName,
+        toolName:
+          (request.params as { name?: string } | undefined)?.name ??
+          "(unknown)",
+        args: (request.params as { arguments?: unknown } | undefined)
+          ?.arguments,
+      });
+    }
+
+    // The answer may come back over the upstream SSE stream before the POST returns.
+    if (completion) this.callCompletion.track(inspectionScope(serverName, sessionId), completion);
+
+    if (!url) {
+      // Spawned server: the answer arrives as a transport 'message', like an async SSE reply.
+      await transport.send(bodyToSend);
+      return { status: 202, body: "Accepted", sentToClient: false };
+    }
+
+    const http = transport.getHttpClient?.();
+    let response: Response;
+    try {
+      response = http
+        ? await http.request(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: bodyToSend,
+          })
+        : await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: bodyToSend,
+          });
+    } catch (err) {
+      const timedOut = err instanceof UpstreamTimeoutError;
+      logger.warn({ err, serverName }, "Forward: upstream request failed");
+      await this.callCompletion.finish(completion, timedOut ? "timeout" : "failed");
+      return {
+        status: timedOut ? 504 : 502,
+        body: timedOut ? "Upstream timeout" : "Upstream unreachable",
+        sentToClient: false,
+      };
+    }
+    let text = await response.text();
+
+    const isToolsListRequest = methodFromBodyToSend === "tools/list";
+    const isAsyncAccept =
+      response.status === 202 &&
+      (text === "Accepted" || text.trim() === "Accepted");
+    if (!isAsyncAccept) {
+      await this.callCompletion.finish(completion, response.ok ? "completed" : "failed");
+    }
+
+    if (isToolsListRequest && response.ok && !isAsyncAccept) {
+      try {
+        const json = JSON.parse(text) as { result?: { tools?: unknown[] } };
+        const tools = json.result?.tools;
+        if (Array.isArray(tools)) {
+          const normalized = this.toolsDiscovery.normalizeToolsList(
+            tools as unknown[],
+          );
+          this.toolsDiscovery.setToolsForServer(serverName, normalized);
         }
+      } catch {
+        // not JSON or wrong shape; response still forwarded to client
       }
+    }
 
-      return { status: response.status, body: text };
-    } catch (err) {
-      logger.error({ err }, "Forward POST failed");
-      return { status: 500, body: "Proxy Error" };
+    if (response.ok && !isAsyncAccept) {
+      const scope = inspectionScope(serverName, sessionId);
+      text = await this.responseInspection.inspectIfTracked(scope, text);
+      text = await this.toolsListFilter.filterIfTracked(scope, text);
     }
+
+    return { status: response.status, body: text, sentToClient: false };
   }
 }
@@ -1,11 +1,27 @@
 import { createRequire } from "node:module";
 import { v7 as uuidv7 } from "uuid";
 import type { PolicyPluginInterface } from "../interfaces/PolicyPluginInterface.js";
-import type { PolicyResult } from "../interfaces/PolicyTypes.js";
+import type {
+  PolicyEvaluationFailure,
+  PolicyEvaluationMode,
+  PolicyEvaluationTraceEntry,
+  PolicyFailureCode,
+  PolicyFailureMode,
+  PolicyRequestContext,
+  PolicyResult,
+  PolicyResponseContext,
+  PolicyResponseResult,
+  PolicySimulationContext,
+  PolicyToolDefinition,
+} from "../interfaces/PolicyTypes.js";
 import type { EventSinkPluginInterface } from "../interfaces/EventSinkPluginInterface.js";
-import type { GuardioEvent } from "../interfaces/EventSinkPluginInterface.js";
+import type {
+  GuardioEvent,
+  GuardioEventDecision,
+} from "../interfaces/EventSinkPluginInterface.js";
 import type {
   JsonRpcRequest,
+  JsonRpcResponse,
   GuardioBlockedResult,
 } from "./types.js";
 import { GuardioAction } from "./types.js";
@@ -17,9 +33,23 @@ export interface ProcessResultHandled {
   body: string;
 }
 
+/** Policy that answered "negotiate"; the call must be approved by a human before forwarding. */
+export interface ApprovalRequirement {
+  policyName: string;
+  code?: string;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+  /** Every policy's verdict, in "all" evaluation mode; recorded once the call is resolved. */
+  trace?: PolicyEvaluationTraceEntry[];
+  /** Fail-open policies that threw or timed out on the way; recorded once the call is resolved. */
+  failures?: PolicyEvaluationFailure[];
+}
+
 export interface ProcessResultForward {
   handled: false;
   bodyToSend: string;
+  /** Set when a policy negotiated; the caller must park bodyToSend until it is approved. */
+  approval?: ApprovalRequirement;
 }
 
 export type ProcessResult = ProcessResultHandled | ProcessResultForward;
@@ -34,16 +64,122 @@ export interface ProcessInput {
    * When provided, processing events will be annotated to indicate that
    * Simulation Mode was enabled for this request and what activated it.
    */
-  simulation?: {
-    enabled: boolean;
-    source?: "global" | "header" | "tool";
-  };
+  simulation?: PolicySimulationContext;
   /** Optional agent id for event correlation. */
   agentId?: string | null;
   /** Optional agent name snapshot for event correlation. */
   agentNameSnapshot?: string | null;
   /** Optional trace id for event correlation. */
   traceId?: string;
+  /** Called tool's discovered definition (see PolicyRequestContext.tool). */
+  tool?: PolicyToolDefinition | null;
+  /** Upstream server name, passed to policies. */
+  serverName?: string;
+  /** Unique id of this call (see PolicyRequestContext.callId). */
+  callId?: string;
+  /** Request headers selected for policies (see PolicyRequestContext.headers). */
+  headers?: Record<string, string>;
+  /** Stop at the first block (default), or run every policy and record a trace. */
+  evaluationMode?: PolicyEvaluationMode;
+  /** How long a policy's evaluate() may take, in milliseconds (default DEFAULT_POLICY_TIMEOUT_MS). */
+  policyTimeoutMs?: number;
+  /** What a policy that throws or times out does to the call (default "closed": block it). */
+  policyFailureMode?: PolicyFailureMode;
+  /** Per-policy overrides of policyTimeoutMs and policyFailureMode (from the policy instances). */
+  policySettings?: ReadonlyMap<PolicyPluginInterface, PolicyExecutionSettings>;
+}
+
+/** Default time a policy's evaluate() may take before the call counts it as failed. */
+export const DEFAULT_POLICY_TIMEOUT_MS = 5_000;
+
+/** Failure handling of one policy; unset fields fall back to the ProcessInput defaults. */
+export interface PolicyExecutionSettings {
+  timeoutMs?: number;
+  failureMode?: PolicyFailureMode;
+}
+
+type PolicyHookFailure = { errorCode: PolicyFailureCode; message: string };
+type PolicyEvaluationOutcome<R> = { result: R } | PolicyHookFailure;
+
+/**
+ * Run a policy hook (evaluate or evaluateResponse), turning a throw, a malformed result or a
+ * timeout into a failure instead of an exception. The hook gets the deadline and a signal
+ * that is aborted on timeout; a timed-out hook is not awaited and its eventual result is ignored.
+ */
+async function runPolicyHook<R extends { verdict: string }>(
+  hook: "evaluate" | "evaluateResponse",
+  run: (limits: { signal: AbortSignal; deadline: number }) => Promise<R>,
+  timeoutMs: number,
+): Promise<PolicyEvaluationOutcome<R>> {
+  const controller = new AbortController();
+  const deadline = Date.now() + timeoutMs;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<PolicyEvaluationOutcome<R>>((resolve) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve({
+        errorCode: "POLICY_TIMEOUT",
+        message: `${hook}() did not finish within ${timeoutMs} ms`,
+      });
+    }, timeoutMs);
+  });
+  const evaluated = Promise.resolve()
+    .then(() => run({ signal: controller.signal, deadline }))
+    .then(
+      (result): PolicyEvaluationOutcome<R> =>
+        result != null && typeof result.verdict === "string"
+          ? { result }
+          : { errorCode: "POLICY_ERROR", message: `${hook}() did not return a verdict` },
+      (err: unknown): PolicyEvaluationOutcome<R> => ({
+        errorCode: "POLICY_ERROR",
+        message: err instanceof Error ? err.message : String(err),
+      }),
+    );
+  try {
+    return await Promise.race([evaluated, timedOut]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Timeout and failure mode for one policy: its instance overrides, else the deployment's. */
+function policyExecution(
+  input: Pick<ProcessInput, "policyTimeoutMs" | "policyFailureMode" | "policySettings">,
+  policy: PolicyPluginInterface,
+): { timeoutMs: number; failureMode: PolicyFailureMode } {
+  const settings = input.policySettings?.get(policy);
+  return {
+    timeoutMs: settings?.timeoutMs ?? input.policyTimeoutMs ?? DEFAULT_POLICY_TIMEOUT_MS,
+    failureMode: settings?.failureMode ?? input.policyFailureMode ?? "closed",
+  };
+}
+
+/** Add a failed policy hook to failures and log what happens to the call because of it. */
+function recordPolicyFailure(
+  failures: PolicyEvaluationFailure[],
+  policy: PolicyPluginInterface,
+  failure: PolicyHookFailure,
+  failureMode: PolicyFailureMode,
+  toolName: string,
+): void {
+  failures.push({
+    policyName: policy.name,
+    errorCode: failure.errorCode,
+    message: failure.message,
+    failureMode,
+  });
+  logger.warn(
+    {
+      toolName,
+      policy: policy.name,
+      errorCode: failure.errorCode,
+      message: failure.message,
+      failureMode,
+    },
+    failureMode === "open"
+      ? "Policy evaluation failed; skipping policy (fail-open)"
+      : "Policy evaluation failed; blocking call (fail-closed)",
+  );
 }
 
 function getGuardioVersion(): string {
@@ -59,7 +195,7 @@ function getGuardioVersion(): string {
 /**
  * Build a successful JSON-RPC response for blocked/rejected tool calls.
  */
-function buildGuardioBlockedResponse(
+export function buildGuardioBlockedResponse(
   id: string | number | undefined,
   options: {
     toolName: string;
@@ -107,15 +243,25 @@ function buildGuardioBlockedResponse(
 }
 
 /** Build a GuardioEvent for the result of processing a tools/call request. */
-function buildProcessingEvent(
-  input: ProcessInput,
+export function buildProcessingEvent(
+  input: Pick<
+    ProcessInput,
+    "agentId" | "agentNameSnapshot" | "traceId" | "simulation"
+  >,
   request: JsonRpcRequest,
   toolName: string,
   outcome: {
-    decision: "ALLOWED" | "BLOCKED";
+    decision: GuardioEventDecision;
     policyName?: string;
     policyCode?: string;
     policyReason?: string;
+    policyMetadata?: Record<string, unknown>;
+    /** Verdicts of all policies, in "all" evaluation mode. */
+    trace?: PolicyEvaluationTraceEntry[];
+    /** Policies that threw or timed out; the first one's code becomes the event's errorCode. */
+    failures?: PolicyEvaluationFailure[];
+    /** Policy that modified a call recorded as FLAGGED, so the rewrite is not lost. */
+    modification?: { policyName: string; code?: string; reason?: string };
     httpStatus?: number;
   },
 ): GuardioEvent {
@@ -132,11 +278,17 @@ function buildProcessingEvent(
     decision: outcome.decision,
     simulation: input.simulation,
     policyEvaluation:
-      outcome.decision === "BLOCKED" && outcome.policyName
+      outcome.policyName || outcome.trace || outcome.failures
         ? {
-            policyName: outcome.policyName,
+            ...(outcome.policyName != null && { policyName: outcome.policyName }),
             ...(outcome.policyCode != null && { code: outcome.policyCode }),
             ...(outcome.policyReason != null && { reason: outcome.policyReason }),
+            ...(outcome.policyMetadata != null && {
+              metadata: outcome.policyMetadata,
+            }),
+            ...(outcome.trace != null && { mode: "all", trace: outcome.trace }),
+            ...(outcome.failures != null && { failures: outcome.failures }),
+            ...(outcome.modification != null && { modification: outcome.modification }),
           }
         : undefined,
     requestPayload: {
@@ -145,13 +297,47 @@ function buildProcessingEvent(
       requestId: request.id,
     },
     ...(outcome.httpStatus != null && { httpStatus: outcome.httpStatus }),
+    ...(outcome.failures?.[0] != null && { errorCode: outcome.failures[0].errorCode }),
+  };
+}
+
+type PolicyFinding = {
+  policyName: string;
+  result: { code?: string; reason?: string; metadata?: Record<string, unknown> };
+};
+
+/**
+ * Event outcome for a call or result that went through. A flag wins over a modification, so
+ * shadow-mode findings always show up as FLAGGED; the modifying policy is then kept under
+ * policyEvaluation.modification.
+ */
+function passedOutcome(
+  flagged: PolicyFinding | null,
+  modifiedBy: PolicyFinding | null,
+): Parameters<typeof buildProcessingEvent>[3] {
+  const finding = flagged ?? modifiedBy;
+  if (!finding) return { decision: "ALLOWED" };
+  return {
+    decision: flagged ? "FLAGGED" : "MODIFIED",
+    policyName: finding.policyName,
+    policyCode: finding.result.code,
+    policyReason: finding.result.reason,
+    policyMetadata: finding.result.metadata,
+    ...(flagged &&
+      modifiedBy && {
+        modification: {
+          policyName: modifiedBy.policyName,
+          ...(modifiedBy.result.code != null && { code: modifiedBy.result.code }),
+          ...(modifiedBy.result.reason != null && { reason: modifiedBy.result.reason }),
+        },
+      }),
   };
 }
 
 /**
  * Emit processing result to all event sinks. Fire-and-forget; logs errors but does not throw.
  */
-async function emitProcessingEvent(
+export async function emitProcessingEvent(
   eventSinks: EventSinkPluginInterface[],
   event: GuardioEvent,
 ): Promise<void> {
@@ -169,6 +355,19 @@ async function emitProcessingEvent(
  * Processes incoming POST /messages body. For tools/call requests, runs policy
  * plugins and either returns a handled result (status + body) when blocked, or
  * a forward result (bodyToSend) for GuardioCore to proxy to the remote MCP.
+ * A "flag" verdict does not stop the call: it is forwarded, but recorded as FLAGGED
+ * (first flagging policy wins) unless a later policy blocks it.
+ * modified_args are merged into the arguments for later policies and the upstream; the
+ * call is then recorded as MODIFIED, or as FLAGGED with the modifying policy under
+ * policyEvaluation.modification when a policy also flagged it.
+ * A "negotiate" verdict (first one wins, a later block still blocks) returns a forward
+ * result with `approval` set; no event is emitted then, since the outcome is only
+ * known once a human approves or rejects the call.
+ * With evaluationMode "all", policies after a block still run (the first block wins) and every
+ * verdict is recorded, with its latency, in the event's policyEvaluation.trace.
+ * A policy that throws or exceeds its timeout blocks the call when it fails closed, and is
+ * skipped when it fails open; either way the event lists it in policyEvaluation.failures and
+ * carries its errorCode (POLICY_ERROR or POLICY_TIMEOUT).
  * When eventSinks are provided, emits a GuardioEvent describing the processing result.
  */
 export async function processMessage(input: ProcessInput): Promise<ProcessResult> {
@@ -193,51 +392,322 @@ export async function processMessage(input: ProcessInput): Promise<ProcessResult
     "Evaluating tools/call (HTTP)",
   );
 
+  let flagged: { policyName: string; result: PolicyResult } | null = null;
+  let negotiated: { policyName: string; result: PolicyResult } | null = null;
+  let modifiedBy: { policyName: string; result: PolicyResult } | null = null;
+  let blocked: { policyName: string; result: PolicyResult } | null = null;
+  const timestamp = new Date().toISOString();
+  const trace: PolicyEvaluationTraceEntry[] | undefined =
+    input.evaluationMode === "all" ? [] : undefined;
+  const failures: PolicyEvaluationFailure[] = [];
+
   for (const policy of policyPlugins) {
-    const result: PolicyResult = await policy.evaluate({ toolName, args });
+    const { timeoutMs, failureMode } = policyExecution(input, policy);
+    const startedAt = performance.now();
+    const context: PolicyRequestContext = {
+      toolName,
+      args,
+      tool: input.tool,
+      agentId: input.agentId,
+      agentName: input.agentNameSnapshot,
+      serverName: input.serverName,
+      callId: input.callId,
+      requestId: request.id,
+      traceId: input.traceId,
+      headers: input.headers ?? {},
+      timestamp,
+      simulation: input.simulation,
+    };
+    const evaluation = await runPolicyHook(
+      "evaluate",
+      (limits) => policy.evaluate({ ...context, ...limits }),
+      timeoutMs,
+    );
+    const durationMs = Math.round((performance.now() - startedAt) * 100) / 100;
+    let result: PolicyResult;
+    if ("result" in evaluation) {
+      result = evaluation.result;
+    } else {
+      recordPolicyFailure(failures, policy, evaluation, failureMode, toolName);
+      // The agent only learns that the policy failed; the error itself stays in the event.
+      result =
+        failureMode === "open"
+          ? { verdict: "allow" }
+          : {
+              verdict: "block",
+              code: evaluation.errorCode,
+              reason:
+                evaluation.errorCode === "POLICY_TIMEOUT"
+                  ? "Policy did not respond in time."
+                  : "Policy failed to evaluate the call.",
+            };
+    }
+    trace?.push({
+      policyName: policy.name,
+      verdict: result.verdict,
+      ...(result.code != null && { code: result.code }),
+      ...(result.reason != null && { reason: result.reason }),
+      ...(result.metadata != null && { metadata: result.metadata }),
+      ...(!("result" in evaluation) && { errorCode: evaluation.errorCode }),
+      durationMs,
+    });
     if (result.verdict === "block") {
       logger.warn(
         { toolName, policy: policy.name },
         "Call blocked by policy",
       );
-      const responseBody = buildGuardioBlockedResponse(request.id, {
-        toolName,
-        reason: "blocked",
-        policy: policy.name,
-        policyCode: result.code,
-        policyReason: result.reason,
-      });
-      const event = buildProcessingEvent(input, request, toolName, {
-        decision: "BLOCKED",
-        policyName: policy.name,
-        policyCode: result.code,
-        policyReason: result.reason,
-        httpStatus: 200,
-      });
-      await emitProcessingEvent(eventSinks, event);
-      return {
-        handled: true,
-        status: 200,
-        body: responseBody || "",
-      };
+      blocked ??= { policyName: policy.name, result };
+      if (!trace) break;
+      continue;
+    }
+    if (result.verdict === "flag" && flagged === null) {
+      logger.info(
+        { toolName, policy: policy.name, code: result.code },
+        "Call flagged by policy (forwarding)",
+      );
+      flagged = { policyName: policy.name, result };
+    }
+    if (result.verdict === "negotiate" && negotiated === null) {
+      logger.info(
+        { toolName, policy: policy.name, code: result.code },
+        "Call requires approval by policy",
+      );
+      negotiated = { policyName: policy.name, result };
     }
     if (
       result.modified_args != null &&
       typeof result.modified_args === "object"
     ) {
-      args = { ...(args as object), ...result.modified_args };
+      const merged: Record<string, unknown> = {
+        ...(args as object),
+        ...result.modified_args,
+      };
+      for (const [key, value] of Object.entries(merged)) {
+        if (value === undefined) delete merged[key];
+      }
+      args = merged;
+      if (modifiedBy === null) {
+        modifiedBy = { policyName: policy.name, result };
+      }
     }
   }
 
+  const failed = failures.length > 0 ? failures : undefined;
+
+  if (blocked) {
+    const responseBody = buildGuardioBlockedResponse(request.id, {
+      toolName,
+      reason: "blocked",
+      policy: blocked.policyName,
+      policyCode: blocked.result.code,
+      policyReason: blocked.result.reason,
+    });
+    const event = buildProcessingEvent(input, request, toolName, {
+      decision: "BLOCKED",
+      policyName: blocked.policyName,
+      policyCode: blocked.result.code,
+      policyReason: blocked.result.reason,
+      policyMetadata: blocked.result.metadata,
+      trace,
+      failures: failed,
+      httpStatus: 200,
+    });
+    await emitProcessingEvent(eventSinks, event);
+    return {
+      handled: true,
+      status: 200,
+      body: responseBody || "",
+    };
+  }
+
   const bodyToSend = JSON.stringify({
     ...request,
     params: { ...request.params, arguments: args },
   });
 
+  if (negotiated) {
+    return {
+      handled: false,
+      bodyToSend,
+      approval: {
+        policyName: negotiated.policyName,
+        code: negotiated.result.code,
+        reason: negotiated.result.reason,
+        metadata: negotiated.result.metadata,
+        ...(trace != null && { trace }),
+        ...(failed != null && { failures: failed }),
+      },
+    };
+  }
+
   const event = buildProcessingEvent(input, request, toolName, {
-    decision: "ALLOWED",
+    ...passedOutcome(flagged, modifiedBy),
+    trace,
+    failures: failed,
   });
   await emitProcessingEvent(eventSinks, event);
 
   return { handled: false, bodyToSend };
 }
+
+export interface ProcessResponseInput
+  extends Pick<
+    ProcessInput,
+    | "eventSinks"
+    | "agentId"
+    | "agentNameSnapshot"
+    | "traceId"
+    | "simulation"
+    | "tool"
+    | "callId"
+    | "headers"
+    | "policyTimeoutMs"
+    | "policyFailureMode"
+    | "policySettings"
+  > {
+  /** JSON-RPC response text from the upstream MCP server. */
+  body: string;
+  /** Server that returned the result; recorded in the event's responsePayload. */
+  serverName?: string;
+  toolName: string;
+  /** Arguments the call was forwarded with. */
+  args: unknown;
+  /** Policies for the original call; only those implementing evaluateResponse run. */
+  policyPlugins: PolicyPluginInterface[];
+}
+
+/**
+ * Runs evaluateResponse of the given policies on an upstream tools/call result and returns
+ * the body to deliver to the agent. Error responses and non-JSON bodies pass through.
+ * A block replaces the result with a Guardio blocked result; modified_result replaces it
+ * for later policies and the agent (MODIFIED); a flag only marks it (FLAGGED, which wins
+ * over a modification as for requests).
+ * evaluateResponse has the same timeout and failure mode as evaluate: a failing policy blocks
+ * the result when it fails closed and is skipped when it fails open.
+ * An event is emitted only when a policy did not simply allow the result or failed; its
+ * responsePayload names the server and request, and policyEvaluation carries the findings.
+ */
+export async function processResponse(
+  input: ProcessResponseInput,
+): Promise<string> {
+  const { body, serverName, toolName, args, policyPlugins, eventSinks = [] } = input;
+
+  let response: JsonRpcResponse;
+  try {
+    response = JSON.parse(body) as JsonRpcResponse;
+  } catch {
+    return body;
+  }
+  if (response.id == null || !("result" in response)) {
+    return body;
+  }
+
+  const request: JsonRpcRequest = {
+    jsonrpc: response.jsonrpc,
+    id: response.id,
+    method: "tools/call",
+  };
+  const responsePayload = {
+    ...(serverName != null && { serverName }),
+    requestId: response.id,
+  };
+  let result = response.result;
+  let modifiedBy: { policyName: string; result: PolicyResponseResult } | null =
+    null;
+  let flagged: { policyName: string; result: PolicyResponseResult } | null =
+    null;
+  const failures: PolicyEvaluationFailure[] = [];
+
+  for (const policy of policyPlugins) {
+    const evaluateResponse = policy.evaluateResponse?.bind(policy);
+    if (!evaluateResponse) continue;
+    const { timeoutMs, failureMode } = policyExecution(input, policy);
+    const context: PolicyResponseContext = {
+      toolName,
+      args,
+      tool: input.tool,
+      agentId: input.agentId,
+      agentName: input.agentNameSnapshot,
+      serverName,
+      callId: input.callId,
+      requestId: response.id,
+      traceId: input.traceId,
+      headers: input.headers ?? {},
+      simulation: input.simulation,
+      result,
+    };
+    const evaluation = await runPolicyHook(
+      "evaluateResponse",
+      (limits) => evaluateResponse({ ...context, ...limits }),
+      timeoutMs,
+    );
+    let verdict: PolicyResponseResult;
+    if ("result" in evaluation) {
+      verdict = evaluation.result;
+    } else {
+      recordPolicyFailure(failures, policy, evaluation, failureMode, toolName);
+      if (failureMode === "open") continue;
+      verdict = {
+        verdict: "block",
+        code: evaluation.errorCode,
+        reason:
+          evaluation.errorCode === "POLICY_TIMEOUT"
+            ? "Policy did not check the tool result in time."
+            : "Policy failed to check the tool result.",
+      };
+    }
+    if (verdict.verdict === "block") {
+      logger.warn(
+        { toolName, policy: policy.name, requestId: response.id },
+        "Tool result blocked by policy",
+      );
+      const responseBody = buildGuardioBlockedResponse(response.id, {
+        toolName,
+        reason: "blocked",
+        policy: policy.name,
+        policyCode: verdict.code,
+        policyReason: verdict.reason,
+      });
+      await emitProcessingEvent(eventSinks, {
+        ...buildProcessingEvent(input, request, toolName, {
+          decision: "BLOCKED",
+          policyName: policy.name,
+          policyCode: verdict.code,
+          policyReason: verdict.reason,
+          policyMetadata: verdict.metadata,
+          failures: failures.length > 0 ? failures : undefined,
+        }),
+        eventType: "tools/call/response",
+        responsePayload,
+      });
+      return responseBody;
+    }
+    if (verdict.modified_result !== undefined) {
+      result = verdict.modified_result;
+      if (modifiedBy === null) {
+        modifiedBy = { policyName: policy.name, result: verdict };
+      }
+    }
+    if (verdict.verdict === "flag" && flagged === null) {
+      flagged = { policyName: policy.name, result: verdict };
+    }
+  }
+
+  if (modifiedBy || flagged || failures.length > 0) {
+    await emitProcessingEvent(eventSinks, {
+      ...buildProcessingEvent(input, request, toolName, {
+        ...passedOutcome(flagged, modifiedBy),
+        failures: failures.length > 0 ? failures : undefined,
+      }),
+      eventType: "tools/call/response",
+      responsePayload,
+    });
+  }
+
+  if (!modifiedBy) return body;
+  logger.info(
+    { toolName, policy: modifiedBy.policyName, requestId: response.id },
+    "Tool result modified by policy",
+  );
+  return JSON.stringify({ ...response, result });
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { AgentKeyService } from "../services/agent-key-service.js";
+import { SqliteStoragePlugin } from "../../plugins/storage/SqliteStoragePlugin.js";
+
+describe("AgentKeyService", () => {
+  let storage: SqliteStoragePlugin;
+
+  beforeEach(() => {
+    storage = new SqliteStoragePlugin({ inMemory: true });
+    storage.connect();
+    storage.start();
+  });
+
+  afterEach(() => {
+    storage.disconnect();
+  });
+
+  it("authenticates issued keys until they are revoked, storing only their hash", async () => {
+    const service = new AgentKeyService(storage.getRepository());
+    const created = await service.createAgent("ci-bot");
+    if (!("agent" in created)) throw new Error(created.error);
+
+    const issued = await service.issue(created.agent.id, "github actions");
+    if (!("key" in issued)) throw new Error(issued.error);
+    expect(issued.key.startsWith(issued.apiKey.prefix)).toBe(true);
+
+    const agent = await service.authenticate(issued.key);
+    expect(agent).toMatchObject({ id: created.agent.id, name: "ci-bot" });
+    expect(await service.authenticate(`${issued.key}x`)).toBeNull();
+    expect(await service.hasActiveKeys(created.agent.id)).toBe(true);
+
+    const listed = await service.list(created.agent.id);
+    expect(listed?.keys).toHaveLength(1);
+    expect(listed?.keys[0]).toMatchObject({ agentName: "ci-bot", name: "github actions" });
+    expect(listed?.keys[0].lastUsedAt).not.toBeNull();
+    expect(JSON.stringify(listed)).not.toContain(issued.key);
+
+    const revoked = await service.revoke(created.agent.id, issued.apiKey.id);
+    expect("apiKey" in revoked && revoked.apiKey.revokedAt).toBeTruthy();
+    expect(await service.authenticate(issued.key)).toBeNull();
+    expect(await service.hasActiveKeys(created.agent.id)).toBe(false);
+  });
+
+  it("keeps agents with keys when their last connection closes", async () => {
+    const repo = storage.getRepository();
+    const service = new AgentKeyService(repo);
+    const created = await service.createAgent("ci-bot");
+    if (!("agent" in created)) throw new Error(created.error);
+    const issued = await service.issue(created.agent.id);
+    if (!("key" in issued)) throw new Error(issued.error);
+
+    await repo.saveAgent({ id: created.agent.id, name: "ci-bot", serverName: "github" });
+    await repo.deleteConnection(created.agent.id, "github");
+
+    expect(await service.authenticate(issued.key)).toMatchObject({ id: created.agent.id });
+    expect(await service.issue("missing-agent")).toMatchObject({ kind: "not_found" });
+  });
+});
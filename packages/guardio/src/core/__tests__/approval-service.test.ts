@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { ApprovalService } from "../services/approval-service.js";
+import { SqliteStoragePlugin } from "../../plugins/storage/SqliteStoragePlugin.js";
+
+const body = JSON.stringify({
+  jsonrpc: "2.0",
+  id: 3,
+  method: "tools/call",
+  params: { name: "delete_repo", arguments: { repo: "guardio" } },
+});
+
+describe("ApprovalService", () => {
+  let storage: SqliteStoragePlugin;
+
+  beforeEach(() => {
+    storage = new SqliteStoragePlugin({ inMemory: true });
+    storage.connect();
+    storage.start();
+  });
+
+  afterEach(() => {
+    storage.disconnect();
+  });
+
+  function park(service: ApprovalService) {
+    return service.park({
+      serverName: "github",
+      toolName: "delete_repo",
+      agentId: null,
+      agentNameSnapshot: "ops-bot",
+      requestId: 3,
+      bodyToSend: body,
+      requirement: { policyName: "needs-approval", code: "DESTRUCTIVE_TOOL" },
+    });
+  }
+
+  it("persists parked calls and resolves them once approved", async () => {
+    const service = new ApprovalService(storage.getRepository());
+    const parked = await park(service);
+    expect(parked).not.toBeNull();
+
+    const pending = await service.list({ status: "pending" });
+    expect(pending?.approvals).toHaveLength(1);
+    expect(pending?.approvals[0].arguments).toEqual({ repo: "guardio" });
+
+    const result = await service.approve(parked!.approval.id, "looks fine");
+    expect("approval" in result && result.approval.status).toBe("approved");
+
+    const decided = await parked!.decision;
+    expect(decided.status).toBe("approved");
+    expect(decided.note).toBe("looks fine");
+    expect(decided.body).toBe(body);
+    service.close();
+  });
+
+  it("refuses to resolve the same approval twice", async () => {
+    const service = new ApprovalService(storage.getRepository());
+    const parked = await park(service);
+
+    await service.reject(parked!.approval.id);
+    const second = await service.approve(parked!.approval.id);
+    expect(second).toMatchObject({ kind: "already_resolved" });
+    expect(await service.approve("missing")).toMatchObject({ kind: "not_found" });
+    expect((await parked!.decision).status).toBe("rejected");
+    service.close();
+  });
+
+  it("expires calls nobody reviewed in time", async () => {
+    const service = new ApprovalService(storage.getRepository(), 10);
+    const parked = await park(service);
+
+    const decided = await parked!.decision;
+    expect(decided.status).toBe("expired");
+    service.close();
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from "vitest";
+import { ConcurrencyLimitPolicyPlugin } from "../../plugins/policy/ConcurrencyLimitPolicyPlugin.js";
+import { SqliteStoragePlugin } from "../../plugins/storage/SqliteStoragePlugin.js";
+import { CallCompletionService } from "../services/call-completion-service.js";
+import type { PolicyCompletionContext } from "../../interfaces/PolicyTypes.js";
+
+function plugin(config: Record<string, unknown>): ConcurrencyLimitPolicyPlugin {
+  const storage = new SqliteStoragePlugin({ inMemory: true });
+  storage.start();
+  storage.connect();
+  return new ConcurrencyLimitPolicyPlugin(config, {
+    pluginRepository: storage.getPluginRepository("concurrency-limit"),
+  });
+}
+
+function completed(callId: string): PolicyCompletionContext {
+  return {
+    callId,
+    requestId: 1,
+    toolName: "generate_report",
+    args: {},
+    serverName: "reports",
+    agentId: null,
+    outcome: "completed",
+    durationMs: 5,
+  };
+}
+
+const call = (callId: string) => ({ toolName: "generate_report", args: {}, callId });
+
+describe("ConcurrencyLimitPolicyPlugin", () => {
+  it("blocks calls above the limit until a slot is released", async () => {
+    const limiter = plugin({ maxConcurrent: 2 });
+    expect((await limiter.evaluate(call("c1"))).verdict).toBe("allow");
+    expect(await limiter.evaluate(call("c2"))).toMatchObject({
+      verdict: "allow",
+      metadata: { inFlight: 2 },
+    });
+    expect(await limiter.evaluate(call("c3"))).toMatchObject({
+      verdict: "block",
+      code: "CONCURRENCY_LIMIT_EXCEEDED",
+    });
+
+    await limiter.onCallComplete(completed("c1"));
+    await limiter.onCallComplete(completed("c1"));
+    expect((await limiter.evaluate(call("c3"))).verdict).toBe("allow");
+    expect((await limiter.evaluate(call("c4"))).verdict).toBe("block");
+  });
+
+  it("releases every slot when many calls complete at once", async () => {
+    const limiter = plugin({ maxConcurrent: 50 });
+    const callIds = Array.from({ length: 50 }, (_, i) => `c${i}`);
+    for (const callId of callIds) await limiter.evaluate(call(callId));
+
+    await Promise.all(callIds.map((callId) => limiter.onCallComplete(completed(callId))));
+    expect(await limiter.evaluate(call("next"))).toMatchObject({
+      verdict: "allow",
+      metadata: { inFlight: 1 },
+    });
+  });
+
+  it("queues a call until a slot frees up or the wait runs out", async () => {
+    const limiter = plugin({ maxConcurrent: 1, mode: "queue", maxWaitMs: 1_000 });
+    await limiter.evaluate(call("c1"));
+
+    const queued = limiter.evaluate(call("c2"));
+    setTimeout(() => void limiter.onCallComplete(completed("c1")), 150);
+    const result = await queued;
+    expect(result.verdict).toBe("allow");
+    expect(result.metadata?.waitedMs).toBeGreaterThanOrEqual(100);
+
+    const impatient = plugin({ maxConcurrent: 1, mode: "queue", maxWaitMs: 150 });
+    await impatient.evaluate(call("c1"));
+    expect((await impatient.evaluate(call("c2"))).verdict).toBe("block");
+  });
+
+  it("stops queueing before the policy timeout", async () => {
+    const limiter = plugin({ maxConcurrent: 1, mode: "queue", maxWaitMs: 10_000 });
+    await limiter.evaluate(call("c1"));
+
+    const result = await limiter.evaluate({ ...call("c2"), deadline: Date.now() + 300 });
+    expect(result).toMatchObject({ verdict: "block", code: "CONCURRENCY_LIMIT_EXCEEDED" });
+    expect(result.metadata?.waitedMs).toBeLessThan(300);
+  });
+
+  it("gives back a slot taken after the evaluation was aborted", async () => {
+    const limiter = plugin({ maxConcurrent: 1 });
+    const controller = new AbortController();
+    controller.abort();
+
+    expect((await limiter.evaluate({ ...call("late"), signal: controller.signal })).verdict).toBe(
+      "block",
+    );
+    expect(await limiter.evaluate(call("c2"))).toMatchObject({
+      verdict: "allow",
+      metadata: { inFlight: 1 },
+    });
+  });
+});
+
+describe("CallCompletionService", () => {
+  it("reports each call once, when its response arrives", async () => {
+    const onCallComplete = vi.fn(async () => {});
+    const service = new CallCompletionService();
+    const tracked = service.begin({
+      callId: "c1",
+      requestId: 7,
+      toolName: "generate_report",
+      args: {},
+      serverName: "reports",
+      agentId: "a1",
+      policyPlugins: [{ name: "p", evaluate: async () => ({ verdict: "allow" }), onCallComplete }],
+    });
+    expect(
+      service.begin({ ...tracked!, policyPlugins: [{ name: "q", evaluate: async () => ({ verdict: "allow" }) }] }),
+    ).toBeNull();
+
+    service.track("reports", tracked!);
+    service.completeIfTracked("reports", JSON.stringify({ jsonrpc: "2.0", id: 8, result: {} }));
+    expect(onCallComplete).not.toHaveBeenCalled();
+    service.completeIfTracked("reports", JSON.stringify({ jsonrpc: "2.0", id: 7, result: {} }));
+    await service.finish(tracked, "timeout");
+
+    expect(onCallComplete).toHaveBeenCalledTimes(1);
+    expect(onCallComplete).toHaveBeenCalledWith(
+      expect.objectContaining({ callId: "c1", requestId: 7, agentId: "a1", outcome: "completed" }),
+    );
+    service.clear();
+  });
+});
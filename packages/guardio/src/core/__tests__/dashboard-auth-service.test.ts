@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import {
+  DashboardAuthService,
+  hashPassword,
+  verifyPassword,
+} from "../services/dashboard-auth-service.js";
+
+describe("DashboardAuthService", () => {
+  it("hashes passwords with a random salt and verifies them", async () => {
+    const hash = await hashPassword("correct horse");
+    expect(hash.startsWith("scrypt$")).toBe(true);
+    expect(await hashPassword("correct horse")).not.toBe(hash);
+    expect(await verifyPassword("correct horse", hash)).toBe(true);
+    expect(await verifyPassword("wrong", hash)).toBe(false);
+    expect(await verifyPassword("correct horse", "correct horse")).toBe(false);
+  });
+
+  it("logs users in with sessions and accepts static tokens", async () => {
+    const service = new DashboardAuthService({
+      users: [{ username: "ana", passwordHash: await hashPassword("s3cret"), role: "operator" }],
+      tokens: [{ name: "ci", token: "ci-token-0123456789", role: "viewer" }],
+    });
+    expect(service.isEnabled()).toBe(true);
+
+    expect(await service.login("ana", "nope")).toBeNull();
+    expect(await service.login("bob", "s3cret")).toBeNull();
+    const session = await service.login("ana", "s3cret");
+    expect(session).toMatchObject({ username: "ana", role: "operator" });
+
+    expect(service.authenticate(session!.token)).toEqual({ username: "ana", role: "operator" });
+    expect(service.authenticate("ci-token-0123456789")).toEqual({ username: "ci", role: "viewer" });
+    expect(service.authenticate("unknown")).toBeNull();
+
+    service.logout(session!.token);
+    expect(service.authenticate(session!.token)).toBeNull();
+  });
+
+  it("expires sessions after sessionTtlMs and stays disabled without users or tokens", async () => {
+    const service = new DashboardAuthService({
+      users: [{ username: "ana", passwordHash: await hashPassword("s3cret"), role: "admin" }],
+      sessionTtlMs: -1,
+    });
+    const session = await service.login("ana", "s3cret");
+    expect(service.authenticate(session!.token)).toBeNull();
+    expect(new DashboardAuthService(undefined).isEnabled()).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ExpressionPolicyPlugin } from "../../plugins/policy/ExpressionPolicyPlugin.js";
+import {
+  evaluateExpression,
+  parseExpression,
+  validateExpression,
+  type ExpressionScope,
+} from "../../plugins/policy/Expression.js";
+
+const scope: ExpressionScope = {
+  tool: { name: "transfer" },
+  args: { amount: 2500, currency: "EUR", tags: ["urgent"], note: null },
+  agent: { id: "a1", name: "test-bot" },
+  server: { name: "bank" },
+  time: { hour: 9, weekday: "mon" },
+};
+
+const run = (source: string) => evaluateExpression(parseExpression(source), scope);
+
+describe("expression language", () => {
+  it("evaluates operators with the usual precedence", () => {
+    expect(run('args.amount > 1000 && agent.name startsWith "test-"')).toBe(true);
+    expect(run("1 + 2 * 3 == 7 || false")).toBe(true);
+    expect(run('args.currency in ["USD", "GBP"]')).toBe(false);
+    expect(run('args.tags contains "urgent" && !(time.weekday == "sun")')).toBe(true);
+    expect(run('lower(args["currency"]) matches "^eu"')).toBe(true);
+    expect(run("len(args.tags) >= 1 && -args.amount < 0")).toBe(true);
+  });
+
+  it("treats missing members and mismatched types as null instead of throwing", () => {
+    expect(run("args.missing.deeper")).toBeNull();
+    expect(run("args.note == null")).toBe(true);
+    expect(run('args.amount > "100"')).toBeNull();
+    expect(run("args.constructor")).toBeNull();
+    expect(run('args["__proto__"]')).toBeNull();
+  });
+
+  it("reports syntax errors with their position", () => {
+    expect(validateExpression("args.amount >")).toEqual({
+      valid: false,
+      error: "Expression is incomplete",
+      position: 13,
+    });
+    expect(validateExpression("process.exit(1)")).toMatchObject({
+      valid: false,
+      error: expect.stringMatching(/Unknown name 'process'/),
+      position: 0,
+    });
+    expect(validateExpression('tool.name matches "("')).toMatchObject({ valid: false, position: 10 });
+    expect(validateExpression('tool.name == "search"')).toEqual({ valid: true });
+  });
+});
+
+describe("ExpressionPolicyPlugin", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns the verdict of the first matching rule", async () => {
+    const plugin = new ExpressionPolicyPlugin({
+      rules: [
+        { when: 'agent.name == "treasurer"', verdict: "allow" },
+        {
+          when: "args.amount > 1000",
+          verdict: "negotiate",
+          code: "LARGE_TRANSFER",
+          reason: "Transfers above 1000 need approval",
+        },
+        { when: 'server.name == "bank"', verdict: "flag" },
+      ],
+    });
+    const call = (agentName: string, amount: number) =>
+      plugin.evaluate({ toolName: "transfer", args: { amount }, agentName, serverName: "bank" });
+
+    expect(await call("treasurer", 5000)).toEqual({ verdict: "allow" });
+    expect(await call("bot", 5000)).toMatchObject({
+      verdict: "negotiate",
+      code: "LARGE_TRANSFER",
+      metadata: { ruleIndex: 1 },
+    });
+    expect(await call("bot", 10)).toMatchObject({ verdict: "flag", code: "EXPRESSION_RULE_MATCHED" });
+  });
+
+  it("exposes the time in the configured time zone", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-06-01T22:30:00Z"));
+    const plugin = new ExpressionPolicyPlugin({
+      rules: [{ when: 'time.weekday == "mon" && time.hour < 8', reason: "Outside business hours" }],
+      timeZone: "Asia/Tokyo",
+    });
+    expect((await plugin.evaluate({ toolName: "deploy", args: {} })).verdict).toBe("block");
+  });
+
+  it("rejects rules that do not parse", () => {
+    expect(() => new ExpressionPolicyPlugin({ rules: [{ when: "args.amount >> 5" }] })).toThrow(
+      /invalid config/,
+    );
+  });
+});
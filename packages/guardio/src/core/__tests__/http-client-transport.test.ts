@@ -0,0 +1,238 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { once } from "node:events";
+import { createServer } from "node:net";
+import type { AddressInfo } from "node:net";
+import type { FastifyInstance } from "fastify";
+import { HttpClientTransport } from "../transports/http-client.js";
+import type { AgentAuthHooks, ClientSessionPayload, PostRequestPayload } from "../transports/types.js";
+import type { DashboardSimulationSettings } from "../transports/dashboard-api-types.js";
+import { SqliteStoragePlugin } from "../../plugins/storage/SqliteStoragePlugin.js";
+import { AgentKeyService } from "../services/agent-key-service.js";
+import { DashboardAuthService } from "../services/dashboard-auth-service.js";
+
+async function freePort(): Promise<number> {
+  const server = createServer().listen(0, "127.0.0.1");
+  await once(server, "listening");
+  const { port } = server.address() as AddressInfo;
+  server.close();
+  await once(server, "close");
+  return port;
+}
+
+function connectedStorage(): SqliteStoragePlugin {
+  const storage = new SqliteStoragePlugin({ inMemory: true });
+  storage.start();
+  storage.connect();
+  return storage;
+}
+
+/** The transport's Fastify app, to inject requests without going through the socket. */
+function app(transport: HttpClientTransport): FastifyInstance {
+  return (transport as unknown as { fastify: FastifyInstance }).fastify;
+}
+
+/** Agent auth as GuardioCore wires it, with an agent holding one active and one revoked key. */
+async function agentKeys(storage: SqliteStoragePlugin) {
+  const service = new AgentKeyService(storage.getRepository());
+  const issueFor = async (name: string) => {
+    const created = await service.createAgent(name);
+    if (!("agent" in created)) throw new Error(created.error);
+    const issued = await service.issue(created.agent.id);
+    if (!("key" in issued)) throw new Error(issued.error);
+    return { agentId: created.agent.id, keyId: issued.apiKey.id, key: issued.key };
+  };
+  const ci = await issueFor("ci-bot");
+  const other = await issueFor("other-bot");
+  const revoked = await service.issue(ci.agentId);
+  if (!("key" in revoked)) throw new Error(revoked.error);
+  await service.revoke(ci.agentId, revoked.apiKey.id);
+  const hooks: AgentAuthHooks = {
+    required: true,
+    authenticate: (key) => service.authenticate(key),
+    hasActiveKeys: (agentId) => service.hasActiveKeys(agentId),
+  };
+  return { hooks, key: ci.key, otherKey: other.key, revokedKey: revoked.key };
+}
+
+const bearer = (key: string) => ({ authorization: `Bearer ${key}` });
+
+const initializeBody = JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} });
+
+describe("HttpClientTransport", () => {
+  let transport: HttpClientTransport | null = null;
+
+  afterEach(async () => {
+    await transport?.close();
+    transport = null;
+  });
+
+  it("closes Streamable HTTP sessions the client abandoned without DELETE", async () => {
+    const storage = new SqliteStoragePlugin({ inMemory: true });
+    storage.start();
+    storage.connect();
+    const port = await freePort();
+    transport = new HttpClientTransport({
+      port,
+      serverNames: ["bank"],
+      coreRepository: storage.getRepository(),
+      sessionIdleTimeoutMs: 50,
+    });
+    transport.on("postRequest", (payload: PostRequestPayload) => {
+      payload.reply(200, JSON.stringify({ jsonrpc: "2.0", id: 1, result: {} }));
+    });
+    await transport.start();
+
+    const url = `http://127.0.0.1:${port}/bank/mcp`;
+    const init = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} }),
+    });
+    const sessionId = init.headers.get("mcp-session-id");
+    expect(init.status).toBe(200);
+    expect(sessionId).toBeTruthy();
+
+    const [closed] = (await once(transport, "sessionClose")) as [ClientSessionPayload];
+    expect(closed).toEqual({ sessionId, serverName: "bank" });
+
+    const later = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Mcp-Session-Id": sessionId! },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+    expect(later.status).toBe(404);
+  });
+
+  it("rejects agents without a valid API key on /sse and /mcp", async () => {
+    const storage = connectedStorage();
+    const keys = await agentKeys(storage);
+    transport = new HttpClientTransport({
+      port: await freePort(),
+      serverNames: ["bank"],
+      coreRepository: storage.getRepository(),
+      agentAuth: keys.hooks,
+    });
+    await transport.start();
+
+    for (const headers of [{}, bearer(keys.revokedKey), bearer("gk_unknown")]) {
+      const sse = await app(transport).inject({ method: "GET", url: "/bank/sse", headers });
+      expect(sse.statusCode).toBe(401);
+      expect(sse.headers["www-authenticate"]).toBe("Bearer");
+
+      const mcp = await app(transport).inject({
+        method: "POST",
+        url: "/bank/mcp",
+        headers: { ...headers, "content-type": "application/json" },
+        payload: initializeBody,
+      });
+      expect(mcp.statusCode).toBe(401);
+      expect(mcp.headers["mcp-session-id"]).toBeUndefined();
+    }
+  });
+
+  it("only accepts the session's own agent key within a session", async () => {
+    const storage = connectedStorage();
+    const keys = await agentKeys(storage);
+    const port = await freePort();
+    transport = new HttpClientTransport({
+      port,
+      serverNames: ["bank"],
+      coreRepository: storage.getRepository(),
+      agentAuth: keys.hooks,
+    });
+    transport.on("postRequest", (payload: PostRequestPayload) => {
+      payload.reply(200, JSON.stringify({ jsonrpc: "2.0", id: 1, result: {} }));
+    });
+    await transport.start();
+
+    // /messages belongs to an open SSE stream.
+    const stream = new AbortController();
+    const opened = once(transport, "sessionOpen");
+    const connecting = fetch(`http://127.0.0.1:${port}/bank/sse`, {
+      headers: bearer(keys.key),
+      signal: stream.signal,
+    });
+    const [{ sessionId }] = (await opened) as [ClientSessionPayload];
+    // The stream starts with the endpoint event, sent once the session's upstream is ready.
+    transport.setRemoteReady("bank", sessionId);
+    expect((await connecting).status).toBe(200);
+    const postMessage = (headers: Record<string, string>) =>
+      app(transport!).inject({
+        method: "POST",
+        url: `/bank/messages?sessionId=${sessionId}`,
+        headers: { ...headers, "content-type": "application/json" },
+        payload: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+      });
+    expect((await postMessage(bearer(keys.otherKey))).statusCode).toBe(403);
+    expect((await postMessage(bearer(keys.revokedKey))).statusCode).toBe(401);
+    expect((await postMessage({})).statusCode).toBe(401);
+    stream.abort();
+
+    const init = await app(transport).inject({
+      method: "POST",
+      url: "/bank/mcp",
+      headers: { ...bearer(keys.key), "content-type": "application/json" },
+      payload: initializeBody,
+    });
+    expect(init.statusCode).toBe(200);
+    const mcpSession = init.headers["mcp-session-id"] as string;
+    const postMcp = (headers: Record<string, string>) =>
+      app(transport!).inject({
+        method: "POST",
+        url: "/bank/mcp",
+        headers: { ...headers, "content-type": "application/json", "mcp-session-id": mcpSession },
+        payload: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+      });
+    expect((await postMcp(bearer(keys.otherKey))).statusCode).toBe(403);
+    expect((await postMcp({})).statusCode).toBe(401);
+  });
+
+  it("requires a dashboard token with a sufficient role on /api routes", async () => {
+    const auth = new DashboardAuthService({
+      tokens: [
+        { name: "viewer", token: "viewer-token-0123456789", role: "viewer" },
+        { name: "operator", token: "operator-token-0123456789", role: "operator" },
+      ],
+    });
+    const settings: DashboardSimulationSettings = { globalSimulated: false, tools: [] };
+    let updates = 0;
+    transport = new HttpClientTransport({
+      port: await freePort(),
+      serverNames: ["bank"],
+      coreRepository: connectedStorage().getRepository(),
+      dashboardAuth: {
+        login: (username, password) => auth.login(username, password),
+        authenticate: (token) => auth.authenticate(token),
+        logout: (token) => auth.logout(token),
+      },
+      dashboardHooks: {
+        handleGetSimulationSettings: async () => settings,
+        handleUpdateSimulationSettings: async () => {
+          updates++;
+        },
+      },
+    });
+    await transport.start();
+
+    const request = (method: "GET" | "PUT" | "POST", url: string, token?: string) =>
+      app(transport!).inject({
+        method,
+        url,
+        headers: {
+          ...(token != null && bearer(token)),
+          ...(method !== "GET" && { "content-type": "application/json" }),
+        },
+        ...(method !== "GET" && { payload: JSON.stringify(settings) }),
+      });
+
+    expect((await request("GET", "/api/testing/simulation")).statusCode).toBe(401);
+    expect((await request("GET", "/api/testing/simulation", "not-a-token")).statusCode).toBe(401);
+    expect((await request("GET", "/api/testing/simulation", "viewer-token-0123456789")).statusCode).toBe(200);
+
+    expect((await request("PUT", "/api/testing/simulation", "viewer-token-0123456789")).statusCode).toBe(403);
+    expect((await request("POST", "/api/policy-instances", "operator-token-0123456789")).statusCode).toBe(403);
+    expect(updates).toBe(0);
+    expect((await request("PUT", "/api/testing/simulation", "operator-token-0123456789")).statusCode).toBe(204);
+    expect(updates).toBe(1);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { PiiRedactPolicyPlugin } from "../../plugins/policy/PiiRedactPolicyPlugin.js";
+import { processMessage } from "../Processor.js";
+import type { GuardioEvent } from "../../interfaces/EventSinkPluginInterface.js";
+
+describe("PiiRedactPolicyPlugin", () => {
+  it("masks personal data anywhere in nested args and reports paths, not values", async () => {
+    const plugin = new PiiRedactPolicyPlugin({});
+    const result = await plugin.evaluate({
+      toolName: "send",
+      args: {
+        to: "Mail ana@example.com or call +44 20 7946 0958",
+        payment: { card: "4111 1111 1111 1111", iban: "GB82 WEST 1234 5698 7654 32" },
+        memo: "Pay to DE89 3704 0044 0532 0130 00 EUR today",
+        notes: ["ssn 123-45-6789", "from 10.0.0.12", "order 2024-01-15 #12345678"],
+        count: 3,
+      },
+    });
+
+    expect(result.verdict).toBe("allow");
+    expect(result.code).toBe("PII_REDACTED");
+    expect(result.modified_args).toEqual({
+      to: "Mail [REDACTED_EMAIL] or call [REDACTED_PHONE]",
+      payment: { card: "[REDACTED_CREDIT_CARD]", iban: "[REDACTED_IBAN]" },
+      memo: "Pay to [REDACTED_IBAN] EUR today",
+      notes: ["ssn [REDACTED_NATIONAL_ID]", "from [REDACTED_IP_ADDRESS]", "order 2024-01-15 #12345678"],
+    });
+    expect(result.metadata?.findings).toContainEqual({
+      entity: "credit_card",
+      path: "payment.card",
+      action: "redact",
+    });
+    expect(JSON.stringify(result.metadata)).not.toContain("4111");
+  });
+
+  it("leaves dates, times, ranges and version numbers alone", async () => {
+    const plugin = new PiiRedactPolicyPlugin({});
+    const result = await plugin.evaluate({
+      toolName: "note",
+      args: {
+        text: [
+          "Meeting at 2024-01-15 10:30",
+          "rows 1000-2000 (10 items)",
+          "upgrade to 1.2.3.4",
+          "build 10.2.3.4.5",
+          "ids 123-4567-890",
+        ],
+        window: "2024-01-15T10:30:00Z",
+      },
+    });
+    expect(result).toEqual({ verdict: "allow" });
+  });
+
+  it("finds separated phone numbers and card, phone and ID numbers passed as numbers", async () => {
+    const plugin = new PiiRedactPolicyPlugin({});
+    const result = await plugin.evaluate({
+      toolName: "send",
+      args: {
+        notes: ["call 555-123-4567", "or (555) 123-4567."],
+        card: 4111111111111111,
+        contact: { phone: 2125550123, ssn: 123456789 },
+        sentAt: 1700000000,
+        amount: 250,
+      },
+    });
+
+    expect(result.modified_args).toEqual({
+      notes: ["call [REDACTED_PHONE]", "or [REDACTED_PHONE]."],
+      card: "[REDACTED_CREDIT_CARD]",
+      contact: { phone: "[REDACTED_PHONE]", ssn: "[REDACTED_NATIONAL_ID]" },
+    });
+  });
+
+  it("blocks or flags per entity and skips numbers that fail the checksum", async () => {
+    const plugin = new PiiRedactPolicyPlugin({ credit_card: "block", email: "flag" });
+    const blocked = await plugin.evaluate({
+      toolName: "pay",
+      args: { card: "4111-1111-1111-1111" },
+    });
+    expect(blocked).toMatchObject({ verdict: "block", code: "PII_DETECTED" });
+
+    const flagged = await plugin.evaluate({
+      toolName: "pay",
+      args: { card: "4111 1111 1111 1112", contact: "ana@example.com" },
+    });
+    expect(flagged.verdict).toBe("flag");
+    expect(flagged.modified_args).toBeUndefined();
+    expect(flagged.metadata?.entities).toEqual(["email"]);
+
+    expect(() => new PiiRedactPolicyPlugin({ email: "hide" })).toThrow(/invalid config/);
+  });
+
+  it("forwards masked arguments and records a MODIFIED event", async () => {
+    const events: GuardioEvent[] = [];
+    const result = await processMessage({
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/call",
+        params: { name: "send", arguments: { to: "ana@example.com", subject: "hi" } },
+      }),
+      policyPlugins: [new PiiRedactPolicyPlugin({})],
+      eventSinks: [{ name: "collect", emit: async (e) => void events.push(e) }],
+    });
+
+    expect(result.handled).toBe(false);
+    if (result.handled) return;
+    expect(JSON.parse(result.bodyToSend).params.arguments).toEqual({
+      to: "[REDACTED_EMAIL]",
+      subject: "hi",
+    });
+    expect(events[0].decision).toBe("MODIFIED");
+    expect(events[0].policyEvaluation?.policyName).toBe("pii-redact");
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from "vitest";
+import { SqliteStoragePlugin } from "../../plugins/storage/SqliteStoragePlugin.js";
+import { PolicyResolutionService } from "../services/policy-resolution-service.js";
+import { PolicyInstanceService } from "../services/policy-instance-service.js";
+import type { CoreRepository } from "../../interfaces/CoreRepository.js";
+
+function connectedRepository(): CoreRepository {
+  const storage = new SqliteStoragePlugin({ inMemory: true });
+  storage.start();
+  storage.connect();
+  return storage.getRepository();
+}
+
+describe("PolicyResolutionService", () => {
+  it("reuses plugin instances for the same agent, tool and server", async () => {
+    const repo = connectedRepository();
+    await repo.createPolicyInstance("expression", {
+      rules: [{ when: "args.amount > 1000" }],
+    });
+    const lookup = vi.spyOn(repo, "getPoliciesForContext");
+    const service = new PolicyResolutionService(repo);
+
+    const first = await service.resolve(null, "transfer", "bank");
+    const second = await service.resolve(null, "transfer", "bank");
+    await service.resolve(null, "transfer", "other-bank");
+
+    expect(first.plugins.map((plugin) => plugin.name)).toEqual(["expression"]);
+    expect(second.plugins[0]).toBe(first.plugins[0]);
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+
+  it("picks up instances changed through PolicyInstanceService", async () => {
+    const repo = connectedRepository();
+    const resolution = new PolicyResolutionService(repo);
+    const instances = new PolicyInstanceService(repo, resolution);
+
+    expect((await resolution.resolve(null, "transfer", "bank")).plugins).toHaveLength(0);
+    const created = await instances.createPolicyInstance({ pluginName: "deny-tool-access", config: {} });
+    expect((await resolution.resolve(null, "transfer", "bank")).plugins).toHaveLength(1);
+    await instances.deletePolicyInstance("id" in created ? created.id : "");
+    expect((await resolution.resolve(null, "transfer", "bank")).plugins).toHaveLength(0);
+  });
+
+  it("resolves on every call when the TTL is 0", async () => {
+    const repo = connectedRepository();
+    const lookup = vi.spyOn(repo, "getPoliciesForContext");
+    const service = new PolicyResolutionService(repo, 0);
+
+    await service.resolve(null, "transfer", "bank");
+    await service.resolve(null, "transfer", "bank");
+
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,63 @@
+import { bench, describe } from "vitest";
+import { SqliteStoragePlugin } from "../../plugins/storage/SqliteStoragePlugin.js";
+import { PolicyResolutionService } from "../services/policy-resolution-service.js";
+import { processMessage } from "../Processor.js";
+
+// Per-call cost of resolving the policies for a tools/call, with and without the cache: on its
+// own, and followed by evaluating the call the way GuardioCore.handlePostMessage does.
+const storage = new SqliteStoragePlugin({ inMemory: true });
+storage.start();
+storage.connect();
+const repo = storage.getRepository();
+await repo.createPolicyInstance("expression", {
+  rules: [
+    { when: 'args.amount > 1000 && agent.name startsWith "test-"', verdict: "negotiate" },
+    { when: 'lower(args.currency) matches "^(usd|eur)$"', verdict: "flag" },
+  ],
+});
+await repo.createPolicyInstance("secret-scan", {});
+await repo.createPolicyInstance("prompt-injection", {});
+await repo.createPolicyInstance("deny-tool-access", {}, undefined, null, "delete_account");
+
+const cached = new PolicyResolutionService(repo);
+const uncached = new PolicyResolutionService(repo, 0);
+
+const body = JSON.stringify({
+  jsonrpc: "2.0",
+  id: 1,
+  method: "tools/call",
+  params: { name: "transfer", arguments: { amount: 250, currency: "USD", note: "rent" } },
+});
+
+async function handleCall(resolution: PolicyResolutionService): Promise<void> {
+  const resolved = await resolution.resolve("agent-1", "transfer", "bank", storage);
+  await processMessage({
+    body,
+    policyPlugins: [...resolved.plugins],
+    policySettings: resolved.settings,
+    eventSinks: [{ name: "noop", emit: async () => {} }],
+    agentId: "agent-1",
+    agentNameSnapshot: "test-agent",
+    serverName: "bank",
+  });
+}
+
+describe("resolve policies for a tools/call", () => {
+  bench("cached", async () => {
+    await cached.resolve("agent-1", "transfer", "bank", storage);
+  });
+
+  bench("uncached", async () => {
+    await uncached.resolve("agent-1", "transfer", "bank", storage);
+  });
+});
+
+describe("resolve and evaluate a tools/call", () => {
+  bench("cached", async () => {
+    await handleCall(cached);
+  });
+
+  bench("uncached", async () => {
+    await handleCall(uncached);
+  });
+});
@@ -0,0 +1,469 @@
+import { describe, it, expect } from "vitest";
+import { processMessage, processResponse } from "../Processor.js";
+import type { PolicyPluginInterface } from "../../interfaces/PolicyPluginInterface.js";
+import type {
+  PolicyEvaluationTraceEntry,
+  PolicyRequestContext,
+  PolicyResult,
+  PolicyResponseContext,
+  PolicyResponseResult,
+} from "../../interfaces/PolicyTypes.js";
+import type {
+  EventSinkPluginInterface,
+  GuardioEvent,
+} from "../../interfaces/EventSinkPluginInterface.js";
+
+function policy(name: string, result: PolicyResult): PolicyPluginInterface {
+  return { name, evaluate: async () => result };
+}
+
+function collectingSink(events: GuardioEvent[]): EventSinkPluginInterface {
+  return {
+    name: "collect",
+    emit: async (event) => {
+      events.push(event);
+    },
+  };
+}
+
+const toolsCallBody = JSON.stringify({
+  jsonrpc: "2.0",
+  id: 7,
+  method: "tools/call",
+  params: { name: "transfer", arguments: { amount: 10 } },
+});
+
+describe("processMessage", () => {
+  it("forwards flagged calls and records a FLAGGED event", async () => {
+    const events: GuardioEvent[] = [];
+    const result = await processMessage({
+      body: toolsCallBody,
+      policyPlugins: [
+        policy("observer", {
+          verdict: "flag",
+          code: "SUSPICIOUS_AMOUNT",
+          reason: "Amount looks unusual.",
+          metadata: { threshold: 5 },
+        }),
+        policy("pass", { verdict: "allow" }),
+      ],
+      eventSinks: [collectingSink(events)],
+    });
+
+    expect(result.handled).toBe(false);
+    expect(events).toHaveLength(1);
+    expect(events[0].decision).toBe("FLAGGED");
+    expect(events[0].policyEvaluation).toEqual({
+      policyName: "observer",
+      code: "SUSPICIOUS_AMOUNT",
+      reason: "Amount looks unusual.",
+      metadata: { threshold: 5 },
+    });
+  });
+
+  it("still blocks when a later policy blocks a flagged call", async () => {
+    const events: GuardioEvent[] = [];
+    const result = await processMessage({
+      body: toolsCallBody,
+      policyPlugins: [
+        policy("observer", { verdict: "flag", code: "SUSPICIOUS_AMOUNT" }),
+        policy("deny", { verdict: "block", code: "FORBIDDEN_TOOL" }),
+      ],
+      eventSinks: [collectingSink(events)],
+    });
+
+    expect(result.handled).toBe(true);
+    expect(events).toHaveLength(1);
+    expect(events[0].decision).toBe("BLOCKED");
+    expect(events[0].policyEvaluation?.policyName).toBe("deny");
+  });
+
+  it("asks for approval on negotiate without emitting an event", async () => {
+    const events: GuardioEvent[] = [];
+    const result = await processMessage({
+      body: toolsCallBody,
+      policyPlugins: [
+        policy("observer", { verdict: "flag", code: "SUSPICIOUS_AMOUNT" }),
+        policy("four-eyes", {
+          verdict: "negotiate",
+          code: "APPROVAL_REQUIRED",
+          reason: "Transfers need sign-off.",
+        }),
+      ],
+      eventSinks: [collectingSink(events)],
+    });
+
+    expect(result.handled).toBe(false);
+    expect(result.handled === false && result.approval).toEqual({
+      policyName: "four-eyes",
+      code: "APPROVAL_REQUIRED",
+      reason: "Transfers need sign-off.",
+      metadata: undefined,
+    });
+    expect(events).toHaveLength(0);
+  });
+
+  it("keeps the flag when another policy modifies the arguments", async () => {
+    const events: GuardioEvent[] = [];
+    const result = await processMessage({
+      body: toolsCallBody,
+      policyPlugins: [
+        policy("mod", { verdict: "allow", code: "PII_REDACTED", modified_args: { amount: 5 } }),
+        policy("observer", { verdict: "flag", code: "SUSPICIOUS_AMOUNT", reason: "Looks odd." }),
+      ],
+      eventSinks: [collectingSink(events)],
+    });
+
+    expect(result.handled === false && JSON.parse(result.bodyToSend).params.arguments).toEqual({
+      amount: 5,
+    });
+    expect(events[0].decision).toBe("FLAGGED");
+    expect(events[0].policyEvaluation).toEqual({
+      policyName: "observer",
+      code: "SUSPICIOUS_AMOUNT",
+      reason: "Looks odd.",
+      modification: { policyName: "mod", code: "PII_REDACTED" },
+    });
+  });
+
+  it("records ALLOWED without policyEvaluation when no policy objects", async () => {
+    const events: GuardioEvent[] = [];
+    await processMessage({
+      body: toolsCallBody,
+      policyPlugins: [policy("pass", { verdict: "allow" })],
+      eventSinks: [collectingSink(events)],
+    });
+
+    expect(events[0].decision).toBe("ALLOWED");
+    expect(events[0].policyEvaluation).toBeUndefined();
+  });
+
+  it("runs every policy in all mode and records a trace, first block winning", async () => {
+    const events: GuardioEvent[] = [];
+    const result = await processMessage({
+      body: toolsCallBody,
+      policyPlugins: [
+        policy("pass", { verdict: "allow" }),
+        policy("deny", { verdict: "block", code: "FORBIDDEN_TOOL" }),
+        policy("deny-too", { verdict: "block", code: "OVER_LIMIT" }),
+        policy("observer", { verdict: "flag", code: "SUSPICIOUS_AMOUNT" }),
+      ],
+      eventSinks: [collectingSink(events)],
+      evaluationMode: "all",
+    });
+
+    expect(result.handled).toBe(true);
+    expect(events[0].decision).toBe("BLOCKED");
+    expect(events[0].policyEvaluation).toMatchObject({
+      policyName: "deny",
+      code: "FORBIDDEN_TOOL",
+      mode: "all",
+    });
+    const trace = events[0].policyEvaluation?.trace as PolicyEvaluationTraceEntry[];
+    expect(trace.map((entry) => [entry.policyName, entry.verdict])).toEqual([
+      ["pass", "allow"],
+      ["deny", "block"],
+      ["deny-too", "block"],
+      ["observer", "flag"],
+    ]);
+    expect(trace.every((entry) => entry.durationMs >= 0)).toBe(true);
+  });
+
+  it("blocks the call when a policy times out and fails closed", async () => {
+    const events: GuardioEvent[] = [];
+    let seen: PolicyRequestContext | undefined;
+    const startedAt = Date.now();
+    const result = await processMessage({
+      body: toolsCallBody,
+      policyPlugins: [
+        {
+          name: "slow",
+          evaluate: (context) => {
+            seen = context;
+            return new Promise<PolicyResult>(() => {});
+          },
+        },
+      ],
+      eventSinks: [collectingSink(events)],
+      policyTimeoutMs: 20,
+    });
+
+    // The policy is told that nobody waits for it any more.
+    expect(seen?.signal?.aborted).toBe(true);
+    expect(seen?.deadline).toBeGreaterThanOrEqual(startedAt + 20);
+    expect(result.handled).toBe(true);
+    expect(result.handled && result.body).toContain("POLICY_TIMEOUT");
+    expect(events[0].decision).toBe("BLOCKED");
+    expect(events[0].errorCode).toBe("POLICY_TIMEOUT");
+    expect(events[0].policyEvaluation?.failures).toEqual([
+      {
+        policyName: "slow",
+        errorCode: "POLICY_TIMEOUT",
+        message: "evaluate() did not finish within 20 ms",
+        failureMode: "closed",
+      },
+    ]);
+  });
+
+  it("skips a throwing fail-open policy and records the failure", async () => {
+    const events: GuardioEvent[] = [];
+    const broken: PolicyPluginInterface = {
+      name: "broken",
+      evaluate: async () => {
+        throw new Error("database unavailable");
+      },
+    };
+    const result = await processMessage({
+      body: toolsCallBody,
+      policyPlugins: [broken, policy("observer", { verdict: "flag", code: "SUSPICIOUS_AMOUNT" })],
+      eventSinks: [collectingSink(events)],
+      policySettings: new Map([[broken, { failureMode: "open" as const }]]),
+    });
+
+    expect(result.handled).toBe(false);
+    expect(events[0].decision).toBe("FLAGGED");
+    expect(events[0].errorCode).toBe("POLICY_ERROR");
+    expect(events[0].policyEvaluation).toMatchObject({
+      policyName: "observer",
+      failures: [{ policyName: "broken", message: "database unavailable", failureMode: "open" }],
+    });
+  });
+
+  it("passes agent, server and request metadata to policies", async () => {
+    const seen: PolicyRequestContext[] = [];
+    await processMessage({
+      body: toolsCallBody,
+      policyPlugins: [
+        {
+          name: "spy",
+          evaluate: async (context) => {
+            seen.push(context);
+            return { verdict: "allow" };
+          },
+        },
+      ],
+      agentId: "a1",
+      agentNameSnapshot: "billing-bot",
+      serverName: "bank",
+      traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+      headers: { "user-agent": "claude-desktop" },
+      simulation: { enabled: true, source: "header" },
+    });
+
+    expect(seen[0]).toMatchObject({
+      toolName: "transfer",
+      agentId: "a1",
+      agentName: "billing-bot",
+      serverName: "bank",
+      requestId: 7,
+      traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+      headers: { "user-agent": "claude-desktop" },
+      simulation: { enabled: true, source: "header" },
+    });
+    expect(Date.parse(seen[0].timestamp!)).not.toBeNaN();
+  });
+});
+
+function responsePolicy(
+  name: string,
+  evaluateResponse: (result: unknown) => PolicyResponseResult,
+): PolicyPluginInterface {
+  return {
+    name,
+    evaluate: async () => ({ verdict: "allow" }),
+    evaluateResponse: async ({ result }) => evaluateResponse(result),
+  };
+}
+
+const toolResultBody = JSON.stringify({
+  jsonrpc: "2.0",
+  id: 7,
+  result: { content: [{ type: "text", text: "token=ghp_secret" }] },
+});
+
+describe("processResponse", () => {
+  it("delivers redacted results and records a MODIFIED event", async () => {
+    const events: GuardioEvent[] = [];
+    const body = await processResponse({
+      body: toolResultBody,
+      toolName: "transfer",
+      args: {},
+      policyPlugins: [
+        responsePolicy("redact", () => ({
+          verdict: "allow",
+          code: "SECRET_REDACTED",
+          modified_result: { content: [{ type: "text", text: "token=[REDACTED]" }] },
+        })),
+        responsePolicy("audit", (result) => {
+          expect(JSON.stringify(result)).not.toContain("ghp_secret");
+          return { verdict: "allow" };
+        }),
+      ],
+      eventSinks: [collectingSink(events)],
+    });
+
+    expect(JSON.parse(body)).toEqual({
+      jsonrpc: "2.0",
+      id: 7,
+      result: { content: [{ type: "text", text: "token=[REDACTED]" }] },
+    });
+    expect(events).toHaveLength(1);
+    expect(events[0].decision).toBe("MODIFIED");
+    expect(events[0].eventType).toBe("tools/call/response");
+  });
+
+  it("records a flagged result as FLAGGED even when another policy redacted it", async () => {
+    const events: GuardioEvent[] = [];
+    const body = await processResponse({
+      body: toolResultBody,
+      toolName: "transfer",
+      args: {},
+      policyPlugins: [
+        responsePolicy("redact", () => ({
+          verdict: "allow",
+          modified_result: { content: [{ type: "text", text: "token=[REDACTED]" }] },
+        })),
+        responsePolicy("observer", () => ({ verdict: "flag", code: "UNUSUAL_RESULT" })),
+      ],
+      eventSinks: [collectingSink(events)],
+    });
+
+    expect(body).not.toContain("ghp_secret");
+    expect(events[0].decision).toBe("FLAGGED");
+    expect(events[0].policyEvaluation).toMatchObject({
+      policyName: "observer",
+      modification: { policyName: "redact" },
+    });
+  });
+
+  it("replaces blocked results with a Guardio blocked result", async () => {
+    const body = await processResponse({
+      body: toolResultBody,
+      toolName: "transfer",
+      args: {},
+      policyPlugins: [
+        responsePolicy("deny", () => ({
+          verdict: "block",
+          code: "SECRET_IN_RESULT",
+        })),
+      ],
+    });
+
+    const parsed = JSON.parse(body) as {
+      id: number;
+      result: { isError: boolean; _guardio: { code: string } };
+    };
+    expect(parsed.id).toBe(7);
+    expect(parsed.result.isError).toBe(true);
+    expect(parsed.result._guardio.code).toBe("SECRET_IN_RESULT");
+    expect(body).not.toContain("ghp_secret");
+  });
+
+  it("passes the call's agent, server and simulation details to evaluateResponse", async () => {
+    let seen: PolicyResponseContext | undefined;
+    await processResponse({
+      body: toolResultBody,
+      serverName: "bank",
+      toolName: "transfer",
+      args: { amount: 5 },
+      agentId: "agent-1",
+      agentNameSnapshot: "billing-bot",
+      callId: "call-1",
+      traceId: "trace-1",
+      headers: { "user-agent": "test" },
+      simulation: { enabled: true, source: "global" },
+      policyPlugins: [
+        {
+          name: "audit",
+          evaluate: async () => ({ verdict: "allow" }),
+          evaluateResponse: async (context) => {
+            seen = context;
+            return { verdict: "allow" };
+          },
+        },
+      ],
+    });
+
+    expect(seen).toMatchObject({
+      toolName: "transfer",
+      args: { amount: 5 },
+      agentId: "agent-1",
+      agentName: "billing-bot",
+      serverName: "bank",
+      callId: "call-1",
+      requestId: 7,
+      traceId: "trace-1",
+      headers: { "user-agent": "test" },
+      simulation: { enabled: true, source: "global" },
+    });
+  });
+
+  it("blocks the result when a response policy times out and fails closed", async () => {
+    const events: GuardioEvent[] = [];
+    const body = await processResponse({
+      body: toolResultBody,
+      toolName: "transfer",
+      args: {},
+      policyPlugins: [
+        {
+          name: "slow",
+          evaluate: async () => ({ verdict: "allow" }),
+          evaluateResponse: () => new Promise<PolicyResponseResult>(() => {}),
+        },
+      ],
+      eventSinks: [collectingSink(events)],
+      policyTimeoutMs: 20,
+    });
+
+    expect(body).not.toContain("ghp_secret");
+    expect(JSON.parse(body).result._guardio.code).toBe("POLICY_TIMEOUT");
+    expect(events[0]).toMatchObject({ decision: "BLOCKED", errorCode: "POLICY_TIMEOUT" });
+    expect(events[0].policyEvaluation?.failures).toEqual([
+      {
+        policyName: "slow",
+        errorCode: "POLICY_TIMEOUT",
+        message: "evaluateResponse() did not finish within 20 ms",
+        failureMode: "closed",
+      },
+    ]);
+  });
+
+  it("skips a throwing fail-open response policy and records the failure", async () => {
+    const events: GuardioEvent[] = [];
+    const broken = responsePolicy("broken", () => {
+      throw new Error("scanner unavailable");
+    });
+    const body = await processResponse({
+      body: toolResultBody,
+      toolName: "transfer",
+      args: {},
+      policyPlugins: [broken],
+      eventSinks: [collectingSink(events)],
+      policySettings: new Map([[broken, { failureMode: "open" as const }]]),
+    });
+
+    expect(body).toBe(toolResultBody);
+    expect(events[0]).toMatchObject({
+      decision: "ALLOWED",
+      errorCode: "POLICY_ERROR",
+      policyEvaluation: {
+        failures: [{ policyName: "broken", message: "scanner unavailable", failureMode: "open" }],
+      },
+    });
+  });
+
+  it("passes JSON-RPC errors through untouched", async () => {
+    const errorBody = JSON.stringify({
+      jsonrpc: "2.0",
+      id: 7,
+      error: { code: -32000, message: "boom" },
+    });
+    const body = await processResponse({
+      body: errorBody,
+      toolName: "transfer",
+      args: {},
+      policyPlugins: [responsePolicy("deny", () => ({ verdict: "block" }))],
+    });
+    expect(body).toBe(errorBody);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { RateLimitToolPolicyPlugin } from "../../plugins/policy/RateLimitToolPolicyPlugin.js";
+import { SqliteStoragePlugin } from "../../plugins/storage/SqliteStoragePlugin.js";
+import type { PluginRepository } from "../../interfaces/PluginRepository.js";
+
+function memoryRepository(): PluginRepository {
+  const storage = new SqliteStoragePlugin({ inMemory: true });
+  storage.start();
+  storage.connect();
+  return storage.getPluginRepository("rate-limit-tool")!;
+}
+
+async function verdicts(plugin: RateLimitToolPolicyPlugin, calls: number, agentId = "a1") {
+  const out: string[] = [];
+  for (let i = 0; i < calls; i++) {
+    out.push((await plugin.evaluate({ toolName: "search", args: {}, agentId })).verdict);
+  }
+  return out;
+}
+
+describe("RateLimitToolPolicyPlugin", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("keeps one counter per agent", async () => {
+    const repo = memoryRepository();
+    const plugin = new RateLimitToolPolicyPlugin(
+      { limit: 2, windowSeconds: 60, key: "agent" },
+      { pluginRepository: repo },
+    );
+    expect(await verdicts(plugin, 3, "noisy")).toEqual(["allow", "allow", "block"]);
+    expect(await verdicts(plugin, 1, "quiet")).toEqual(["allow"]);
+    expect((await repo.listDocuments()).map((d) => d.contextKey).sort()).toEqual([
+      "ratelimit:agent:noisy",
+      "ratelimit:agent:quiet",
+    ]);
+  });
+
+  it("does not overrun the limit under concurrent calls", async () => {
+    const plugin = new RateLimitToolPolicyPlugin(
+      { limit: 5, windowSeconds: 60 },
+      { pluginRepository: memoryRepository() },
+    );
+    const results = await Promise.all(
+      Array.from({ length: 12 }, () => plugin.evaluate({ toolName: "search", args: {} })),
+    );
+    expect(results.filter((r) => r.verdict === "allow")).toHaveLength(5);
+  });
+
+  it("counts every call when more calls race than the limit allows", async () => {
+    const plugin = new RateLimitToolPolicyPlugin(
+      { limit: 50, windowSeconds: 60 },
+      { pluginRepository: memoryRepository() },
+    );
+    const results = await Promise.all(
+      Array.from({ length: 100 }, () => plugin.evaluate({ toolName: "search", args: {} })),
+    );
+    expect(results.filter((r) => r.verdict === "allow")).toHaveLength(50);
+    expect(results.filter((r) => r.verdict === "block")).toHaveLength(50);
+  });
+
+  it("keys on an argument value", async () => {
+    const plugin = new RateLimitToolPolicyPlugin(
+      { limit: 1, windowSeconds: 60, key: "argument", argument: "order.customer_id" },
+      { pluginRepository: memoryRepository() },
+    );
+    const call = (customer_id: string) =>
+      plugin.evaluate({ toolName: "refund", args: { order: { customer_id } } });
+    expect((await call("c1")).verdict).toBe("allow");
+    expect((await call("c2")).verdict).toBe("allow");
+    expect(await call("c1")).toMatchObject({
+      verdict: "block",
+      metadata: { key: "ratelimit:argument:order.customer_id:c1" },
+    });
+    expect(() => new RateLimitToolPolicyPlugin({ limit: 1, windowSeconds: 1, key: "argument" })).toThrow(
+      /argument is required/,
+    );
+  });
+
+  it("does not let bursts through at window edges with a sliding window", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(59_000);
+    const plugin = new RateLimitToolPolicyPlugin(
+      { limit: 4, windowSeconds: 60, algorithm: "sliding_window" },
+      { pluginRepository: memoryRepository() },
+    );
+    expect(await verdicts(plugin, 4)).toEqual(["allow", "allow", "allow", "allow"]);
+    // Just past the edge, the previous window still counts almost fully.
+    vi.setSystemTime(61_000);
+    expect(await verdicts(plugin, 1)).toEqual(["block"]);
+    // Halfway through, half of it has slid out.
+    vi.setSystemTime(90_000);
+    expect(await verdicts(plugin, 3)).toEqual(["allow", "allow", "block"]);
+  });
+
+  it("refills a token bucket and enforces every tier", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const plugin = new RateLimitToolPolicyPlugin(
+      { limit: 2, windowSeconds: 10, tiers: [{ limit: 3, windowSeconds: 3600 }], algorithm: "token_bucket" },
+      { pluginRepository: memoryRepository() },
+    );
+    expect(await verdicts(plugin, 3)).toEqual(["allow", "allow", "block"]);
+    vi.setSystemTime(5_000);
+    expect(await verdicts(plugin, 2)).toEqual(["allow", "block"]);
+    vi.setSystemTime(60_000);
+    const blocked = await plugin.evaluate({ toolName: "search", args: {} });
+    expect(blocked).toMatchObject({
+      verdict: "block",
+      code: "RATE_LIMIT_EXCEEDED",
+      metadata: { limit: 3, windowSeconds: 3600 },
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { SchemaValidatePolicyPlugin } from "../../plugins/policy/SchemaValidatePolicyPlugin.js";
+import { processMessage } from "../Processor.js";
+import type { PolicyToolDefinition } from "../../interfaces/PolicyTypes.js";
+
+const transfer: PolicyToolDefinition = {
+  name: "transfer",
+  inputSchema: {
+    type: "object",
+    properties: {
+      amount: { type: "number", minimum: 1 },
+      currency: { type: "string", enum: ["EUR", "USD"] },
+      to: { $ref: "#/$defs/account" },
+    },
+    required: ["amount", "to"],
+    additionalProperties: false,
+    $defs: {
+      account: {
+        type: "object",
+        properties: { iban: { type: "string", minLength: 15 } },
+        required: ["iban"],
+      },
+    },
+  },
+};
+
+describe("SchemaValidatePolicyPlugin", () => {
+  it("blocks invalid arguments with one line per violation", async () => {
+    const plugin = new SchemaValidatePolicyPlugin({});
+    const result = await plugin.evaluate({
+      toolName: "transfer",
+      tool: transfer,
+      args: { amount: "10", currency: "GBP", to: { iban: "DE89" }, memo: "x" },
+    });
+
+    expect(result).toMatchObject({ verdict: "block", code: "INVALID_ARGUMENTS" });
+    expect(result.reason).toBe(
+      [
+        "Invalid arguments for tool 'transfer':",
+        "- amount: must be number, got string",
+        '- currency: must be one of "EUR", "USD", got "GBP"',
+        "- to.iban: must be at least 15 characters long",
+        "- memo: is not a known property (expected: amount, currency, to)",
+        "Fix these arguments and call the tool again.",
+      ].join("\n"),
+    );
+
+    const valid = await plugin.evaluate({
+      toolName: "transfer",
+      tool: transfer,
+      args: { amount: 10, to: { iban: "DE89370400440532013000" } },
+    });
+    expect(valid.verdict).toBe("allow");
+  });
+
+  it("reports unknown tools and skips validation before tools are discovered", async () => {
+    const plugin = new SchemaValidatePolicyPlugin({});
+    expect(await plugin.evaluate({ toolName: "made_up", tool: null, args: {} })).toMatchObject({
+      verdict: "block",
+      code: "UNKNOWN_TOOL",
+    });
+    expect((await plugin.evaluate({ toolName: "made_up", args: {} })).verdict).toBe("allow");
+    const lenient = new SchemaValidatePolicyPlugin({ unknownTool: "allow" });
+    expect((await lenient.evaluate({ toolName: "made_up", tool: null, args: {} })).verdict).toBe(
+      "allow",
+    );
+  });
+
+  it("strips undeclared properties before forwarding", async () => {
+    const result = await processMessage({
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 3,
+        method: "tools/call",
+        params: {
+          name: "transfer",
+          arguments: { amount: 5, to: { iban: "DE89370400440532013000", note: "n" }, memo: "x" },
+        },
+      }),
+      policyPlugins: [new SchemaValidatePolicyPlugin({ stripUnknownProperties: true })],
+      tool: transfer,
+    });
+
+    expect(result.handled).toBe(false);
+    if (result.handled) return;
+    expect(JSON.parse(result.bodyToSend).params.arguments).toEqual({
+      amount: 5,
+      to: { iban: "DE89370400440532013000" },
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SqliteStoragePlugin } from "../../plugins/storage/SqliteStoragePlugin.js";
+
+function connectedStorage(): SqliteStoragePlugin {
+  const storage = new SqliteStoragePlugin({ inMemory: true });
+  storage.start();
+  storage.connect();
+  return storage;
+}
+
+describe("SqlitePluginRepository", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("increments counters without losing concurrent updates", async () => {
+    const repo = connectedStorage().getPluginRepository("quota")!;
+    await Promise.all(Array.from({ length: 20 }, () => repo.increment("agent-1", "calls")));
+    expect(await repo.increment("agent-1", "calls", 5)).toBe(25);
+    expect(await repo.getDocument("agent-1")).toMatchObject({
+      data: { calls: 25 },
+      version: 21,
+      expiresAt: null,
+    });
+  });
+
+  it("writes with compareAndSet only when the version still matches", async () => {
+    const repo = connectedStorage().getPluginRepository("budget")!;
+    const created = await repo.compareAndSet("team-a", { spent: 10 }, 0);
+    expect(created).toMatchObject({ data: { spent: 10 }, version: 1 });
+    expect(await repo.compareAndSet("team-a", { spent: 99 }, 0)).toBeNull();
+
+    const updated = await repo.compareAndSet("team-a", { spent: 30 }, 1);
+    expect(updated).toMatchObject({ id: created!.id, version: 2 });
+    expect(await repo.compareAndSet("team-a", { spent: 40 }, 1)).toBeNull();
+    expect((await repo.getDocument("team-a"))?.data).toEqual({ spent: 30 });
+  });
+
+  it("hides expired documents, restarts expired counters and sweeps them", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const storage = connectedStorage();
+    const repo = storage.getPluginRepository("window")!;
+
+    expect(await repo.increment("k", "count", 1, { ttlSeconds: 60 })).toBe(1);
+    expect(await repo.increment("k", "count", 1, { ttlSeconds: 60 })).toBe(2);
+    await repo.saveDocument("other", { a: 1 }, undefined, { ttlSeconds: 30 });
+    await repo.saveDocument("kept", { a: 1 });
+    expect((await repo.getDocument("k"))?.expiresAt).toBe("2026-01-01T00:01:00.000Z");
+
+    vi.setSystemTime(new Date("2026-01-01T00:01:00Z"));
+    expect(await repo.getDocument("k")).toBeNull();
+    expect((await repo.listDocuments()).map((d) => d.contextKey)).toEqual(["kept"]);
+    expect(await repo.increment("k", "count", 1, { ttlSeconds: 60 })).toBe(1);
+
+    expect(storage.deleteExpiredPluginData()).toBe(1);
+  });
+
+  it("adds the new columns to an existing plugin_data table", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "guardio-plugin-data-"));
+    try {
+      const file = join(dir, "guardio.sqlite");
+      const legacy = new Database(file);
+      legacy.exec(`CREATE TABLE plugin_data (
+        id TEXT PRIMARY KEY, plugin_id TEXT NOT NULL, context_key TEXT, data TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')))`);
+      legacy
+        .prepare(`INSERT INTO plugin_data (id, plugin_id, context_key, data) VALUES (?, ?, ?, ?)`)
+        .run("d1", "quota", "agent-1", JSON.stringify({ calls: 3 }));
+      legacy.close();
+
+      const storage = new SqliteStoragePlugin({ database: file });
+      storage.start();
+      storage.connect();
+      const repo = storage.getPluginRepository("quota")!;
+      expect(await repo.getDocument("agent-1")).toMatchObject({ version: 1, expiresAt: null });
+      expect(await repo.increment("agent-1", "calls")).toBe(4);
+      storage.disconnect();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
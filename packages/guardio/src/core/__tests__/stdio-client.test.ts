@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { PassThrough } from "node:stream";
+import { StdioClientTransport } from "../transports/stdio-client.js";
+import type { PostRequestPayload } from "../transports/types.js";
+import { SqliteStoragePlugin } from "../../plugins/storage/SqliteStoragePlugin.js";
+
+function request(id: number): string {
+  return JSON.stringify({ jsonrpc: "2.0", id, method: "tools/list" });
+}
+
+function response(id: number): string {
+  return JSON.stringify({ jsonrpc: "2.0", id, result: { tools: [] } });
+}
+
+describe("StdioClientTransport", () => {
+  let storage: SqliteStoragePlugin;
+  let input: PassThrough;
+  let output: PassThrough;
+  let written: string[];
+  let transport: StdioClientTransport;
+
+  beforeEach(async () => {
+    storage = new SqliteStoragePlugin({ inMemory: true });
+    storage.connect();
+    storage.start();
+    input = new PassThrough();
+    output = new PassThrough();
+    written = [];
+    output.on("data", (chunk: Buffer) => {
+      written.push(...chunk.toString().split("\n").filter(Boolean));
+    });
+    transport = new StdioClientTransport({
+      serverName: "github",
+      agentName: "desktop",
+      input,
+      output,
+      coreRepository: storage.getRepository(),
+    });
+    await transport.start();
+  });
+
+  afterEach(async () => {
+    await transport.close();
+    storage.disconnect();
+  });
+
+  function nextRequest(): Promise<PostRequestPayload> {
+    return new Promise((resolve) => transport.once("postRequest", resolve));
+  }
+
+  it("queues lines until the upstream endpoint is ready", async () => {
+    const received: PostRequestPayload[] = [];
+    transport.on("postRequest", (p: PostRequestPayload) => received.push(p));
+    input.write(`${request(1)}\n`);
+    await new Promise((r) => setImmediate(r));
+    expect(received).toHaveLength(0);
+
+    transport.setRemoteReady("github");
+    expect(received).toHaveLength(1);
+    expect(received[0].body).toBe(request(1));
+    expect(received[0].serverName).toBe("github");
+    expect(received[0].agentNameSnapshot).toBe("desktop");
+  });
+
+  it("writes each response once even when sent and replied", async () => {
+    transport.setRemoteReady("github");
+    const pending = nextRequest();
+    input.write(`${request(2)}\n`);
+    const payload = await pending;
+
+    transport.send(response(2), "github");
+    payload.reply(200, response(2));
+    await new Promise((r) => setImmediate(r));
+    expect(written).toEqual([response(2)]);
+  });
+
+  it("turns upstream failures into JSON-RPC errors", async () => {
+    transport.setRemoteReady("github");
+    const pending = nextRequest();
+    input.write(`${request(3)}\n`);
+    const payload = await pending;
+
+    payload.reply(202, "Accepted");
+    payload.reply(503, "Remote MCP not ready");
+    await new Promise((r) => setImmediate(r));
+    expect(written.map((l) => JSON.parse(l))).toEqual([
+      {
+        jsonrpc: "2.0",
+        id: 3,
+        error: { code: -32603, message: "Remote MCP not ready" },
+      },
+    ]);
+  });
+});
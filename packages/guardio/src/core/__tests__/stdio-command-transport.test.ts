@@ -0,0 +1,146 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { once } from "node:events";
+import { StdioCommandTransport } from "../transports/stdio-command-transport.js";
+
+/** Minimal stdio MCP stand-in: answers every request, exits on method "crash". */
+const ECHO_SERVER = `
+require("node:readline").createInterface({ input: process.stdin }).on("line", (line) => {
+  const msg = JSON.parse(line);
+  if (msg.method === "crash") process.exit(3);
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id: msg.id, result: { echo: msg.method } }) + "\\n");
+});
+`;
+
+/** Like a real MCP server: rejects requests until it has seen initialize. */
+const STATEFUL_SERVER = `
+let initialized = false;
+require("node:readline").createInterface({ input: process.stdin }).on("line", (line) => {
+  const msg = JSON.parse(line);
+  if (msg.method === "crash") process.exit(3);
+  if (msg.method === "initialize") initialized = true;
+  if (msg.id == null) return;
+  process.stdout.write(JSON.stringify(initialized
+    ? { jsonrpc: "2.0", id: msg.id, result: { echo: msg.method } }
+    : { jsonrpc: "2.0", id: msg.id, error: { code: -32002, message: "not initialized" } }) + "\\n");
+});
+`;
+
+/** Lists one tool named after its pid, only within an initialized session. */
+const TOOLS_SERVER = `
+let initialized = false;
+require("node:readline").createInterface({ input: process.stdin }).on("line", (line) => {
+  const msg = JSON.parse(line);
+  if (msg.method === "initialize") initialized = true;
+  if (msg.id == null) return;
+  process.stdout.write(JSON.stringify(!initialized
+    ? { jsonrpc: "2.0", id: msg.id, error: { code: -32002, message: "not initialized" } }
+    : msg.method === "tools/list"
+      ? { jsonrpc: "2.0", id: msg.id, result: { tools: [{ name: "tool-" + process.pid }] } }
+      : { jsonrpc: "2.0", id: msg.id, result: {} }) + "\\n");
+});
+`;
+
+function nextMessage(transport: StdioCommandTransport): Promise<unknown> {
+  return once(transport, "message").then(([line]) => JSON.parse(line as string));
+}
+
+describe("StdioCommandTransport", () => {
+  let transport: StdioCommandTransport;
+
+  afterEach(async () => {
+    await transport.close();
+  });
+
+  function create(script = ECHO_SERVER): StdioCommandTransport {
+    transport = new StdioCommandTransport({
+      type: "command",
+      name: "echo",
+      command: process.execPath,
+      args: ["-e", script],
+    });
+    return transport;
+  }
+
+  it("exchanges JSON-RPC lines with the spawned process", async () => {
+    const t = create();
+    const ready = once(t, "endpointReady");
+    await t.start();
+    await ready;
+    expect(t.isReady()).toBe(true);
+    expect(t.getProcessInfo().status).toBe("running");
+
+    const reply = nextMessage(t);
+    await t.send(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }));
+    expect(await reply).toEqual({ jsonrpc: "2.0", id: 1, result: { echo: "tools/list" } });
+  });
+
+  it("fails in-flight requests and restarts after a crash", async () => {
+    const t = create();
+    await t.start();
+    await once(t, "endpointReady");
+
+    const failure = nextMessage(t);
+    await t.send(JSON.stringify({ jsonrpc: "2.0", id: 9, method: "crash" }));
+    expect(await failure).toMatchObject({ id: 9, error: { code: -32603 } });
+    expect(t.getProcessInfo()).toMatchObject({
+      status: "restarting",
+      restarts: 1,
+      lastExitCode: 3,
+    });
+
+    await once(t, "endpointReady");
+    expect(t.getProcessInfo().status).toBe("running");
+  });
+
+  it("replays the initialize handshake to a restarted process", async () => {
+    const t = create(STATEFUL_SERVER);
+    await t.start();
+    await once(t, "endpointReady");
+    const messages: unknown[] = [];
+    t.on("message", (line: string) => messages.push(JSON.parse(line)));
+
+    await t.send(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} }));
+    await t.send(JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" }));
+    await t.send(JSON.stringify({ jsonrpc: "2.0", method: "crash" }));
+    await once(t, "endpointReady");
+
+    const reply = nextMessage(t);
+    await t.send(JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }));
+    expect(await reply).toEqual({ jsonrpc: "2.0", id: 2, result: { echo: "tools/list" } });
+    // The agent sees its own initialize answer and the tools/list answer: no replay answer,
+    // and no error for the crash notification.
+    expect(messages.map((m) => (m as { id?: unknown }).id)).toEqual([1, 2]);
+  });
+
+  it("lists tools over the running process once the client session is initialized", async () => {
+    const t = create(TOOLS_SERVER);
+    await t.start();
+    await once(t, "endpointReady");
+    const pid = t.getProcessInfo().pid;
+    const messages: unknown[] = [];
+    t.on("message", (line: string) => messages.push(JSON.parse(line)));
+
+    let listed = false;
+    const tools = t.listTools().then((result) => {
+      listed = true;
+      return result;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(listed).toBe(false);
+
+    await t.send(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} }));
+    await t.send(JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" }));
+    expect(await tools).toEqual([{ name: `tool-${pid}` }]);
+    // Only the client's own initialize answer reaches it.
+    expect(messages.map((m) => (m as { id?: unknown }).id)).toEqual([1]);
+  });
+
+  it("gives up listing tools when the process exits", async () => {
+    const t = create();
+    await t.start();
+    await once(t, "endpointReady");
+    const tools = t.listTools();
+    await t.send(JSON.stringify({ jsonrpc: "2.0", method: "crash" }));
+    expect(await tools).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { once } from "node:events";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { StreamableHttpTransport } from "../transports/streamable-http-transport.js";
+
+interface SeenRequest {
+  method: string;
+  sessionId: string | undefined;
+  protocolVersion: string | undefined;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => resolve(data));
+  });
+}
+
+/** Streamable HTTP MCP stand-in: JSON for initialize, SSE for tools/call, no GET stream. */
+function startUpstream(seen: SeenRequest[]): Promise<Server> {
+  const server = createServer(async (req, res) => {
+    seen.push({
+      method: req.method ?? "",
+      sessionId: req.headers["mcp-session-id"] as string | undefined,
+      protocolVersion: req.headers["mcp-protocol-version"] as string | undefined,
+    });
+    if (req.method !== "POST") {
+      res.writeHead(req.method === "GET" ? 405 : 200).end();
+      return;
+    }
+    const msg = JSON.parse(await readBody(req)) as { id?: number; method: string };
+    if (msg.method === "initialize") {
+      res.writeHead(200, { "Content-Type": "application/json", "Mcp-Session-Id": "s-1" });
+      res.end(JSON.stringify({ jsonrpc: "2.0", id: msg.id, result: { protocolVersion: "2025-03-26" } }));
+    } else if (msg.id == null) {
+      res.writeHead(202).end();
+    } else {
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      res.write(`data: ${JSON.stringify({ jsonrpc: "2.0", method: "notifications/progress" })}\n\n`);
+      res.end(`data: ${JSON.stringify({ jsonrpc: "2.0", id: msg.id, result: { ok: true } })}\n\n`);
+    }
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+describe("StreamableHttpTransport", () => {
+  let server: Server;
+  let seen: SeenRequest[];
+  let transport: StreamableHttpTransport;
+
+  beforeEach(async () => {
+    seen = [];
+    server = await startUpstream(seen);
+    const { port } = server.address() as AddressInfo;
+    transport = new StreamableHttpTransport({
+      type: "url",
+      name: "remote",
+      url: `http://127.0.0.1:${port}/mcp`,
+      transport: "streamable-http",
+    });
+    await transport.start();
+  });
+
+  afterEach(async () => {
+    await transport.close();
+    server.close();
+  });
+
+  it("keeps the session and reads SSE-upgraded answers", async () => {
+    const messages: unknown[] = [];
+    transport.on("message", (line: string) => messages.push(JSON.parse(line)));
+
+    const initialized = once(transport, "message");
+    await transport.send(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} }));
+    await initialized;
+    expect(transport.getSessionId()).toBe("s-1");
+
+    await transport.send(JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" }));
+    const answered = new Promise<void>((resolve) =>
+      transport.on("message", (line: string) => {
+        if ((JSON.parse(line) as { id?: number }).id === 2) resolve();
+      }),
+    );
+    await transport.send(
+      JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/call", params: { name: "x" } }),
+    );
+    await answered;
+
+    expect(messages).toEqual([
+      { jsonrpc: "2.0", id: 1, result: { protocolVersion: "2025-03-26" } },
+      { jsonrpc: "2.0", method: "notifications/progress" },
+      { jsonrpc: "2.0", id: 2, result: { ok: true } },
+    ]);
+    const call = seen.find((r) => r.method === "POST" && r.sessionId && r.protocolVersion);
+    expect(call).toMatchObject({ sessionId: "s-1", protocolVersion: "2025-03-26" });
+  });
+
+  it("ends the upstream session on close", async () => {
+    const initialized = once(transport, "message");
+    await transport.send(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} }));
+    await initialized;
+
+    await transport.close();
+    expect(seen.at(-1)).toMatchObject({ method: "DELETE", sessionId: "s-1" });
+    expect(transport.isReady()).toBe(false);
+  });
+});
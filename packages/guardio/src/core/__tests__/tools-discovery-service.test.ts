@@ -1,8 +1,12 @@
 import { describe, it, expect } from "vitest";
 import { ToolsDiscoveryService } from "../services/tools-discovery-service.js";
-import type { GuardioServerConfigUrl } from "../../config/types.js";
+import type {
+  GuardioServerConfigCommand,
+  GuardioServerConfigUrl,
+} from "../../config/types.js";
 import type { CoreRepository } from "../../interfaces/CoreRepository.js";
 import type { DashboardMcpToolInfo } from "../transports/dashboard-api-types.js";
+import type { IServerTransport } from "../transports/types.js";
 
 const servers: GuardioServerConfigUrl[] = [
   { type: "url", name: "test-server", url: "http://example.com/sse" },
@@ -71,5 +75,30 @@ describe("ToolsDiscoveryService", () => {
     expect(Array.isArray(all["test-server"])).toBe(true);
     expect(all["test-server"][0].name).toBe("cached");
   });
-});
 
+  it("lists a command server's tools through its running transport", async () => {
+    const command: GuardioServerConfigCommand = {
+      type: "command",
+      name: "local-server",
+      command: "local-mcp",
+    };
+    const updates: string[] = [];
+    const service = new ToolsDiscoveryService([command], coreRepositoryMock, (name, tools) =>
+      updates.push(`${name}:${tools.map((t) => t.name).join(",")}`),
+    );
+    let calls = 0;
+    const transport = {
+      listTools: async () => {
+        calls += 1;
+        return [{ name: "read_file" }];
+      },
+    } as unknown as IServerTransport;
+
+    service.handleEndpointReady("local-server", transport);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(calls).toBe(1);
+    expect(service.getToolsForServer("local-server")?.map((t) => t.name)).toEqual(["read_file"]);
+    expect(updates).toEqual(["local-server:read_file"]);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { ToolsListFilterService } from "../services/tools-list-filter-service.js";
+import type { CoreRepository } from "../../interfaces/CoreRepository.js";
+
+/** deny-tool-access is assigned to delete_repo for agent "intern" only. */
+const coreRepositoryMock = {
+  getPoliciesForContext: async (agentId: string | null, toolName: string | null) =>
+    agentId === "intern" && toolName === "delete_repo"
+      ? [{ id: "a1", policyInstanceId: "p1", pluginId: "deny-tool-access", config: {} }]
+      : [],
+} as unknown as CoreRepository;
+
+const toolsListResponse = JSON.stringify({
+  jsonrpc: "2.0",
+  id: 4,
+  result: {
+    tools: [
+      { name: "list_repos", description: "List repositories" },
+      { name: "delete_repo", description: "Delete a repository" },
+    ],
+  },
+});
+
+function toolNames(body: string): string[] {
+  return (JSON.parse(body) as { result: { tools: { name: string }[] } }).result.tools.map(
+    (t) => t.name,
+  );
+}
+
+describe("ToolsListFilterService", () => {
+  it("hides tools denied for the agent that asked", async () => {
+    const service = new ToolsListFilterService(coreRepositoryMock, undefined);
+    service.track("github/s1", 4, { agentId: "intern" });
+    service.track("github/s2", 4, { agentId: "admin" });
+
+    expect(toolNames(await service.filterIfTracked("github/s1", toolsListResponse))).toEqual([
+      "list_repos",
+    ]);
+    expect(toolNames(await service.filterIfTracked("github/s2", toolsListResponse))).toEqual([
+      "list_repos",
+      "delete_repo",
+    ]);
+    // Already answered: no longer tracked, passed through as is.
+    expect(await service.filterIfTracked("github/s1", toolsListResponse)).toBe(toolsListResponse);
+  });
+
+  it("still removes quarantined tools when policy assignments cannot be read", async () => {
+    const failingRepository = {
+      getPoliciesForContext: async () => {
+        throw new Error("database is locked");
+      },
+    } as unknown as CoreRepository;
+    const service = new ToolsListFilterService(failingRepository, undefined, {
+      quarantineEnabled: () => true,
+      isQuarantined: (tool) => tool.name === "delete_repo",
+    });
+    service.track("github", 4, { agentId: "intern" });
+
+    expect(toolNames(await service.filterIfTracked("github", toolsListResponse))).toEqual([
+      "list_repos",
+    ]);
+  });
+
+  it("leaves tools/list alone when hiding is turned off", async () => {
+    const service = new ToolsListFilterService(coreRepositoryMock, { hideDenied: false });
+    service.track("github", 4, { agentId: "intern" });
+    expect(service.take("github", toolsListResponse)).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  UpstreamSessionService,
+  type UpstreamSession,
+} from "../services/upstream-session-service.js";
+
+/** Stdio MCP stand-in that answers with its own pid, so sessions can tell processes apart. */
+const PID_SERVER = `
+require("node:readline").createInterface({ input: process.stdin }).on("line", (line) => {
+  const msg = JSON.parse(line);
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id: msg.id, result: { pid: process.pid } }) + "\\n");
+});
+`;
+
+describe("UpstreamSessionService", () => {
+  let service: UpstreamSessionService;
+
+  afterEach(async () => {
+    await service.closeAll();
+  });
+
+  it("gives each client session its own upstream and routes messages back to it", async () => {
+    const received: { sessionId: string; pid: number }[] = [];
+    let answered: () => void = () => {};
+    const bothAnswered = new Promise<void>((resolve) => (answered = resolve));
+    service = new UpstreamSessionService(
+      [{ type: "command", name: "echo", command: process.execPath, args: ["-e", PID_SERVER] }],
+      {
+        onMessage: (session: UpstreamSession, line: string) => {
+          const msg = JSON.parse(line) as { result: { pid: number } };
+          received.push({ sessionId: session.sessionId, pid: msg.result.pid });
+          if (received.length === 2) answered();
+        },
+        onReady: () => {},
+      },
+    );
+
+    service.open("a", "echo");
+    service.open("b", "echo");
+    service.open("c", "unknown");
+    expect(service.has("c")).toBe(false);
+
+    for (const sessionId of ["a", "b"]) {
+      const transport = await service.whenReady(sessionId);
+      expect(transport).not.toBeNull();
+      await transport!.send(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }));
+    }
+    await bothAnswered;
+
+    expect(received.map((r) => r.sessionId).sort()).toEqual(["a", "b"]);
+    expect(received[0]!.pid).not.toBe(received[1]!.pid);
+
+    await service.close("a");
+    expect(service.has("a")).toBe(false);
+    expect(await service.whenReady("a")).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+import { createHash, randomBytes } from "node:crypto";
+import { v4 as uuidv4 } from "uuid";
+import type {
+  Agent,
+  AgentApiKey,
+  CoreRepository,
+} from "../../interfaces/CoreRepository.js";
+import type {
+  DashboardAgentApiKey,
+  DashboardAgentApiKeysInfo,
+} from "../transports/dashboard-api-types.js";
+import type {
+  CreateAgentApiKeyResult,
+  CreateAgentResult,
+  RevokeAgentApiKeyResult,
+} from "../transports/types.js";
+import { logger } from "../../logger.js";
+
+/** Every issued key starts with this, so leaked keys are easy to recognise. */
+const KEY_PREFIX = "gk_";
+/** Characters of the key kept in storage to tell keys apart. */
+const STORED_PREFIX_LENGTH = 10;
+
+export function hashAgentApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Issues, lists, revokes and checks agent API keys. Keys are random and high-entropy,
+ * so a plain SHA-256 is stored; the key itself is returned once, when it is issued.
+ */
+export class AgentKeyService {
+  private readonly repo: CoreRepository;
+
+  constructor(repo: CoreRepository) {
+    this.repo = repo;
+  }
+
+  /** Whether the storage backing the core repository can persist agent API keys. */
+  isSupported(): boolean {
+    return (
+      typeof this.repo.saveAgentApiKey === "function" &&
+      typeof this.repo.findActiveAgentApiKey === "function"
+    );
+  }
+
+  /** Register an agent that has not connected yet, so a key can be issued for it. */
+  async createAgent(name: string): Promise<CreateAgentResult> {
+    if (!this.isSupported()) {
+      return { error: "Agent API keys are not supported by this storage", kind: "unsupported" };
+    }
+    const trimmed = name?.trim();
+    if (!trimmed) return { error: "name is required", kind: "invalid" };
+    const agent: Agent = { id: uuidv4(), name: trimmed, nameGenerated: false };
+    await this.repo.saveAgent(agent);
+    logger.info({ agentId: agent.id, name: agent.name }, "Agent registered");
+    return { agent: { id: agent.id, name: agent.name } };
+  }
+
+  async list(agentId?: string): Promise<DashboardAgentApiKeysInfo | null> {
+    if (!this.repo.listAgentApiKeys) return null;
+    try {
+      const keys = await this.repo.listAgentApiKeys(agentId);
+      return { keys: await this.withAgentNames(keys) };
+    } catch (err) {
+      logger.error({ err }, "listAgentApiKeys failed");
+      return null;
+    }
+  }
+
+  async issue(agentId: string, name?: string): Promise<CreateAgentApiKeyResult> {
+    if (!this.isSupported()) {
+      return { error: "Agent API keys are not supported by this storage", kind: "unsupported" };
+    }
+    const agent = await this.repo.getAgentById(agentId);
+    if (!agent) return { error: "Agent not found", kind: "not_found" };
+    const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+    const apiKey: AgentApiKey = {
+      id: uuidv4(),
+      agentId,
+      name: name?.trim() || null,
+      prefix: key.slice(0, STORED_PREFIX_LENGTH),
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+    await this.repo.saveAgentApiKey!(apiKey, hashAgentApiKey(key));
+    logger.info({ agentId, keyId: apiKey.id, prefix: apiKey.prefix }, "Agent API key issued");
+    return { key, apiKey: { ...apiKey, agentName: agent.name } };
+  }
+
+  async revoke(agentId: string, keyId: string): Promise<RevokeAgentApiKeyResult> {
+    if (!this.repo.revokeAgentApiKey) {
+      return { error: "Agent API keys are not supported by this storage", kind: "unsupported" };
+    }
+    const revoked = await this.repo.revokeAgentApiKey(agentId, keyId);
+    if (!revoked) return { error: "API key not found", kind: "not_found" };
+    logger.info({ agentId, keyId }, "Agent API key revoked");
+    const [apiKey] = await this.withAgentNames([revoked]);
+    return { apiKey: apiKey! };
+  }
+
+  /** Agent owning the key; null when the key is malformed, unknown or revoked. */
+  async authenticate(key: string): Promise<Agent | null> {
+    if (!this.isSupported() || !key.startsWith(KEY_PREFIX)) return null;
+    const apiKey = await this.repo.findActiveAgentApiKey!(hashAgentApiKey(key));
+    if (!apiKey) return null;
+    return this.repo.getAgentById(apiKey.agentId);
+  }
+
+  async hasActiveKeys(agentId: string): Promise<boolean> {
+    if (!this.repo.listAgentApiKeys) return false;
+    const keys = await this.repo.listAgentApiKeys(agentId);
+    return keys.some((k) => k.revokedAt == null);
+  }
+
+  private async withAgentNames(keys: AgentApiKey[]): Promise<DashboardAgentApiKey[]> {
+    const names = new Map<string, string>();
+    for (const agentId of new Set(keys.map((k) => k.agentId))) {
+      const agent = await this.repo.getAgentById(agentId);
+      names.set(agentId, agent?.name ?? "");
+    }
+    return keys.map((k) => ({ ...k, agentName: names.get(k.agentId) ?? "" }));
+  }
+}
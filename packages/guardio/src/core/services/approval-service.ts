@@ -0,0 +1,213 @@
+import { v4 as uuidv4 } from "uuid";
+import type {
+  CoreRepository,
+  PendingApproval,
+} from "../../interfaces/CoreRepository.js";
+import type { ApprovalRequirement } from "../Processor.js";
+import type {
+  DashboardApproval,
+  DashboardApprovalsInfo,
+  DashboardApprovalsQuery,
+} from "../transports/dashboard-api-types.js";
+import type { ResolveApprovalResult } from "../transports/types.js";
+import { logger } from "../../logger.js";
+
+/** How long a parked call waits for a reviewer before it expires (5 minutes). */
+export const DEFAULT_APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface ParkApprovalInput {
+  serverName: string;
+  toolName: string;
+  agentId: string | null;
+  agentNameSnapshot: string | null;
+  requestId: string | number | null;
+  /** JSON-RPC body to forward upstream once approved. */
+  bodyToSend: string;
+  requirement: ApprovalRequirement;
+}
+
+export interface ParkedApproval {
+  approval: PendingApproval;
+  /** Settles with the resolved row once approved, rejected or expired. */
+  decision: Promise<PendingApproval>;
+}
+
+interface Waiter {
+  resolve: (approval: PendingApproval) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+function toDashboardApproval(approval: PendingApproval): DashboardApproval {
+  let args: unknown;
+  try {
+    const parsed = JSON.parse(approval.body) as {
+      params?: { arguments?: unknown };
+    };
+    args = parsed.params?.arguments;
+  } catch {
+    args = undefined;
+  }
+  const { body: _body, ...rest } = approval;
+  return { ...rest, arguments: args };
+}
+
+/**
+ * Parks tools/call requests that a policy answered with "negotiate" until a human
+ * approves or rejects them (or they expire). Rows are persisted through CoreRepository;
+ * the in-memory waiters hold the continuation that forwards or answers the agent.
+ */
+export class ApprovalService {
+  private readonly repo: CoreRepository;
+  private readonly timeoutMs: number;
+  private readonly waiters = new Map<string, Waiter>();
+
+  constructor(repo: CoreRepository, timeoutMs = DEFAULT_APPROVAL_TIMEOUT_MS) {
+    this.repo = repo;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /** Whether the storage backing the core repository can persist approvals. */
+  isSupported(): boolean {
+    return (
+      typeof this.repo.savePendingApproval === "function" &&
+      typeof this.repo.resolvePendingApproval === "function"
+    );
+  }
+
+  /**
+   * Expire approvals left pending by a previous process. Their agents' SSE streams are
+   * gone, so they can no longer be answered.
+   */
+  async expireStale(): Promise<void> {
+    if (!this.isSupported() || !this.repo.listPendingApprovals) return;
+    const stale = await this.repo.listPendingApprovals("pending", 1000);
+    for (const approval of stale) {
+      await this.repo.resolvePendingApproval!(
+        approval.id,
+        "expired",
+        "Guardio restarted before the request was reviewed.",
+      );
+    }
+    if (stale.length > 0) {
+      logger.info({ count: stale.length }, "Expired stale pending approvals");
+    }
+  }
+
+  /** Persist a pending approval and start its expiry timer. Returns null when storage does not support approvals. */
+  async park(input: ParkApprovalInput): Promise<ParkedApproval | null> {
+    if (!this.isSupported()) return null;
+    const now = Date.now();
+    const approval: PendingApproval = {
+      id: uuidv4(),
+      status: "pending",
+      serverName: input.serverName,
+      toolName: input.toolName,
+      agentId: input.agentId,
+      agentNameSnapshot: input.agentNameSnapshot,
+      requestId: input.requestId,
+      body: input.bodyToSend,
+      policyName: input.requirement.policyName,
+      code: input.requirement.code ?? null,
+      reason: input.requirement.reason ?? null,
+      metadata: input.requirement.metadata ?? null,
+      note: null,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.timeoutMs).toISOString(),
+      resolvedAt: null,
+    };
+    await this.repo.savePendingApproval!(approval);
+
+    const decision = new Promise<PendingApproval>((resolve) => {
+      const timer = setTimeout(() => {
+        this.settle(approval.id, "expired", "Approval request expired.").catch(
+          (err) => {
+            logger.error({ err, approvalId: approval.id }, "Failed to expire approval");
+          },
+        );
+      }, this.timeoutMs);
+      timer.unref?.();
+      this.waiters.set(approval.id, { resolve, timer });
+    });
+    logger.info(
+      {
+        approvalId: approval.id,
+        serverName: approval.serverName,
+        toolName: approval.toolName,
+        policy: approval.policyName,
+        expiresAt: approval.expiresAt,
+      },
+      "tools/call parked for approval",
+    );
+    return { approval, decision };
+  }
+
+  async list(query: DashboardApprovalsQuery): Promise<DashboardApprovalsInfo | null> {
+    if (!this.repo.listPendingApprovals) return null;
+    try {
+      const approvals = await this.repo.listPendingApprovals(query.status, 500);
+      return { approvals: approvals.map(toDashboardApproval) };
+    } catch (err) {
+      logger.error({ err }, "listPendingApprovals failed");
+      return null;
+    }
+  }
+
+  async get(id: string): Promise<DashboardApproval | null> {
+    if (!this.repo.getPendingApproval) return null;
+    const approval = await this.repo.getPendingApproval(id);
+    return approval ? toDashboardApproval(approval) : null;
+  }
+
+  async approve(id: string, note?: string): Promise<ResolveApprovalResult> {
+    return this.resolveByReviewer(id, "approved", note);
+  }
+
+  async reject(id: string, note?: string): Promise<ResolveApprovalResult> {
+    return this.resolveByReviewer(id, "rejected", note);
+  }
+
+  /** Clear expiry timers (pending rows are expired on next start). */
+  close(): void {
+    for (const waiter of this.waiters.values()) clearTimeout(waiter.timer);
+    this.waiters.clear();
+  }
+
+  private async resolveByReviewer(
+    id: string,
+    status: "approved" | "rejected",
+    note?: string,
+  ): Promise<ResolveApprovalResult> {
+    if (!this.isSupported()) {
+      return {
+        error: "Approvals are not supported by this storage",
+        kind: "unsupported",
+      };
+    }
+    const resolved = await this.settle(id, status, note?.trim() || null);
+    if (resolved) return { approval: toDashboardApproval(resolved) };
+    const existing = await this.repo.getPendingApproval?.(id);
+    if (!existing) return { error: "Approval not found", kind: "not_found" };
+    return {
+      error: `Approval is already ${existing.status}`,
+      kind: "already_resolved",
+    };
+  }
+
+  /** Transition a pending row and wake its waiter; null when it was not pending. */
+  private async settle(
+    id: string,
+    status: "approved" | "rejected" | "expired",
+    note: string | null,
+  ): Promise<PendingApproval | null> {
+    const resolved = await this.repo.resolvePendingApproval!(id, status, note);
+    if (!resolved) return null;
+    const waiter = this.waiters.get(id);
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      this.waiters.delete(id);
+      waiter.resolve(resolved);
+    }
+    logger.info({ approvalId: id, status }, "Approval resolved");
+    return resolved;
+  }
+}
@@ -0,0 +1,116 @@
+import type { PolicyPluginInterface } from "../../interfaces/PolicyPluginInterface.js";
+import type { PolicyCallOutcome } from "../../interfaces/PolicyTypes.js";
+import type { JsonRpcResponse } from "../types.js";
+import { logger } from "../../logger.js";
+
+/** Report a tracked call as timed out when its response has not arrived after this long (10 minutes). */
+const COMPLETION_TTL_MS = 10 * 60 * 1000;
+
+/** A tools/call whose policies want to hear when it is over. */
+export interface CompletableCall {
+  callId: string;
+  requestId: string | number;
+  toolName: string;
+  args: unknown;
+  serverName: string;
+  agentId: string | null;
+  policyPlugins: PolicyPluginInterface[];
+}
+
+function trackingKey(scope: string, requestId: string | number): string {
+  return `${scope}\u0000${typeof requestId}:${requestId}`;
+}
+
+/**
+ * Tells policies with onCallComplete when a tools/call they evaluated is over: its response
+ * arrived (POST reply or upstream SSE), it was blocked, answered by Simulation Mode, failed
+ * upstream, or no response came within the timeout. Each call is reported exactly once.
+ */
+export class CallCompletionService {
+  private readonly pending = new Map<
+    string,
+    { call: CompletableCall; timer: ReturnType<typeof setTimeout> }
+  >();
+  private readonly startedAt = new WeakMap<CompletableCall, number>();
+  private readonly finished = new WeakSet<CompletableCall>();
+
+  static wantsCompletion(policyPlugins: PolicyPluginInterface[]): boolean {
+    return policyPlugins.some((p) => typeof p.onCallComplete === "function");
+  }
+
+  /** Start the clock for a call; returns it, or null when no policy has onCallComplete. */
+  begin(call: CompletableCall): CompletableCall | null {
+    if (!CallCompletionService.wantsCompletion(call.policyPlugins)) return null;
+    this.startedAt.set(call, Date.now());
+    return call;
+  }
+
+  /** Wait for the upstream response to a forwarded call, answered later over SSE or stdout. */
+  track(scope: string, call: CompletableCall): void {
+    if (this.finished.has(call)) return;
+    const key = trackingKey(scope, call.requestId);
+    const existing = this.pending.get(key);
+    if (existing) clearTimeout(existing.timer);
+    const timer = setTimeout(() => {
+      this.pending.delete(key);
+      void this.finish(call, "timeout");
+    }, COMPLETION_TTL_MS);
+    timer.unref?.();
+    this.pending.set(key, { call, timer });
+  }
+
+  /** If body is a JSON-RPC response to a tracked call, report the call as completed. */
+  completeIfTracked(scope: string, body: string): void {
+    if (this.pending.size === 0) return;
+    let message: JsonRpcResponse & { method?: string };
+    try {
+      message = JSON.parse(body) as JsonRpcResponse & { method?: string };
+    } catch {
+      return;
+    }
+    if (message.method != null || message.id == null) return;
+    const entry = this.pending.get(trackingKey(scope, message.id));
+    if (entry) void this.finish(entry.call, "completed");
+  }
+
+  /** Report the call to its policies; later reports for the same call are ignored. */
+  async finish(call: CompletableCall | null | undefined, outcome: PolicyCallOutcome): Promise<void> {
+    if (!call || this.finished.has(call)) return;
+    this.finished.add(call);
+    for (const [key, entry] of this.pending) {
+      if (entry.call === call) {
+        clearTimeout(entry.timer);
+        this.pending.delete(key);
+        break;
+      }
+    }
+    const durationMs = Date.now() - (this.startedAt.get(call) ?? Date.now());
+    await Promise.all(
+      call.policyPlugins.map(async (policy) => {
+        if (!policy.onCallComplete) return;
+        try {
+          await policy.onCallComplete({
+            callId: call.callId,
+            requestId: call.requestId,
+            toolName: call.toolName,
+            args: call.args,
+            serverName: call.serverName,
+            agentId: call.agentId,
+            outcome,
+            durationMs,
+          });
+        } catch (err) {
+          logger.warn(
+            { err, policy: policy.name, toolName: call.toolName, outcome },
+            "Policy onCallComplete failed",
+          );
+        }
+      }),
+    );
+  }
+
+  clear(): void {
+    for (const entry of this.pending.values()) clearTimeout(entry.timer);
+    this.pending.clear();
+  }
+}
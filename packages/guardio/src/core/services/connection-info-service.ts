@@ -39,13 +39,19 @@ export async function buildConnectionInfo(
     : null;
 
   const servers = [...serverTransports.entries()].map(
-    ([name, transport]) => ({
-      name,
-      remoteUrl: transport.getRemoteUrl(),
-      remotePostUrl: transport.getRemotePostUrl(),
-      connected: !!transport.getRemotePostUrl(),
-      tools: deps.toolsByServer(name),
-    }),
+    ([name, transport]) => {
+      const processInfo = transport.getProcessInfo?.();
+      return {
+        name,
+        type: processInfo ? ("command" as const) : ("url" as const),
+        remoteUrl: transport.getRemoteUrl(),
+        remotePostUrl: transport.getRemotePostUrl(),
+        connected:
+          !!transport.getRemotePostUrl() || transport.isReady?.() === true,
+        ...(processInfo && { process: processInfo }),
+        tools: deps.toolsByServer(name),
+      };
+    },
   );
 
   const clients = clientTransport?.getActiveClientsInfo
@@ -0,0 +1,123 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import type {
+  GuardioDashboardAuthConfig,
+  GuardioDashboardUserConfig,
+} from "../../config/types.js";
+import type {
+  DashboardLoginResult,
+  DashboardPrincipal,
+} from "../transports/dashboard-api-types.js";
+import { logger } from "../../logger.js";
+
+/** How long a dashboard login lasts (12 hours). */
+export const DEFAULT_SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const HASH_SCHEME = "scrypt";
+const KEY_LENGTH = 64;
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+/** Hash a dashboard password for config: "scrypt$<salt>$<hash>" (base64url). */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${HASH_SCHEME}$${salt.toString("base64url")}$${hash.toString("base64url")}`;
+}
+
+export function isPasswordHash(value: string): boolean {
+  const [scheme, salt, hash] = value.split("$");
+  return scheme === HASH_SCHEME && !!salt && !!hash;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) return false;
+  const [, salt, hash] = stored.split("$");
+  const expected = Buffer.from(hash!, "base64url");
+  const actual = await scryptAsync(password, Buffer.from(salt!, "base64url"), expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+interface Session {
+  principal: DashboardPrincipal;
+  expiresAt: number;
+}
+
+/**
+ * Local users and static tokens for the dashboard API. Logins get an opaque session token
+ * held in memory, so sessions end when Guardio restarts.
+ */
+export class DashboardAuthService {
+  private readonly users: Map<string, GuardioDashboardUserConfig>;
+  /** Static tokens by SHA-256 digest, compared in constant time. */
+  private readonly tokens: { digest: Buffer; principal: DashboardPrincipal }[];
+  private readonly sessionTtlMs: number;
+  private readonly sessions = new Map<string, Session>();
+  /** Hash checked for unknown users, so response times do not reveal which usernames exist. */
+  private decoyHash: Promise<string> | null = null;
+
+  constructor(config: GuardioDashboardAuthConfig | undefined) {
+    this.users = new Map((config?.users ?? []).map((u) => [u.username, u]));
+    this.tokens = (config?.tokens ?? []).map((t) => ({
+      digest: digest(t.token),
+      principal: { username: t.name, role: t.role },
+    }));
+    this.sessionTtlMs = config?.sessionTtlMs ?? DEFAULT_SESSION_TTL_MS;
+  }
+
+  /** Whether any users or tokens are configured; when not, the API stays open. */
+  isEnabled(): boolean {
+    return this.users.size > 0 || this.tokens.length > 0;
+  }
+
+  async login(username: string, password: string): Promise<DashboardLoginResult | null> {
+    const user = this.users.get(username);
+    if (!user) {
+      this.decoyHash ??= hashPassword(randomBytes(16).toString("hex"));
+      await verifyPassword(password, await this.decoyHash);
+      logger.warn({ username }, "Dashboard login failed");
+      return null;
+    }
+    if (!(await verifyPassword(password, user.passwordHash))) {
+      logger.warn({ username }, "Dashboard login failed");
+      return null;
+    }
+    this.pruneSessions();
+    const token = randomBytes(32).toString("base64url");
+    const expiresAt = Date.now() + this.sessionTtlMs;
+    const principal: DashboardPrincipal = { username: user.username, role: user.role };
+    this.sessions.set(token, { principal, expiresAt });
+    logger.info({ username, role: user.role }, "Dashboard login");
+    return { ...principal, token, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  authenticate(token: string): DashboardPrincipal | null {
+    const session = this.sessions.get(token);
+    if (session) {
+      if (session.expiresAt > Date.now()) return session.principal;
+      this.sessions.delete(token);
+      return null;
+    }
+    const presented = digest(token);
+    const match = this.tokens.find((t) => timingSafeEqual(t.digest, presented));
+    return match?.principal ?? null;
+  }
+
+  logout(token: string): void {
+    this.sessions.delete(token);
+  }
+
+  private pruneSessions(): void {
+    const now = Date.now();
+    for (const [token, session] of this.sessions) {
+      if (session.expiresAt <= now) this.sessions.delete(token);
+    }
+  }
+}
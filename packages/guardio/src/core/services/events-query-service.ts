@@ -1,16 +1,24 @@
 import type { EventSinkStorePluginInterface } from "../../interfaces/EventSinkStorePluginInterface.js";
-import type { DashboardEventsInfo } from "../transports/dashboard-api-types.js";
+import type {
+  DashboardEventsInfo,
+  DashboardEventsQuery,
+} from "../transports/dashboard-api-types.js";
 import { logger } from "../../logger.js";
 
 /**
  * Fetches recent Guardio events for the dashboard (/api/events) from an EventSinkStore plugin.
+ * Optional query.decision narrows the list (e.g. only FLAGGED events).
  */
 export async function listEventsForDashboard(
   store: EventSinkStorePluginInterface | undefined,
+  query: DashboardEventsQuery = {},
 ): Promise<DashboardEventsInfo | null> {
   if (!store) return null;
   try {
-    const events = await store.listEvents({ limit: 500 });
+    const events = await store.listEvents({
+      limit: 500,
+      ...(query.decision != null && { decision: query.decision }),
+    });
     return {
       events: events.map((e) => ({
         eventId: e.eventId,
@@ -22,6 +30,7 @@ export async function listEventsForDashboard(
         decision: e.decision ?? null,
         policyEvaluation: e.policyEvaluation ?? null,
         simulation: e.simulation ?? null,
+        errorCode: e.errorCode ?? null,
       })),
     };
   } catch (err) {
@@ -1,4 +1,7 @@
-import type { CoreRepository } from "../../interfaces/CoreRepository.js";
+import type {
+  CoreRepository,
+  PolicyInstanceEvaluation,
+} from "../../interfaces/CoreRepository.js";
 import type {
   DashboardPolicyInstance,
   DashboardPolicyInstancesInfo,
@@ -7,22 +10,65 @@ import {
   createPolicyPluginInstance,
   getPolicyConfigSchema,
 } from "../../config/PluginManager.js";
+import type { DashboardPolicyAssignmentScope } from "../transports/dashboard-api-types.js";
 import type {
   CreatePolicyInstanceBody,
   CreatePolicyInstanceResult,
   UpdatePolicyInstanceBody,
   UpdatePolicyInstanceResult,
 } from "../transports/types.js";
+import type { PolicyResolutionService } from "./policy-resolution-service.js";
 import { logger } from "../../logger.js";
 
+/** Error message for a priority that is not an integer; null when it is valid or omitted. */
+function priorityError(priority: unknown): string | null {
+  return priority === undefined || Number.isSafeInteger(priority)
+    ? null
+    : "priority must be an integer";
+}
+
+/** Longest per-instance policy timeout accepted from the API, in milliseconds. */
+const MAX_POLICY_TIMEOUT_MS = 60_000;
+
+/** Error message for invalid failureMode / timeoutMs overrides; null when they are valid or omitted. */
+function evaluationError(body: {
+  failureMode?: unknown;
+  timeoutMs?: unknown;
+}): string | null {
+  if (body.failureMode != null && body.failureMode !== "open" && body.failureMode !== "closed") {
+    return 'failureMode must be "open" or "closed"';
+  }
+  if (
+    body.timeoutMs != null &&
+    !(
+      Number.isSafeInteger(body.timeoutMs) &&
+      (body.timeoutMs as number) > 0 &&
+      (body.timeoutMs as number) <= MAX_POLICY_TIMEOUT_MS
+    )
+  ) {
+    return `timeoutMs must be an integer between 1 and ${MAX_POLICY_TIMEOUT_MS}`;
+  }
+  return null;
+}
+
+function instancePriority(assignments: DashboardPolicyAssignmentScope[]): number {
+  return assignments.length > 0 ? Math.max(...assignments.map((a) => a.priority)) : 0;
+}
+
 /**
  * Handles policy instance listing and lifecycle for the dashboard.
+ * Every change is reported to policyResolution, so calls stop using cached policies.
  */
 export class PolicyInstanceService {
   private readonly repo: CoreRepository;
+  private readonly policyResolution?: Pick<PolicyResolutionService, "invalidate">;
 
-  constructor(repo: CoreRepository) {
+  constructor(
+    repo: CoreRepository,
+    policyResolution?: Pick<PolicyResolutionService, "invalidate">,
+  ) {
     this.repo = repo;
+    this.policyResolution = policyResolution;
   }
 
   async listPolicyInstances(): Promise<DashboardPolicyInstancesInfo | null> {
@@ -31,13 +77,10 @@ export class PolicyInstanceService {
         this.repo.listPolicyInstances(),
         this.repo.listPolicyAssignmentRows(),
       ]);
-      const byInstance = new Map<
-        string,
-        Array<{ agentId: string | null; toolName: string | null }>
-      >();
+      const byInstance = new Map<string, DashboardPolicyAssignmentScope[]>();
       for (const row of assignmentRows) {
         const list = byInstance.get(row.policyInstanceId) ?? [];
-        list.push({ agentId: row.agentId, toolName: row.toolName });
+        list.push({ agentId: row.agentId, toolName: row.toolName, priority: row.priority });
         byInstance.set(row.policyInstanceId, list);
       }
       const instancesWithAssignments: DashboardPolicyInstance[] =
@@ -45,6 +88,7 @@ export class PolicyInstanceService {
           const assignments = byInstance.get(inst.id) ?? [];
           return {
             ...inst,
+            priority: instancePriority(assignments),
             assignments,
           };
         });
@@ -58,6 +102,8 @@ export class PolicyInstanceService {
   async createPolicyInstance(
     body: CreatePolicyInstanceBody,
   ): Promise<CreatePolicyInstanceResult> {
+    const invalid = priorityError(body.priority) ?? evaluationError(body);
+    if (invalid) return { error: invalid };
     const schema = getPolicyConfigSchema(body.pluginName);
     let config: Record<string, unknown>;
     if (schema) {
@@ -91,7 +137,11 @@ export class PolicyInstanceService {
         body.name,
         body.agentId,
         body.toolName,
+        undefined,
+        body.priority,
+        { failureMode: body.failureMode ?? null, timeoutMs: body.timeoutMs ?? null },
       );
+      this.policyResolution?.invalidate();
       return { id };
     } catch (err) {
       logger.error(
@@ -109,6 +159,7 @@ export class PolicyInstanceService {
 
   async deletePolicyInstance(policyInstanceId: string): Promise<void> {
     await this.repo.deletePolicyInstance(policyInstanceId);
+    this.policyResolution?.invalidate();
   }
 
   async getPolicyInstance(
@@ -120,8 +171,8 @@ export class PolicyInstanceService {
       const assignmentRows = await this.repo.listPolicyAssignmentRows();
       const assignments = assignmentRows
         .filter((r) => r.policyInstanceId === id)
-        .map((r) => ({ agentId: r.agentId, toolName: r.toolName }));
-      return { ...instance, assignments };
+        .map((r) => ({ agentId: r.agentId, toolName: r.toolName, priority: r.priority }));
+      return { ...instance, priority: instancePriority(assignments), assignments };
     } catch (err) {
       logger.error({ err, id }, "getPolicyInstance failed");
       return null;
@@ -136,6 +187,14 @@ export class PolicyInstanceService {
     if (!instance) {
       return { error: "Policy instance not found" };
     }
+    const invalid = priorityError(body.priority) ?? evaluationError(body);
+    if (invalid) return { error: invalid };
+    // Omitted fields keep their current value; null goes back to the deployment default.
+    const evaluation: PolicyInstanceEvaluation = {
+      failureMode:
+        body.failureMode !== undefined ? body.failureMode : (instance.failureMode ?? null),
+      timeoutMs: body.timeoutMs !== undefined ? body.timeoutMs : (instance.timeoutMs ?? null),
+    };
     const schema = getPolicyConfigSchema(instance.pluginId);
     let config: Record<string, unknown>;
     if (schema) {
@@ -159,7 +218,11 @@ export class PolicyInstanceService {
         body.name,
         body.agentId,
         body.toolName,
+        undefined,
+        body.priority,
+        evaluation,
       );
+      this.policyResolution?.invalidate();
       return {};
     } catch (err) {
       logger.error({ err, id }, "updatePolicyInstance failed");
@@ -2,18 +2,23 @@ import type { PolicyPluginInterface } from "../../interfaces/PolicyPluginInterfa
 import type { PolicyAssignmentWithPlugin } from "../../interfaces/CoreRepository.js";
 import type { StorageAdapter } from "../../interfaces/StorageAdapter.js";
 import type { PolicyPluginContext } from "../../interfaces/PolicyPluginContext.js";
+import type { PolicyExecutionSettings } from "../Processor.js";
 import { createPolicyPluginInstance } from "../../config/PluginManager.js";
 import { logger } from "../../logger.js";
 
 /**
  * Instantiate policy plugins from assignments resolved by CoreRepository.getPoliciesForContext.
- * Invalid assignments are logged and skipped.
+ * Assignments without a config are logged and skipped. A plugin that fails to instantiate is
+ * replaced by a stand-in whose evaluate() rethrows the error, so its instance's failure mode
+ * decides whether calls are blocked or go through.
  * @param assignments Policy assignments from the repository
  * @param storageAdapter Optional storage adapter to provide PluginRepository to policies
+ * @param settings Optional map that receives each plugin's failure mode and timeout overrides
  */
 export function instantiatePolicyPlugins(
   assignments: PolicyAssignmentWithPlugin[],
   storageAdapter?: StorageAdapter,
+  settings?: Map<PolicyPluginInterface, PolicyExecutionSettings>,
 ): PolicyPluginInterface[] {
   const policyPlugins: PolicyPluginInterface[] = [];
   for (const a of assignments) {
@@ -24,22 +29,26 @@ export function instantiatePolicyPlugins(
       );
       continue;
     }
+    let plugin: PolicyPluginInterface;
     try {
       const context: PolicyPluginContext | undefined = storageAdapter
         ? { pluginRepository: storageAdapter.getPluginRepository?.(a.pluginId) }
         : undefined;
-      policyPlugins.push(
-        createPolicyPluginInstance(
-          a.pluginId,
-          a.config as Record<string, unknown>,
-          context,
-        ),
+      plugin = createPolicyPluginInstance(
+        a.pluginId,
+        a.config as Record<string, unknown>,
+        context,
       );
     } catch (err) {
       logger.warn(
         { err, pluginId: a.pluginId, assignmentId: a.id },
-        "Failed to instantiate policy plugin for assignment; skipping",
+        "Failed to instantiate policy plugin for assignment",
       );
+      plugin = { name: a.pluginId, evaluate: () => Promise.reject(err) };
+    }
+    policyPlugins.push(plugin);
+    if (a.failureMode != null || a.timeoutMs != null) {
+      settings?.set(plugin, { failureMode: a.failureMode, timeoutMs: a.timeoutMs });
     }
   }
   return policyPlugins;
@@ -0,0 +1,90 @@
+import type { CoreRepository } from "../../interfaces/CoreRepository.js";
+import type { PolicyPluginInterface } from "../../interfaces/PolicyPluginInterface.js";
+import type { StorageAdapter } from "../../interfaces/StorageAdapter.js";
+import type { PolicyExecutionSettings } from "../Processor.js";
+import { instantiatePolicyPlugins } from "./policy-instantiation.js";
+
+/** How long resolved policies are reused when policyEvaluation.cacheTtlMs is not set (30 seconds). */
+export const DEFAULT_POLICY_CACHE_TTL_MS = 30 * 1000;
+
+/** Most (agent, tool, server) contexts kept; the least recently used one is dropped first. */
+const MAX_CACHED_CONTEXTS = 1000;
+
+/** Instantiated policies for one context, in evaluation order, with their failure handling. */
+export interface ResolvedPolicies {
+  plugins: readonly PolicyPluginInterface[];
+  settings: ReadonlyMap<PolicyPluginInterface, PolicyExecutionSettings>;
+}
+
+function contextKey(agentId: string | null, toolName: string | null, serverName: string): string {
+  return JSON.stringify([agentId, toolName, serverName]);
+}
+
+/**
+ * Resolves the policy plugins that apply to a tools/call and keeps them per (agent, tool,
+ * server), so assignments are not queried and configs not re-parsed on every call.
+ * PolicyInstanceService calls invalidate() whenever it changes instances or assignments;
+ * entries also expire after ttlMs, which bounds how long changes made elsewhere (another
+ * Guardio process on the same database) go unnoticed. A ttlMs of 0 turns caching off.
+ * Cached plugin instances are shared by concurrent calls.
+ */
+export class PolicyResolutionService {
+  private readonly entries = new Map<
+    string,
+    { policies: Promise<ResolvedPolicies>; expiresAt: number }
+  >();
+
+  constructor(
+    private readonly coreRepository: CoreRepository,
+    private readonly ttlMs: number = DEFAULT_POLICY_CACHE_TTL_MS,
+  ) {}
+
+  async resolve(
+    agentId: string | null,
+    toolName: string | null,
+    serverName: string,
+    storageAdapter?: StorageAdapter,
+  ): Promise<ResolvedPolicies> {
+    if (this.ttlMs <= 0) return this.load(agentId, toolName, storageAdapter);
+
+    const key = contextKey(agentId, toolName, serverName);
+    const now = Date.now();
+    const cached = this.entries.get(key);
+    this.entries.delete(key);
+    if (cached && cached.expiresAt > now) {
+      // Re-inserted so the map stays ordered from least to most recently used.
+      this.entries.set(key, cached);
+      return cached.policies;
+    }
+
+    // Stored before it settles so concurrent calls for the same context share one load.
+    const entry = {
+      policies: this.load(agentId, toolName, storageAdapter),
+      expiresAt: now + this.ttlMs,
+    };
+    this.entries.set(key, entry);
+    if (this.entries.size > MAX_CACHED_CONTEXTS) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    entry.policies.catch(() => {
+      if (this.entries.get(key) === entry) this.entries.delete(key);
+    });
+    return entry.policies;
+  }
+
+  /** Forget every resolved context; the next call for each one reads the assignments again. */
+  invalidate(): void {
+    this.entries.clear();
+  }
+
+  private async load(
+    agentId: string | null,
+    toolName: string | null,
+    storageAdapter?: StorageAdapter,
+  ): Promise<ResolvedPolicies> {
+    const assignments = await this.coreRepository.getPoliciesForContext(agentId, toolName);
+    const settings = new Map<PolicyPluginInterface, PolicyExecutionSettings>();
+    const plugins = instantiatePolicyPlugins(assignments, storageAdapter, settings);
+    return { plugins, settings };
+  }
+}
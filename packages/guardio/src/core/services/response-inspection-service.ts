@@ -0,0 +1,108 @@
+import type { PolicyPluginInterface } from "../../interfaces/PolicyPluginInterface.js";
+import { processResponse, type ProcessResponseInput } from "../Processor.js";
+import type { JsonRpcResponse } from "../types.js";
+import { logger } from "../../logger.js";
+
+/** Forget a tracked call whose response never arrived after this long (10 minutes). */
+const TRACKING_TTL_MS = 10 * 60 * 1000;
+
+/** A forwarded tools/call whose result must pass evaluateResponse before reaching the agent. */
+export type TrackedToolCall = Omit<ProcessResponseInput, "body">;
+
+function trackingKey(scope: string, requestId: string | number): string {
+  return `${scope}\u0000${typeof requestId}:${requestId}`;
+}
+
+/**
+ * Correlates upstream JSON-RPC responses (from the POST reply or the upstream SSE stream)
+ * with the tools/call they answer, keyed by scope (server name, or server + client session)
+ * and request id, so response-side policies can inspect the result.
+ */
+export class ResponseInspectionService {
+  private readonly pending = new Map<
+    string,
+    { call: TrackedToolCall; timer: ReturnType<typeof setTimeout> }
+  >();
+
+  /** Whether any of the policies wants to see the tool result. */
+  static wantsResponse(policyPlugins: PolicyPluginInterface[]): boolean {
+    return policyPlugins.some((p) => typeof p.evaluateResponse === "function");
+  }
+
+  /** Start tracking a forwarded tools/call; no-op when no policy evaluates responses. */
+  track(
+    scope: string,
+    requestId: string | number,
+    call: TrackedToolCall,
+  ): void {
+    if (!ResponseInspectionService.wantsResponse(call.policyPlugins)) return;
+    const key = trackingKey(scope, requestId);
+    const existing = this.pending.get(key);
+    if (existing) clearTimeout(existing.timer);
+    const timer = setTimeout(() => {
+      this.pending.delete(key);
+      logger.debug({ scope, requestId }, "Tracked tools/call expired without a response");
+    }, TRACKING_TTL_MS);
+    timer.unref?.();
+    this.pending.set(key, { call, timer });
+  }
+
+  /**
+   * If body is a JSON-RPC response to a tracked call, stop tracking it and return the call.
+   * Returns null for notifications, requests and responses nobody is waiting for.
+   */
+  take(scope: string, body: string): TrackedToolCall | null {
+    if (this.pending.size === 0) return null;
+    let message: JsonRpcResponse & { method?: string };
+    try {
+      message = JSON.parse(body) as JsonRpcResponse & { method?: string };
+    } catch {
+      return null;
+    }
+    if (message.method != null || message.id == null) return null;
+    const key = trackingKey(scope, message.id);
+    const entry = this.pending.get(key);
+    if (!entry) return null;
+    clearTimeout(entry.timer);
+    this.pending.delete(key);
+    return entry.call;
+  }
+
+  /**
+   * Run response-side policies for a tracked call. Policies that throw or time out are handled
+   * by their failure mode; if processing still fails, the agent gets a JSON-RPC error instead
+   * of the unchecked result.
+   */
+  async inspect(body: string, call: TrackedToolCall): Promise<string> {
+    try {
+      return await processResponse({ ...call, body });
+    } catch (err) {
+      logger.error({ err, toolName: call.toolName }, "Response policy evaluation failed");
+      let id: string | number | null = null;
+      try {
+        id = (JSON.parse(body) as JsonRpcResponse).id ?? null;
+      } catch {
+        // keep null id
+      }
+      return JSON.stringify({
+        jsonrpc: "2.0",
+        id,
+        error: {
+          code: -32603,
+          message: "Guardio could not evaluate the tool result",
+        },
+      });
+    }
+  }
+
+  /** Run policies on body if it answers a tracked call; otherwise return it unchanged. */
+  async inspectIfTracked(scope: string, body: string): Promise<string> {
+    const call = this.take(scope, body);
+    return call ? this.inspect(body, call) : body;
+  }
+
+  clear(): void {
+    for (const entry of this.pending.values()) clearTimeout(entry.timer);
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,237 @@
+import { createHash } from "node:crypto";
+import type { GuardioToolPinningConfig } from "../../config/types.js";
+import type { CoreRepository, ToolVersion } from "../../interfaces/CoreRepository.js";
+import type { PolicyPluginInterface } from "../../interfaces/PolicyPluginInterface.js";
+import type {
+  DashboardMcpToolInfo,
+  DashboardToolPinning,
+} from "../transports/dashboard-api-types.js";
+import { logger } from "../../logger.js";
+
+/** A tool whose definition differs from the last one seen; payload of BusTopic.TOOL_CHANGED. */
+export interface ToolChange {
+  serverName: string;
+  toolName: string;
+  previous: ToolVersion;
+  current: ToolVersion;
+}
+
+/** JSON with object keys sorted, so equal definitions always serialize the same way. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value != null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/** Definition fields that are pinned; anything else in a tools/list entry is ignored. */
+function pinnedDefinition(tool: DashboardMcpToolInfo): ToolVersion["definition"] {
+  return {
+    name: tool.name,
+    ...(tool.title !== undefined && { title: tool.title }),
+    ...(tool.description !== undefined && { description: tool.description }),
+    ...(tool.inputSchema !== undefined && { inputSchema: tool.inputSchema }),
+  };
+}
+
+/** SHA-256 (hex) of a tool's name, title, description and inputSchema. */
+export function toolFingerprint(tool: DashboardMcpToolInfo): string {
+  return createHash("sha256").update(canonicalJson(pinnedDefinition(tool))).digest("hex");
+}
+
+function toolKey(serverName: string, toolName: string): string {
+  return `${serverName}\u0000${toolName}`;
+}
+
+/**
+ * Pins upstream tool definitions. The first definition seen for a tool is trusted and
+ * approved; when a server later publishes a different one, a new unapproved version is
+ * stored and onChange is called. A change back to the approved definition is approved
+ * again automatically. With blockChanged, calls to a tool whose current version is not
+ * approved are blocked until an operator approves it.
+ */
+export class ToolPinningService {
+  private readonly enabled: boolean;
+  private readonly blockChanged: boolean;
+  /** Current (newest) version per tool. */
+  private readonly current = new Map<string, ToolVersion>();
+  /** Newest approved version per tool. */
+  private readonly approved = new Map<string, ToolVersion>();
+  private loaded: Promise<void> | null = null;
+  /** Serializes record() so concurrent tools/list results cannot both create version N+1. */
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly coreRepository: CoreRepository,
+    config: GuardioToolPinningConfig | undefined,
+    private readonly onChange: (change: ToolChange) => void = () => {},
+  ) {
+    this.enabled = config?.enabled ?? true;
+    this.blockChanged = config?.blockChanged ?? false;
+  }
+
+  /** Whether pinning is on and the repository can store tool versions. */
+  isSupported(): boolean {
+    const repo = this.coreRepository;
+    return this.enabled && !!repo.saveToolVersion && !!repo.listToolVersions;
+  }
+
+  blocksChangedTools(): boolean {
+    return this.blockChanged;
+  }
+
+  /** Load stored versions; record() waits for this, so call it once at startup. */
+  load(): Promise<void> {
+    this.loaded ??= this.loadVersions();
+    return this.loaded;
+  }
+
+  /** Compare a server's tools/list with the pinned definitions and store new versions. */
+  record(serverName: string, tools: DashboardMcpToolInfo[]): Promise<void> {
+    if (!this.isSupported()) return Promise.resolve();
+    this.queue = this.queue
+      .then(() => this.load())
+      .then(() => this.recordTools(serverName, tools))
+      .catch((err: unknown) => {
+        logger.warn({ err, serverName }, "Recording tool versions failed");
+      });
+    return this.queue;
+  }
+
+  /** The tool's current version when it is not approved; null when approved or unknown. */
+  unapprovedVersion(serverName: string, toolName: string): ToolVersion | null {
+    const version = this.current.get(toolKey(serverName, toolName));
+    return version && version.approvedAt == null ? version : null;
+  }
+
+  /**
+   * With blockChanged, a policy that blocks the call because the tool's definition changed
+   * since it was approved; null otherwise.
+   */
+  blockingPolicy(serverName: string, toolName: string): PolicyPluginInterface | null {
+    if (!this.blockChanged || !this.isSupported()) return null;
+    const version = this.unapprovedVersion(serverName, toolName);
+    if (!version) return null;
+    return {
+      name: "tool-pinning",
+      evaluate: async () => ({
+        verdict: "block",
+        code: "TOOL_DEFINITION_CHANGED",
+        reason: `The definition of tool '${toolName}' changed and must be re-approved by an operator before it can be called.`,
+        metadata: { serverName, version: version.version, fingerprint: version.fingerprint },
+      }),
+    };
+  }
+
+  /** Tools with their pinning state, for the dashboard. */
+  annotate(
+    serverName: string,
+    tools: DashboardMcpToolInfo[] | undefined,
+  ): DashboardMcpToolInfo[] | undefined {
+    if (!tools || !this.isSupported()) return tools;
+    return tools.map((tool) => {
+      const pinning = this.pinningState(serverName, tool.name);
+      return pinning ? { ...tool, pinning } : tool;
+    });
+  }
+
+  /** Stored versions of a tool, newest first. */
+  async history(serverName: string, toolName: string): Promise<ToolVersion[]> {
+    if (!this.isSupported()) return [];
+    return this.coreRepository.listToolVersions!(serverName, toolName);
+  }
+
+  /** Approve the tool's current version. Returns it, or null when the tool is unknown. */
+  async approve(
+    serverName: string,
+    toolName: string,
+    approvedBy: string | null,
+  ): Promise<ToolVersion | null> {
+    await this.load();
+    const key = toolKey(serverName, toolName);
+    const version = this.current.get(key);
+    if (!version) return null;
+    if (version.approvedAt != null) return version;
+    const next: ToolVersion = { ...version, approvedAt: new Date().toISOString(), approvedBy };
+    await this.coreRepository.saveToolVersion!(next);
+    this.current.set(key, next);
+    this.approved.set(key, next);
+    logger.info(
+      { serverName, toolName, version: next.version, approvedBy },
+      "Tool definition approved",
+    );
+    return next;
+  }
+
+  private pinningState(serverName: string, toolName: string): DashboardToolPinning | undefined {
+    const key = toolKey(serverName, toolName);
+    const version = this.current.get(key);
+    if (!version) return undefined;
+    const approvedVersion = this.approved.get(key)?.version;
+    return {
+      version: version.version,
+      fingerprint: version.fingerprint,
+      approved: version.approvedAt != null,
+      changedAt: version.firstSeenAt,
+      ...(approvedVersion != null && approvedVersion !== version.version && { approvedVersion }),
+    };
+  }
+
+  private async loadVersions(): Promise<void> {
+    if (!this.isSupported()) return;
+    try {
+      // Newest version first per tool, so the first one seen for a key is the current one.
+      for (const version of await this.coreRepository.listToolVersions!()) {
+        const key = toolKey(version.serverName, version.toolName);
+        if (!this.current.has(key)) this.current.set(key, version);
+        if (version.approvedAt != null && !this.approved.has(key)) {
+          this.approved.set(key, version);
+        }
+      }
+    } catch (err) {
+      logger.warn({ err }, "Loading tool versions failed");
+    }
+  }
+
+  private async recordTools(serverName: string, tools: DashboardMcpToolInfo[]): Promise<void> {
+    const now = new Date().toISOString();
+    for (const tool of tools) {
+      const key = toolKey(serverName, tool.name);
+      const fingerprint = toolFingerprint(tool);
+      const previous = this.current.get(key);
+      if (previous?.fingerprint === fingerprint) continue;
+
+      const lastApproved = this.approved.get(key);
+      const trusted = !previous || lastApproved?.fingerprint === fingerprint;
+      const version: ToolVersion = {
+        serverName,
+        toolName: tool.name,
+        version: (previous?.version ?? 0) + 1,
+        fingerprint,
+        definition: pinnedDefinition(tool),
+        firstSeenAt: now,
+        approvedAt: trusted ? now : null,
+        approvedBy: null,
+      };
+      await this.coreRepository.saveToolVersion!(version);
+      this.current.set(key, version);
+      if (trusted) this.approved.set(key, version);
+      if (!previous) continue;
+
+      logger.warn(
+        {
+          serverName,
+          toolName: tool.name,
+          version: version.version,
+          approved: trusted,
+        },
+        "Tool definition changed",
+      );
+      this.onChange({ serverName, toolName: tool.name, previous, current: version });
+    }
+  }
+}
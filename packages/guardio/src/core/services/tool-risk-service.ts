@@ -0,0 +1,157 @@
+import type { GuardioToolScanConfig } from "../../config/types.js";
+import type { PolicyPluginInterface } from "../../interfaces/PolicyPluginInterface.js";
+import type {
+  PolicyToolDefinition,
+  ToolRiskAssessment,
+  ToolRiskFinding,
+  ToolRiskRule,
+} from "../../interfaces/PolicyTypes.js";
+import type { DashboardMcpToolInfo } from "../transports/dashboard-api-types.js";
+import {
+  INJECTION_PATTERNS,
+  matchAny,
+  matchExcerpt,
+} from "../../plugins/policy/InjectionPatterns.js";
+import { logger } from "../../logger.js";
+
+/** Weight of each rule in the score; a rule counts once per tool however often it matches. */
+const RULE_WEIGHTS: Record<ToolRiskRule, number> = {
+  instruction_override: 40,
+  concealment: 40,
+  exfiltration: 35,
+  invisible_unicode: 30,
+  sensitive_file_access: 25,
+  hidden_tags: 20,
+  tool_shadowing: 20,
+};
+
+/** Every string in a JSON value, with its dotted path. */
+function collectStrings(value: unknown, path: string, out: Array<[string, string]>): void {
+  if (typeof value === "string") {
+    out.push([path, value]);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => collectStrings(item, `${path}[${i}]`, out));
+  } else if (value != null && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) collectStrings(item, `${path}.${key}`, out);
+  }
+}
+
+/**
+ * Scan a tool definition (title, description and every string in inputSchema) for hidden
+ * instructions aimed at the agent. Heuristic: a score above 0 means "have a look", not proof.
+ */
+export function scanToolDefinition(tool: PolicyToolDefinition): ToolRiskAssessment {
+  const fields: Array<[string, string]> = [];
+  if (tool.title) fields.push(["title", tool.title]);
+  if (tool.description) fields.push(["description", tool.description]);
+  if (tool.inputSchema) collectStrings(tool.inputSchema, "inputSchema", fields);
+
+  const findings: ToolRiskFinding[] = [];
+  let score = 0;
+  for (const [rule, weight] of Object.entries(RULE_WEIGHTS) as Array<[ToolRiskRule, number]>) {
+    let matched = false;
+    for (const [field, text] of fields) {
+      const match = matchAny(INJECTION_PATTERNS[rule], text);
+      if (!match) continue;
+      findings.push({ rule, field, excerpt: matchExcerpt(text, match.index, match[0].length) });
+      matched = true;
+    }
+    if (matched) score += weight;
+  }
+  return { score: Math.min(100, score), findings };
+}
+
+/**
+ * Scores upstream tool definitions for poisoning and, with toolScan.quarantineScore,
+ * quarantines the risky ones: they are left out of tools/list and calls to them are blocked.
+ * Assessments are memoized per tool object, so the cached lists are scanned once.
+ */
+export class ToolRiskService {
+  private readonly enabled: boolean;
+  private readonly quarantineScore: number | undefined;
+  private readonly assessments = new WeakMap<object, ToolRiskAssessment>();
+  /** Last reported score per server/tool, so an unchanged list is not logged again. */
+  private readonly reported = new Map<string, number>();
+
+  constructor(config: GuardioToolScanConfig | undefined) {
+    this.enabled = config?.enabled ?? true;
+    this.quarantineScore = config?.quarantineScore;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /** Scan a server's freshly received tools/list and log the tools that look poisoned. */
+  record(serverName: string, tools: DashboardMcpToolInfo[]): void {
+    if (!this.enabled) return;
+    for (const tool of tools) {
+      const key = `${serverName}\u0000${tool.name}`;
+      const { score, findings } = this.assess(tool)!;
+      if (this.reported.get(key) === score) continue;
+      this.reported.set(key, score);
+      if (score === 0) continue;
+      logger.warn(
+        {
+          serverName,
+          toolName: tool.name,
+          score,
+          rules: [...new Set(findings.map((f) => f.rule))],
+          quarantined: this.isQuarantined(tool),
+        },
+        "Tool definition contains suspicious instructions",
+      );
+    }
+  }
+
+  /** Risk of a tool definition; undefined when the scanner is off. */
+  assess(tool: PolicyToolDefinition): ToolRiskAssessment | undefined {
+    if (!this.enabled) return undefined;
+    let assessment = this.assessments.get(tool);
+    if (!assessment) {
+      assessment = scanToolDefinition(tool);
+      this.assessments.set(tool, assessment);
+    }
+    return assessment;
+  }
+
+  quarantineEnabled(): boolean {
+    return this.enabled && this.quarantineScore != null;
+  }
+
+  isQuarantined(tool: PolicyToolDefinition): boolean {
+    if (!this.quarantineEnabled()) return false;
+    return this.assess(tool)!.score >= this.quarantineScore!;
+  }
+
+  /** The tool definition for policies, with its risk attached. */
+  withRisk<T extends PolicyToolDefinition | null | undefined>(tool: T): T {
+    if (!tool) return tool;
+    const risk = this.assess(tool);
+    return risk ? { ...tool, risk } : tool;
+  }
+
+  /** Tools with their risk, for the dashboard. */
+  annotate(tools: DashboardMcpToolInfo[] | undefined): DashboardMcpToolInfo[] | undefined {
+    if (!tools || !this.enabled) return tools;
+    return tools.map((tool) => ({
+      ...tool,
+      risk: { ...this.assess(tool)!, quarantined: this.isQuarantined(tool) },
+    }));
+  }
+
+  /** A policy that blocks calls to a quarantined tool; null when the tool is not quarantined. */
+  blockingPolicy(tool: PolicyToolDefinition | null | undefined): PolicyPluginInterface | null {
+    if (!tool || !this.isQuarantined(tool)) return null;
+    const { score, findings } = this.assess(tool)!;
+    return {
+      name: "tool-scan",
+      evaluate: async () => ({
+        verdict: "block",
+        code: "TOOL_QUARANTINED",
+        reason: `Tool '${tool.name}' is quarantined: its definition contains suspicious instructions (risk score ${score}).`,
+        metadata: { score, rules: [...new Set(findings.map((f) => f.rule))] },
+      }),
+    };
+  }
+}
@@ -1,9 +1,21 @@
-import type { GuardioServerConfigUrl } from "../../config/types.js";
+import type { GuardioServerConfig } from "../../config/types.js";
 import type { CoreRepository } from "../../interfaces/CoreRepository.js";
 import type { DashboardMcpToolInfo } from "../transports/dashboard-api-types.js";
-import { fetchToolsListViaDiscovery } from "../transports/mcp-tools-discovery.js";
+import type { IServerTransport } from "../transports/types.js";
+import {
+  fetchToolsListViaDiscovery,
+  fetchToolsListViaStreamableHttp,
+} from "../transports/mcp-tools-discovery.js";
 import { logger } from "../../logger.js";
 
+/** Servers with the same key reach the same MCP, so they share discovery and tools. */
+function upstreamKey(config: GuardioServerConfig): string {
+  if (config.type === "command") {
+    return `command:${JSON.stringify([config.command, config.args ?? [], config.cwd ?? "", config.env ?? {}])}`;
+  }
+  return config.url.trim();
+}
+
 /**
  * Handles discovery and caching of MCP tools per server.
  *
@@ -13,21 +25,29 @@ import { logger } from "../../logger.js";
  * - Kick off discovery when a remote endpoint becomes ready.
  */
 export class ToolsDiscoveryService {
-  private readonly servers: GuardioServerConfigUrl[];
+  private readonly servers: GuardioServerConfig[];
   private readonly coreRepository: CoreRepository;
 
   /** Cached tools per server, filled when we proxy a tools/list response from the agent. */
   private readonly toolsListCache = new Map<string, DashboardMcpToolInfo[]>();
 
-  /** One discovery per URL so multiple servers pointing to the same MCP don't open concurrent connections. */
-  private readonly discoveryInProgressByUrl = new Map<
+  /** One discovery per upstream so multiple servers pointing to the same MCP don't open concurrent connections. */
+  private readonly discoveryInProgressByUpstream = new Map<
     string,
     Promise<DashboardMcpToolInfo[] | null>
   >();
 
-  constructor(servers: GuardioServerConfigUrl[], coreRepository: CoreRepository) {
+  /** Called with every freshly received tools list (not with lists restored from storage). */
+  private readonly onToolsUpdated: (serverName: string, tools: DashboardMcpToolInfo[]) => void;
+
+  constructor(
+    servers: GuardioServerConfig[],
+    coreRepository: CoreRepository,
+    onToolsUpdated: (serverName: string, tools: DashboardMcpToolInfo[]) => void = () => {},
+  ) {
     this.servers = servers;
     this.coreRepository = coreRepository;
+    this.onToolsUpdated = onToolsUpdated;
   }
 
   /**
@@ -58,22 +78,23 @@ export class ToolsDiscoveryService {
   /**
    * Called when a server transport emits endpointReady.
    * Clears previous tools cache for the server, rehydrates from DB, and kicks off discovery.
+   * Spawned servers are asked through their transport, so no second copy is started.
    */
-  handleEndpointReady(serverName: string): void {
+  handleEndpointReady(serverName: string, transport?: IServerTransport): void {
     this.toolsListCache.delete(serverName);
 
     const serverConfig = this.servers.find((s) => s.name === serverName);
     if (!serverConfig) return;
-    const url = serverConfig.url.trim();
+    const key = upstreamKey(serverConfig);
 
-    this.rehydrateServerToolsFromDb(url);
+    this.rehydrateServerToolsFromDb(key);
 
-    let promise = this.discoveryInProgressByUrl.get(url);
+    let promise = this.discoveryInProgressByUpstream.get(key);
     if (!promise) {
-      promise = fetchToolsListViaDiscovery(serverConfig).finally(() => {
-        this.discoveryInProgressByUrl.delete(url);
+      promise = this.discoverTools(serverConfig, transport).finally(() => {
+        this.discoveryInProgressByUpstream.delete(key);
       });
-      this.discoveryInProgressByUrl.set(url, promise);
+      this.discoveryInProgressByUpstream.set(key, promise);
     }
 
     promise
@@ -81,15 +102,31 @@ export class ToolsDiscoveryService {
         if (tools === null) return;
         const save = this.coreRepository.saveServerTools;
         for (const s of this.servers) {
-          if (s.url.trim() === url) {
+          if (upstreamKey(s) === key) {
             this.toolsListCache.set(s.name, tools);
             save?.(s.name, tools).catch(() => {});
+            this.onToolsUpdated(s.name, tools);
           }
         }
       })
       .catch(() => {});
   }
 
+  private discoverTools(
+    config: GuardioServerConfig,
+    transport: IServerTransport | undefined,
+  ): Promise<DashboardMcpToolInfo[] | null> {
+    if (config.type === "command") {
+      if (!transport?.listTools) return Promise.resolve(null);
+      return transport
+        .listTools()
+        .then((tools) => (tools ? this.normalizeToolsList(tools) : null));
+    }
+    return config.transport === "streamable-http"
+      ? fetchToolsListViaStreamableHttp(config)
+      : fetchToolsListViaDiscovery(config);
+  }
+
   /**
    * Normalize raw MCP tool list to DashboardMcpToolInfo[].
    * Exported for reuse in tests.
@@ -120,6 +157,19 @@ export class ToolsDiscoveryService {
     return this.toolsListCache.get(serverName);
   }
 
+  /**
+   * A server's tool by name: null when the server's tools are known but do not include it,
+   * undefined when no tools/list has been seen for the server yet.
+   */
+  findTool(
+    serverName: string,
+    toolName: string,
+  ): DashboardMcpToolInfo | null | undefined {
+    const tools = this.toolsListCache.get(serverName);
+    if (!tools) return undefined;
+    return tools.find((t) => t.name === toolName) ?? null;
+  }
+
   /**
    * Explicitly set cached tools for a server and persist when repository supports it.
    */
@@ -129,6 +179,7 @@ export class ToolsDiscoveryService {
   ): void {
     this.toolsListCache.set(serverName, tools);
     this.coreRepository.saveServerTools?.(serverName, tools).catch(() => {});
+    this.onToolsUpdated(serverName, tools);
   }
 
   /**
@@ -147,23 +198,24 @@ export class ToolsDiscoveryService {
       this.coreRepository.saveServerTools?.(serverName, normalized).catch(
         () => {},
       );
+      this.onToolsUpdated(serverName, normalized);
     } catch {
       // not JSON or wrong shape; ignore
     }
   }
 
   /**
-   * Rehydrate tools from DB for all servers with this URL so dashboard shows last-known
+   * Rehydrate tools from DB for all servers on this upstream so dashboard shows last-known
    * until discovery completes.
    */
-  private rehydrateServerToolsFromDb(url: string): void {
+  private rehydrateServerToolsFromDb(key: string): void {
     const repo = this.coreRepository;
     if (!repo.getAllServerTools) return;
     repo
       .getAllServerTools()
       .then((all) => {
         for (const s of this.servers) {
-          if (s.url.trim() === url && all[s.name]?.length) {
+          if (upstreamKey(s) === key && all[s.name]?.length) {
             this.toolsListCache.set(s.name, all[s.name]);
           }
         }
@@ -0,0 +1,185 @@
+import type { GuardioToolsListConfig } from "../../config/types.js";
+import type { CoreRepository } from "../../interfaces/CoreRepository.js";
+import type { PolicyToolDefinition, PolicyVerdict } from "../../interfaces/PolicyTypes.js";
+import type { JsonRpcResponse } from "../types.js";
+import { instantiatePolicyPlugins } from "./policy-instantiation.js";
+import { logger } from "../../logger.js";
+
+/** Forget a tracked tools/list whose response never arrived after this long (1 minute). */
+const TRACKING_TTL_MS = 60 * 1000;
+
+/** Prefix for descriptions of tools that always need approval (annotateApprovals). */
+export const APPROVAL_REQUIRED_NOTE = "[Requires human approval]";
+
+/** A forwarded tools/list; the agent that asked decides which policies apply. */
+export interface TrackedToolsList {
+  agentId: string | null;
+}
+
+function trackingKey(scope: string, requestId: string | number): string {
+  return `${scope}\u0000${typeof requestId}:${requestId}`;
+}
+
+/**
+ * Rewrites upstream tools/list responses for the agent that asked: tools a policy always
+ * blocks for that agent (deny-tool-access) are removed, and tools that always need approval
+ * can be marked in their description. Tools quarantined by the definition scanner are removed
+ * for everyone. Responses are correlated with forwarded tools/list
+ * requests by scope and request id, like ResponseInspectionService does for tools/call.
+ * Hiding only tidies the agent's view; calls are still checked by policies, so when
+ * assignments cannot be read the list is passed through with only quarantined tools removed.
+ */
+export class ToolsListFilterService {
+  private readonly hideDenied: boolean;
+  private readonly annotateApprovals: boolean;
+  private readonly pending = new Map<
+    string,
+    { listing: TrackedToolsList; timer: ReturnType<typeof setTimeout> }
+  >();
+
+  constructor(
+    private readonly coreRepository: CoreRepository,
+    config: GuardioToolsListConfig | undefined,
+    private readonly quarantine?: {
+      quarantineEnabled(): boolean;
+      isQuarantined(tool: PolicyToolDefinition): boolean;
+    },
+  ) {
+    this.hideDenied = config?.hideDenied ?? true;
+    this.annotateApprovals = config?.annotateApprovals ?? false;
+  }
+
+  isEnabled(): boolean {
+    return this.hideDenied || this.annotateApprovals || !!this.quarantine?.quarantineEnabled();
+  }
+
+  /** Start tracking a forwarded tools/list; no-op when rewriting is turned off. */
+  track(scope: string, requestId: string | number, listing: TrackedToolsList): void {
+    if (!this.isEnabled()) return;
+    const key = trackingKey(scope, requestId);
+    const existing = this.pending.get(key);
+    if (existing) clearTimeout(existing.timer);
+    const timer = setTimeout(() => this.pending.delete(key), TRACKING_TTL_MS);
+    timer.unref?.();
+    this.pending.set(key, { listing, timer });
+  }
+
+  /** If body answers a tracked tools/list, stop tracking it and return who asked. */
+  take(scope: string, body: string): TrackedToolsList | null {
+    if (this.pending.size === 0) return null;
+    let message: JsonRpcResponse & { method?: string };
+    try {
+      message = JSON.parse(body) as JsonRpcResponse & { method?: string };
+    } catch {
+      return null;
+    }
+    if (message.method != null || message.id == null) return null;
+    const key = trackingKey(scope, message.id);
+    const entry = this.pending.get(key);
+    if (!entry) return null;
+    clearTimeout(entry.timer);
+    this.pending.delete(key);
+    return entry.listing;
+  }
+
+  /** Return the tools/list response body as the agent should see it. */
+  async filter(body: string, listing: TrackedToolsList): Promise<string> {
+    let message: JsonRpcResponse & { result?: { tools?: unknown } };
+    try {
+      message = JSON.parse(body) as typeof message;
+    } catch {
+      return body;
+    }
+    const tools = message.result?.tools;
+    if (!Array.isArray(tools)) return body;
+
+    // Quarantine is enforced even when policy assignments cannot be read below.
+    const quarantined: string[] = [];
+    const candidates = tools.filter((tool) => {
+      const name = (tool as { name?: unknown } | null)?.name;
+      if (
+        typeof name === "string" &&
+        this.quarantine?.isQuarantined(tool as PolicyToolDefinition)
+      ) {
+        quarantined.push(name);
+        return false;
+      }
+      return true;
+    });
+    if (quarantined.length > 0) {
+      logger.info({ quarantined }, "Quarantined tools removed from tools/list");
+    }
+
+    let visible: unknown[] = candidates;
+    if (this.hideDenied || this.annotateApprovals) {
+      try {
+        visible = await this.applyAssignedPolicies(candidates, listing.agentId);
+      } catch (err) {
+        logger.warn(
+          { err },
+          "Checking tools/list against policies failed; forwarding it with only quarantined tools removed",
+        );
+      }
+    }
+    return JSON.stringify({ ...message, result: { ...message.result, tools: visible } });
+  }
+
+  /** Filter body if it answers a tracked tools/list; otherwise return it unchanged. */
+  async filterIfTracked(scope: string, body: string): Promise<string> {
+    const listing = this.take(scope, body);
+    return listing ? this.filter(body, listing) : body;
+  }
+
+  clear(): void {
+    for (const entry of this.pending.values()) clearTimeout(entry.timer);
+    this.pending.clear();
+  }
+
+  /** Hide tools a policy always blocks for the agent and mark those that always need approval. */
+  private async applyAssignedPolicies(
+    tools: unknown[],
+    agentId: string | null,
+  ): Promise<unknown[]> {
+    const visible: unknown[] = [];
+    const hidden: string[] = [];
+    for (const tool of tools) {
+      const name = (tool as { name?: unknown } | null)?.name;
+      if (typeof name !== "string") {
+        visible.push(tool);
+        continue;
+      }
+      const verdicts = await this.unconditionalVerdicts(agentId, name);
+      if (this.hideDenied && verdicts.has("block")) {
+        hidden.push(name);
+      } else if (this.annotateApprovals && verdicts.has("negotiate")) {
+        const description = (tool as { description?: unknown }).description;
+        visible.push({
+          ...(tool as object),
+          description:
+            typeof description === "string" && description
+              ? `${APPROVAL_REQUIRED_NOTE} ${description}`
+              : APPROVAL_REQUIRED_NOTE,
+        });
+      } else {
+        visible.push(tool);
+      }
+    }
+    if (hidden.length > 0) {
+      logger.debug({ agentId, hidden }, "Denied tools hidden from tools/list");
+    }
+    return visible;
+  }
+
+  private async unconditionalVerdicts(
+    agentId: string | null,
+    toolName: string,
+  ): Promise<Set<PolicyVerdict>> {
+    const assignments = await this.coreRepository.getPoliciesForContext(agentId, toolName);
+    const verdicts = new Set<PolicyVerdict>();
+    for (const plugin of instantiatePolicyPlugins(assignments)) {
+      const verdict = plugin.unconditionalVerdict?.();
+      if (verdict) verdicts.add(verdict);
+    }
+    return verdicts;
+  }
+}
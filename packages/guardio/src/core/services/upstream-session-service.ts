@@ -0,0 +1,106 @@
+import { once } from "node:events";
+import type { GuardioServerConfig } from "../../config/types.js";
+import type { IServerTransport } from "../transports/types.js";
+import { createServerTransport } from "../transports/create-server-transport.js";
+import { logger } from "../../logger.js";
+
+/** How long a request waits for its session's upstream connection to come up (10 seconds). */
+const UPSTREAM_READY_TIMEOUT_MS = 10_000;
+
+/**
+ * Whether requests can be forwarded upstream: a POST endpoint is known, or the transport
+ * takes requests through send() (spawned servers, Streamable HTTP).
+ */
+export function isUpstreamReady(transport: IServerTransport | undefined): boolean {
+  if (!transport) return false;
+  return transport.getRemotePostUrl() != null || transport.isReady?.() === true;
+}
+
+export interface UpstreamSession {
+  sessionId: string;
+  serverName: string;
+  transport: IServerTransport;
+}
+
+export interface UpstreamSessionHandlers {
+  /** A message from the session's upstream; deliver it to that session only. */
+  onMessage: (session: UpstreamSession, line: string) => void;
+  /** The session's upstream became ready (also after reconnects). */
+  onReady: (session: UpstreamSession) => void;
+}
+
+/**
+ * One upstream connection per client session (SSE connection, Streamable HTTP session,
+ * stdio agent), so upstream session state and responses are never shared between agents.
+ */
+export class UpstreamSessionService {
+  private readonly servers: Map<string, GuardioServerConfig>;
+  private readonly handlers: UpstreamSessionHandlers;
+  private readonly sessions = new Map<string, UpstreamSession>();
+
+  constructor(servers: GuardioServerConfig[], handlers: UpstreamSessionHandlers) {
+    this.servers = new Map(servers.map((s) => [s.name, s]));
+    this.handlers = handlers;
+  }
+
+  /** Open the upstream connection for a new client session. No-op for unknown servers or known sessions. */
+  open(sessionId: string, serverName: string): void {
+    const config = this.servers.get(serverName);
+    if (!config || this.sessions.has(sessionId)) return;
+    const session: UpstreamSession = {
+      sessionId,
+      serverName,
+      transport: createServerTransport(config),
+    };
+    this.sessions.set(sessionId, session);
+    session.transport.on("message", (line: string) => this.handlers.onMessage(session, line));
+    session.transport.on("endpointReady", () => this.handlers.onReady(session));
+    logger.debug({ sessionId, serverName }, "Opening upstream session");
+    session.transport.start().catch((err) => {
+      logger.error({ err, sessionId, serverName }, "Upstream session failed to start");
+    });
+  }
+
+  has(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
+  }
+
+  /** The session's upstream transport once ready; null for unknown sessions or on timeout. */
+  async whenReady(
+    sessionId: string,
+    timeoutMs: number = UPSTREAM_READY_TIMEOUT_MS,
+  ): Promise<IServerTransport | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+    if (isUpstreamReady(session.transport)) return session.transport;
+    try {
+      await once(session.transport, "endpointReady", {
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch {
+      logger.warn({ sessionId, serverName: session.serverName }, "Upstream session not ready in time");
+      return null;
+    }
+    return isUpstreamReady(session.transport) ? session.transport : null;
+  }
+
+  /** Close the session's upstream connection when its client goes away. */
+  async close(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    this.sessions.delete(sessionId);
+    session.transport.removeAllListeners();
+    try {
+      await session.transport.close?.();
+    } catch (err) {
+      logger.warn({ err, sessionId }, "Failed to close upstream session");
+    }
+    logger.debug({ sessionId, serverName: session.serverName }, "Upstream session closed");
+  }
+
+  async closeAll(): Promise<void> {
+    for (const sessionId of [...this.sessions.keys()]) {
+      await this.close(sessionId);
+    }
+  }
+}
@@ -3,9 +3,12 @@ import type { CoreRepository } from "../../interfaces/CoreRepository.js";
 import type {
   IClientTransport,
   ClientTransportDashboardHooks,
+  AgentAuthHooks,
+  DashboardAuthHooks,
   EventBus,
 } from "./types.js";
 import { HttpClientTransport } from "./http-client.js";
+import { StdioClientTransport } from "./stdio-client.js";
 import { logger } from "../../logger.js";
 
 const DEFAULT_CLIENT: GuardioClientConfig = { mode: "http" };
@@ -33,15 +36,29 @@ const clientTransportRegistry: Record<ClientTransportType, ClientTransportFactor
         host,
         serverNames,
         dashboardHooks: options.dashboardHooks,
+        agentAuth: options.agentAuth,
+        dashboardAuth: options.dashboardAuth,
+        corsOrigins: options.corsOrigins,
+        policyHeaders: client.policyHeaders,
+        sessionIdleTimeoutMs: client.sessionIdleTimeoutMs,
         eventBus: options.eventBus,
         coreRepository: options.coreRepository,
       });
     },
-    // Placeholder for future stdio client transport implementation.
-    stdio: () => {
-      throw new Error(
-        'Client transport type "stdio" is not implemented yet. Use type "http".',
-      );
+    stdio: (clientConfig, options) => {
+      const serverNames = options.serverNames ?? [];
+      if (serverNames.length !== 1) {
+        throw new Error(
+          `Client transport type "stdio" serves exactly one server; got ${serverNames.length}. Pick one with --server <name>.`,
+        );
+      }
+      logger.debug({ serverName: serverNames[0] }, "Creating stdio client transport");
+      return new StdioClientTransport({
+        serverName: serverNames[0],
+        agentName: clientConfig?.agentName,
+        eventBus: options.eventBus,
+        coreRepository: options.coreRepository,
+      });
     },
   };
 
@@ -55,7 +72,13 @@ export function registerClientTransport(
 export interface CreateClientTransportOptions {
   /** Dashboard/control-plane API handlers. Called by transport on GET /api/connection and GET /api/policies. */
   dashboardHooks?: ClientTransportDashboardHooks;
-  /** Server names (mcp-id) for path-based routes: /{name}/sse and /{name}/messages. Required for HTTP mode. */
+  /** Agent API key checks for HTTP mode. Without it, agents connect anonymously. */
+  agentAuth?: AgentAuthHooks;
+  /** Login and role checks for /api/* in HTTP mode. Without it the dashboard API is open. */
+  dashboardAuth?: DashboardAuthHooks;
+  /** Browser origins allowed by CORS in HTTP mode; any origin when omitted. */
+  corsOrigins?: string[];
+  /** Server names (mcp-id) for path-based routes: /{name}/sse and /{name}/messages. Required for HTTP mode; stdio mode takes exactly one. */
   serverNames?: string[];
   /** General-purpose event bus; subscribe before passing so no events are missed. */
   eventBus?: EventBus;
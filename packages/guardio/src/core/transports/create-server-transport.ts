@@ -1,33 +1,43 @@
-import type {
-  GuardioServerConfig,
-  GuardioServerConfigUrl,
-} from "../../config/types.js";
+import type { GuardioServerConfig } from "../../config/types.js";
 import type { IServerTransport } from "./types.js";
 import { SseUrlTransport } from "./sse-url-transport.js";
+import { StreamableHttpTransport } from "./streamable-http-transport.js";
+import { StdioCommandTransport } from "./stdio-command-transport.js";
 
-export type ServerTransportFactory = (
-  serverConfig: GuardioServerConfigUrl,
-) => IServerTransport;
+export type ServerTransportType = GuardioServerConfig["type"];
 
-const serverTransportRegistry: Record<GuardioServerConfig["type"], ServerTransportFactory> =
-  {
-    url: (config: GuardioServerConfigUrl) => new SseUrlTransport(config),
-  };
+export type ServerTransportFactory<
+  T extends ServerTransportType = ServerTransportType,
+> = (serverConfig: Extract<GuardioServerConfig, { type: T }>) => IServerTransport;
 
-export function registerServerTransport(
-  type: GuardioServerConfig["type"],
-  factory: ServerTransportFactory,
+const serverTransportRegistry: {
+  [T in ServerTransportType]: ServerTransportFactory<T>;
+} = {
+  url: (config) =>
+    config.transport === "streamable-http"
+      ? new StreamableHttpTransport(config)
+      : new SseUrlTransport(config),
+  command: (config) => new StdioCommandTransport(config),
+};
+
+export function registerServerTransport<T extends ServerTransportType>(
+  type: T,
+  factory: ServerTransportFactory<T>,
 ): void {
-  serverTransportRegistry[type] = factory;
+  (serverTransportRegistry as Record<T, ServerTransportFactory<T>>)[type] =
+    factory;
 }
 
 /**
  * Creates a server transport from config.
- * Default is HTTP/SSE (url).
+ * "url" connects over HTTP/SSE (or Streamable HTTP with transport "streamable-http");
+ * "command" spawns the server and talks over stdio.
  */
 export function createServerTransport(
-  serverConfig: GuardioServerConfigUrl,
+  serverConfig: GuardioServerConfig,
 ): IServerTransport {
-  const factory = serverTransportRegistry[serverConfig.type]!;
+  const factory = serverTransportRegistry[
+    serverConfig.type
+  ] as ServerTransportFactory;
   return factory(serverConfig);
 }
@@ -2,6 +2,14 @@
  * Dashboard API response types. Align with packages/dashboard/lib/guardio-api.ts.
  */
 
+import type { GuardioEventDecision } from "../../interfaces/EventSinkPluginInterface.js";
+import type { GuardioDashboardRole } from "../../config/types.js";
+import type {
+  PolicyEvaluationFailure,
+  PolicyFailureMode,
+  ToolRiskAssessment,
+} from "../../interfaces/PolicyTypes.js";
+
 /** Single active SSE client (included in connection when transport provides it). */
 export interface DashboardActiveClientInfo {
   id: string;
@@ -17,14 +25,86 @@ export interface DashboardMcpToolInfo {
   description?: string;
   title?: string;
   inputSchema?: object;
+  /** Pinned definition state; present when tool pinning is enabled and storage supports it. */
+  pinning?: DashboardToolPinning;
+  /** Poisoning scan of the definition; present when the tool scanner is enabled. */
+  risk?: DashboardToolRisk;
+}
+
+/** Risk score and findings of the tool description poisoning scanner. */
+export interface DashboardToolRisk extends ToolRiskAssessment {
+  /** Removed from tools/list and blocked, since the score reached toolScan.quarantineScore. */
+  quarantined: boolean;
+}
+
+/** Pinning state of a tool: its current definition version and whether that is approved. */
+export interface DashboardToolPinning {
+  version: number;
+  fingerprint: string;
+  /** False when the definition changed and an operator has not re-approved it yet. */
+  approved: boolean;
+  /** When the current version was first seen. */
+  changedAt: string;
+  /** Latest approved version, when it is not the current one. */
+  approvedVersion?: number;
+}
+
+/** One stored version of a tool definition (GET /api/servers/:serverName/tools/:toolName/versions). */
+export interface DashboardToolVersion {
+  version: number;
+  fingerprint: string;
+  definition: {
+    name: string;
+    title?: string;
+    description?: string;
+    inputSchema?: object;
+  };
+  firstSeenAt: string;
+  approvedAt: string | null;
+  approvedBy: string | null;
+}
+
+/** Response of GET /api/servers/:serverName/tools/:toolName/versions; newest version first. */
+export interface DashboardToolVersionsInfo {
+  serverName: string;
+  toolName: string;
+  versions: DashboardToolVersion[];
+  /** Whether calls to a tool with an unapproved version are blocked. */
+  blockChanged: boolean;
+}
+
+/** Lifecycle of a spawned (type "command") MCP server process. */
+export type DashboardServerProcessStatus =
+  | "starting"
+  | "running"
+  | "restarting"
+  | "stopped";
+
+/** State of a spawned MCP server process. */
+export interface DashboardServerProcessInfo {
+  status: DashboardServerProcessStatus;
+  pid: number | null;
+  /** Restarts after the process exited unexpectedly. */
+  restarts: number;
+  startedAt: string | null;
+  lastExitCode: number | null;
+  lastExitSignal: string | null;
+  lastError: string | null;
+  /** When the next restart is scheduled (status "restarting"). */
+  nextRestartAt: string | null;
 }
 
 /** Single remote MCP server in connection info. */
 export interface DashboardServerInfo {
   name: string;
+  /** Upstream transport from config. */
+  type?: "url" | "command";
+  /** Upstream URL; for command servers, the command line. */
   remoteUrl: string;
   remotePostUrl: string | null;
   connected: boolean;
+  /** Present for command servers. */
+  process?: DashboardServerProcessInfo;
   /** Cached from upstream tools/list response when we proxy it (optional). */
   tools?: DashboardMcpToolInfo[];
 }
@@ -76,10 +156,17 @@ export interface DashboardPoliciesInfo {
   policies: DashboardPolicyEntry[];
 }
 
+/** POST /api/policies/validate-expression response; position is a 0-based character offset. */
+export type DashboardExpressionValidation =
+  | { valid: true }
+  | { valid: false; error: string; position: number };
+
 /** Single assignment scope (agent + tool) for dashboard display. */
 export interface DashboardPolicyAssignmentScope {
   agentId: string | null;
   toolName: string | null;
+  /** Evaluation order: higher runs first. */
+  priority: number;
 }
 
 /** Policy instance (from DB). */
@@ -89,6 +176,12 @@ export interface DashboardPolicyInstance {
   name?: string;
   config: unknown;
   isEnabled: boolean;
+  /** Highest priority of its assignments (0 when it has none). */
+  priority: number;
+  /** Failure mode override; omitted when the instance uses the deployment default. */
+  failureMode?: PolicyFailureMode;
+  /** Evaluation timeout override in milliseconds; omitted when it uses the deployment default. */
+  timeoutMs?: number;
   /** Assignment rows for this instance (agent/tool scope per row). Omitted when empty. */
   assignments?: DashboardPolicyAssignmentScope[];
 }
@@ -108,7 +201,16 @@ export interface DashboardActivityEvent {
   /** Agent name from x-agent-name at request time. */
   agentNameSnapshot?: string | null;
   decision?: string | null;
-  policyEvaluation?: { policyName?: string; code?: string; reason?: string } | null;
+  policyEvaluation?: {
+    policyName?: string;
+    code?: string;
+    reason?: string;
+    metadata?: Record<string, unknown>;
+    /** Policies that threw or timed out on this call. */
+    failures?: PolicyEvaluationFailure[];
+  } | null;
+  /** POLICY_TIMEOUT or POLICY_ERROR when a policy failed on this call. */
+  errorCode?: string | null;
    /** Optional simulation info when Simulation Mode was active for this event. */
    simulation?: {
      enabled: boolean;
@@ -121,6 +223,48 @@ export interface DashboardEventsInfo {
   events: DashboardActivityEvent[];
 }
 
+/** Query parameters accepted by GET /api/events. */
+export interface DashboardEventsQuery {
+  /** Only return events with this decision (e.g. ?decision=FLAGGED). */
+  decision?: GuardioEventDecision;
+}
+
+/** Status of a parked tools/call in the approvals inbox. */
+export type DashboardApprovalStatus = "pending" | "approved" | "rejected" | "expired";
+
+/** Single approval from GET /api/approvals (tools/call parked by a "negotiate" verdict). */
+export interface DashboardApproval {
+  id: string;
+  status: DashboardApprovalStatus;
+  serverName: string;
+  toolName: string;
+  agentId: string | null;
+  agentNameSnapshot: string | null;
+  requestId: string | number | null;
+  /** Tool arguments that will be forwarded upstream on approval. */
+  arguments?: unknown;
+  policyName: string;
+  code: string | null;
+  reason: string | null;
+  metadata: Record<string, unknown> | null;
+  /** Reviewer note given on approve/reject. */
+  note: string | null;
+  createdAt: string;
+  expiresAt: string;
+  resolvedAt: string | null;
+}
+
+/** GET /api/approvals response. */
+export interface DashboardApprovalsInfo {
+  approvals: DashboardApproval[];
+}
+
+/** Query parameters accepted by GET /api/approvals. */
+export interface DashboardApprovalsQuery {
+  /** Only return approvals with this status (e.g. ?status=pending). */
+  status?: DashboardApprovalStatus;
+}
+
 /** Per-tool simulation setting scoped by server + tool name. */
 export interface DashboardSimulationToolSetting {
   serverName: string;
@@ -138,3 +282,55 @@ export interface DashboardSimulationSettings {
 
 /** Request body for updating Simulation Mode configuration. */
 export type UpdateSimulationSettingsBody = DashboardSimulationSettings;
+
+/** Agent registered via POST /api/agents (so API keys can be issued before it connects). */
+export interface DashboardAgent {
+  id: string;
+  name: string;
+}
+
+/** Agent API key from GET /api/agent-keys and /api/agents/:id/keys. The key itself is never returned. */
+export interface DashboardAgentApiKey {
+  id: string;
+  agentId: string;
+  agentName: string;
+  name: string | null;
+  /** First characters of the key, to tell keys apart. */
+  prefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+/** GET /api/agent-keys and GET /api/agents/:id/keys response. */
+export interface DashboardAgentApiKeysInfo {
+  keys: DashboardAgentApiKey[];
+}
+
+/** POST /api/agents/:id/keys response: the key is shown once and cannot be retrieved again. */
+export interface DashboardIssuedAgentApiKey {
+  key: string;
+  apiKey: DashboardAgentApiKey;
+}
+
+/** Role on the dashboard API: viewer < operator < admin. */
+export type DashboardRole = GuardioDashboardRole;
+
+/** Signed-in dashboard user or static token. */
+export interface DashboardPrincipal {
+  username: string;
+  role: DashboardRole;
+}
+
+/** POST /api/auth/login response; send token as Authorization: Bearer on later /api/* calls. */
+export interface DashboardLoginResult extends DashboardPrincipal {
+  token: string;
+  expiresAt: string;
+}
+
+/** GET /api/auth/me response. */
+export interface DashboardAuthStatus {
+  /** False when no users or tokens are configured (the API is open). */
+  authEnabled: boolean;
+  user: DashboardPrincipal | null;
+}
@@ -1,6 +1,6 @@
-import type { ServerResponse } from "node:http";
+import type { IncomingHttpHeaders, ServerResponse } from "node:http";
 import { EventEmitter } from "node:events";
-import Fastify from "fastify";
+import Fastify, { type FastifyRequest } from "fastify";
 import fastifyCors from "@fastify/cors";
 import { v4 as uuidv4 } from "uuid";
 import {
@@ -9,16 +9,24 @@ import {
   animals,
   colors,
 } from "unique-names-generator";
-import type { CoreRepository } from "../../interfaces/CoreRepository.js";
+import type { Agent, CoreRepository } from "../../interfaces/CoreRepository.js";
 import type {
   IClientTransport,
   ClientTransportDashboardHooks,
+  AgentAuthHooks,
+  DashboardAuthHooks,
   EventBus,
   AgentDiscoveredPayload,
+  ClientSessionPayload,
 } from "./types.js";
 import { BusTopic } from "./types.js";
 import type {
   DashboardActiveClientInfo,
+  DashboardAuthStatus,
+  DashboardRole,
+  DashboardApprovalsQuery,
+  DashboardEventsQuery,
+  DashboardPrincipal,
   DashboardPolicyInstancesInfo,
   DashboardSimulationSettings,
 } from "./dashboard-api-types.js";
@@ -28,28 +36,172 @@ import type {
   CreatePolicyInstanceResult,
   UpdatePolicyInstanceBody,
   UpdatePolicyInstanceResult,
+  ResolveApprovalBody,
+  ResolveApprovalResult,
+  CreateAgentBody,
+  CreateAgentApiKeyBody,
+  CreateAgentApiKeyResult,
 } from "./types.js";
 import { logger } from "../../logger.js";
 
 const HEALTH_PATH = "/health";
 const API_CONNECTION_PATH = "/api/connection";
 const API_POLICIES_PATH = "/api/policies";
+const API_POLICY_EXPRESSION_PATH = "/api/policies/validate-expression";
 const API_POLICY_INSTANCES_PATH = "/api/policy-instances";
 const API_EVENTS_PATH = "/api/events";
 const API_SIMULATION_PATH = "/api/testing/simulation";
+const API_APPROVALS_PATH = "/api/approvals";
+const API_AGENTS_PATH = "/api/agents";
+const API_AGENT_KEYS_PATH = "/api/agent-keys";
+const API_AUTH_PATH = "/api/auth";
+const API_SERVERS_PATH = "/api/servers";
+const MCP_SESSION_ID_HEADER = "mcp-session-id";
+
+/**
+ * How long POST /:mcpId/mcp waits for an answer that arrives after the core replied 202
+ * (upstream SSE, parked approvals). Outlasts the default approval timeout.
+ */
+const STREAMABLE_RESPONSE_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** Streamable HTTP sessions without activity for this long are closed (client.sessionIdleTimeoutMs). */
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+/** Longest interval between two sweeps for idle sessions. */
+const MAX_SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/** Decisions accepted by GET /api/events?decision=… */
+const EVENT_DECISIONS = new Set<string>(["ALLOWED", "BLOCKED", "MODIFIED", "FLAGGED"]);
+
+/** Statuses accepted by GET /api/approvals?status=… */
+const APPROVAL_STATUSES = new Set<string>(["pending", "approved", "rejected", "expired"]);
+
+/** HTTP status for a failed approve/reject. */
+function resolveApprovalErrorStatus(
+  kind: Extract<ResolveApprovalResult, { error: string }>["kind"],
+): number {
+  if (kind === "not_found") return 404;
+  if (kind === "already_resolved") return 409;
+  return 503;
+}
+
+const DASHBOARD_ROLE_RANK: Record<DashboardRole, number> = { viewer: 0, operator: 1, admin: 2 };
+
+/**
+ * Minimum role for a dashboard API route (Fastify route pattern); null for routes outside
+ * /api/* and for /api/auth/*. Reads and expression syntax checks need viewer; resolving
+ * approvals, approving changed tool definitions and toggling simulation need operator; every
+ * other write needs admin, including routes added later.
+ */
+function requiredDashboardRole(method: string, routeUrl: string | undefined): DashboardRole | null {
+  if (!routeUrl?.startsWith("/api/") || routeUrl.startsWith(`${API_AUTH_PATH}/`)) return null;
+  if (method === "GET" || method === "HEAD" || routeUrl === API_POLICY_EXPRESSION_PATH) {
+    return "viewer";
+  }
+  if (
+    routeUrl.startsWith(`${API_APPROVALS_PATH}/`) ||
+    routeUrl === API_SIMULATION_PATH ||
+    routeUrl === `${API_SERVERS_PATH}/:serverName/tools/:toolName/approve`
+  ) {
+    return "operator";
+  }
+  return "admin";
+}
+
+/** HTTP status for a failed key issue/revoke. */
+function agentApiKeyErrorStatus(
+  kind: Extract<CreateAgentApiKeyResult, { error: string }>["kind"],
+): number {
+  return kind === "not_found" ? 404 : 503;
+}
+
+/** Key from an `Authorization: Bearer <key>` header; null when absent or another scheme. */
+function bearerToken(header: string | undefined): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(header ?? "");
+  return match ? match[1]! : null;
+}
+
+/** Headers passed to policies when client.policyHeaders is not set. */
+const DEFAULT_POLICY_HEADERS = ["user-agent", "x-request-id", "traceparent"];
+
+/** Credentials that never reach policies, even when listed in client.policyHeaders. */
+const PRIVATE_HEADERS = new Set(["authorization", "proxy-authorization", "cookie", "set-cookie"]);
+
+/** The listed headers present on a request, with lower-case names; repeated ones joined by ", ". */
+function selectHeaders(headers: IncomingHttpHeaders, names: string[]): Record<string, string> {
+  const selected: Record<string, string> = {};
+  for (const name of names) {
+    const value = headers[name];
+    if (value == null) continue;
+    selected[name] = Array.isArray(value) ? value.join(", ") : value;
+  }
+  return selected;
+}
+
+/** Trace id from a W3C `traceparent` header (version-traceid-parentid-flags); null when invalid. */
+function traceIdFrom(traceparent: string | string[] | undefined): string | null {
+  const match = /^[0-9a-f]{2}-([0-9a-f]{32})-[0-9a-f]{16}-[0-9a-f]{2}$/.exec(
+    (typeof traceparent === "string" ? traceparent : "").trim().toLowerCase(),
+  );
+  return match && !/^0+$/.test(match[1]!) ? match[1]! : null;
+}
 
 /**
  * We need to hold open SSE response streams in memory so we can write to them on broadcast.
  * The DB cannot represent live HTTP connections; only these handles let us call res.write().
+ * kind "streamable" is the optional GET stream of a Streamable HTTP session (no endpoint event).
  */
 interface SseStreamHandle {
+  /** Client session id. */
   id: string;
+  /** Agent of the session: the API key's agent, otherwise the session id. */
+  agentId: string;
+  /** Whether the session was opened with an API key. */
+  authenticated: boolean;
   serverName: string;
   res: ServerResponse;
+  kind: "sse" | "streamable";
+}
+
+/** Streamable HTTP session (POST /:mcpId/mcp initialize); agentId is the session id unless opened with an API key. */
+interface StreamableSession {
+  id: string;
+  agentId: string;
+  authenticated: boolean;
+  name: string;
+  serverName: string;
+  /** Last client request or message for the session (Date.now()). */
+  lastActiveAt: number;
+}
+
+/** POST /:mcpId/mcp request waiting for its answer to arrive via send(). */
+interface StreamableWaiter {
+  resolve: (message: string | null) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+function jsonRpcError(
+  id: string | number | null,
+  code: number,
+  message: string,
+): { jsonrpc: "2.0"; id: string | number | null; error: { code: number; message: string } } {
+  return { jsonrpc: "2.0", id, error: { code, message } };
+}
+
+function streamableWaiterKey(sessionId: string, id: string | number): string {
+  return `${sessionId}\u0000${typeof id}:${id}`;
+}
+
+function generateAgentName(): string {
+  return uniqueNamesGenerator({
+    dictionaries: [adjectives, colors, animals],
+    length: 2,
+    separator: "-",
+  });
 }
 
 /**
  * HTTP client transport: GET /:mcpId/sse (SSE stream), POST /:mcpId/messages (emit postRequest),
+ * /:mcpId/mcp (Streamable HTTP: POST messages, GET stream, DELETE session),
  * GET /api/connection and GET /api/policies (dashboard, via hooks).
  * mcpId must be one of the configured server names.
  * Active agent data is in coreRepository; sseStreams only holds the open response streams needed for broadcast.
@@ -60,34 +212,131 @@ export class HttpClientTransport extends EventEmitter implements IClientTranspor
   private readonly host: string;
   private readonly serverNames: Set<string>;
   private readonly dashboardHooks: ClientTransportDashboardHooks | undefined;
+  private readonly agentAuth: AgentAuthHooks | undefined;
+  private readonly dashboardAuth: DashboardAuthHooks | undefined;
+  private readonly corsOrigins: string[] | undefined;
+  private readonly policyHeaders: string[];
   private readonly eventBus: EventBus | undefined;
   private readonly coreRepository: CoreRepository;
+  /** Dashboard user behind each authenticated /api/* request (e.g. to record who approved). */
+  private readonly dashboardPrincipals = new WeakMap<FastifyRequest, DashboardPrincipal>();
   /** Open SSE response streams; required to broadcast (res.write) and to call deleteAgent on close. */
   private readonly sseStreams = new Set<SseStreamHandle>();
   private readonly remoteReadyByServer = new Set<string>();
+  private readonly streamableSessions = new Map<string, StreamableSession>();
+  /** Keyed by session + JSON-RPC id; FIFO when a session reuses an id. */
+  private readonly streamableWaiters = new Map<string, StreamableWaiter[]>();
+  private readonly sessionIdleTimeoutMs: number;
+  private sessionSweepTimer: ReturnType<typeof setInterval> | null = null;
 
   constructor(options: {
     port: number;
     host?: string;
     serverNames: string[];
     dashboardHooks?: ClientTransportDashboardHooks;
+    /** API key checks for agents; without it every agent connects anonymously. */
+    agentAuth?: AgentAuthHooks;
+    /** Login and role checks for /api/*; without it the dashboard API is open. */
+    dashboardAuth?: DashboardAuthHooks;
+    /** Browser origins allowed by CORS; any origin when omitted. */
+    corsOrigins?: string[];
+    /** Request headers passed to policies (see GuardioClientConfig.policyHeaders). */
+    policyHeaders?: string[];
     /** Event bus; agent.discovered is emitted here so subscribers can attach before start. */
     eventBus?: EventBus;
     /** Core repository (mandatory; storage adapter provides it). Used to persist agents. */
     coreRepository: CoreRepository;
+    /** Close Streamable HTTP sessions idle for this long (see GuardioClientConfig.sessionIdleTimeoutMs). */
+    sessionIdleTimeoutMs?: number;
   }) {
     super();
     this.port = options.port;
     this.host = options.host ?? "127.0.0.1";
     this.serverNames = new Set(options.serverNames);
     this.dashboardHooks = options.dashboardHooks;
+    this.agentAuth = options.agentAuth;
+    this.dashboardAuth = options.dashboardAuth;
+    this.corsOrigins = options.corsOrigins;
+    this.policyHeaders = (options.policyHeaders ?? DEFAULT_POLICY_HEADERS)
+      .map((name) => name.toLowerCase())
+      .filter((name) => !PRIVATE_HEADERS.has(name));
     this.eventBus = options.eventBus;
     this.coreRepository = options.coreRepository;
+    this.sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
   }
 
-  setRemoteReady(serverName: string): void {
-    this.remoteReadyByServer.add(serverName);
-    this.broadcast(`event: endpoint\ndata: /${serverName}/messages\n\n`, serverName);
+  /**
+   * Without sessionId: the server's shared upstream is ready (dashboard status only).
+   * With sessionId: that SSE connection's own upstream is ready, so advertise its
+   * session-scoped POST endpoint.
+   */
+  setRemoteReady(serverName: string, sessionId?: string): void {
+    if (sessionId == null) {
+      this.remoteReadyByServer.add(serverName);
+      return;
+    }
+    const data = `event: endpoint\ndata: /${serverName}/messages?sessionId=${encodeURIComponent(sessionId)}\n\n`;
+    for (const handle of this.sseStreams) {
+      if (handle.kind !== "sse" || handle.id !== sessionId) continue;
+      if (!handle.res.writableEnded) handle.res.write(data);
+    }
+  }
+
+  /** Write to the open streams of one client session. */
+  private writeToSession(data: string, sessionId: string): void {
+    for (const handle of this.sseStreams) {
+      if (handle.id !== sessionId) continue;
+      if (!handle.res.writableEnded) handle.res.write(data);
+    }
+  }
+
+  private emitSession(event: "sessionOpen" | "sessionClose", sessionId: string, serverName: string): void {
+    const payload: ClientSessionPayload = { sessionId, serverName };
+    this.emit(event, payload);
+  }
+
+  /**
+   * Agent proven by the request's API key: null for anonymous requests (no key and keys
+   * not required); an error when the key is invalid, or missing while keys are required.
+   */
+  private async authenticateAgent(
+    authorization: string | undefined,
+  ): Promise<{ agent: Agent | null } | { error: string }> {
+    if (!this.agentAuth) return { agent: null };
+    const key = bearerToken(authorization);
+    if (key == null) {
+      return this.agentAuth.required ? { error: "Missing API key" } : { agent: null };
+    }
+    const agent = await this.agentAuth.authenticate(key);
+    return agent ? { agent } : { error: "Invalid API key" };
+  }
+
+  /**
+   * Requests within a session must carry the identity the session was opened with:
+   * the same agent's key for authenticated sessions, no key for anonymous ones.
+   */
+  private async checkSessionAgent(
+    authorization: string | undefined,
+    session: { agentId: string; authenticated: boolean },
+  ): Promise<{ agent: Agent | null } | { status: 401 | 403; error: string }> {
+    const result = await this.authenticateAgent(authorization);
+    if ("error" in result) return { status: 401, error: result.error };
+    const expected = session.authenticated ? session.agentId : null;
+    if ((result.agent?.id ?? null) !== expected) {
+      return { status: 403, error: "API key does not match the session's agent" };
+    }
+    return result;
+  }
+
+  /** Whether another open session still connects the agent to the server. */
+  private isAgentConnected(agentId: string, serverName: string): boolean {
+    for (const handle of this.sseStreams) {
+      if (handle.kind === "sse" && handle.agentId === agentId && handle.serverName === serverName) return true;
+    }
+    for (const session of this.streamableSessions.values()) {
+      if (session.agentId === agentId && session.serverName === serverName) return true;
+    }
+    return false;
   }
 
   private broadcast(data: string, serverName?: string): void {
@@ -103,7 +352,10 @@ export class HttpClientTransport extends EventEmitter implements IClientTranspor
 
   async getActiveClientsInfo(): Promise<DashboardActiveClientInfo[]> {
     const agents = await this.coreRepository.listAgents();
-    const liveKeys = new Set([...this.sseStreams].map((h) => `${h.id}\t${h.serverName}`));
+    const liveKeys = new Set([
+      ...[...this.sseStreams].map((h) => `${h.agentId}\t${h.serverName}`),
+      ...[...this.streamableSessions.values()].map((s) => `${s.agentId}\t${s.serverName}`),
+    ]);
     const filtered = agents.filter((a) => liveKeys.has(`${a.id}\t${a.serverName ?? ""}`));
     if (agents.length !== filtered.length) {
       logger.debug(
@@ -127,9 +379,18 @@ export class HttpClientTransport extends EventEmitter implements IClientTranspor
     const app = Fastify({ logger: false });
 
     await app.register(fastifyCors, {
-      origin: true,
+      origin: this.corsOrigins ?? true,
       methods: ["GET", "PUT", "POST", "PATCH", "DELETE", "OPTIONS"],
-      allowedHeaders: ["Content-Type", "Accept", "x-agent-name", "X-Guardio-Mode"],
+      allowedHeaders: [
+        "Content-Type",
+        "Accept",
+        "x-agent-name",
+        "Authorization",
+        "X-Guardio-Mode",
+        "Mcp-Session-Id",
+        "MCP-Protocol-Version",
+      ],
+      exposedHeaders: ["Mcp-Session-Id"],
     });
 
     app.addContentTypeParser(
@@ -138,10 +399,83 @@ export class HttpClientTransport extends EventEmitter implements IClientTranspor
       (_req, body, done) => done(null, body as string)
     );
 
+    app.addHook("onRequest", async (request, reply) => {
+      const role = requiredDashboardRole(request.method, request.routeOptions.url);
+      if (role == null || !this.dashboardAuth) return;
+      const token = bearerToken(request.headers.authorization);
+      const principal = token != null ? this.dashboardAuth.authenticate(token) : null;
+      if (!principal) {
+        return reply
+          .status(401)
+          .header("WWW-Authenticate", "Bearer")
+          .send({ error: "Authentication required" });
+      }
+      if (DASHBOARD_ROLE_RANK[principal.role] < DASHBOARD_ROLE_RANK[role]) {
+        logger.warn(
+          { username: principal.username, role: principal.role, required: role, url: request.url },
+          "Dashboard API request denied",
+        );
+        return reply.status(403).send({ error: `Requires ${role} role` });
+      }
+      this.dashboardPrincipals.set(request, principal);
+    });
+
     app.get(HEALTH_PATH, async (_request, reply) => {
       return reply.status(200).send({ status: "ok" });
     });
 
+    app.post(`${API_AUTH_PATH}/login`, async (request, reply) => {
+      const auth = this.dashboardAuth;
+      if (!auth) {
+        return reply.status(404).send({ error: "Dashboard authentication not configured" });
+      }
+      let body = request.body as unknown;
+      if (typeof body === "string") {
+        try {
+          body = JSON.parse(body) as unknown;
+        } catch {
+          return reply.status(400).send({ error: "Invalid JSON body" });
+        }
+      }
+      const { username, password } = (body ?? {}) as { username?: unknown; password?: unknown };
+      if (typeof username !== "string" || typeof password !== "string") {
+        return reply.status(400).send({ error: "Body must include username and password (strings)" });
+      }
+      try {
+        const result = await auth.login(username, password);
+        if (!result) {
+          return reply.status(401).send({ error: "Invalid username or password" });
+        }
+        return reply.status(200).type("application/json").send(result);
+      } catch (err) {
+        logger.error({ err }, "POST /api/auth/login failed");
+        return reply.status(500).send({ error: "Internal server error" });
+      }
+    });
+
+    app.post(`${API_AUTH_PATH}/logout`, async (request, reply) => {
+      const token = bearerToken(request.headers.authorization);
+      if (token != null) this.dashboardAuth?.logout(token);
+      return reply.status(204).send();
+    });
+
+    app.get(`${API_AUTH_PATH}/me`, async (request, reply) => {
+      if (!this.dashboardAuth) {
+        const status: DashboardAuthStatus = { authEnabled: false, user: null };
+        return reply.status(200).send(status);
+      }
+      const token = bearerToken(request.headers.authorization);
+      const user = token != null ? this.dashboardAuth.authenticate(token) : null;
+      if (!user) {
+        return reply
+          .status(401)
+          .header("WWW-Authenticate", "Bearer")
+          .send({ error: "Authentication required" });
+      }
+      const status: DashboardAuthStatus = { authEnabled: true, user };
+      return reply.status(200).send(status);
+    });
+
     app.get(API_CONNECTION_PATH, async (_request, reply) => {
       const handler = this.dashboardHooks?.handleConnectionRequest;
       if (!handler) {
@@ -176,6 +510,32 @@ export class HttpClientTransport extends EventEmitter implements IClientTranspor
       }
     });
 
+    app.post(API_POLICY_EXPRESSION_PATH, async (request, reply) => {
+      const handler = this.dashboardHooks?.handleValidatePolicyExpression;
+      if (!handler) {
+        return reply.status(404).send({ error: "Validate expression not configured" });
+      }
+      let body = request.body as unknown;
+      if (typeof body === "string") {
+        try {
+          body = JSON.parse(body) as unknown;
+        } catch {
+          return reply.status(400).send({ error: "Invalid JSON body" });
+        }
+      }
+      const expression = (body as { expression?: unknown } | null)?.expression;
+      if (typeof expression !== "string") {
+        return reply.status(400).send({ error: "Body must include expression (string)" });
+      }
+      try {
+        const data = await handler(expression);
+        return reply.status(200).type("application/json").send(data);
+      } catch (err) {
+        logger.error({ err }, "POST /api/policies/validate-expression failed");
+        return reply.status(500).send({ error: "Internal server error" });
+      }
+    });
+
     app.get(API_POLICY_INSTANCES_PATH, async (_request, reply) => {
       const handler = this.dashboardHooks?.handleListPolicyInstances;
       if (!handler) {
@@ -193,13 +553,22 @@ export class HttpClientTransport extends EventEmitter implements IClientTranspor
       }
     });
 
-    app.get(API_EVENTS_PATH, async (request, reply) => {
+    app.get<{ Querystring: { decision?: string } }>(API_EVENTS_PATH, async (request, reply) => {
       const handler = this.dashboardHooks?.handleListEvents;
       if (!handler) {
         return reply.status(404).send({ error: "List events not configured" });
       }
+      const decisionParam = request.query?.decision?.trim().toUpperCase();
+      if (decisionParam && !EVENT_DECISIONS.has(decisionParam)) {
+        return reply.status(400).send({
+          error: `decision must be one of: ${[...EVENT_DECISIONS].join(", ")}`,
+        });
+      }
+      const query: DashboardEventsQuery = decisionParam
+        ? { decision: decisionParam as DashboardEventsQuery["decision"] }
+        : {};
       try {
-        const data = await handler();
+        const data = await handler(query);
         if (data == null) {
           return reply.status(503).send({ error: "Events not available" });
         }
@@ -289,7 +658,8 @@ export class HttpClientTransport extends EventEmitter implements IClientTranspor
       if (body == null || typeof body !== "object" || typeof (body as CreatePolicyInstanceBody).pluginName !== "string") {
         return reply.status(400).send({ error: "Body must include pluginName (string)" });
       }
-      const { pluginName, config, name, agentId, toolName } = body as CreatePolicyInstanceBody;
+      const { pluginName, config, name, agentId, toolName, priority, failureMode, timeoutMs } =
+        body as CreatePolicyInstanceBody;
       try {
         const result: CreatePolicyInstanceResult = await handler({
           pluginName,
@@ -297,6 +667,9 @@ export class HttpClientTransport extends EventEmitter implements IClientTranspor
           name,
           agentId,
           toolName,
+          priority,
+          failureMode,
+          timeoutMs,
         });
         if ("error" in result) {
           return reply.status(400).type("application/json").send(result);
@@ -349,13 +722,17 @@ export class HttpClientTransport extends EventEmitter implements IClientTranspor
       if (body == null || typeof body !== "object" || !("config" in (body as object))) {
         return reply.status(400).send({ error: "Body must include config" });
       }
-      const { config, name, agentId, toolName } = body as UpdatePolicyInstanceBody;
+      const { config, name, agentId, toolName, priority, failureMode, timeoutMs } =
+        body as UpdatePolicyInstanceBody;
       try {
         const result: UpdatePolicyInstanceResult = await handler(id, {
           config: config ?? {},
           name,
           agentId,
           toolName,
+          priority,
+          failureMode,
+          timeoutMs,
         });
         if (result?.error) {
           return reply.status(400).type("application/json").send({ error: result.error });
@@ -385,73 +762,376 @@ export class HttpClientTransport extends EventEmitter implements IClientTranspor
       }
     });
 
+    app.get<{ Querystring: { status?: string } }>(API_APPROVALS_PATH, async (request, reply) => {
+      const handler = this.dashboardHooks?.handleListApprovals;
+      if (!handler) {
+        return reply.status(404).send({ error: "List approvals not configured" });
+      }
+      const statusParam = request.query?.status?.trim().toLowerCase();
+      if (statusParam && !APPROVAL_STATUSES.has(statusParam)) {
+        return reply.status(400).send({
+          error: `status must be one of: ${[...APPROVAL_STATUSES].join(", ")}`,
+        });
+      }
+      const query: DashboardApprovalsQuery = statusParam
+        ? { status: statusParam as DashboardApprovalsQuery["status"] }
+        : {};
+      try {
+        const data = await handler(query);
+        if (data == null) {
+          return reply.status(503).send({ error: "Approvals not available" });
+        }
+        return reply.status(200).type("application/json").send(data);
+      } catch (err) {
+        logger.error({ err }, "GET /api/approvals failed");
+        return reply.status(500).send({ error: "Internal server error" });
+      }
+    });
+
+    app.get<{ Params: { id: string } }>(`${API_APPROVALS_PATH}/:id`, async (request, reply) => {
+      const handler = this.dashboardHooks?.handleGetApproval;
+      if (!handler) {
+        return reply.status(404).send({ error: "Get approval not configured" });
+      }
+      const id = request.params?.id;
+      if (!id) {
+        return reply.status(400).send({ error: "Missing approval id" });
+      }
+      try {
+        const approval = await handler(id);
+        if (approval == null) {
+          return reply.status(404).send({ error: "Approval not found" });
+        }
+        return reply.status(200).type("application/json").send(approval);
+      } catch (err) {
+        logger.error({ err, approvalId: id }, "GET /api/approvals/:id failed");
+        return reply.status(500).send({ error: "Internal server error" });
+      }
+    });
+
+    for (const action of ["approve", "reject"] as const) {
+      app.post<{ Params: { id: string } }>(`${API_APPROVALS_PATH}/:id/${action}`, async (request, reply) => {
+        const handler =
+          action === "approve"
+            ? this.dashboardHooks?.handleApproveApproval
+            : this.dashboardHooks?.handleRejectApproval;
+        if (!handler) {
+          return reply.status(404).send({ error: `${action} approval not configured` });
+        }
+        const id = request.params?.id;
+        if (!id) {
+          return reply.status(400).send({ error: "Missing approval id" });
+        }
+        let body = (request.body ?? {}) as unknown;
+        if (typeof body === "string") {
+          try {
+            body = body.trim() === "" ? {} : (JSON.parse(body) as unknown);
+          } catch {
+            return reply.status(400).send({ error: "Invalid JSON body" });
+          }
+        }
+        const note = (body as ResolveApprovalBody | null)?.note;
+        if (note != null && typeof note !== "string") {
+          return reply.status(400).send({ error: "note must be a string" });
+        }
+        try {
+          const result = await handler(id, { note });
+          if ("error" in result) {
+            return reply
+              .status(resolveApprovalErrorStatus(result.kind))
+              .send({ error: result.error });
+          }
+          return reply.status(200).type("application/json").send(result.approval);
+        } catch (err) {
+          logger.error({ err, approvalId: id }, `POST /api/approvals/:id/${action} failed`);
+          return reply.status(500).send({ error: "Internal server error" });
+        }
+      });
+    }
+
+    app.post(API_AGENTS_PATH, async (request, reply) => {
+      const handler = this.dashboardHooks?.handleCreateAgent;
+      if (!handler) {
+        return reply.status(404).send({ error: "Create agent not configured" });
+      }
+      let body = request.body as unknown;
+      if (typeof body === "string") {
+        try {
+          body = JSON.parse(body) as unknown;
+        } catch {
+          return reply.status(400).send({ error: "Invalid JSON body" });
+        }
+      }
+      if (body == null || typeof body !== "object" || typeof (body as CreateAgentBody).name !== "string") {
+        return reply.status(400).send({ error: "Body must include name (string)" });
+      }
+      try {
+        const result = await handler({ name: (body as CreateAgentBody).name });
+        if ("error" in result) {
+          return reply.status(result.kind === "invalid" ? 400 : 503).send({ error: result.error });
+        }
+        return reply.status(201).type("application/json").send(result.agent);
+      } catch (err) {
+        logger.error({ err }, "POST /api/agents failed");
+        return reply.status(500).send({ error: "Internal server error" });
+      }
+    });
+
+    app.get(API_AGENT_KEYS_PATH, async (_request, reply) => {
+      const handler = this.dashboardHooks?.handleListAgentApiKeys;
+      if (!handler) {
+        return reply.status(404).send({ error: "List agent API keys not configured" });
+      }
+      try {
+        const data = await handler();
+        if (data == null) {
+          return reply.status(503).send({ error: "Agent API keys not available" });
+        }
+        return reply.status(200).type("application/json").send(data);
+      } catch (err) {
+        logger.error({ err }, "GET /api/agent-keys failed");
+        return reply.status(500).send({ error: "Internal server error" });
+      }
+    });
+
+    app.get<{ Params: { id: string } }>(`${API_AGENTS_PATH}/:id/keys`, async (request, reply) => {
+      const handler = this.dashboardHooks?.handleListAgentApiKeysForAgent;
+      if (!handler) {
+        return reply.status(404).send({ error: "List agent API keys not configured" });
+      }
+      const agentId = request.params?.id;
+      if (!agentId) {
+        return reply.status(400).send({ error: "Missing agent id" });
+      }
+      try {
+        const data = await handler(agentId);
+        if (data == null) {
+          return reply.status(503).send({ error: "Agent API keys not available" });
+        }
+        return reply.status(200).type("application/json").send(data);
+      } catch (err) {
+        logger.error({ err, agentId }, "GET /api/agents/:id/keys failed");
+        return reply.status(500).send({ error: "Internal server error" });
+      }
+    });
+
+    app.post<{ Params: { id: string } }>(`${API_AGENTS_PATH}/:id/keys`, async (request, reply) => {
+      const handler = this.dashboardHooks?.handleCreateAgentApiKey;
+      if (!handler) {
+        return reply.status(404).send({ error: "Create agent API key not configured" });
+      }
+      const agentId = request.params?.id;
+      if (!agentId) {
+        return reply.status(400).send({ error: "Missing agent id" });
+      }
+      let body = (request.body ?? {}) as unknown;
+      if (typeof body === "string") {
+        try {
+          body = body.trim() === "" ? {} : (JSON.parse(body) as unknown);
+        } catch {
+          return reply.status(400).send({ error: "Invalid JSON body" });
+        }
+      }
+      const name = (body as CreateAgentApiKeyBody | null)?.name;
+      if (name != null && typeof name !== "string") {
+        return reply.status(400).send({ error: "name must be a string" });
+      }
+      try {
+        const result = await handler(agentId, { name });
+        if ("error" in result) {
+          return reply.status(agentApiKeyErrorStatus(result.kind)).send({ error: result.error });
+        }
+        return reply.status(201).type("application/json").send(result);
+      } catch (err) {
+        logger.error({ err, agentId }, "POST /api/agents/:id/keys failed");
+        return reply.status(500).send({ error: "Internal server error" });
+      }
+    });
+
+    app.delete<{ Params: { id: string; keyId: string } }>(
+      `${API_AGENTS_PATH}/:id/keys/:keyId`,
+      async (request, reply) => {
+        const handler = this.dashboardHooks?.handleRevokeAgentApiKey;
+        if (!handler) {
+          return reply.status(404).send({ error: "Revoke agent API key not configured" });
+        }
+        const { id: agentId, keyId } = request.params ?? {};
+        if (!agentId || !keyId) {
+          return reply.status(400).send({ error: "Missing agent or key id" });
+        }
+        try {
+          const result = await handler(agentId, keyId);
+          if ("error" in result) {
+            return reply.status(agentApiKeyErrorStatus(result.kind)).send({ error: result.error });
+          }
+          return reply.status(200).type("application/json").send(result.apiKey);
+        } catch (err) {
+          logger.error({ err, agentId, keyId }, "DELETE /api/agents/:id/keys/:keyId failed");
+          return reply.status(500).send({ error: "Internal server error" });
+        }
+      },
+    );
+
+    app.get<{ Params: { serverName: string; toolName: string } }>(
+      `${API_SERVERS_PATH}/:serverName/tools/:toolName/versions`,
+      async (request, reply) => {
+        const handler = this.dashboardHooks?.handleListToolVersions;
+        if (!handler) {
+          return reply.status(404).send({ error: "Tool versions not configured" });
+        }
+        const { serverName, toolName } = request.params ?? {};
+        if (!serverName || !toolName) {
+          return reply.status(400).send({ error: "Missing server or tool name" });
+        }
+        try {
+          const data = await handler(serverName, toolName);
+          if (data == null) {
+            return reply.status(503).send({ error: "Tool versions not available" });
+          }
+          return reply.status(200).type("application/json").send(data);
+        } catch (err) {
+          logger.error(
+            { err, serverName, toolName },
+            "GET /api/servers/:serverName/tools/:toolName/versions failed",
+          );
+          return reply.status(500).send({ error: "Internal server error" });
+        }
+      },
+    );
+
+    app.post<{ Params: { serverName: string; toolName: string } }>(
+      `${API_SERVERS_PATH}/:serverName/tools/:toolName/approve`,
+      async (request, reply) => {
+        const handler = this.dashboardHooks?.handleApproveToolVersion;
+        if (!handler) {
+          return reply.status(404).send({ error: "Approve tool version not configured" });
+        }
+        const { serverName, toolName } = request.params ?? {};
+        if (!serverName || !toolName) {
+          return reply.status(400).send({ error: "Missing server or tool name" });
+        }
+        const approvedBy = this.dashboardPrincipals.get(request)?.username ?? null;
+        try {
+          const result = await handler(serverName, toolName, approvedBy);
+          if ("error" in result) {
+            return reply
+              .status(result.kind === "not_found" ? 404 : 503)
+              .send({ error: result.error });
+          }
+          return reply.status(200).type("application/json").send(result.version);
+        } catch (err) {
+          logger.error(
+            { err, serverName, toolName },
+            "POST /api/servers/:serverName/tools/:toolName/approve failed",
+          );
+          return reply.status(500).send({ error: "Internal server error" });
+        }
+      },
+    );
+
     app.get<{ Params: { mcpId: string } }>("/:mcpId/sse", async (request, reply) => {
       const mcpId = request.params?.mcpId;
       if (!mcpId || !this.serverNames.has(mcpId)) {
         return reply.status(404).send({ error: "Unknown server" });
       }
+      const auth = await this.authenticateAgent(request.headers.authorization);
+      if ("error" in auth) {
+        return reply.status(401).header("WWW-Authenticate", "Bearer").send({ error: auth.error });
+      }
       reply.hijack();
       const res = reply.raw;
       const headerName = (request.headers["x-agent-name"] as string | undefined)?.trim();
-      const nameGenerated = !headerName;
-      const name =
-        headerName ||
-        uniqueNamesGenerator({
-          dictionaries: [adjectives, colors, animals],
-          length: 2,
-          separator: "-",
-        });
+      const nameGenerated = !auth.agent && !headerName;
+      const name = auth.agent?.name || headerName || generateAgentName();
       const id = uuidv4();
-      const handle: SseStreamHandle = { id, serverName: mcpId, res };
+      const agentId = auth.agent?.id ?? id;
+      const handle: SseStreamHandle = {
+        id,
+        agentId,
+        authenticated: auth.agent != null,
+        serverName: mcpId,
+        res,
+        kind: "sse",
+      };
       res.writeHead(200, {
         "Content-Type": "text/event-stream",
         "Cache-Control": "no-cache",
         Connection: "keep-alive",
       });
-      logger.debug({ id, name, nameGenerated, serverName: mcpId }, "SSE client connected");
-      const payload: AgentDiscoveredPayload = { id, name };
+      logger.debug(
+        { id, agentId, name, nameGenerated, authenticated: handle.authenticated, serverName: mcpId },
+        "SSE client connected",
+      );
+      const payload: AgentDiscoveredPayload = { id: agentId, name };
       this.coreRepository
-        .saveAgent({ id, name, serverName: mcpId, nameGenerated })
+        .saveAgent({ id: agentId, name, serverName: mcpId, nameGenerated })
         .catch((err) => {
-          logger.warn({ err, id, name }, "Failed to persist agent on connect");
+          logger.warn({ err, id: agentId, name }, "Failed to persist agent on connect");
         });
       if (this.eventBus) {
         this.eventBus.emit(BusTopic.AGENT_DISCOVERED, payload);
       }
       this.sseStreams.add(handle);
       logger.debug({ sseStreams: this.sseStreams.size }, "SSE client connected");
-      if (this.remoteReadyByServer.has(mcpId)) {
-        res.write(`event: endpoint\ndata: /${mcpId}/messages\n\n`);
-      }
+      // The endpoint event follows once this session's own upstream is ready (setRemoteReady).
+      this.emitSession("sessionOpen", id, mcpId);
       request.raw.on("close", () => {
         this.sseStreams.delete(handle);
-        this.coreRepository.deleteConnection(handle.id, handle.serverName).catch((err) => {
-          logger.warn({ err, id: handle.id, serverName: handle.serverName }, "Failed to delete connection on disconnect");
-        });
+        this.emitSession("sessionClose", handle.id, handle.serverName);
+        if (!this.isAgentConnected(handle.agentId, handle.serverName)) {
+          this.coreRepository.deleteConnection(handle.agentId, handle.serverName).catch((err) => {
+            logger.warn({ err, id: handle.agentId, serverName: handle.serverName }, "Failed to delete connection on disconnect");
+          });
+        }
         logger.debug({ id: handle.id, serverName: handle.serverName, sseStreams: this.sseStreams.size }, "SSE client disconnected");
       });
     });
 
-    app.post<{ Params: { mcpId: string } }>("/:mcpId/messages", async (request, reply) => {
+    app.post<{ Params: { mcpId: string }; Querystring: { sessionId?: string } }>("/:mcpId/messages", async (request, reply) => {
       const mcpId = request.params?.mcpId;
       if (!mcpId || !this.serverNames.has(mcpId)) {
         return reply.status(404).send({ error: "Unknown server" });
       }
+      const sessionId = request.query?.sessionId?.trim();
+      if (!sessionId) {
+        return reply.status(400).send({ error: "Missing sessionId; POST to the endpoint advertised on the SSE stream" });
+      }
+      const session = [...this.sseStreams].find(
+        (h) => h.kind === "sse" && h.id === sessionId && h.serverName === mcpId,
+      );
+      if (!session) {
+        return reply.status(404).send({ error: "Unknown session" });
+      }
+      const auth = await this.checkSessionAgent(request.headers.authorization, session);
+      if ("error" in auth) {
+        if (auth.status === 401) reply.header("WWW-Authenticate", "Bearer");
+        return reply.status(auth.status).send({ error: auth.error });
+      }
       const body = typeof request.body === "string" ? request.body : "";
-      const agentNameSnapshot = (request.headers["x-agent-name"] as string | undefined)?.trim() ?? null;
       const guardioModeHeader = (request.headers["x-guardio-mode"] as string | undefined)?.trim() ?? null;
+      let agentNameSnapshot: string | null = null;
       let agentId: string | null = null;
-      if (agentNameSnapshot) {
-        const agent = await this.coreRepository.getAgentByName(agentNameSnapshot, mcpId);
-        if (agent) agentId = agent.id;
+      if (auth.agent) {
+        agentNameSnapshot = auth.agent.name;
+        agentId = auth.agent.id;
+      } else {
+        agentNameSnapshot = (request.headers["x-agent-name"] as string | undefined)?.trim() || null;
+        if (agentNameSnapshot) {
+          const agent = await this.coreRepository.getAgentByName(agentNameSnapshot, mcpId);
+          // A name alone cannot claim an agent that authenticates with API keys.
+          if (agent && !(await this.agentAuth?.hasActiveKeys(agent.id))) agentId = agent.id;
+        }
       }
       let replied = false;
       const payload: PostRequestPayload = {
         body,
         serverName: mcpId,
+        sessionId,
         agentNameSnapshot: agentNameSnapshot ?? null,
         agentId: agentId ?? null,
         guardioMode: guardioModeHeader,
+        headers: selectHeaders(request.headers, this.policyHeaders),
+        traceId: traceIdFrom(request.headers.traceparent),
         reply: (status: number, responseBody: string) => {
           if (replied) return;
           replied = true;
@@ -472,6 +1152,177 @@ export class HttpClientTransport extends EventEmitter implements IClientTranspor
       await replyPromise;
     });
 
+    app.post<{ Params: { mcpId: string } }>("/:mcpId/mcp", async (request, reply) => {
+      const mcpId = request.params?.mcpId;
+      if (!mcpId || !this.serverNames.has(mcpId)) {
+        return reply.status(404).send({ error: "Unknown server" });
+      }
+      const body = typeof request.body === "string" ? request.body : "";
+      let message: { id?: string | number | null; method?: string };
+      try {
+        message = JSON.parse(body) as typeof message;
+      } catch {
+        return reply.status(400).send(jsonRpcError(null, -32700, "Parse error"));
+      }
+      if (Array.isArray(message) || message == null || typeof message !== "object") {
+        return reply
+          .status(400)
+          .send(jsonRpcError(null, -32600, "Batch requests are not supported"));
+      }
+
+      const sessionHeader = (request.headers[MCP_SESSION_ID_HEADER] as string | undefined)?.trim();
+      let session: StreamableSession | undefined;
+      if (message.method === "initialize" && !sessionHeader) {
+        const auth = await this.authenticateAgent(request.headers.authorization);
+        if ("error" in auth) {
+          return reply
+            .status(401)
+            .header("WWW-Authenticate", "Bearer")
+            .send(jsonRpcError(message.id ?? null, -32001, auth.error));
+        }
+        const headerName = (request.headers["x-agent-name"] as string | undefined)?.trim();
+        const nameGenerated = !auth.agent && !headerName;
+        const id = uuidv4();
+        session = {
+          id,
+          agentId: auth.agent?.id ?? id,
+          authenticated: auth.agent != null,
+          name: auth.agent?.name || headerName || generateAgentName(),
+          serverName: mcpId,
+          lastActiveAt: Date.now(),
+        };
+        this.streamableSessions.set(session.id, session);
+        this.emitSession("sessionOpen", session.id, mcpId);
+        this.coreRepository
+          .saveAgent({ id: session.agentId, name: session.name, serverName: mcpId, nameGenerated })
+          .catch((err) => {
+            logger.warn({ err, id: session!.agentId }, "Failed to persist agent on initialize");
+          });
+        const payload: AgentDiscoveredPayload = { id: session.agentId, name: session.name };
+        this.eventBus?.emit(BusTopic.AGENT_DISCOVERED, payload);
+        logger.debug(
+          { id: session.id, agentId: session.agentId, name: session.name, serverName: mcpId },
+          "Streamable HTTP session created",
+        );
+      } else {
+        if (!sessionHeader) {
+          return reply
+            .status(400)
+            .send(jsonRpcError(message.id ?? null, -32000, "Missing Mcp-Session-Id header"));
+        }
+        session = this.streamableSessions.get(sessionHeader);
+        if (!session || session.serverName !== mcpId) {
+          return reply
+            .status(404)
+            .send(jsonRpcError(message.id ?? null, -32001, "Session not found"));
+        }
+        const auth = await this.checkSessionAgent(request.headers.authorization, session);
+        if ("error" in auth) {
+          if (auth.status === 401) reply.header("WWW-Authenticate", "Bearer");
+          return reply.status(auth.status).send(jsonRpcError(message.id ?? null, -32001, auth.error));
+        }
+      }
+      session.lastActiveAt = Date.now();
+      reply.header("Mcp-Session-Id", session.id);
+
+      const guardioMode = (request.headers["x-guardio-mode"] as string | undefined)?.trim() ?? null;
+      const requestId = message.method != null ? (message.id ?? null) : null;
+      const waiter = requestId != null ? this.waitForStreamableResponse(session.id, requestId) : null;
+      const result = await this.requestCore({
+        body,
+        serverName: mcpId,
+        sessionId: session.id,
+        agentId: session.agentId,
+        agentNameSnapshot: session.name,
+        guardioMode,
+        headers: selectHeaders(request.headers, this.policyHeaders),
+        traceId: traceIdFrom(request.headers.traceparent),
+      });
+
+      // Notifications and client responses: nothing to answer.
+      if (requestId == null) {
+        if (result.status >= 400) {
+          return reply.status(result.status).type("text/plain").send(result.body);
+        }
+        return reply.status(202).send();
+      }
+
+      const answersRequest = (text: string): boolean => {
+        try {
+          const parsed = JSON.parse(text) as { id?: unknown; method?: string };
+          return parsed.method == null && parsed.id === requestId;
+        } catch {
+          return false;
+        }
+      };
+      if (result.status >= 200 && result.status < 300 && answersRequest(result.body)) {
+        waiter!.cancel();
+        return reply.status(200).type("application/json").send(result.body);
+      }
+      if (result.status >= 400) {
+        waiter!.cancel();
+        return reply
+          .status(result.status)
+          .send(jsonRpcError(requestId, -32603, result.body || "Upstream error"));
+      }
+      const answer = await waiter!.promise;
+      if (answer == null) {
+        return reply
+          .status(504)
+          .send(jsonRpcError(requestId, -32603, "Timed out waiting for the upstream response"));
+      }
+      return reply.status(200).type("application/json").send(answer);
+    });
+
+    app.get<{ Params: { mcpId: string } }>("/:mcpId/mcp", async (request, reply) => {
+      const session = this.streamableSessionFor(request.params?.mcpId, request.headers[MCP_SESSION_ID_HEADER]);
+      if (!session) {
+        return reply.status(404).send(jsonRpcError(null, -32001, "Session not found"));
+      }
+      const auth = await this.checkSessionAgent(request.headers.authorization, session);
+      if ("error" in auth) {
+        if (auth.status === 401) reply.header("WWW-Authenticate", "Bearer");
+        return reply.status(auth.status).send(jsonRpcError(null, -32001, auth.error));
+      }
+      reply.hijack();
+      const res = reply.raw;
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "Mcp-Session-Id": session.id,
+      });
+      const handle: SseStreamHandle = {
+        id: session.id,
+        agentId: session.agentId,
+        authenticated: session.authenticated,
+        serverName: session.serverName,
+        res,
+        kind: "streamable",
+      };
+      this.sseStreams.add(handle);
+      request.raw.on("close", () => {
+        this.sseStreams.delete(handle);
+        session.lastActiveAt = Date.now();
+        logger.debug({ id: session.id, serverName: session.serverName }, "Streamable HTTP stream closed");
+      });
+    });
+
+    app.delete<{ Params: { mcpId: string } }>("/:mcpId/mcp", async (request, reply) => {
+      const session = this.streamableSessionFor(request.params?.mcpId, request.headers[MCP_SESSION_ID_HEADER]);
+      if (!session) {
+        return reply.status(404).send(jsonRpcError(null, -32001, "Session not found"));
+      }
+      const auth = await this.checkSessionAgent(request.headers.authorization, session);
+      if ("error" in auth) {
+        if (auth.status === 401) reply.header("WWW-Authenticate", "Bearer");
+        return reply.status(auth.status).send(jsonRpcError(null, -32001, auth.error));
+      }
+      this.endStreamableSession(session);
+      logger.debug({ id: session.id, serverName: session.serverName }, "Streamable HTTP session ended");
+      return reply.status(204).send();
+    });
+
     this.fastify = app;
     await new Promise<void>((resolve, reject) => {
       app.listen({ port: this.port, host: this.host }, (err) => {
@@ -484,6 +1335,7 @@ export class HttpClientTransport extends EventEmitter implements IClientTranspor
           {
             url: `http://${this.host}:${this.port}`,
             ssePathPattern: "/:mcpId/sse",
+            streamablePathPattern: "/:mcpId/mcp",
             serverNames: [...this.serverNames],
             healthPath: HEALTH_PATH,
           },
@@ -492,14 +1344,165 @@ export class HttpClientTransport extends EventEmitter implements IClientTranspor
         resolve();
       });
     });
+    if (this.sessionIdleTimeoutMs > 0) {
+      this.sessionSweepTimer = setInterval(
+        () => this.closeIdleSessions(),
+        Math.min(this.sessionIdleTimeoutMs, MAX_SESSION_SWEEP_INTERVAL_MS),
+      );
+      this.sessionSweepTimer.unref();
+    }
+  }
+
+  /**
+   * Forget a Streamable HTTP session and end its streams. sessionClose lets the core close
+   * the session's own upstream (a child process for command servers).
+   */
+  private endStreamableSession(session: StreamableSession): void {
+    this.streamableSessions.delete(session.id);
+    this.emitSession("sessionClose", session.id, session.serverName);
+    for (const handle of this.sseStreams) {
+      if (handle.kind === "streamable" && handle.id === session.id) {
+        this.sseStreams.delete(handle);
+        handle.res.end();
+      }
+    }
+    if (!this.isAgentConnected(session.agentId, session.serverName)) {
+      this.coreRepository.deleteConnection(session.agentId, session.serverName).catch((err) => {
+        logger.warn({ err, id: session.agentId }, "Failed to delete connection on session end");
+      });
+    }
   }
 
-  send(message: string, serverName?: string): void {
+  /**
+   * Close Streamable HTTP sessions the client abandoned without DELETE. A session with an open
+   * GET stream or a request still waiting for its answer is in use, however long ago it started.
+   */
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.sessionIdleTimeoutMs;
+    for (const session of this.streamableSessions.values()) {
+      if (session.lastActiveAt > cutoff || this.isStreamableSessionInUse(session.id)) continue;
+      logger.info(
+        { id: session.id, agentId: session.agentId, serverName: session.serverName },
+        "Closing idle Streamable HTTP session",
+      );
+      this.endStreamableSession(session);
+    }
+  }
+
+  private isStreamableSessionInUse(sessionId: string): boolean {
+    for (const handle of this.sseStreams) {
+      if (handle.kind === "streamable" && handle.id === sessionId) return true;
+    }
+    // Same prefix as streamableWaiterKey.
+    const waiterPrefix = `${sessionId}\u0000`;
+    for (const key of this.streamableWaiters.keys()) {
+      if (key.startsWith(waiterPrefix)) return true;
+    }
+    return false;
+  }
+
+  send(message: string, serverName?: string, sessionId?: string | null): void {
+    if (sessionId != null) {
+      const session = this.streamableSessions.get(sessionId);
+      if (session) session.lastActiveAt = Date.now();
+      if (this.resolveStreamableWaiter(message, sessionId)) return;
+      this.writeToSession(`data: ${message}\n\n`, sessionId);
+      return;
+    }
     this.broadcast(`data: ${message}\n\n`, serverName);
   }
 
+  private streamableSessionFor(
+    mcpId: string | undefined,
+    header: string | string[] | undefined,
+  ): StreamableSession | null {
+    const sessionId = typeof header === "string" ? header.trim() : undefined;
+    if (!mcpId || !sessionId) return null;
+    const session = this.streamableSessions.get(sessionId);
+    return session && session.serverName === mcpId ? session : null;
+  }
+
+  /** Run a message through the core pipeline (postRequest) and resolve with its reply. */
+  private requestCore(
+    input: Omit<PostRequestPayload, "reply">,
+  ): Promise<{ status: number; body: string }> {
+    if (this.listenerCount("postRequest") === 0) {
+      logger.warn("POST /:mcpId/mcp: no postRequest listener (core not wired)");
+      return Promise.resolve({ status: 503, body: "Remote MCP not ready" });
+    }
+    return new Promise((resolve) => {
+      let replied = false;
+      const payload: PostRequestPayload = {
+        ...input,
+        reply: (status, body) => {
+          if (replied) return;
+          replied = true;
+          resolve({ status, body });
+        },
+      };
+      this.emit("postRequest", payload);
+    });
+  }
+
+  /** Register interest in the response to a Streamable HTTP request before dispatching it. */
+  private waitForStreamableResponse(
+    sessionId: string,
+    id: string | number,
+  ): { promise: Promise<string | null>; cancel: () => void } {
+    const key = streamableWaiterKey(sessionId, id);
+    let waiter!: StreamableWaiter;
+    const remove = (): void => {
+      const list = this.streamableWaiters.get(key);
+      const idx = list?.indexOf(waiter) ?? -1;
+      if (idx >= 0) list!.splice(idx, 1);
+      if (list?.length === 0) this.streamableWaiters.delete(key);
+    };
+    const promise = new Promise<string | null>((resolve) => {
+      waiter = {
+        resolve,
+        timer: setTimeout(() => {
+          remove();
+          resolve(null);
+        }, STREAMABLE_RESPONSE_TIMEOUT_MS),
+      };
+    });
+    const list = this.streamableWaiters.get(key) ?? [];
+    list.push(waiter);
+    this.streamableWaiters.set(key, list);
+    return {
+      promise,
+      cancel: () => {
+        clearTimeout(waiter.timer);
+        remove();
+      },
+    };
+  }
+
+  /** Hand a response to the session's Streamable HTTP request waiting for its id; true when consumed. */
+  private resolveStreamableWaiter(message: string, sessionId: string): boolean {
+    if (this.streamableWaiters.size === 0) return false;
+    let parsed: { id?: string | number | null; method?: string };
+    try {
+      parsed = JSON.parse(message) as typeof parsed;
+    } catch {
+      return false;
+    }
+    if (parsed.method != null || parsed.id == null) return false;
+    const key = streamableWaiterKey(sessionId, parsed.id);
+    const waiter = this.streamableWaiters.get(key)?.shift();
+    if (!waiter) return false;
+    if (this.streamableWaiters.get(key)?.length === 0) this.streamableWaiters.delete(key);
+    clearTimeout(waiter.timer);
+    waiter.resolve(message);
+    return true;
+  }
+
   /** Close the HTTP server. Idempotent. */
   async close(): Promise<void> {
+    if (this.sessionSweepTimer) {
+      clearInterval(this.sessionSweepTimer);
+      this.sessionSweepTimer = null;
+    }
     if (this.fastify) {
       await this.fastify.close();
       this.fastify = null;
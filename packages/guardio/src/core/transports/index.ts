@@ -4,9 +4,12 @@ export type {
   IClientTransport,
   PostRequestPayload,
   AgentDiscoveredPayload,
+  ClientSessionPayload,
   EventBus,
   BusTopicName,
   ClientTransportDashboardHooks,
+  AgentAuthHooks,
+  DashboardAuthHooks,
   ClientTransport,
   McpTransport,
 } from "./types.js";
@@ -17,10 +20,16 @@ export type {
   DashboardPoliciesInfo,
 } from "./dashboard-api-types.js";
 export { HttpClientTransport } from "./http-client.js";
+export { StdioClientTransport } from "./stdio-client.js";
 export {
   createClientTransport,
   type CreateClientTransportOptions,
 } from "./create-client-transport.js";
+export {
+  UpstreamHttpClient,
+  UpstreamTimeoutError,
+  type UpstreamRequestInit,
+} from "./upstream-http-client.js";
 export {
   createServerTransport,
   registerServerTransport,
@@ -1,6 +1,11 @@
 import { EventSource } from "eventsource";
 import type { GuardioServerConfigUrl } from "../../config/types.js";
 import type { DashboardMcpToolInfo } from "./dashboard-api-types.js";
+import {
+  MCP_SESSION_ID_HEADER,
+  readJsonRpcMessages,
+} from "./streamable-http-transport.js";
+import { UpstreamHttpClient } from "./upstream-http-client.js";
 import { logger } from "../../logger.js";
 
 const DEFAULT_DISCOVERY_TIMEOUT_MS = 15_000;
@@ -74,13 +79,11 @@ export async function fetchToolsListViaDiscovery(
   timeoutMs: number = DEFAULT_DISCOVERY_TIMEOUT_MS,
 ): Promise<DashboardMcpToolInfo[] | null> {
   const url = sseUrl(config);
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-    ...config.headers,
-  };
+  const http = new UpstreamHttpClient(config);
+  const headers = { "Content-Type": "application/json" };
 
   return new Promise((resolve) => {
-    const es = new EventSource(url);
+    const es = new EventSource(url, { fetch: http.eventSourceFetch });
     let settled = false;
     const finish = (result: DashboardMcpToolInfo[] | null) => {
       if (settled) return;
@@ -108,7 +111,7 @@ export async function fetchToolsListViaDiscovery(
               clientInfo: { name: "Guardio-Discovery", version: "1.0.0" },
             },
           });
-          const initRes = await fetch(postUrl, { method: "POST", headers, body: initBody });
+          const initRes = await http.request(postUrl, { method: "POST", headers, body: initBody });
           const initText = await initRes.text();
 
           if (initRes.status === 202) {
@@ -138,7 +141,12 @@ export async function fetchToolsListViaDiscovery(
             jsonrpc: "2.0",
             method: "notifications/initialized",
           });
-          await fetch(postUrl, { method: "POST", headers, body: initializedBody });
+          const initializedRes = await http.request(postUrl, {
+            method: "POST",
+            headers,
+            body: initializedBody,
+          });
+          await initializedRes.body?.cancel();
 
           // 3. Tools/list
           const toolsListBody = JSON.stringify({
@@ -147,7 +155,7 @@ export async function fetchToolsListViaDiscovery(
             method: "tools/list",
             params: {},
           });
-          const toolsRes = await fetch(postUrl, { method: "POST", headers, body: toolsListBody });
+          const toolsRes = await http.request(postUrl, { method: "POST", headers, body: toolsListBody });
           const toolsText = await toolsRes.text();
 
           if (toolsRes.status === 202) {
@@ -188,3 +196,85 @@ export async function fetchToolsListViaDiscovery(
     };
   });
 }
+
+/**
+ * Run initialize → initialized → tools/list against a Streamable HTTP endpoint in its own
+ * MCP session, then end that session. Returns null on timeout, HTTP error, or if the server
+ * does not return a tools list.
+ */
+export async function fetchToolsListViaStreamableHttp(
+  config: GuardioServerConfigUrl,
+  timeoutMs: number = DEFAULT_DISCOVERY_TIMEOUT_MS,
+): Promise<DashboardMcpToolInfo[] | null> {
+  const url = config.url.trim();
+  const http = new UpstreamHttpClient(config);
+  const controller = new AbortController();
+  const overallTimeout = setTimeout(() => controller.abort(), timeoutMs);
+  let sessionId: string | null = null;
+
+  const post = async (message: object, id?: number): Promise<string | null> => {
+    const res = await http.request(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...(sessionId && { [MCP_SESSION_ID_HEADER]: sessionId }),
+      },
+      body: JSON.stringify(message),
+      signal: controller.signal,
+    });
+    sessionId = res.headers.get(MCP_SESSION_ID_HEADER) ?? sessionId;
+    if (!res.ok) return null;
+    if (id == null) {
+      await res.body?.cancel();
+      return null;
+    }
+    for await (const data of readJsonRpcMessages(res)) {
+      try {
+        if ((JSON.parse(data) as { id?: unknown }).id === id) return data;
+      } catch {
+        // skip non-JSON events
+      }
+    }
+    return null;
+  };
+
+  try {
+    const init = await post(
+      {
+        jsonrpc: "2.0",
+        id: INITIALIZE_ID,
+        method: "initialize",
+        params: {
+          protocolVersion: "2025-03-26",
+          capabilities: { roots: { listChanged: true }, sampling: {} },
+          clientInfo: { name: "Guardio-Discovery", version: "1.0.0" },
+        },
+      },
+      INITIALIZE_ID,
+    );
+    if (init == null) return null;
+    await post({ jsonrpc: "2.0", method: "notifications/initialized" });
+    const toolsResponse = await post(
+      { jsonrpc: "2.0", id: TOOLS_LIST_ID, method: "tools/list", params: {} },
+      TOOLS_LIST_ID,
+    );
+    const tools = toolsResponse ? parseToolsFromJsonRpc(toolsResponse) : null;
+    return tools ? normalizeTools(tools) : null;
+  } catch (err) {
+    logger.debug({ err, url }, "MCP tools discovery failed");
+    return null;
+  } finally {
+    clearTimeout(overallTimeout);
+    if (sessionId) {
+      http
+        .request(url, {
+          method: "DELETE",
+          headers: { [MCP_SESSION_ID_HEADER]: sessionId },
+          retry: false,
+        })
+        .then((res) => res.body?.cancel())
+        .catch(() => {});
+    }
+  }
+}
@@ -2,10 +2,10 @@ import { EventEmitter } from "node:events";
 import { EventSource } from "eventsource";
 import type { IServerTransport } from "./types.js";
 import type { GuardioServerConfigUrl } from "../../config/types.js";
+import { UpstreamHttpClient } from "./upstream-http-client.js";
 import { logger } from "../../logger.js";
 
 const RETRY_MS = 3000;
-const DEFAULT_TIMEOUT_MS = 30_000;
 
 /**
  * SSE URL: if config.url already ends with /sse, use it; else append /sse.
@@ -22,13 +22,17 @@ function sseUrl(config: GuardioServerConfigUrl): string {
  */
 export class SseUrlTransport extends EventEmitter implements IServerTransport {
   private readonly config: GuardioServerConfigUrl;
+  private readonly http: UpstreamHttpClient;
   private remotePostUrl: string | null = null;
   private remoteEs: EventSource | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
   private readonly url: string;
 
   constructor(config: GuardioServerConfigUrl) {
     super();
     this.config = config;
+    this.http = new UpstreamHttpClient(config);
     this.url = sseUrl(config);
   }
 
@@ -37,18 +41,36 @@ export class SseUrlTransport extends EventEmitter implements IServerTransport {
     return this.config.url.trim();
   }
 
+  getHttpClient(): UpstreamHttpClient {
+    return this.http;
+  }
+
   /** Used by GuardioCore when handling POST /messages to forward to remote. */
   getRemotePostUrl(): string | null {
     return this.remotePostUrl;
   }
 
   async start(): Promise<void> {
+    this.closed = false;
     this.connectToRemote();
   }
 
+  /** Close the SSE connection and stop reconnecting. Idempotent. */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.remoteEs?.close();
+    this.remoteEs = null;
+    this.remotePostUrl = null;
+  }
+
   private connectToRemote(): void {
+    if (this.closed) return;
     logger.info({ url: this.url }, "Connecting to remote MCP");
-    this.remoteEs = new EventSource(this.url);
+    this.remoteEs = new EventSource(this.url, { fetch: this.http.eventSourceFetch });
 
     this.remoteEs.addEventListener("endpoint", (event: MessageEvent) => {
       const data =
@@ -65,8 +87,12 @@ export class SseUrlTransport extends EventEmitter implements IServerTransport {
     };
 
     this.remoteEs.onerror = () => {
+      if (this.closed) return;
       logger.warn({ retryMs: RETRY_MS }, "Remote connection lost, retrying");
-      setTimeout(() => this.connectToRemote(), RETRY_MS);
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        this.connectToRemote();
+      }, RETRY_MS);
     };
   }
 
@@ -87,27 +113,17 @@ export class SseUrlTransport extends EventEmitter implements IServerTransport {
       );
       return;
     }
-    const timeoutMs = this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-      ...this.config.headers,
-    };
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
     try {
-      const res = await fetch(endpoint, {
+      const res = await this.http.request(endpoint, {
         method: "POST",
-        headers,
+        headers: { "Content-Type": "application/json" },
         body: line,
-        signal: controller.signal,
       });
-      clearTimeout(timeoutId);
       const text = await res.text();
       if (res.ok && text) {
         this.emit("message", text);
       }
     } catch (err) {
-      clearTimeout(timeoutId);
       const message = err instanceof Error ? err.message : String(err);
       logger.warn({ err, message }, "Transport send failed");
       this.emit(
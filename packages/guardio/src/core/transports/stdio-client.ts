@@ -0,0 +1,231 @@
+import { EventEmitter } from "node:events";
+import { createInterface, type Interface } from "node:readline";
+import type { Readable, Writable } from "node:stream";
+import { v4 as uuidv4 } from "uuid";
+import {
+  uniqueNamesGenerator,
+  adjectives,
+  animals,
+  colors,
+} from "unique-names-generator";
+import type { CoreRepository } from "../../interfaces/CoreRepository.js";
+import type {
+  IClientTransport,
+  EventBus,
+  AgentDiscoveredPayload,
+  ClientSessionPayload,
+  PostRequestPayload,
+} from "./types.js";
+import { BusTopic } from "./types.js";
+import type { DashboardActiveClientInfo } from "./dashboard-api-types.js";
+import type { JsonRpcResponse } from "../types.js";
+import { logger } from "../../logger.js";
+
+type JsonRpcId = string | number;
+
+function idKey(id: JsonRpcId): string {
+  return `${typeof id}:${id}`;
+}
+
+/** Request id of a JSON-RPC request line; null for notifications, responses and invalid JSON. */
+function requestIdOf(line: string): JsonRpcId | null {
+  try {
+    const msg = JSON.parse(line) as { id?: JsonRpcId | null; method?: string };
+    return msg.method != null && msg.id != null ? msg.id : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Response id of a JSON-RPC response body; null for anything else. */
+function responseIdOf(body: string): JsonRpcId | null {
+  try {
+    const msg = JSON.parse(body) as JsonRpcResponse & { method?: string };
+    return msg.method == null && msg.id != null ? msg.id : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stdio client transport: the agent launches Guardio as a subprocess and exchanges
+ * newline-delimited JSON-RPC over stdin/stdout. Serves exactly one upstream server.
+ * Each stdin line is emitted as 'postRequest' so it goes through the same pipeline as
+ * HTTP POST /:mcpId/messages; lines read before the upstream endpoint is ready are queued.
+ *
+ * Responses can reach the agent twice (core's send() and the postRequest reply), so
+ * only the first response per open request id is written to stdout. The agent is a single
+ * client session (id = agent id), opened on start; 'sessionClose' and 'close' are emitted
+ * when stdin ends.
+ */
+export class StdioClientTransport extends EventEmitter implements IClientTransport {
+  private readonly serverName: string;
+  private readonly input: Readable;
+  private readonly output: Writable;
+  private readonly eventBus: EventBus | undefined;
+  private readonly coreRepository: CoreRepository;
+  private readonly agentId = uuidv4();
+  private readonly agentName: string;
+  private readonly nameGenerated: boolean;
+  /** Request ids the agent is still waiting on. */
+  private readonly openRequests = new Set<string>();
+  private readonly queued: string[] = [];
+  private remoteReady = false;
+  private rl: Interface | null = null;
+
+  constructor(options: {
+    serverName: string;
+    /** Name recorded for the agent; a generated one is used when omitted. */
+    agentName?: string;
+    input?: Readable;
+    output?: Writable;
+    eventBus?: EventBus;
+    /** Core repository (mandatory; storage adapter provides it). Used to persist the agent. */
+    coreRepository: CoreRepository;
+  }) {
+    super();
+    this.serverName = options.serverName;
+    this.input = options.input ?? process.stdin;
+    this.output = options.output ?? process.stdout;
+    this.eventBus = options.eventBus;
+    this.coreRepository = options.coreRepository;
+    const name = options.agentName?.trim();
+    this.nameGenerated = !name;
+    this.agentName =
+      name ||
+      uniqueNamesGenerator({
+        dictionaries: [adjectives, colors, animals],
+        length: 2,
+        separator: "-",
+      });
+  }
+
+  async start(): Promise<void> {
+    try {
+      await this.coreRepository.saveAgent({
+        id: this.agentId,
+        name: this.agentName,
+        serverName: this.serverName,
+        nameGenerated: this.nameGenerated,
+      });
+    } catch (err) {
+      logger.warn({ err, id: this.agentId, name: this.agentName }, "Failed to persist stdio agent");
+    }
+    const payload: AgentDiscoveredPayload = { id: this.agentId, name: this.agentName };
+    this.eventBus?.emit(BusTopic.AGENT_DISCOVERED, payload);
+    const session: ClientSessionPayload = { sessionId: this.agentId, serverName: this.serverName };
+    this.emit("sessionOpen", session);
+
+    const rl = createInterface({ input: this.input, crlfDelay: Infinity });
+    rl.on("line", (line) => this.onLine(line));
+    rl.on("close", () => {
+      this.rl = null;
+      this.coreRepository.deleteConnection(this.agentId, this.serverName).catch((err) => {
+        logger.warn({ err, id: this.agentId }, "Failed to delete stdio connection");
+      });
+      logger.info({ serverName: this.serverName }, "stdin closed");
+      this.emit("sessionClose", session);
+      this.emit("close");
+    });
+    this.rl = rl;
+    logger.info(
+      { serverName: this.serverName, agentName: this.agentName },
+      "Stdio client transport ready",
+    );
+  }
+
+  /** Flush queued lines once the agent's upstream (or the shared one) is ready. */
+  setRemoteReady(serverName: string, _sessionId?: string): void {
+    if (serverName !== this.serverName || this.remoteReady) return;
+    this.remoteReady = true;
+    const lines = this.queued.splice(0);
+    for (const line of lines) this.dispatch(line);
+  }
+
+  getRemoteReady(): boolean {
+    return this.remoteReady;
+  }
+
+  getActiveSseClients(): number {
+    return 0;
+  }
+
+  getActiveClientsInfo(): DashboardActiveClientInfo[] {
+    return [
+      {
+        id: this.agentId,
+        name: this.agentName,
+        nameGenerated: this.nameGenerated,
+        serverName: this.serverName,
+      },
+    ];
+  }
+
+  send(message: string, serverName?: string, sessionId?: string | null): void {
+    if (serverName != null && serverName !== this.serverName) return;
+    if (sessionId != null && sessionId !== this.agentId) return;
+    const id = responseIdOf(message);
+    if (id != null) this.openRequests.delete(idKey(id));
+    this.write(message);
+  }
+
+  /** Stop reading stdin. Idempotent. */
+  async close(): Promise<void> {
+    this.rl?.close();
+    this.rl = null;
+  }
+
+  private onLine(line: string): void {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    const id = requestIdOf(trimmed);
+    if (id != null) this.openRequests.add(idKey(id));
+    if (this.remoteReady) this.dispatch(trimmed);
+    else this.queued.push(trimmed);
+  }
+
+  private dispatch(line: string): void {
+    const requestId = requestIdOf(line);
+    const payload: PostRequestPayload = {
+      body: line,
+      serverName: this.serverName,
+      sessionId: this.agentId,
+      agentId: this.agentId,
+      agentNameSnapshot: this.agentName,
+      guardioMode: null,
+      reply: (status, body) => this.onReply(requestId, status, body),
+    };
+    if (this.listenerCount("postRequest") === 0) {
+      logger.warn("stdio: no postRequest listener (core not wired)");
+      this.onReply(requestId, 503, "Remote MCP not ready");
+      return;
+    }
+    this.emit("postRequest", payload);
+  }
+
+  /**
+   * Write a reply only if its request is still open; 2xx bodies that are not JSON-RPC
+   * responses (e.g. "Accepted") mean the answer arrives later via send().
+   */
+  private onReply(requestId: JsonRpcId | null, status: number, body: string): void {
+    if (requestId == null || !this.openRequests.has(idKey(requestId))) return;
+    if (status >= 200 && status < 300) {
+      if (responseIdOf(body) == null) return;
+      this.openRequests.delete(idKey(requestId));
+      this.write(body);
+      return;
+    }
+    this.openRequests.delete(idKey(requestId));
+    this.write(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        id: requestId,
+        error: { code: -32603, message: body || `Upstream returned ${status}` },
+      }),
+    );
+  }
+
+  private write(message: string): void {
+    this.output.write(`${message.replace(/\r?\n/g, "")}\n`);
+  }
+}
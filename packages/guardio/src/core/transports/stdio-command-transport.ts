@@ -0,0 +1,374 @@
+import { EventEmitter } from "node:events";
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { createInterface } from "node:readline";
+import type { IServerTransport } from "./types.js";
+import type {
+  DashboardServerProcessInfo,
+  DashboardServerProcessStatus,
+} from "./dashboard-api-types.js";
+import type { GuardioServerConfigCommand } from "../../config/types.js";
+import { logger } from "../../logger.js";
+
+const INITIAL_RESTART_DELAY_MS = 1000;
+const MAX_RESTART_DELAY_MS = 30_000;
+/** A process that stayed up this long is considered healthy again; backoff starts over. */
+const STABLE_RUN_MS = 30_000;
+/** Grace period between SIGTERM and SIGKILL on close. */
+const KILL_TIMEOUT_MS = 5000;
+/** How long a restarted process may take to answer the replayed initialize. */
+const REINITIALIZE_TIMEOUT_MS = 10_000;
+/** How long the process may take to answer a tools/list sent for discovery. */
+const TOOLS_LIST_TIMEOUT_MS = 15_000;
+
+type JsonRpcId = string | number;
+
+interface ToolsListRequest {
+  timeoutMs: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  resolve: (tools: unknown[] | null) => void;
+}
+
+function idKey(id: JsonRpcId): string {
+  return `${typeof id}:${id}`;
+}
+
+/** Command line shown in logs and the dashboard. */
+export function commandLine(config: GuardioServerConfigCommand): string {
+  return [config.command, ...(config.args ?? [])].join(" ");
+}
+
+/** Spawn a command server with stdio pipes. */
+export function spawnCommandServer(
+  config: GuardioServerConfigCommand,
+): ChildProcessWithoutNullStreams {
+  return spawn(config.command, config.args ?? [], {
+    cwd: config.cwd,
+    env: { ...process.env, ...config.env },
+    stdio: ["pipe", "pipe", "pipe"],
+  });
+}
+
+/**
+ * Server transport for a local MCP server spawned as a child process. Requests are written
+ * to its stdin and every stdout line is emitted as 'message'. Emits 'endpointReady' each
+ * time the process (re)starts. When the process exits it is restarted with exponential
+ * backoff, and requests still waiting for an answer get a JSON-RPC error. A restarted process
+ * is sent the client's initialize handshake again (under its own id, answer not relayed)
+ * before it takes traffic, so the client's session keeps working. Tools discovery lists tools
+ * over the client's session on the running process (under its own id, answer not relayed).
+ */
+export class StdioCommandTransport extends EventEmitter implements IServerTransport {
+  private readonly config: GuardioServerConfigCommand;
+  private child: ChildProcessWithoutNullStreams | null = null;
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  /** Consecutive exits without a stable run; drives the backoff delay. */
+  private failures = 0;
+  /** Requests written to the current process that have not been answered yet. */
+  private readonly inFlight = new Map<string, JsonRpcId>();
+  private status: DashboardServerProcessStatus = "stopped";
+  private startedAt: number | null = null;
+  private restarts = 0;
+  private lastExitCode: number | null = null;
+  private lastExitSignal: string | null = null;
+  private lastError: string | null = null;
+  private nextRestartAt: number | null = null;
+  /** The client's initialize request, replayed to every restarted process. */
+  private initializeRequest: Record<string, unknown> | null = null;
+  /** Whether the client sent notifications/initialized after initialize. */
+  private clientInitialized = false;
+  /** Id of the replayed initialize the current process has not answered yet. */
+  private reinitializeId: string | null = null;
+  private reinitializeTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Discovery tools/list requests by id; `timer` is set once written to the current process. */
+  private readonly toolsLists = new Map<string, ToolsListRequest>();
+  private toolsListSeq = 0;
+
+  constructor(config: GuardioServerConfigCommand) {
+    super();
+    this.config = config;
+  }
+
+  getRemoteUrl(): string {
+    return commandLine(this.config);
+  }
+
+  getRemotePostUrl(): string | null {
+    return null;
+  }
+
+  isReady(): boolean {
+    return this.status === "running";
+  }
+
+  getProcessInfo(): DashboardServerProcessInfo {
+    return {
+      status: this.status,
+      pid: this.child?.pid ?? null,
+      restarts: this.restarts,
+      startedAt: this.startedAt != null ? new Date(this.startedAt).toISOString() : null,
+      lastExitCode: this.lastExitCode,
+      lastExitSignal: this.lastExitSignal,
+      lastError: this.lastError,
+      nextRestartAt:
+        this.nextRestartAt != null ? new Date(this.nextRestartAt).toISOString() : null,
+    };
+  }
+
+  async start(): Promise<void> {
+    this.closed = false;
+    this.spawnProcess();
+  }
+
+  async send(line: string): Promise<void> {
+    let id: JsonRpcId | null = null;
+    let initialized = false;
+    try {
+      const msg = JSON.parse(line) as { id?: JsonRpcId | null; method?: string };
+      if (msg.method != null && msg.id != null) id = msg.id;
+      if (msg.method === "initialize") {
+        this.initializeRequest = msg;
+        this.clientInitialized = false;
+      } else if (msg.method === "notifications/initialized") {
+        this.clientInitialized = true;
+        initialized = true;
+      }
+    } catch {
+      // forward as-is
+    }
+    const child = this.child;
+    if (!child || this.status !== "running") {
+      logger.debug({ server: this.config.name }, "Send called while MCP process is not running");
+      this.emitError(id, "MCP server process is not running");
+      return;
+    }
+    if (id != null) this.inFlight.set(idKey(id), id);
+    child.stdin.write(`${line}\n`);
+    if (initialized) this.sendToolsLists(child);
+  }
+
+  /**
+   * Ask the running process for its tools over the client's session. The request waits until
+   * the client has finished its initialize handshake, since the process serves one session.
+   * Resolves null when the process exits or the transport closes first, or the process does
+   * not answer in time.
+   */
+  listTools(timeoutMs: number = TOOLS_LIST_TIMEOUT_MS): Promise<unknown[] | null> {
+    const id = `guardio-tools-list-${++this.toolsListSeq}`;
+    const done = new Promise<unknown[] | null>((resolve) => {
+      this.toolsLists.set(id, { timeoutMs, timer: null, resolve });
+    });
+    if (this.child && this.status === "running" && this.clientInitialized) {
+      this.sendToolsLists(this.child);
+    }
+    return done;
+  }
+
+  /** Stop the process and cancel any pending restart. Idempotent. */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+    this.nextRestartAt = null;
+    this.dropToolsLists();
+    const child = this.child;
+    if (!child) {
+      this.status = "stopped";
+      return;
+    }
+    await new Promise<void>((resolve) => {
+      const killTimer = setTimeout(() => child.kill("SIGKILL"), KILL_TIMEOUT_MS);
+      killTimer.unref?.();
+      child.once("exit", () => {
+        clearTimeout(killTimer);
+        resolve();
+      });
+      child.stdin.end();
+      child.kill("SIGTERM");
+    });
+  }
+
+  private spawnProcess(): void {
+    this.status = "starting";
+    this.nextRestartAt = null;
+    logger.info(
+      { server: this.config.name, command: commandLine(this.config) },
+      "Starting MCP server process",
+    );
+    const child = spawnCommandServer(this.config);
+    this.child = child;
+
+    child.once("spawn", () => {
+      if (this.child !== child) return;
+      this.startedAt = Date.now();
+      if (this.initializeRequest) this.reinitialize(child, this.initializeRequest);
+      else this.markRunning(child);
+    });
+    child.once("error", (err) => {
+      this.lastError = err.message;
+      logger.error({ err, server: this.config.name }, "MCP server process error");
+      this.handleExit(child, null, null);
+    });
+    child.once("exit", (code, signal) => this.handleExit(child, code, signal));
+    // EPIPE when the process dies mid-write; the exit handler takes care of the rest.
+    child.stdin.on("error", (err) => {
+      logger.debug({ err, server: this.config.name }, "MCP server stdin error");
+    });
+
+    createInterface({ input: child.stdout, crlfDelay: Infinity }).on("line", (line) => {
+      const trimmed = line.trim();
+      if (!trimmed) return;
+      try {
+        const msg = JSON.parse(trimmed) as { id?: JsonRpcId | null; method?: string; error?: unknown };
+        if (msg.method == null && msg.id != null && msg.id === this.reinitializeId) {
+          this.handleReinitialized(child, msg.error);
+          return;
+        }
+        if (msg.method == null && typeof msg.id === "string" && this.toolsLists.has(msg.id)) {
+          const tools = (msg as { result?: { tools?: unknown } }).result?.tools;
+          this.settleToolsList(msg.id, Array.isArray(tools) ? tools : null);
+          return;
+        }
+        if (msg.method == null && msg.id != null) this.inFlight.delete(idKey(msg.id));
+      } catch {
+        logger.debug({ server: this.config.name, line: trimmed }, "Non-JSON line on MCP server stdout");
+        return;
+      }
+      this.emit("message", trimmed);
+    });
+    createInterface({ input: child.stderr, crlfDelay: Infinity }).on("line", (line) => {
+      logger.debug({ server: this.config.name, line }, "MCP server stderr");
+    });
+  }
+
+  private markRunning(child: ChildProcessWithoutNullStreams): void {
+    this.status = "running";
+    this.lastError = null;
+    logger.info({ server: this.config.name, pid: child.pid }, "MCP server process running");
+    this.emit("endpointReady");
+  }
+
+  /** Write the discovery tools/list requests that are still waiting for a ready session. */
+  private sendToolsLists(child: ChildProcessWithoutNullStreams): void {
+    for (const [id, request] of this.toolsLists) {
+      if (request.timer) continue;
+      request.timer = setTimeout(() => this.settleToolsList(id, null), request.timeoutMs);
+      child.stdin.write(`${JSON.stringify({ jsonrpc: "2.0", id, method: "tools/list", params: {} })}\n`);
+    }
+  }
+
+  private settleToolsList(id: string, tools: unknown[] | null): void {
+    const request = this.toolsLists.get(id);
+    if (!request) return;
+    this.toolsLists.delete(id);
+    if (request.timer) clearTimeout(request.timer);
+    request.resolve(tools);
+  }
+
+  /** The process is gone; discovery asks the next one when it emits 'endpointReady'. */
+  private dropToolsLists(): void {
+    for (const id of [...this.toolsLists.keys()]) this.settleToolsList(id, null);
+  }
+
+  /** Send the client's initialize to a restarted process; it takes traffic once it answers. */
+  private reinitialize(
+    child: ChildProcessWithoutNullStreams,
+    request: Record<string, unknown>,
+  ): void {
+    const id = `guardio-reinitialize-${this.restarts}`;
+    this.reinitializeId = id;
+    this.reinitializeTimer = setTimeout(() => {
+      this.reinitializeTimer = null;
+      this.lastError = "MCP server did not answer initialize after restart";
+      logger.warn({ server: this.config.name }, this.lastError);
+      child.kill("SIGKILL");
+    }, REINITIALIZE_TIMEOUT_MS);
+    logger.info({ server: this.config.name, pid: child.pid }, "Replaying initialize to restarted MCP server process");
+    child.stdin.write(`${JSON.stringify({ ...request, id })}\n`);
+  }
+
+  private handleReinitialized(child: ChildProcessWithoutNullStreams, error: unknown): void {
+    this.clearReinitialize();
+    if (error != null) {
+      this.lastError = "MCP server rejected initialize after restart";
+      logger.warn({ server: this.config.name, error }, this.lastError);
+      child.kill("SIGKILL");
+      return;
+    }
+    if (this.clientInitialized) {
+      child.stdin.write(`${JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" })}\n`);
+    }
+    this.markRunning(child);
+  }
+
+  private clearReinitialize(): void {
+    if (this.reinitializeTimer) {
+      clearTimeout(this.reinitializeTimer);
+      this.reinitializeTimer = null;
+    }
+    this.reinitializeId = null;
+  }
+
+  private handleExit(
+    child: ChildProcessWithoutNullStreams,
+    code: number | null,
+    signal: NodeJS.Signals | null,
+  ): void {
+    if (this.child !== child) return;
+    this.child = null;
+    this.clearReinitialize();
+    this.lastExitCode = code;
+    this.lastExitSignal = signal;
+    this.failPending("MCP server process exited");
+    this.dropToolsLists();
+
+    if (this.closed) {
+      this.status = "stopped";
+      logger.info({ server: this.config.name, code, signal }, "MCP server process stopped");
+      return;
+    }
+
+    const uptime = this.status === "running" && this.startedAt != null
+      ? Date.now() - this.startedAt
+      : 0;
+    if (uptime >= STABLE_RUN_MS) this.failures = 0;
+    const delay = Math.min(
+      INITIAL_RESTART_DELAY_MS * 2 ** this.failures,
+      MAX_RESTART_DELAY_MS,
+    );
+    this.failures += 1;
+    this.restarts += 1;
+    this.status = "restarting";
+    this.nextRestartAt = Date.now() + delay;
+    logger.warn(
+      { server: this.config.name, code, signal, retryMs: delay },
+      "MCP server process exited, restarting",
+    );
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.spawnProcess();
+    }, delay);
+  }
+
+  /** Answer requests the exited process never replied to, so agents are not left waiting. */
+  private failPending(message: string): void {
+    const ids = [...this.inFlight.values()];
+    this.inFlight.clear();
+    for (const id of ids) this.emitError(id, message);
+  }
+
+  /** Only requests get an error; notifications have no id to answer. */
+  private emitError(id: JsonRpcId | null, message: string): void {
+    if (id == null) return;
+    this.emit(
+      "message",
+      JSON.stringify({
+        jsonrpc: "2.0",
+        id,
+        error: { code: -32603, message },
+      }),
+    );
+  }
+}
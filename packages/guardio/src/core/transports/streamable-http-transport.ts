@@ -0,0 +1,295 @@
+import { EventEmitter } from "node:events";
+import type { IServerTransport } from "./types.js";
+import type { GuardioServerConfigUrl } from "../../config/types.js";
+import { UpstreamHttpClient } from "./upstream-http-client.js";
+import { logger } from "../../logger.js";
+
+const RETRY_MS = 3000;
+export const MCP_SESSION_ID_HEADER = "mcp-session-id";
+const MCP_PROTOCOL_VERSION_HEADER = "mcp-protocol-version";
+
+type JsonRpcId = string | number;
+
+/**
+ * Yield the data payload of each event in an SSE body (multi-line data joined with "\n").
+ */
+export async function* readSseData(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let data: string[] = [];
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let match: RegExpExecArray | null;
+    while ((match = /\r?\n/.exec(buffer)) !== null) {
+      const line = buffer.slice(0, match.index);
+      buffer = buffer.slice(match.index + match[0].length);
+      if (line === "") {
+        if (data.length > 0) yield data.join("\n");
+        data = [];
+        continue;
+      }
+      if (line.startsWith(":")) continue;
+      const colon = line.indexOf(":");
+      const field = colon < 0 ? line : line.slice(0, colon);
+      let value = colon < 0 ? "" : line.slice(colon + 1);
+      if (value.startsWith(" ")) value = value.slice(1);
+      if (field === "data") data.push(value);
+    }
+  }
+  if (data.length > 0) yield data.join("\n");
+}
+
+/**
+ * Yield each JSON-RPC message in a Streamable HTTP response: a JSON body (single message or
+ * batch) or an SSE stream with one message per event.
+ */
+export async function* readJsonRpcMessages(res: Response): AsyncGenerator<string> {
+  const contentType = res.headers.get("content-type") ?? "";
+  if (contentType.includes("text/event-stream") && res.body) {
+    yield* readSseData(res.body);
+    return;
+  }
+  const text = (await res.text()).trim();
+  if (!text) return;
+  try {
+    const parsed = JSON.parse(text) as unknown;
+    if (Array.isArray(parsed)) {
+      for (const message of parsed) yield JSON.stringify(message);
+      return;
+    }
+  } catch {
+    // not JSON; pass through as-is
+  }
+  yield text;
+}
+
+/**
+ * Server transport for remote MCP over Streamable HTTP: every message is POSTed to the
+ * single MCP endpoint, answers come back as a JSON body or an SSE stream on that POST,
+ * and the Mcp-Session-Id issued on initialize is sent on later requests. Once the session
+ * is initialized, a GET stream is opened for server-initiated messages when the server
+ * offers one. Emits 'message' for every upstream message and 'endpointReady' on start.
+ */
+export class StreamableHttpTransport extends EventEmitter implements IServerTransport {
+  private readonly http: UpstreamHttpClient;
+  private readonly url: string;
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+  private ready = false;
+  private closed = false;
+  private getStreamController: AbortController | null = null;
+  /** Set when the server answers the GET stream with 405. */
+  private getStreamUnsupported = false;
+
+  constructor(config: GuardioServerConfigUrl) {
+    super();
+    this.http = new UpstreamHttpClient(config);
+    this.url = config.url.trim();
+  }
+
+  getRemoteUrl(): string {
+    return this.url;
+  }
+
+  /** Always null: requests go through send() so session headers and SSE replies are handled here. */
+  getRemotePostUrl(): string | null {
+    return null;
+  }
+
+  isReady(): boolean {
+    return this.ready && !this.closed;
+  }
+
+  /** Current upstream session (null before initialize or when the server is stateless). */
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  async start(): Promise<void> {
+    this.closed = false;
+    this.ready = true;
+    logger.info({ url: this.url }, "Using Streamable HTTP remote MCP");
+    this.emit("endpointReady");
+  }
+
+  async send(line: string): Promise<void> {
+    let id: JsonRpcId | null = null;
+    let method: string | undefined;
+    try {
+      const msg = JSON.parse(line) as { id?: JsonRpcId | null; method?: string };
+      method = msg.method;
+      if (method != null && msg.id != null) id = msg.id;
+    } catch {
+      // forward as-is
+    }
+    const isInitialize = method === "initialize";
+    if (isInitialize) {
+      this.sessionId = null;
+      this.protocolVersion = null;
+    }
+
+    let res: Response;
+    try {
+      res = await this.http.request(this.url, {
+        method: "POST",
+        headers: this.headers({
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+        }),
+        body: line,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.warn({ err, message }, "Transport send failed");
+      this.emitError(id, `Transport error: ${message}`);
+      return;
+    }
+
+    if (isInitialize) {
+      this.sessionId = res.headers.get(MCP_SESSION_ID_HEADER);
+    }
+    if (res.status === 404 && this.sessionId && !isInitialize) {
+      logger.warn({ url: this.url }, "Upstream MCP session expired");
+      this.sessionId = null;
+      this.emitError(id, "Upstream MCP session expired; initialize again");
+      return;
+    }
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      logger.warn({ url: this.url, status: res.status }, "Upstream rejected message");
+      this.emitError(id, `Upstream returned ${res.status}${text ? `: ${text}` : ""}`);
+      return;
+    }
+    if (method === "notifications/initialized") this.openGetStream();
+    if (res.status === 202) return;
+
+    // Don't hold the caller while a streamed (SSE) answer is still in progress.
+    void this.pump(res, isInitialize, id);
+  }
+
+  /** Terminate the upstream session (best effort) and stop the GET stream. Idempotent. */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.ready = false;
+    this.getStreamController?.abort();
+    this.getStreamController = null;
+    const sessionId = this.sessionId;
+    this.sessionId = null;
+    if (!sessionId) return;
+    try {
+      const res = await this.http.request(this.url, {
+        method: "DELETE",
+        headers: { [MCP_SESSION_ID_HEADER]: sessionId },
+        timeoutMs: RETRY_MS,
+        retry: false,
+      });
+      await res.body?.cancel();
+    } catch (err) {
+      logger.debug({ err, url: this.url }, "Upstream session DELETE failed");
+    }
+  }
+
+  private headers(base: Record<string, string>): Record<string, string> {
+    return {
+      ...base,
+      ...(this.sessionId && { [MCP_SESSION_ID_HEADER]: this.sessionId }),
+      ...(this.protocolVersion && {
+        [MCP_PROTOCOL_VERSION_HEADER]: this.protocolVersion,
+      }),
+    };
+  }
+
+  private async pump(
+    res: Response,
+    isInitialize: boolean,
+    id: JsonRpcId | null,
+  ): Promise<void> {
+    let answered = false;
+    try {
+      for await (const message of readJsonRpcMessages(res)) {
+        if (isInitialize) this.captureProtocolVersion(message);
+        if (id != null && this.answers(message, id)) answered = true;
+        this.emit("message", message);
+      }
+    } catch (err) {
+      logger.warn({ err, url: this.url }, "Upstream response stream failed");
+    }
+    if (id != null && !answered) {
+      this.emitError(id, "Upstream closed the response without answering");
+    }
+  }
+
+  private answers(message: string, id: JsonRpcId): boolean {
+    try {
+      const msg = JSON.parse(message) as { id?: JsonRpcId; method?: string };
+      return msg.method == null && msg.id === id;
+    } catch {
+      return false;
+    }
+  }
+
+  private captureProtocolVersion(message: string): void {
+    try {
+      const msg = JSON.parse(message) as { result?: { protocolVersion?: unknown } };
+      if (typeof msg.result?.protocolVersion === "string") {
+        this.protocolVersion = msg.result.protocolVersion;
+      }
+    } catch {
+      // ignore
+    }
+  }
+
+  /** Listen for server-initiated messages; reconnects until closed or the server answers 405. */
+  private openGetStream(): void {
+    if (this.closed || this.getStreamUnsupported || this.getStreamController) return;
+    const controller = new AbortController();
+    this.getStreamController = controller;
+    void (async (): Promise<void> => {
+      try {
+        const res = await this.http.request(this.url, {
+          method: "GET",
+          headers: this.headers({ Accept: "text/event-stream" }),
+          signal: controller.signal,
+          timeoutMs: null,
+          retry: false,
+        });
+        if (res.status === 405) {
+          this.getStreamUnsupported = true;
+          logger.debug({ url: this.url }, "Upstream offers no GET stream");
+          return;
+        }
+        if (!res.ok || !res.body) {
+          logger.warn({ url: this.url, status: res.status }, "Upstream GET stream rejected");
+        } else {
+          for await (const data of readSseData(res.body)) {
+            this.emit("message", data);
+          }
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        logger.debug({ err, url: this.url }, "Upstream GET stream failed");
+      } finally {
+        if (this.getStreamController === controller) this.getStreamController = null;
+      }
+      if (!this.closed && !this.getStreamUnsupported && this.sessionId) {
+        logger.warn({ retryMs: RETRY_MS }, "Upstream GET stream lost, retrying");
+        setTimeout(() => this.openGetStream(), RETRY_MS).unref?.();
+      }
+    })();
+  }
+
+  private emitError(id: JsonRpcId | null, message: string): void {
+    if (id == null) return;
+    this.emit(
+      "message",
+      JSON.stringify({
+        jsonrpc: "2.0",
+        id,
+        error: { code: -32603, message },
+      }),
+    );
+  }
+}
@@ -1,14 +1,31 @@
 import type { EventEmitter } from "node:events";
+import type { UpstreamHttpClient } from "./upstream-http-client.js";
 import type {
   DashboardConnectionInfo,
   DashboardPoliciesInfo,
+  DashboardExpressionValidation,
   DashboardPolicyInstance,
   DashboardPolicyInstancesInfo,
   DashboardEventsInfo,
+  DashboardEventsQuery,
   DashboardActiveClientInfo,
   DashboardSimulationSettings,
   UpdateSimulationSettingsBody,
+  DashboardApproval,
+  DashboardApprovalsInfo,
+  DashboardApprovalsQuery,
+  DashboardServerProcessInfo,
+  DashboardAgent,
+  DashboardAgentApiKey,
+  DashboardAgentApiKeysInfo,
+  DashboardIssuedAgentApiKey,
+  DashboardLoginResult,
+  DashboardPrincipal,
+  DashboardToolVersion,
+  DashboardToolVersionsInfo,
 } from "./dashboard-api-types.js";
+import type { Agent } from "../../interfaces/CoreRepository.js";
+import type { PolicyFailureMode } from "../../interfaces/PolicyTypes.js";
 
 /**
  * Payload for HTTP POST /messages: body, server name (mcp-id from path), and callback to send the HTTP response.
@@ -18,6 +35,11 @@ export interface PostRequestPayload {
   /** Server name from path segment (/:mcpId/messages). Used to route to the correct upstream transport. */
   serverName: string;
   reply: (status: number, body: string) => void;
+  /**
+   * Client session the message came from (SSE connection, Streamable HTTP session or stdio agent).
+   * Core forwards it over that session's own upstream connection and routes answers back only to it.
+   */
+  sessionId?: string | null;
   /** Agent name from x-agent-name header (same as discovered at SSE connect). When null, no agent name was sent. */
   agentNameSnapshot?: string | null;
   /** Resolved from DB by agent name (x-agent-name) + serverName; null if no header or agent not found. When null, only global and tool-scoped policy assignments apply. */
@@ -27,6 +49,10 @@ export interface PostRequestPayload {
    * When set to 'simulation', the core may short-circuit the upstream MCP call.
    */
   guardioMode?: string | null;
+  /** Request headers selected for policies (client.policyHeaders), with lower-case names. */
+  headers?: Record<string, string>;
+  /** Trace id from the W3C traceparent header; null when absent or malformed. */
+  traceId?: string | null;
 }
 
 /**
@@ -42,13 +68,31 @@ export interface ITransport extends EventEmitter {
  * Server transport (to remote MCP). Extends ITransport.
  * Emits: 'message' (line: string), 'endpointReady' ().
  * Must be started before send() is used. getRemotePostUrl() is available after 'endpointReady'.
+ * Transports without a POST endpoint (spawned processes) implement isReady(); core then
+ * forwards requests with send() and the answers arrive as 'message'.
  */
 export interface IServerTransport extends ITransport {
   send(line: string): Promise<void>;
-  /** Base/SSE URL of the remote MCP (from config). */
+  /** Base/SSE URL of the remote MCP (from config); the command line for spawned servers. */
   getRemoteUrl(): string;
-  /** URL for POST requests to remote MCP; null until endpoint event received. */
+  /** URL for POST requests to remote MCP; null until endpoint event received (always null for spawned servers). */
   getRemotePostUrl(): string | null;
+  /** Whether send() can deliver requests now. When absent, ready means getRemotePostUrl() is set. */
+  isReady?(): boolean;
+  /** Spawned process state, reported in GET /api/connection. */
+  getProcessInfo?(): DashboardServerProcessInfo;
+  /** Release the upstream connection or child process. Idempotent. */
+  close?(): Promise<void>;
+  /** Tools of the running upstream, listed over the client's session (spawned servers). */
+  listTools?(): Promise<unknown[] | null>;
+  /** HTTP client carrying the server's headers, timeout, retries, proxy and CA (HTTP upstreams). */
+  getHttpClient?(): UpstreamHttpClient;
+}
+
+/** Payload of the client transport's 'sessionOpen' and 'sessionClose' events. */
+export interface ClientSessionPayload {
+  sessionId: string;
+  serverName: string;
 }
 
 /** Payload for the 'agent.discovered' topic when an agent connects via SSE. */
@@ -60,6 +104,8 @@ export interface AgentDiscoveredPayload {
 /** Topic names for the event bus. Use these when emitting or subscribing. */
 export const BusTopic = {
   AGENT_DISCOVERED: "agent.discovered",
+  /** Payload: ToolChange (an upstream server changed a tool's definition). */
+  TOOL_CHANGED: "tool.changed",
 } as const;
 
 export type BusTopicName = (typeof BusTopic)[keyof typeof BusTopic];
@@ -77,14 +123,22 @@ export interface EventBus {
 /**
  * Client transport (from AI Agent). Extends ITransport.
  * Emits: 'message' (line: string) for stdio-style lines; 'postRequest' (payload: PostRequestPayload) for HTTP POST /messages;
+ * 'sessionOpen' / 'sessionClose' (payload: ClientSessionPayload) when a client session starts or ends,
+ * so core can give each session its own upstream connection.
  * Emits to config.eventBus under BusTopic.AGENT_DISCOVERED when an agent connects via SSE.
- * Optional setRemoteReady(serverName) for HTTP mode when server signals endpoint is ready.
+ * Optional setRemoteReady(serverName, sessionId) when a session's upstream is ready.
  */
 export interface IClientTransport extends ITransport {
-  /** When serverName is provided, broadcast only to clients connected to that server. */
-  send(message: string, serverName?: string): void;
-  /** Broadcast endpoint path to clients of the given server (HTTP mode). */
-  setRemoteReady?(serverName: string): void;
+  /**
+   * With sessionId, deliver only to that client session. Otherwise, when serverName is
+   * provided, broadcast to clients connected to that server.
+   */
+  send(message: string, serverName?: string, sessionId?: string | null): void;
+  /**
+   * Upstream for serverName is ready. With sessionId, that session's own upstream is ready
+   * and its client can be told where to POST (e.g. the SSE endpoint event).
+   */
+  setRemoteReady?(serverName: string, sessionId?: string): void;
   /** Number of active SSE clients (for dashboard). */
   getActiveSseClients?(): number;
   /** Active SSE clients list (id, name, nameGenerated); merged into GET /api/connection by transport. */
@@ -107,6 +161,12 @@ export interface CreatePolicyInstanceBody {
   /** When omitted, policy is globally assigned (null, null). When provided, creates that assignment. */
   agentId?: string | null;
   toolName?: string | null;
+  /** Evaluation order: higher runs first. Integer; default 0. */
+  priority?: number;
+  /** What happens to a call when this policy throws or times out; null or omitted uses the deployment default. */
+  failureMode?: PolicyFailureMode | null;
+  /** Evaluation timeout in milliseconds; null or omitted uses the deployment default. */
+  timeoutMs?: number | null;
 }
 
 /** Result of creating a policy instance. */
@@ -123,11 +183,17 @@ export interface ClientTransportDashboardHooks {
   handleConnectionRequest?: () => Promise<DashboardConnectionInfo | null>;
   /** GET /api/policies → handler returns policies list. */
   handlePoliciesRequest?: () => Promise<DashboardPoliciesInfo | null>;
+  /** POST /api/policies/validate-expression → check the syntax of an expression policy rule. */
+  handleValidatePolicyExpression?: (
+    expression: string,
+  ) => Promise<DashboardExpressionValidation>;
   /** GET /api/policy-instances → list policy instances. */
   handleListPolicyInstances?: () => Promise<DashboardPolicyInstancesInfo | null>;
 
-  /** GET /api/events → list recent activity events (guardio_events). */
-  handleListEvents?: () => Promise<DashboardEventsInfo | null>;
+  /** GET /api/events → list recent activity events (guardio_events), optionally filtered by decision. */
+  handleListEvents?: (
+    query: DashboardEventsQuery,
+  ) => Promise<DashboardEventsInfo | null>;
 
   /** POST /api/policy-instances → create a policy instance; returns { id } or { error }. */
   handleCreatePolicyInstance?: (
@@ -153,14 +219,140 @@ export interface ClientTransportDashboardHooks {
   handleUpdateSimulationSettings?: (
     body: UpdateSimulationSettingsBody,
   ) => Promise<{ error?: string } | void>;
+
+  /** GET /api/approvals → list parked tools/call approvals, optionally filtered by status. */
+  handleListApprovals?: (
+    query: DashboardApprovalsQuery,
+  ) => Promise<DashboardApprovalsInfo | null>;
+
+  /** GET /api/approvals/:id → get one approval. */
+  handleGetApproval?: (id: string) => Promise<DashboardApproval | null>;
+
+  /** POST /api/approvals/:id/approve → forward the parked call upstream. */
+  handleApproveApproval?: (
+    id: string,
+    body: ResolveApprovalBody,
+  ) => Promise<ResolveApprovalResult>;
+
+  /** POST /api/approvals/:id/reject → answer the parked call with a blocked result. */
+  handleRejectApproval?: (
+    id: string,
+    body: ResolveApprovalBody,
+  ) => Promise<ResolveApprovalResult>;
+
+  /** POST /api/agents → register an agent so keys can be issued before it connects. */
+  handleCreateAgent?: (body: CreateAgentBody) => Promise<CreateAgentResult>;
+
+  /** GET /api/agent-keys → list API keys of all agents. */
+  handleListAgentApiKeys?: () => Promise<DashboardAgentApiKeysInfo | null>;
+
+  /** GET /api/agents/:id/keys → list one agent's API keys. */
+  handleListAgentApiKeysForAgent?: (
+    agentId: string,
+  ) => Promise<DashboardAgentApiKeysInfo | null>;
+
+  /** POST /api/agents/:id/keys → issue a key; the key is in the response only. */
+  handleCreateAgentApiKey?: (
+    agentId: string,
+    body: CreateAgentApiKeyBody,
+  ) => Promise<CreateAgentApiKeyResult>;
+
+  /** DELETE /api/agents/:id/keys/:keyId → revoke a key. */
+  handleRevokeAgentApiKey?: (
+    agentId: string,
+    keyId: string,
+  ) => Promise<RevokeAgentApiKeyResult>;
+
+  /** GET /api/servers/:serverName/tools/:toolName/versions → definition history of a tool. */
+  handleListToolVersions?: (
+    serverName: string,
+    toolName: string,
+  ) => Promise<DashboardToolVersionsInfo | null>;
+
+  /** POST /api/servers/:serverName/tools/:toolName/approve → approve the current definition. */
+  handleApproveToolVersion?: (
+    serverName: string,
+    toolName: string,
+    approvedBy: string | null,
+  ) => Promise<ApproveToolVersionResult>;
 }
 
+/**
+ * Agent authentication for the HTTP client transport (Authorization: Bearer <key> on
+ * /:mcpId/sse, /messages and /mcp). Passed from GuardioCore when storage supports keys.
+ */
+export interface AgentAuthHooks {
+  /** Reject agents that do not present a key. */
+  required: boolean;
+  /** Agent owning an active key; null when the key is unknown or revoked. */
+  authenticate: (key: string) => Promise<Agent | null>;
+  /** Whether the agent has an active key (its name must not be claimed via x-agent-name). */
+  hasActiveKeys: (agentId: string) => Promise<boolean>;
+}
+
+/**
+ * Authentication for the dashboard API (/api/*). Passed from GuardioCore when users or
+ * tokens are configured; without it the API is open.
+ */
+export interface DashboardAuthHooks {
+  /** POST /api/auth/login: start a session; null for wrong credentials. */
+  login: (username: string, password: string) => Promise<DashboardLoginResult | null>;
+  /** User behind a session token or static token; null when unknown or expired. */
+  authenticate: (token: string) => DashboardPrincipal | null;
+  /** POST /api/auth/logout: end a session (static tokens are unaffected). */
+  logout: (token: string) => void;
+}
+
+/** Body for POST /api/agents. */
+export interface CreateAgentBody {
+  name: string;
+}
+
+export type CreateAgentResult =
+  | { agent: DashboardAgent }
+  | { error: string; kind: "invalid" | "unsupported" };
+
+/** Body for POST /api/agents/:id/keys. */
+export interface CreateAgentApiKeyBody {
+  /** Optional label (e.g. where the key is deployed). */
+  name?: string;
+}
+
+export type CreateAgentApiKeyResult =
+  | DashboardIssuedAgentApiKey
+  | { error: string; kind: "not_found" | "unsupported" };
+
+export type RevokeAgentApiKeyResult =
+  | { apiKey: DashboardAgentApiKey }
+  | { error: string; kind: "not_found" | "unsupported" };
+
+export type ApproveToolVersionResult =
+  | { version: DashboardToolVersion }
+  | { error: string; kind: "not_found" | "unsupported" };
+
+/** Body for POST /api/approvals/:id/approve and /reject. */
+export interface ResolveApprovalBody {
+  /** Optional reviewer note; on reject it is returned to the agent as the reason. */
+  note?: string;
+}
+
+/** Result of approving or rejecting; error.kind lets the transport pick the HTTP status. */
+export type ResolveApprovalResult =
+  | { approval: DashboardApproval }
+  | { error: string; kind: "not_found" | "already_resolved" | "unsupported" };
+
 /** Body for PATCH /api/policy-instances/:id. */
 export interface UpdatePolicyInstanceBody {
   config: unknown;
   name?: string;
   agentId?: string | null;
   toolName?: string | null;
+  /** Evaluation order: higher runs first. When omitted, the current priority is kept. */
+  priority?: number;
+  /** When omitted, the current failure mode is kept; null goes back to the deployment default. */
+  failureMode?: PolicyFailureMode | null;
+  /** When omitted, the current timeout is kept; null goes back to the deployment default. */
+  timeoutMs?: number | null;
 }
 
 /** Result of updating a policy instance. */
@@ -0,0 +1,251 @@
+import { readFileSync } from "node:fs";
+import http from "node:http";
+import https from "node:https";
+import type { Socket } from "node:net";
+import { Readable } from "node:stream";
+import { setTimeout as delay } from "node:timers/promises";
+import tls from "node:tls";
+import type { GuardioServerConfigUrl } from "../../config/types.js";
+import { logger } from "../../logger.js";
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10_000;
+/** Statuses that mean the upstream did not take the request; safe to send it again. */
+const RETRYABLE_STATUSES = new Set([429, 503]);
+/**
+ * Gateway errors: a proxy in front of the upstream may already have passed the request on,
+ * so only GET and DELETE are sent again. A POST may be a tools/call that must not run twice.
+ */
+const GATEWAY_RETRYABLE_STATUSES = new Set([502, 504]);
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+export interface UpstreamRequestInit {
+  method: "GET" | "POST" | "DELETE";
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+  /**
+   * How long to wait for the response headers. Defaults to the server's timeoutMs;
+   * null disables it (long-lived streams).
+   */
+  timeoutMs?: number | null;
+  /**
+   * Retry connection failures and 429/503 answers (also 502/504 for GET and DELETE) with
+   * backoff. Defaults to true.
+   */
+  retry?: boolean;
+}
+
+/** Thrown when the upstream did not answer within the request timeout. */
+export class UpstreamTimeoutError extends Error {
+  constructor(url: string, timeoutMs: number) {
+    super(`Upstream did not respond within ${timeoutMs}ms (${url})`);
+    this.name = "UpstreamTimeoutError";
+  }
+}
+
+/**
+ * HTTP client for one configured upstream. Every request to the server (SSE connect,
+ * message forwarding, tools discovery) goes through it, so the configured headers,
+ * timeout, retries, proxy and CA apply the same way everywhere.
+ *
+ * Without a proxy or CA the global fetch is used; otherwise requests go through
+ * node:http/https (CONNECT tunnel for https targets behind a proxy).
+ */
+export class UpstreamHttpClient {
+  private readonly config: GuardioServerConfigUrl;
+  private readonly proxy: URL | null;
+  private readonly ca: string | undefined;
+  private readonly httpsAgent: https.Agent | undefined;
+
+  constructor(config: GuardioServerConfigUrl) {
+    this.config = config;
+    this.proxy = config.proxy ? new URL(config.proxy) : null;
+    this.ca = config.caFile ? readFileSync(config.caFile, "utf8") : undefined;
+    this.httpsAgent =
+      this.ca && !this.proxy ? new https.Agent({ ca: this.ca, keepAlive: true }) : undefined;
+  }
+
+  /**
+   * fetch() for the eventsource package: configured headers, proxy and CA, but no timeout
+   * or retries (EventSource reconnects on its own).
+   */
+  readonly eventSourceFetch = (
+    url: string | URL,
+    init: { headers: Record<string, string>; signal?: AbortSignal | unknown },
+  ): Promise<Response> =>
+    this.request(String(url), {
+      method: "GET",
+      headers: init.headers,
+      signal: init.signal instanceof AbortSignal ? init.signal : undefined,
+      timeoutMs: null,
+      retry: false,
+    });
+
+  async request(url: string, init: UpstreamRequestInit): Promise<Response> {
+    const retries = init.retry === false ? 0 : (this.config.retries ?? DEFAULT_RETRIES);
+    const baseDelay = this.config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    for (let attempt = 0; ; attempt++) {
+      let res: Response;
+      try {
+        res = await this.attempt(url, init);
+      } catch (err) {
+        if (attempt >= retries || !isConnectionError(err) || init.signal?.aborted) throw err;
+        await this.backoff(url, attempt, baseDelay, init.signal, { err });
+        continue;
+      }
+      if (attempt >= retries || !isRetryableStatus(init.method, res.status)) return res;
+      await res.body?.cancel().catch(() => {});
+      await this.backoff(url, attempt, baseDelay, init.signal, { status: res.status });
+    }
+  }
+
+  private async backoff(
+    url: string,
+    attempt: number,
+    baseDelay: number,
+    signal: AbortSignal | undefined,
+    reason: Record<string, unknown>,
+  ): Promise<void> {
+    const ms = Math.min(baseDelay * 2 ** attempt, MAX_RETRY_DELAY_MS);
+    logger.warn({ ...reason, url, attempt: attempt + 1, retryMs: ms }, "Upstream request failed, retrying");
+    await delay(ms, undefined, { signal });
+  }
+
+  private async attempt(url: string, init: UpstreamRequestInit): Promise<Response> {
+    const headers = new Headers(init.headers);
+    for (const [name, value] of Object.entries(this.config.headers ?? {})) {
+      headers.set(name, value);
+    }
+    const timeoutMs =
+      init.timeoutMs === undefined ? (this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS) : init.timeoutMs;
+    const timeout = new AbortController();
+    const timer = timeoutMs != null ? setTimeout(() => timeout.abort(), timeoutMs) : null;
+    const signal = init.signal ? AbortSignal.any([init.signal, timeout.signal]) : timeout.signal;
+    try {
+      const requestInit = { method: init.method, headers, body: init.body, signal };
+      return this.proxy || this.ca
+        ? await this.nodeRequest(new URL(url), requestInit)
+        : await fetch(url, requestInit);
+    } catch (err) {
+      if (timeout.signal.aborted && timeoutMs != null) throw new UpstreamTimeoutError(url, timeoutMs);
+      throw err;
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+
+  /** Minimal fetch over node:http/https so a proxy and CA can be set per upstream. */
+  private async nodeRequest(
+    url: URL,
+    init: { method: string; headers: Headers; body?: string; signal: AbortSignal },
+  ): Promise<Response> {
+    const secure = url.protocol === "https:";
+    const port = Number(url.port) || (secure ? 443 : 80);
+    const headers = Object.fromEntries(init.headers);
+    let options: https.RequestOptions = {
+      method: init.method,
+      host: url.hostname,
+      port,
+      path: `${url.pathname}${url.search}`,
+      headers,
+    };
+    if (this.proxy && secure) {
+      const socket = await this.connectTunnel(`${url.hostname}:${port}`, init.signal);
+      options = {
+        ...options,
+        createConnection: () => tls.connect({ socket, servername: url.hostname, ca: this.ca }),
+      };
+    } else if (this.proxy) {
+      options = {
+        ...options,
+        host: this.proxy.hostname,
+        port: Number(this.proxy.port) || (this.proxy.protocol === "https:" ? 443 : 80),
+        path: url.href,
+        headers: { ...headers, host: url.host, ...this.proxyAuthorization() },
+      };
+    } else if (secure) {
+      options = { ...options, agent: this.httpsAgent };
+    }
+
+    const viaHttps = this.proxy && !secure ? this.proxy.protocol === "https:" : secure;
+    return new Promise((resolve, reject) => {
+      const req = (viaHttps ? https : http).request({ ...options, signal: init.signal }, (res) => {
+        const responseHeaders = new Headers();
+        for (const [name, value] of Object.entries(res.headers)) {
+          if (Array.isArray(value)) for (const v of value) responseHeaders.append(name, v);
+          else if (value != null) responseHeaders.set(name, value);
+        }
+        const status = res.statusCode ?? 502;
+        const body = NULL_BODY_STATUSES.has(status)
+          ? null
+          : (Readable.toWeb(res) as unknown as ReadableStream<Uint8Array>);
+        if (!body) res.resume();
+        resolve(new Response(body, { status, statusText: res.statusMessage, headers: responseHeaders }));
+      });
+      req.on("error", reject);
+      req.end(init.body);
+    });
+  }
+
+  /** Open a CONNECT tunnel through the proxy to host:port. */
+  private connectTunnel(authority: string, signal: AbortSignal): Promise<Socket> {
+    const proxy = this.proxy!;
+    const secureProxy = proxy.protocol === "https:";
+    return new Promise((resolve, reject) => {
+      const req = (secureProxy ? https : http).request({
+        method: "CONNECT",
+        host: proxy.hostname,
+        port: Number(proxy.port) || (secureProxy ? 443 : 80),
+        path: authority,
+        headers: { host: authority, ...this.proxyAuthorization() },
+        signal,
+      });
+      req.once("connect", (res, socket) => {
+        if (res.statusCode === 200) {
+          resolve(socket);
+          return;
+        }
+        socket.destroy();
+        reject(new Error(`Proxy CONNECT to ${authority} failed with ${res.statusCode}`));
+      });
+      req.once("error", reject);
+      req.end();
+    });
+  }
+
+  private proxyAuthorization(): Record<string, string> {
+    const proxy = this.proxy;
+    if (!proxy?.username) return {};
+    const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+    return { "proxy-authorization": `Basic ${Buffer.from(credentials).toString("base64")}` };
+  }
+}
+
+/** Error codes of failures where the request never reached the upstream. */
+const CONNECTION_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+function isRetryableStatus(method: UpstreamRequestInit["method"], status: number): boolean {
+  if (RETRYABLE_STATUSES.has(status)) return true;
+  return method !== "POST" && GATEWAY_RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Only failures before the request was sent are retried: a reset or timeout may come after
+ * the upstream already ran the call.
+ */
+function isConnectionError(err: unknown): boolean {
+  if (!(err instanceof Error)) return false;
+  const code =
+    (err as { code?: string }).code ?? (err.cause as { code?: string } | undefined)?.code;
+  return code != null && CONNECTION_ERROR_CODES.has(code);
+}
@@ -66,8 +66,14 @@ export interface JsonRpcResponse {
 }
 
 import type {
-  GuardioServerConfigUrl,
+  GuardioServerConfig,
   GuardioClientConfig,
+  GuardioApprovalsConfig,
+  GuardioToolsListConfig,
+  GuardioToolPinningConfig,
+  GuardioToolScanConfig,
+  GuardioPolicyEvaluationConfig,
+  GuardioDashboardAuthConfig,
 } from "../config/types.js";
 import type { EventBus } from "./transports/types.js";
 import type { CoreRepository } from "../interfaces/CoreRepository.js";
@@ -75,8 +81,8 @@ import type { EventSinkStorePluginInterface } from "../interfaces/EventSinkStore
 import type { PluginManager } from "../config/PluginManager.js";
 
 export interface GuardioCoreConfig {
-  /** MCP servers to proxy to (HTTP/SSE URL only). At least one; each has a unique name. */
-  servers: GuardioServerConfigUrl[];
+  /** MCP servers to proxy to (HTTP/SSE URL or spawned command). At least one; each has a unique name. */
+  servers: GuardioServerConfig[];
   /** How the AI client connects to Guardio. Default: { mode: "stdio" }. */
   client?: GuardioClientConfig;
   /** Cwd for resolving guardio.config (default: process.cwd()) */
@@ -89,6 +95,18 @@ export interface GuardioCoreConfig {
   coreRepository: CoreRepository;
   /** Optional event sink store for GET /api/events (from PluginManager.getEventSinkStorePlugins). */
   eventSinkStore?: EventSinkStorePluginInterface;
+  /** Pending-approval settings for "negotiate" verdicts (timeout). */
+  approvals?: GuardioApprovalsConfig;
+  /** How tools/list responses are filtered and annotated for agents. */
+  toolsList?: GuardioToolsListConfig;
+  /** Tool definition pinning: change detection and optional blocking of changed tools. */
+  toolPinning?: GuardioToolPinningConfig;
+  /** Tool definition poisoning scanner: risk scores and optional quarantine. */
+  toolScan?: GuardioToolScanConfig;
+  /** Evaluation mode, and the timeout and failure mode applied when a policy fails. */
+  policyEvaluation?: GuardioPolicyEvaluationConfig;
+  /** Users, tokens and roles protecting the dashboard/control-plane API (/api/*). */
+  dashboardAuth?: GuardioDashboardAuthConfig;
   /** Optional PluginManager to use for event sinks (must have connected storage). When provided, getEventSinkPlugins() uses its storage in context so events can be persisted. */
   pluginManager?: PluginManager;
 }
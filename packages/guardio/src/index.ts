@@ -24,7 +24,17 @@ export type {
   GuardioConfig,
   GuardioServerConfig,
   GuardioServerConfigUrl,
+  GuardioServerConfigCommand,
   GuardioClientConfig,
+  GuardioApprovalsConfig,
+  GuardioToolsListConfig,
+  GuardioToolPinningConfig,
+  GuardioToolScanConfig,
+  GuardioPolicyEvaluationConfig,
+  GuardioDashboardAuthConfig,
+  GuardioDashboardRole,
+  GuardioDashboardUserConfig,
+  GuardioDashboardTokenConfig,
   PolicyPluginConfigEntry,
   StoragePluginConfigEntry,
   PluginConfigEntry,
@@ -36,14 +46,34 @@ export type {
   StorageConnectionResult,
   CoreRepository,
   Agent,
+  AgentApiKey,
+  ToolVersion,
   PolicyAssignment,
   PolicyAssignmentWithPlugin,
+  PolicyInstanceEvaluation,
+  PendingApproval,
+  PendingApprovalStatus,
   PolicyRequestContext,
+  PolicySimulationContext,
+  PolicyToolDefinition,
+  ToolRiskAssessment,
+  ToolRiskFinding,
+  ToolRiskRule,
   PolicyResult,
   PolicyVerdict,
+  PolicyEvaluationFailure,
+  PolicyEvaluationMode,
+  PolicyEvaluationTraceEntry,
+  PolicyFailureCode,
+  PolicyFailureMode,
+  PolicyResponseContext,
+  PolicyResponseResult,
+  PolicyCallOutcome,
+  PolicyCompletionContext,
   PluginRepository,
   PluginDocument,
   PluginDocumentFilter,
+  PluginWriteOptions,
   EventSinkPluginContext,
   PolicyPluginContext,
 } from "./interfaces/index.js";
@@ -57,6 +87,43 @@ export {
   RATE_LIMIT_TOOL_UI_SCHEMA,
   rateLimitToolConfigSchema,
   type RateLimitToolPolicyPluginConfig,
+  ConcurrencyLimitPolicyPlugin,
+  CONCURRENCY_LIMIT_UI_SCHEMA,
+  concurrencyLimitConfigSchema,
+  type ConcurrencyLimitPolicyPluginConfig,
+  PiiRedactPolicyPlugin,
+  PII_REDACT_UI_SCHEMA,
+  piiRedactConfigSchema,
+  type PiiRedactPolicyPluginConfig,
+  type PiiFinding,
+  SecretScanPolicyPlugin,
+  SECRET_SCAN_UI_SCHEMA,
+  secretScanConfigSchema,
+  type SecretScanPolicyPluginConfig,
+  type SecretDetectorName,
+  type SecretFinding,
+  SchemaValidatePolicyPlugin,
+  SCHEMA_VALIDATE_UI_SCHEMA,
+  schemaValidateConfigSchema,
+  type SchemaValidatePolicyPluginConfig,
+  ToolRiskPolicyPlugin,
+  TOOL_RISK_UI_SCHEMA,
+  toolRiskConfigSchema,
+  type ToolRiskPolicyPluginConfig,
+  PromptInjectionPolicyPlugin,
+  PROMPT_INJECTION_UI_SCHEMA,
+  promptInjectionConfigSchema,
+  type PromptInjectionPolicyPluginConfig,
+  type InjectionFinding,
+  ExpressionPolicyPlugin,
+  EXPRESSION_UI_SCHEMA,
+  expressionConfigSchema,
+  type ExpressionPolicyPluginConfig,
+  type ExpressionRule,
+  validateExpression,
+  type ExpressionValidation,
+  validateJsonSchema,
+  type JsonSchemaViolation,
 } from "./plugins/policy/index.js";
 export { DefaultNotificationPlugin } from "./plugins/notification/index.js";
 export {
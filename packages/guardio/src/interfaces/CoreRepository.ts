@@ -3,6 +3,8 @@
  * Storage adapters that support the core schema expose a repository via getRepository().
  */
 
+import type { PolicyFailureMode } from "./PolicyTypes.js";
+
 export interface Agent {
   id: string;
   name: string;
@@ -12,6 +14,22 @@ export interface Agent {
   nameGenerated?: boolean;
 }
 
+/**
+ * API key issued to an agent (Authorization: Bearer on /:mcpId/sse, /messages and /mcp).
+ * Only a hash of the key is stored; the key itself is returned once, when it is issued.
+ */
+export interface AgentApiKey {
+  id: string;
+  agentId: string;
+  /** Optional label (e.g. where the key is deployed). */
+  name: string | null;
+  /** First characters of the key, to tell keys apart without storing them. */
+  prefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
 export interface PolicyAssignment {
   id: string;
   policyInstanceId: string;
@@ -22,6 +40,10 @@ export interface PolicyAssignment {
 /** Assignment plus plugin id; returned by getPoliciesForContext so the core can instantiate by plugin name. */
 export interface PolicyAssignmentWithPlugin extends PolicyAssignment {
   pluginId: string;
+  /** Instance override of policyEvaluation.failureMode; omitted when it uses the default. */
+  failureMode?: PolicyFailureMode;
+  /** Instance override of policyEvaluation.timeoutMs; omitted when it uses the default. */
+  timeoutMs?: number;
 }
 
 export interface PolicyInstance {
@@ -30,6 +52,68 @@ export interface PolicyInstance {
   name?: string;
   config: unknown;
   isEnabled: boolean;
+  failureMode?: PolicyFailureMode;
+  timeoutMs?: number;
+}
+
+/** Failure handling of a policy instance; null falls back to the deployment's policyEvaluation setting. */
+export interface PolicyInstanceEvaluation {
+  failureMode: PolicyFailureMode | null;
+  timeoutMs: number | null;
+}
+
+/** Lifecycle of a parked tools/call awaiting human approval. */
+export type PendingApprovalStatus = "pending" | "approved" | "rejected" | "expired";
+
+/**
+ * A tools/call parked because a policy returned a "negotiate" verdict.
+ * body is the JSON-RPC request that will be forwarded upstream on approval
+ * (after any modified_args from policies were applied).
+ */
+export interface PendingApproval {
+  id: string;
+  status: PendingApprovalStatus;
+  serverName: string;
+  toolName: string;
+  agentId: string | null;
+  agentNameSnapshot: string | null;
+  /** JSON-RPC id of the parked request. */
+  requestId: string | number | null;
+  body: string;
+  /** Policy that asked for approval. */
+  policyName: string;
+  code: string | null;
+  reason: string | null;
+  metadata: Record<string, unknown> | null;
+  /** Optional note from the reviewer (e.g. rejection reason). */
+  note: string | null;
+  createdAt: string;
+  expiresAt: string;
+  resolvedAt: string | null;
+}
+
+/**
+ * One version of a tool definition as an upstream server published it in tools/list.
+ * A new version is recorded whenever the definition's fingerprint changes.
+ */
+export interface ToolVersion {
+  serverName: string;
+  toolName: string;
+  /** 1 for the first definition seen, then incremented on every change. */
+  version: number;
+  /** SHA-256 (hex) of the canonical JSON of the definition. */
+  fingerprint: string;
+  definition: {
+    name: string;
+    title?: string;
+    description?: string;
+    inputSchema?: object;
+  };
+  firstSeenAt: string;
+  /** When this version was approved (automatically for the first version); null while pending. */
+  approvedAt: string | null;
+  /** Dashboard user who approved it; null for automatic approval. */
+  approvedBy: string | null;
 }
 
 /**
@@ -40,7 +124,10 @@ export interface CoreRepository {
   // Agent methods
   getAgentById(id: string): Promise<Agent | null>;
   saveAgent(agent: Agent): Promise<void>;
-  /** Remove one connection (agent + server). Deletes the agent if they have no connections left. */
+  /**
+   * Remove one connection (agent + server). Deletes the agent if they have no connections left,
+   * unless API keys were issued to them (their identity outlives the connection).
+   */
   deleteConnection(agentId: string, serverName: string): Promise<void>;
   /** Remove an agent and all their connections. */
   deleteAgent(id: string): Promise<void>;
@@ -52,7 +139,8 @@ export interface CoreRepository {
   /**
    * Resolution query: policies that apply to the given context.
    * agentId null = "All Agents"; toolName null = "All Tools"; providerId null = all providers.
-   * Returns assignments with policy instance config and pluginId, ordered by priority (higher first).
+   * Returns assignments with policy instance config and pluginId, ordered by priority (higher
+   * first, then oldest first).
    */
   getPoliciesForContext(
     agentId: string | null,
@@ -66,7 +154,11 @@ export interface CoreRepository {
   /** Get a single policy instance by id. */
   getPolicyInstanceById(id: string): Promise<PolicyInstance | null>;
 
-  /** Update a policy instance (config, name) and replace its assignments with a single one. */
+  /**
+   * Update a policy instance (config, name) and replace its assignments with a single one.
+   * When priority is omitted, the new assignment keeps the instance's current priority; when
+   * evaluation is omitted, the instance keeps its failure handling.
+   */
   updatePolicyInstance(
     id: string,
     config: unknown,
@@ -74,6 +166,8 @@ export interface CoreRepository {
     agentId?: string | null,
     toolName?: string | null,
     providerId?: string | null,
+    priority?: number,
+    evaluation?: PolicyInstanceEvaluation,
   ): Promise<void>;
 
   /**
@@ -85,12 +179,15 @@ export interface CoreRepository {
       policyInstanceId: string;
       agentId: string | null;
       toolName: string | null;
+      priority: number;
     }>
   >;
 
   /**
    * Create a policy instance (plugin type + config). Optionally assign it at creation time.
    * When agentId, toolName, and providerId are omitted, creates one assignment with (null, null, null) = globally assigned.
+   * priority orders policies for evaluation (higher first; default 0). evaluation overrides the
+   * deployment's failure handling for this instance.
    * Returns the new instance id.
    */
   createPolicyInstance(
@@ -100,6 +197,8 @@ export interface CoreRepository {
     agentId?: string | null,
     toolName?: string | null,
     providerId?: string | null,
+    priority?: number,
+    evaluation?: PolicyInstanceEvaluation,
   ): Promise<string>;
 
   /**
@@ -166,4 +265,54 @@ export interface CoreRepository {
     scopeType?: string | null,
     scopeId?: string | null,
   ): Promise<void>;
+
+  /**
+   * Pending approvals (optional). When implemented, tools/call requests that a policy
+   * answers with "negotiate" are parked here until approved, rejected or expired.
+   */
+  savePendingApproval?(approval: PendingApproval): Promise<void>;
+
+  getPendingApproval?(id: string): Promise<PendingApproval | null>;
+
+  /** List approvals, newest first; optionally only those with the given status. */
+  listPendingApprovals?(
+    status?: PendingApprovalStatus,
+    limit?: number,
+  ): Promise<PendingApproval[]>;
+
+  /**
+   * Move a pending approval to a final status. Only rows still "pending" are updated,
+   * so concurrent reviewers cannot both resolve it. Returns the updated row, or null
+   * when the approval does not exist or was already resolved.
+   */
+  resolvePendingApproval?(
+    id: string,
+    status: Exclude<PendingApprovalStatus, "pending">,
+    note?: string | null,
+  ): Promise<PendingApproval | null>;
+
+  /**
+   * Agent API keys (optional). When implemented, agents can authenticate with
+   * Authorization: Bearer and agent-scoped policies apply to a proven identity.
+   */
+  saveAgentApiKey?(key: AgentApiKey, keyHash: string): Promise<void>;
+
+  /** Keys of one agent (all agents when omitted), newest first; revoked ones included. */
+  listAgentApiKeys?(agentId?: string): Promise<AgentApiKey[]>;
+
+  /** Active (not revoked) key with the given hash; stamps lastUsedAt. Null when unknown or revoked. */
+  findActiveAgentApiKey?(keyHash: string): Promise<AgentApiKey | null>;
+
+  /** Revoke a key of the agent. Returns the key, or null when the agent has no such key. */
+  revokeAgentApiKey?(agentId: string, keyId: string): Promise<AgentApiKey | null>;
+
+  /**
+   * Tool definition history (optional). When implemented, Guardio pins each tool's
+   * definition and notices when an upstream server changes it.
+   * Inserts the version, or updates its approval when (serverName, toolName, version) exists.
+   */
+  saveToolVersion?(version: ToolVersion): Promise<void>;
+
+  /** Versions of all tools, of one server's tools, or of one tool; newest version first. */
+  listToolVersions?(serverName?: string, toolName?: string): Promise<ToolVersion[]>;
 }
@@ -1,3 +1,9 @@
+/**
+ * Outcome recorded for a processed request.
+ * FLAGGED means the call was forwarded upstream but a policy marked it as suspicious (shadow mode).
+ */
+export type GuardioEventDecision = "ALLOWED" | "BLOCKED" | "MODIFIED" | "FLAGGED";
+
 export type GuardioEvent = {
   eventId: string;
   timestamp: string; // ISO
@@ -12,7 +18,7 @@ export type GuardioEvent = {
 
   targetResource?: string;
 
-  decision?: "ALLOWED" | "BLOCKED" | "MODIFIED";
+  decision?: GuardioEventDecision;
 
   policyEvaluation?: Record<string, any>;
 
@@ -1,4 +1,7 @@
-import type { GuardioEvent } from "./EventSinkPluginInterface.js";
+import type {
+  GuardioEvent,
+  GuardioEventDecision,
+} from "./EventSinkPluginInterface.js";
 
 /** One row from guardio_events for dashboard / API listing. */
 export interface StoredEvent {
@@ -11,6 +14,8 @@ export interface StoredEvent {
   agentNameSnapshot?: string | null;
   decision?: string | null;
   policyEvaluation?: Record<string, unknown> | null;
+  /** Set when something failed while handling the call (e.g. POLICY_TIMEOUT). */
+  errorCode?: string | null;
   /** Optional simulation info when Simulation Mode was active for the event. */
   simulation?: {
     enabled: boolean;
@@ -18,6 +23,14 @@ export interface StoredEvent {
   } | null;
 }
 
+/** Options for listing stored events. */
+export interface ListEventsOptions {
+  /** Maximum number of events to return (newest first). */
+  limit?: number;
+  /** When set, only events with this decision are returned (e.g. "FLAGGED"). */
+  decision?: GuardioEventDecision;
+}
+
 /**
  * Repository for persisting and listing GuardioEvent. Storage adapters that support
  * event sinking may expose this via getEventSinkRepository().
@@ -26,5 +39,5 @@ export interface EventSinkRepository {
   insert(event: GuardioEvent): Promise<void>;
 
   /** List recent events (e.g. for EventSinkStore plugins or dashboard). Optional. */
-  list?(options?: { limit?: number }): Promise<StoredEvent[]>;
+  list?(options?: ListEventsOptions): Promise<StoredEvent[]>;
 }
@@ -1,4 +1,4 @@
-import type { StoredEvent } from "./EventSinkRepository.js";
+import type { ListEventsOptions, StoredEvent } from "./EventSinkRepository.js";
 
 /**
  * Plugin that fetches (lists) guardio_events for the dashboard. Receives EventSinkPluginContext
@@ -9,6 +9,7 @@ export interface EventSinkStorePluginInterface {
 
   /**
    * List recent events for dashboard activity. Called by GET /api/events.
+   * Implementations should honour options.decision when filtering is supported.
    */
-  listEvents(options?: { limit?: number }): Promise<StoredEvent[]>;
+  listEvents(options?: ListEventsOptions): Promise<StoredEvent[]>;
 }
@@ -6,8 +6,20 @@ export interface PluginDocument {
   id: string;
   contextKey: string;
   data: Record<string, unknown>;
+  /** Incremented on every write; compareAndSet() checks it. */
+  version: number;
   createdAt: string;
   updatedAt: string;
+  /** When the document expires (ISO 8601), or null if it does not. */
+  expiresAt: string | null;
+}
+
+/**
+ * Options for writes. ttlSeconds sets the document to expire that many seconds from now;
+ * expired documents are no longer returned and are deleted by the storage adapter.
+ */
+export interface PluginWriteOptions {
+  ttlSeconds?: number;
 }
 
 /**
@@ -31,16 +43,49 @@ export interface PluginRepository {
    * @param contextKey Plugin-defined namespace (e.g., "agent-123", "session-abc")
    * @param data Arbitrary JSON payload to store
    * @param id Optional document ID; if omitted, a UUID is generated
+   * @param options ttlSeconds to expire the document; omitted means it never expires
    * @returns The document ID (generated or provided)
    */
   saveDocument(
     contextKey: string,
     data: Record<string, unknown>,
     id?: string,
+    options?: PluginWriteOptions,
   ): Promise<string>;
 
   /**
-   * Get a document by contextKey. Returns the most recent document for this key.
+   * Atomically add to a numeric field of the document for contextKey, creating the document
+   * (with the field set to `by`) if there is none or it expired. Concurrent calls never lose
+   * an update.
+   * @param field Top-level field in data; a missing or non-numeric value counts as 0
+   * @param by Amount to add (default 1; may be negative)
+   * @param options ttlSeconds applies when the document is created, so a counter with a TTL
+   *   resets once it expires; an existing expiry is kept
+   * @returns The new value of the field
+   */
+  increment(
+    contextKey: string,
+    field: string,
+    by?: number,
+    options?: PluginWriteOptions,
+  ): Promise<number>;
+
+  /**
+   * Replace the data of the document for contextKey only if its version is still
+   * expectedVersion (0: there must be no live document). Use with getDocument() for
+   * read-modify-write updates that must not overwrite a concurrent write.
+   * @param options ttlSeconds to expire the document; omitted means it never expires
+   * @returns The written document, or null if the version did not match
+   */
+  compareAndSet(
+    contextKey: string,
+    data: Record<string, unknown>,
+    expectedVersion: number,
+    options?: PluginWriteOptions,
+  ): Promise<PluginDocument | null>;
+
+  /**
+   * Get a document by contextKey. Returns the most recent live (not expired) document for this key.
    * @param contextKey The context key to look up
    * @returns The document or null if not found
    */
@@ -1,6 +1,12 @@
 import type { z } from "zod";
 import type { PolicyRequestContext } from "./PolicyTypes.js";
-import type { PolicyResult } from "./PolicyTypes.js";
+import type {
+  PolicyCompletionContext,
+  PolicyResult,
+  PolicyResponseContext,
+  PolicyResponseResult,
+  PolicyVerdict,
+} from "./PolicyTypes.js";
 
 /**
  * Policy plugin interface for evaluating whether a tool call is allowed.
@@ -28,4 +34,26 @@ export interface PolicyPluginInterface {
    * @returns Promise resolving to PolicyResult with verdict (allow | block | flag | negotiate), optional code, reason, modified_args, metadata
    */
   evaluate(context: PolicyRequestContext): Promise<PolicyResult>;
+
+  /**
+   * Optional: the verdict evaluate() returns for every call, whatever the arguments, or null
+   * when it depends on the call. Guardio uses it to hide tools that are always blocked
+   * ("block") from tools/list and to mark tools that always need approval ("negotiate").
+   */
+  unconditionalVerdict?(): PolicyVerdict | null;
+
+  /**
+   * Optional: evaluate the upstream result of an allowed tool call before it reaches the agent.
+   * @param context - Tool name, forwarded args, request id and the JSON-RPC result
+   * @returns Promise resolving to PolicyResponseResult (allow | block | flag, optional modified_result)
+   */
+  evaluateResponse?(context: PolicyResponseContext): Promise<PolicyResponseResult>;
+
+  /**
+   * Optional: called once for every tools/call this policy applied to, when the call is over
+   * (response received, blocked by any policy, simulated, failed or timed out); also when an
+   * earlier policy blocked the call before evaluate() ran. Use it to release what evaluate()
+   * acquired for context.callId. Errors are logged and ignored.
+   */
+  onCallComplete?(context: PolicyCompletionContext): Promise<void>;
 }
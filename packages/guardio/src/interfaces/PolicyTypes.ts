@@ -1,13 +1,197 @@
+/** Kind of hidden instruction found in a tool definition by the poisoning scanner. */
+export type ToolRiskRule =
+  | "instruction_override"
+  | "concealment"
+  | "invisible_unicode"
+  | "sensitive_file_access"
+  | "exfiltration"
+  | "hidden_tags"
+  | "tool_shadowing";
+
+export interface ToolRiskFinding {
+  rule: ToolRiskRule;
+  /** Where it was found, e.g. "description" or "inputSchema.properties.path.description". */
+  field: string;
+  /** The matching text (invisible characters shown as \u{...}). */
+  excerpt: string;
+}
+
+/** Result of scanning a tool definition for poisoning. */
+export interface ToolRiskAssessment {
+  /** 0 (nothing found) to 100; the sum of the weights of the rules that matched. */
+  score: number;
+  findings: ToolRiskFinding[];
+}
+
+/** A tool as the upstream server described it in tools/list. */
+export interface PolicyToolDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  /** JSON Schema for the tool arguments. */
+  inputSchema?: object;
+  /** Poisoning scan of this definition; absent when the scanner is turned off. */
+  risk?: ToolRiskAssessment;
+}
+
+/** Whether Simulation Mode answers this call instead of the upstream server, and why. */
+export interface PolicySimulationContext {
+  enabled: boolean;
+  /** global: dashboard switch; header: X-Guardio-Mode: simulation; tool: per-tool setting. */
+  source?: "global" | "header" | "tool";
+}
+
 /**
  * Context passed to policy evaluation for a tool call request.
  */
 export interface PolicyRequestContext {
   toolName: string;
   args: unknown;
+  /**
+   * The called tool's definition from the server's last tools/list. null when that list is
+   * known but does not contain the tool; undefined when Guardio has not seen the list yet.
+   */
+  tool?: PolicyToolDefinition | null;
+  /** Id of the calling agent; null for unauthenticated callers. */
+  agentId?: string | null;
+  /** Name of the calling agent when the call was made; null for unauthenticated callers. */
+  agentName?: string | null;
+  /** Name of the upstream MCP server the call is routed to. */
+  serverName?: string;
+  /**
+   * Unique id of this tools/call, passed again to onCallComplete. Unlike the JSON-RPC id it
+   * does not repeat across agents or sessions.
+   */
+  callId?: string;
+  /** JSON-RPC id of the request. */
+  requestId?: string | number;
+  /** W3C trace id from the request's traceparent header, when it sent one. */
+  traceId?: string;
+  /**
+   * Request headers selected by client.policyHeaders, with lower-case names. Credentials
+   * (authorization, cookies) are never included. Empty for stdio clients.
+   */
+  headers?: Readonly<Record<string, string>>;
+  /** When Guardio received the call (ISO 8601). */
+  timestamp?: string;
+  /** Set when Simulation Mode is on for this call. */
+  simulation?: PolicySimulationContext;
+  /**
+   * Aborted when the policy's timeoutMs runs out. The call no longer waits for the result, so
+   * anything the policy still does (e.g. taking a slot) must be undone.
+   */
+  signal?: AbortSignal;
+  /** When the policy's timeoutMs runs out (epoch ms); policies that wait should give up before. */
+  deadline?: number;
+}
+
+/**
+ * How a tools/call ended:
+ * - completed: the upstream response arrived (a result or a JSON-RPC error)
+ * - blocked: a policy, or a reviewer, stopped the call
+ * - simulated: Simulation Mode answered instead of the upstream
+ * - failed: the upstream could not be reached or answered with an HTTP error
+ * - timeout: no response arrived in time
+ */
+export type PolicyCallOutcome = "completed" | "blocked" | "simulated" | "failed" | "timeout";
+
+/** Context passed to onCallComplete once a tools/call is over. */
+export interface PolicyCompletionContext {
+  /** Same as PolicyRequestContext.callId of the evaluated call. */
+  callId: string;
+  /** JSON-RPC id of the request. */
+  requestId: string | number;
+  toolName: string;
+  args: unknown;
+  serverName: string;
+  agentId: string | null;
+  outcome: PolicyCallOutcome;
+  /** Time from policy evaluation to completion. */
+  durationMs: number;
 }
 
 export type PolicyVerdict = "allow" | "block" | "flag" | "negotiate";
 
+/**
+ * How tools/call policies are run:
+ * - first_block: in priority order, stopping at the first block (default)
+ * - all: every policy runs even after a block, and the event records each verdict
+ */
+export type PolicyEvaluationMode = "first_block" | "all";
+
+/** One policy's verdict on a call, as recorded in GuardioEvent.policyEvaluation.trace. */
+export interface PolicyEvaluationTraceEntry {
+  policyName: string;
+  verdict: PolicyVerdict;
+  code?: string;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+  /** Set when evaluate() threw or timed out; verdict is then the one the failure mode applied. */
+  errorCode?: PolicyFailureCode;
+  /** Time evaluate() took, in milliseconds. */
+  durationMs: number;
+}
+
+/**
+ * What happens to a call when a policy's evaluate() throws or times out:
+ * - closed: the call is blocked (default)
+ * - open: the policy is skipped and the call goes on to the remaining policies
+ */
+export type PolicyFailureMode = "open" | "closed";
+
+/** GuardioEvent.errorCode of a call on which a policy failed. */
+export type PolicyFailureCode = "POLICY_TIMEOUT" | "POLICY_ERROR";
+
+/** A policy that failed while evaluating a call, as recorded in GuardioEvent.policyEvaluation.failures. */
+export interface PolicyEvaluationFailure {
+  policyName: string;
+  errorCode: PolicyFailureCode;
+  /** Error message, or the timeout that was exceeded. */
+  message: string;
+  failureMode: PolicyFailureMode;
+}
+
+/**
+ * Context passed to response evaluation: the upstream result of a tool call
+ * that was allowed by evaluate(), with the same call details evaluate() saw (agent, server,
+ * callId, headers, simulation).
+ */
+export interface PolicyResponseContext extends Omit<PolicyRequestContext, "requestId"> {
+  /** Arguments the call was forwarded with (after any modified_args). */
+  args: unknown;
+  /** JSON-RPC id of the request this result answers. */
+  requestId: string | number;
+  /**
+   * JSON-RPC result from the upstream MCP server (MCP CallToolResult: content, isError, structuredContent).
+   * Already redacted by earlier policies when they returned modified_result.
+   */
+  result: unknown;
+}
+
+export interface PolicyResponseResult {
+  /**
+   * - allow: Deliver the result (or modified_result) to the agent.
+   * - block: Replace the result with a Guardio blocked result.
+   * - flag: Deliver, but mark as suspicious.
+   */
+  verdict: "allow" | "block" | "flag";
+
+  /** Same meaning as PolicyResult.code (e.g. "SECRET_IN_RESULT"). */
+  code?: string;
+
+  /** Human/LLM-readable explanation; returned to the agent when blocked. */
+  reason?: string;
+
+  /**
+   * Replacement result (e.g. with secrets redacted). When present, later policies
+   * and the agent receive this instead of the upstream result.
+   */
+  modified_result?: unknown;
+
+  /** Arbitrary data for the Dashboard. */
+  metadata?: Record<string, unknown>;
+}
+
 export interface PolicyResult {
   /**
    * The core decision.
@@ -35,6 +219,7 @@ export interface PolicyResult {
   /**
    * For policies that sanitize data (e.g., removing a credit card number).
    * If present, Guardio should replace the original params with these.
+   * Keys are merged over the arguments; a key set to undefined removes that argument.
    */
   modified_args?: Record<string, unknown>;
 
@@ -7,14 +7,38 @@ export type {
 export type {
   CoreRepository,
   Agent,
+  AgentApiKey,
+  ToolVersion,
   PolicyAssignment,
   PolicyAssignmentWithPlugin,
+  PolicyInstanceEvaluation,
+  PendingApproval,
+  PendingApprovalStatus,
 } from "./CoreRepository.js";
-export type { PolicyRequestContext, PolicyResult, PolicyVerdict } from "./PolicyTypes.js";
+export type {
+  PolicyRequestContext,
+  PolicySimulationContext,
+  PolicyToolDefinition,
+  ToolRiskAssessment,
+  ToolRiskFinding,
+  ToolRiskRule,
+  PolicyResult,
+  PolicyVerdict,
+  PolicyEvaluationFailure,
+  PolicyEvaluationMode,
+  PolicyEvaluationTraceEntry,
+  PolicyFailureCode,
+  PolicyFailureMode,
+  PolicyResponseContext,
+  PolicyResponseResult,
+  PolicyCallOutcome,
+  PolicyCompletionContext,
+} from "./PolicyTypes.js";
 export type {
   PluginRepository,
   PluginDocument,
   PluginDocumentFilter,
+  PluginWriteOptions,
 } from "./PluginRepository.js";
 export type { EventSinkPluginContext } from "./EventSinkPluginContext.js";
 export type { PolicyPluginContext } from "./PolicyPluginContext.js";
@@ -6,11 +6,15 @@ const level =
   (process.env.NODE_ENV === "development" ? "debug" : "info");
 const usePretty =
   process.env.LOG_PRETTY === "1" || process.env.NODE_ENV === "development";
+// In stdio mode stdout carries JSON-RPC to the agent, so logs must go to stderr.
+const useStderr =
+  process.env.LOG_DESTINATION === "stderr" || process.argv.includes("--stdio");
 
 const prettyStream = usePretty
   ? pinoPretty({
       colorize: true,
       translateTime: "SYS:standard",
+      destination: useStderr ? 2 : 1,
     })
   : undefined;
 
@@ -19,7 +23,7 @@ export const logger = pino(
     level,
     base: { name: "guardio" },
   },
-  prettyStream ?? process.stdout
+  prettyStream ?? (useStderr ? process.stderr : process.stdout)
 );
 
 export type Logger = pino.Logger;
@@ -1,5 +1,8 @@
 import type { EventSinkStorePluginInterface } from "../../interfaces/EventSinkStorePluginInterface.js";
-import type { StoredEvent } from "../../interfaces/EventSinkRepository.js";
+import type {
+  ListEventsOptions,
+  StoredEvent,
+} from "../../interfaces/EventSinkRepository.js";
 import type { EventSinkPluginContext } from "../../interfaces/EventSinkPluginContext.js";
 
 /**
@@ -15,7 +18,7 @@ export class PostgresEventSinkStore implements EventSinkStorePluginInterface {
     private readonly context?: EventSinkPluginContext,
   ) {}
 
-  async listEvents(options?: { limit?: number }): Promise<StoredEvent[]> {
+  async listEvents(options?: ListEventsOptions): Promise<StoredEvent[]> {
     const repo = this.context?.eventSinkRepository;
     if (!repo?.list) return [];
     return repo.list(options ?? {});
@@ -0,0 +1,133 @@
+/**
+ * Shared helpers for policies that look for patterns inside string (and optionally numeric)
+ * values of tool arguments (pii-redact, secret-scan) or tool results (prompt-injection).
+ */
+
+export interface TextDetector<K extends string = string> {
+  /** What the detector finds; reported in findings. */
+  kind: K;
+  /** Global regex for candidates. */
+  pattern: RegExp;
+  /** Extra check on a candidate (checksum, entropy, ...). */
+  validate?: (match: string) => boolean;
+}
+
+export interface TextMatch<K extends string = string> {
+  start: number;
+  end: number;
+  kind: K;
+}
+
+/**
+ * Non-overlapping matches in text, sorted by position. Detectors are tried in order, so when
+ * two matches overlap the earlier detector wins.
+ */
+export function findTextMatches<K extends string>(
+  text: string,
+  detectors: readonly TextDetector<K>[],
+): TextMatch<K>[] {
+  const accepted: TextMatch<K>[] = [];
+  for (const detector of detectors) {
+    for (const m of text.matchAll(detector.pattern)) {
+      const start = m.index;
+      const end = start + m[0].length;
+      if (detector.validate && !detector.validate(m[0])) continue;
+      if (accepted.some((a) => start < a.end && end > a.start)) continue;
+      accepted.push({ start, end, kind: detector.kind });
+    }
+  }
+  return accepted.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replace the given matches in text; replacement returns null to keep a match as is.
+ */
+export function replaceTextMatches<K extends string>(
+  text: string,
+  matches: readonly TextMatch<K>[],
+  replacement: (match: TextMatch<K>) => string | null,
+): string {
+  let out = "";
+  let last = 0;
+  for (const match of matches) {
+    const value = replacement(match);
+    if (value === null) continue;
+    out += text.slice(last, match.start) + value;
+    last = match.end;
+  }
+  return out + text.slice(last);
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Visits strings and, when the scanner asks for them, non-negative integers (as their
+ * digits); source tells them apart so numbers can get their own detectors.
+ */
+export type ArgumentVisitor = (text: string, path: string, source: "string" | "number") => string;
+
+export interface ArgumentScanOptions {
+  /** Also visit integers (e.g. { card: 4111111111111111 }); a changed result replaces the number. */
+  numbers?: boolean;
+}
+
+/**
+ * Call visit for every string in a JSON value (nested objects and arrays included) with its
+ * path (e.g. "customer.emails[0]") and return a copy with each string replaced by visit's result.
+ * With options.numbers, integers are visited too and kept as numbers unless visit changed them.
+ */
+export function mapArgumentStrings(
+  value: unknown,
+  visit: ArgumentVisitor,
+  path = "",
+  options: ArgumentScanOptions = {},
+): unknown {
+  if (typeof value === "string") return visit(value, path, "string");
+  if (options.numbers && Number.isSafeInteger(value) && (value as number) >= 0) {
+    const digits = String(value);
+    const out = visit(digits, path, "number");
+    return out === digits ? value : out;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => mapArgumentStrings(item, visit, childPath(path, i), options));
+  }
+  if (value != null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [
+        k,
+        mapArgumentStrings(v, visit, childPath(path, k), options),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Run mapArgumentStrings over each top-level argument and return only the arguments that
+ * changed, ready to use as modified_args (the Processor merges them shallowly).
+ */
+export function rewriteArguments(
+  args: Record<string, unknown>,
+  visit: ArgumentVisitor,
+  options: ArgumentScanOptions = {},
+): Record<string, unknown> {
+  const changed: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(args)) {
+    let touched = false;
+    const next = mapArgumentStrings(
+      value,
+      (text, path, source) => {
+        const out = visit(text, path, source);
+        if (out !== text) touched = true;
+        return out;
+      },
+      key,
+      options,
+    );
+    if (touched) changed[key] = next;
+  }
+  return changed;
+}
@@ -0,0 +1,230 @@
+import { z } from "zod";
+import { setTimeout as sleep } from "node:timers/promises";
+import type {
+  PolicyCompletionContext,
+  PolicyPluginInterface,
+  PolicyRequestContext,
+  PolicyResult,
+  PluginRepository,
+} from "../../interfaces/index.js";
+import type { PolicyPluginContext } from "../../interfaces/PolicyPluginContext.js";
+import type { PolicyPluginDefinition } from "../../config/plugin-types.js";
+import { logger } from "../../logger.js";
+
+export const concurrencyLimitConfigSchema = z.object({
+  maxConcurrent: z
+    .number()
+    .int()
+    .min(1)
+    .describe("Maximum tools/call requests in flight at once"),
+  key: z
+    .enum(["tool", "server", "agent", "agent_tool"])
+    .default("tool")
+    .describe("Count in-flight calls per tool, server, agent, or agent and tool"),
+  /** block: reject calls above the limit; queue: wait up to maxWaitMs for a free slot. */
+  mode: z
+    .enum(["block", "queue"])
+    .default("block")
+    .describe("Reject calls above the limit, or wait for a slot"),
+  maxWaitMs: z
+    .number()
+    .int()
+    .min(0)
+    .max(300_000)
+    .default(10_000)
+    .describe("How long a queued call waits for a slot (ms)"),
+  /** Safety net for calls whose completion is never reported (e.g. the process died). */
+  slotTimeoutSeconds: z
+    .number()
+    .int()
+    .min(1)
+    .default(600)
+    .describe("Release a slot after this long even if the call never completed"),
+});
+
+export type ConcurrencyLimitPolicyPluginConfig = z.infer<typeof concurrencyLimitConfigSchema>;
+
+/** In-flight calls by callId, each with the time its slot expires (epoch ms). */
+interface SlotData extends Record<string, unknown> {
+  slots: Record<string, number>;
+}
+
+/** RJSF UI schema for the concurrency-limit policy configuration form. */
+export const CONCURRENCY_LIMIT_UI_SCHEMA: object = {
+  maxConcurrent: { "ui:title": "Max concurrent calls", "ui:placeholder": "2" },
+  key: { "ui:title": "Limit per" },
+  mode: { "ui:title": "Above the limit" },
+  maxWaitMs: {
+    "ui:title": "Max wait (ms)",
+    "ui:description": "Only used in queue mode",
+  },
+  slotTimeoutSeconds: { "ui:title": "Slot timeout (seconds)" },
+};
+
+/** Delay between checks for a free slot while queued. */
+const QUEUE_POLL_MS = 100;
+
+/**
+ * Policy plugin that limits how many tools/call requests run upstream at once, per tool
+ * (default), server, agent, or agent and tool. A call takes a slot in evaluate() and gives
+ * it back in onCallComplete(), when its response arrives, it is blocked by a later policy,
+ * or it fails or times out. Slots live in PluginRepository and are updated with
+ * compareAndSet, so the limit holds across requests and Guardio instances sharing storage.
+ * Calls evaluated without a callId cannot be released and are not limited.
+ * Queued calls stop waiting before the policy's timeout (context.deadline), so raise the
+ * instance's timeoutMs to queue longer; a slot taken after the evaluation was aborted is
+ * given back right away, since its completion may already have been reported.
+ * If PluginRepository is not available, fails open (allows all requests).
+ */
+export class ConcurrencyLimitPolicyPlugin implements PolicyPluginInterface {
+  readonly name = "concurrency-limit";
+
+  private readonly config: ConcurrencyLimitPolicyPluginConfig;
+  private readonly repo?: PluginRepository;
+
+  getConfigSchema(): z.ZodType {
+    return concurrencyLimitConfigSchema;
+  }
+
+  getUiSchema(): object {
+    return CONCURRENCY_LIMIT_UI_SCHEMA;
+  }
+
+  constructor(config: Record<string, unknown>, context?: PolicyPluginContext) {
+    const parsed = concurrencyLimitConfigSchema.safeParse(config);
+    if (!parsed.success) {
+      throw new Error(`ConcurrencyLimitPolicyPlugin invalid config: ${parsed.error.message}`);
+    }
+    this.config = parsed.data;
+    this.repo = context?.pluginRepository;
+
+    if (!this.repo) {
+      logger.warn(
+        { plugin: this.name },
+        "ConcurrencyLimitPolicyPlugin initialized without PluginRepository; concurrency limiting will be disabled",
+      );
+    }
+  }
+
+  private contextKey(context: {
+    toolName: string;
+    serverName?: string;
+    agentId?: string | null;
+  }): string {
+    const agent = context.agentId ?? "anonymous";
+    switch (this.config.key) {
+      case "server":
+        return `concurrency:server:${context.serverName ?? "(unknown)"}`;
+      case "agent":
+        return `concurrency:agent:${agent}`;
+      case "agent_tool":
+        return `concurrency:agent_tool:${agent}:${context.toolName}`;
+      default:
+        return `concurrency:tool:${context.toolName}`;
+    }
+  }
+
+  /** Take a slot for callId; returns the number in flight including it, or null when full. */
+  private async tryAcquire(contextKey: string, callId: string): Promise<number | null> {
+    for (;;) {
+      const now = Date.now();
+      const doc = await this.repo!.getDocument(contextKey);
+      const stored = (doc?.data as Partial<SlotData> | undefined)?.slots ?? {};
+      const slots = Object.fromEntries(
+        Object.entries(stored).filter(([, expiresAt]) => expiresAt > now),
+      );
+      if (Object.keys(slots).length >= this.config.maxConcurrent) return null;
+      slots[callId] = now + this.config.slotTimeoutSeconds * 1000;
+      const saved = await this.repo!.compareAndSet(
+        contextKey,
+        { slots } satisfies SlotData,
+        doc?.version ?? 0,
+        { ttlSeconds: this.config.slotTimeoutSeconds },
+      );
+      if (saved) return Object.keys(slots).length;
+    }
+  }
+
+  async evaluate(context: PolicyRequestContext): Promise<PolicyResult> {
+    if (!this.repo || !context.callId) {
+      logger.debug(
+        { toolName: context.toolName, plugin: this.name },
+        "No PluginRepository or callId; allowing request (fail-open)",
+      );
+      return { verdict: "allow" };
+    }
+
+    const contextKey = this.contextKey(context);
+    const started = Date.now();
+    const deadline = Math.min(
+      started + (this.config.mode === "queue" ? this.config.maxWaitMs : 0),
+      // Answer before the policy timeout instead of being cut off by it.
+      (context.deadline ?? Infinity) - QUEUE_POLL_MS,
+    );
+
+    for (;;) {
+      const inFlight = await this.tryAcquire(contextKey, context.callId);
+      if (inFlight != null && context.signal?.aborted) {
+        await this.release(contextKey, context.callId);
+        break;
+      }
+      if (inFlight != null) {
+        return {
+          verdict: "allow",
+          metadata: {
+            key: contextKey,
+            inFlight,
+            maxConcurrent: this.config.maxConcurrent,
+            waitedMs: Date.now() - started,
+          },
+        };
+      }
+      if (Date.now() >= deadline || context.signal?.aborted) break;
+      await sleep(Math.min(QUEUE_POLL_MS, Math.max(0, deadline - Date.now())));
+    }
+
+    logger.debug(
+      { toolName: context.toolName, plugin: this.name, contextKey },
+      "Concurrency limit reached",
+    );
+    const waitedMs = Date.now() - started;
+    const waited = this.config.mode === "queue" ? ` No slot became free within ${waitedMs}ms.` : "";
+    return {
+      verdict: "block",
+      code: "CONCURRENCY_LIMIT_EXCEEDED",
+      reason: `Too many calls in progress: at most ${this.config.maxConcurrent} may run at once.${waited} Try again shortly.`,
+      metadata: {
+        key: contextKey,
+        maxConcurrent: this.config.maxConcurrent,
+        waitedMs,
+      },
+    };
+  }
+
+  /** Give back callId's slot, if it holds one. */
+  private async release(contextKey: string, callId: string): Promise<void> {
+    // Like tryAcquire: a conflict means another call took or released a slot; read again.
+    for (;;) {
+      const doc = await this.repo!.getDocument(contextKey);
+      const slots = { ...(doc?.data as Partial<SlotData> | undefined)?.slots };
+      if (!doc || !(callId in slots)) return;
+      delete slots[callId];
+      const saved = await this.repo!.compareAndSet(contextKey, { slots }, doc.version, {
+        ttlSeconds: this.config.slotTimeoutSeconds,
+      });
+      if (saved) return;
+    }
+  }
+
+  async onCallComplete(context: PolicyCompletionContext): Promise<void> {
+    if (!this.repo) return;
+    await this.release(this.contextKey(context), context.callId);
+  }
+}
+
+export const concurrencyLimitDefinition: PolicyPluginDefinition = {
+  name: "concurrency-limit",
+  factory: (config, context) => new ConcurrencyLimitPolicyPlugin(config, context),
+  configSchema: concurrencyLimitConfigSchema,
+  uiSchema: CONCURRENCY_LIMIT_UI_SCHEMA,
+};
@@ -2,6 +2,7 @@ import type {
   PolicyPluginInterface,
   PolicyRequestContext,
   PolicyResult,
+  PolicyVerdict,
 } from "../../interfaces/index.js";
 import type { PolicyPluginDefinition } from "../../config/plugin-types.js";
 import { logger } from "../../logger.js";
@@ -30,6 +31,10 @@ export class DenyToolAccessPolicyPlugin implements PolicyPluginInterface {
     return POLICY_SUMMARY_UI_SCHEMA;
   }
 
+  unconditionalVerdict(): PolicyVerdict {
+    return "block";
+  }
+
   async evaluate(context: PolicyRequestContext): Promise<PolicyResult> {
     logger.debug(
       { toolName: context.toolName, plugin: this.name },
@@ -0,0 +1,459 @@
+/**
+ * Small, side-effect-free expression language for the expression policy, e.g.
+ * `args.amount > 1000 && agent.name startsWith "test-"`.
+ *
+ * Literals: numbers, "strings" or 'strings', true, false, null, [arrays].
+ * Variables: tool, args, agent, server, time, with .member and ["member"] access
+ * (own properties only). Operators, loosest first: ||; &&; == !=; < <= > >= in contains
+ * startsWith endsWith matches; + -; * / %; unary ! and -.
+ * Functions: len(x), lower(s), upper(s).
+ *
+ * Evaluation never throws on data: a missing member is null, and an operator applied to
+ * values of the wrong type yields null (false in a condition).
+ */
+
+export type ExpressionNode =
+  | { type: "literal"; value: ExpressionValue }
+  | { type: "array"; items: ExpressionNode[] }
+  | { type: "identifier"; name: string }
+  | { type: "member"; object: ExpressionNode; property: ExpressionNode }
+  | { type: "call"; name: string; args: ExpressionNode[] }
+  | { type: "unary"; op: "!" | "-"; operand: ExpressionNode }
+  | { type: "binary"; op: BinaryOperator; left: ExpressionNode; right: ExpressionNode };
+
+export type ExpressionValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ExpressionValue[]
+  | { [key: string]: ExpressionValue };
+
+type BinaryOperator =
+  | "||"
+  | "&&"
+  | "=="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "in"
+  | "contains"
+  | "startsWith"
+  | "endsWith"
+  | "matches"
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%";
+
+/** Variables an expression can use. */
+export const EXPRESSION_VARIABLES = ["tool", "args", "agent", "server", "time"] as const;
+
+const FUNCTIONS = new Set(["len", "lower", "upper"]);
+
+/** Binary operators by precedence level, loosest first. */
+const PRECEDENCE: BinaryOperator[][] = [
+  ["||"],
+  ["&&"],
+  ["==", "!="],
+  ["<", "<=", ">", ">=", "in", "contains", "startsWith", "endsWith", "matches"],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+
+const WORD_OPERATORS = new Set(["in", "contains", "startsWith", "endsWith", "matches"]);
+
+/** Invalid expression; position is the 0-based offset in the source. */
+export class ExpressionSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly position: number,
+  ) {
+    super(message);
+    this.name = "ExpressionSyntaxError";
+  }
+}
+
+type Token =
+  | { kind: "number"; value: number; pos: number }
+  | { kind: "string"; value: string; pos: number }
+  | { kind: "name"; value: string; pos: number }
+  | { kind: "punct"; value: string; pos: number }
+  | { kind: "end"; pos: number };
+
+const PUNCTUATION = ["||", "&&", "==", "!=", "<=", ">=", "<", ">", "!", "+", "-", "*", "/", "%", "(", ")", "[", "]", ".", ","];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i]!;
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (/[0-9]/.test(ch)) {
+      const match = /^[0-9]+(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(source.slice(i))!;
+      tokens.push({ kind: "number", value: Number(match[0]), pos: i });
+      i += match[0].length;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === "\\" && i + 1 < source.length) {
+          const next = source[i + 1]!;
+          value += next === "n" ? "\n" : next === "t" ? "\t" : next;
+          i += 2;
+        } else {
+          value += source[i];
+          i++;
+        }
+      }
+      if (i >= source.length) throw new ExpressionSyntaxError("Unterminated string", start);
+      i++;
+      tokens.push({ kind: "string", value, pos: start });
+      continue;
+    }
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))!;
+      tokens.push({ kind: "name", value: match[0], pos: i });
+      i += match[0].length;
+      continue;
+    }
+    const punct = PUNCTUATION.find((p) => source.startsWith(p, i));
+    if (!punct) throw new ExpressionSyntaxError(`Unexpected character '${ch}'`, i);
+    tokens.push({ kind: "punct", value: punct, pos: i });
+    i += punct.length;
+  }
+  tokens.push({ kind: "end", pos: source.length });
+  return tokens;
+}
+
+function describe(token: Token): string {
+  if (token.kind === "end") return "end of expression";
+  if (token.kind === "string") return `"${token.value}"`;
+  return `'${token.value}'`;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  private peek(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++]!;
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token.kind === "punct" && token.value === value;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.kind !== "punct" || token.value !== value) {
+      throw new ExpressionSyntaxError(`Expected '${value}' but found ${describe(token)}`, token.pos);
+    }
+  }
+
+  parse(): ExpressionNode {
+    const node = this.binary(0);
+    const token = this.peek();
+    if (token.kind !== "end") {
+      throw new ExpressionSyntaxError(`Unexpected ${describe(token)}`, token.pos);
+    }
+    return node;
+  }
+
+  private binaryOperator(level: number): BinaryOperator | null {
+    const token = this.peek();
+    const ops = PRECEDENCE[level]!;
+    if (token.kind === "punct" || (token.kind === "name" && WORD_OPERATORS.has(token.value))) {
+      return ops.find((op) => op === token.value) ?? null;
+    }
+    return null;
+  }
+
+  private binary(level: number): ExpressionNode {
+    if (level >= PRECEDENCE.length) return this.unary();
+    let left = this.binary(level + 1);
+    for (let op = this.binaryOperator(level); op; op = this.binaryOperator(level)) {
+      const opToken = this.next();
+      const right = this.binary(level + 1);
+      if (op === "matches" && right.type === "literal" && typeof right.value === "string") {
+        try {
+          new RegExp(right.value);
+        } catch {
+          throw new ExpressionSyntaxError(`Invalid regular expression "${right.value}"`, opToken.pos);
+        }
+      }
+      left = { type: "binary", op, left, right };
+    }
+    return left;
+  }
+
+  private unary(): ExpressionNode {
+    if (this.isPunct("!") || this.isPunct("-")) {
+      const op = (this.next() as { value: "!" | "-" }).value;
+      return { type: "unary", op, operand: this.unary() };
+    }
+    return this.postfix(this.primary());
+  }
+
+  private postfix(node: ExpressionNode): ExpressionNode {
+    for (;;) {
+      if (this.isPunct(".")) {
+        this.next();
+        const name = this.next();
+        if (name.kind !== "name") {
+          throw new ExpressionSyntaxError(`Expected a member name but found ${describe(name)}`, name.pos);
+        }
+        node = { type: "member", object: node, property: { type: "literal", value: name.value } };
+      } else if (this.isPunct("[")) {
+        this.next();
+        const property = this.binary(0);
+        this.expect("]");
+        node = { type: "member", object: node, property };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private primary(): ExpressionNode {
+    const token = this.next();
+    switch (token.kind) {
+      case "number":
+      case "string":
+        return { type: "literal", value: token.value };
+      case "name": {
+        if (token.value === "true" || token.value === "false") {
+          return { type: "literal", value: token.value === "true" };
+        }
+        if (token.value === "null") return { type: "literal", value: null };
+        if (FUNCTIONS.has(token.value) && this.isPunct("(")) {
+          this.next();
+          const args: ExpressionNode[] = [];
+          if (!this.isPunct(")")) {
+            do {
+              args.push(this.binary(0));
+            } while (this.isPunct(",") && this.next());
+          }
+          this.expect(")");
+          if (args.length !== 1) {
+            throw new ExpressionSyntaxError(`${token.value}() takes exactly one argument`, token.pos);
+          }
+          return { type: "call", name: token.value, args };
+        }
+        if (!(EXPRESSION_VARIABLES as readonly string[]).includes(token.value)) {
+          throw new ExpressionSyntaxError(
+            `Unknown name '${token.value}'; use ${EXPRESSION_VARIABLES.join(", ")}`,
+            token.pos,
+          );
+        }
+        return { type: "identifier", name: token.value };
+      }
+      case "punct":
+        if (token.value === "(") {
+          const inner = this.binary(0);
+          this.expect(")");
+          return inner;
+        }
+        if (token.value === "[") {
+          const items: ExpressionNode[] = [];
+          if (!this.isPunct("]")) {
+            do {
+              items.push(this.binary(0));
+            } while (this.isPunct(",") && this.next());
+          }
+          this.expect("]");
+          return { type: "array", items };
+        }
+        throw new ExpressionSyntaxError(`Unexpected ${describe(token)}`, token.pos);
+      default:
+        throw new ExpressionSyntaxError("Expression is incomplete", token.pos);
+    }
+  }
+}
+
+/** Parse source into an expression tree; throws ExpressionSyntaxError. */
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(tokenize(source)).parse();
+}
+
+export type ExpressionValidation =
+  | { valid: true }
+  | { valid: false; error: string; position: number };
+
+/** Check an expression's syntax without evaluating it. */
+export function validateExpression(source: string): ExpressionValidation {
+  try {
+    parseExpression(source);
+    return { valid: true };
+  } catch (err) {
+    if (err instanceof ExpressionSyntaxError) {
+      return { valid: false, error: err.message, position: err.position };
+    }
+    throw err;
+  }
+}
+
+export type ExpressionScope = Record<(typeof EXPRESSION_VARIABLES)[number], ExpressionValue>;
+
+const regexCache = new Map<string, RegExp | null>();
+
+function toRegex(source: string): RegExp | null {
+  if (!regexCache.has(source)) {
+    let regex: RegExp | null = null;
+    try {
+      regex = new RegExp(source);
+    } catch {
+      // non-literal pattern that does not compile: no match
+    }
+    if (regexCache.size > 1000) regexCache.clear();
+    regexCache.set(source, regex);
+  }
+  return regexCache.get(source)!;
+}
+
+export function isTruthy(value: ExpressionValue): boolean {
+  return value !== null && value !== false && value !== 0 && value !== "";
+}
+
+function equals(a: ExpressionValue, b: ExpressionValue): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== "object" || typeof b !== "object") return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function member(object: ExpressionValue, property: ExpressionValue): ExpressionValue {
+  if (object === null || typeof object !== "object") return null;
+  if (Array.isArray(object)) {
+    return typeof property === "number" && Number.isInteger(property) ? (object[property] ?? null) : null;
+  }
+  if (typeof property !== "string" && typeof property !== "number") return null;
+  const key = String(property);
+  return Object.prototype.hasOwnProperty.call(object, key) ? (object[key] ?? null) : null;
+}
+
+function compare(op: "<" | "<=" | ">" | ">=", a: ExpressionValue, b: ExpressionValue): boolean | null {
+  const comparable =
+    (typeof a === "number" && typeof b === "number") ||
+    (typeof a === "string" && typeof b === "string");
+  if (!comparable) return null;
+  switch (op) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+function includes(container: ExpressionValue, item: ExpressionValue): boolean | null {
+  if (Array.isArray(container)) return container.some((entry) => equals(entry, item));
+  if (typeof container === "string") return typeof item === "string" ? container.includes(item) : null;
+  if (container !== null && typeof container === "object" && typeof item === "string") {
+    return Object.prototype.hasOwnProperty.call(container, item);
+  }
+  return null;
+}
+
+function arithmetic(op: "+" | "-" | "*" | "/" | "%", a: ExpressionValue, b: ExpressionValue): ExpressionValue {
+  if (op === "+" && typeof a === "string" && typeof b === "string") return a + b;
+  if (typeof a !== "number" || typeof b !== "number") return null;
+  switch (op) {
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+      return b === 0 ? null : a / b;
+    default:
+      return b === 0 ? null : a % b;
+  }
+}
+
+function call(name: string, arg: ExpressionValue): ExpressionValue {
+  switch (name) {
+    case "len":
+      if (typeof arg === "string" || Array.isArray(arg)) return arg.length;
+      return arg !== null && typeof arg === "object" ? Object.keys(arg).length : null;
+    case "lower":
+      return typeof arg === "string" ? arg.toLowerCase() : null;
+    default:
+      return typeof arg === "string" ? arg.toUpperCase() : null;
+  }
+}
+
+/** Evaluate a parsed expression against scope. */
+export function evaluateExpression(node: ExpressionNode, scope: ExpressionScope): ExpressionValue {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "array":
+      return node.items.map((item) => evaluateExpression(item, scope));
+    case "identifier":
+      return scope[node.name as keyof ExpressionScope] ?? null;
+    case "member":
+      return member(evaluateExpression(node.object, scope), evaluateExpression(node.property, scope));
+    case "call":
+      return call(node.name, evaluateExpression(node.args[0]!, scope));
+    case "unary": {
+      const value = evaluateExpression(node.operand, scope);
+      if (node.op === "!") return !isTruthy(value);
+      return typeof value === "number" ? -value : null;
+    }
+    case "binary": {
+      const { op } = node;
+      if (op === "&&") {
+        return isTruthy(evaluateExpression(node.left, scope)) && isTruthy(evaluateExpression(node.right, scope));
+      }
+      if (op === "||") {
+        return isTruthy(evaluateExpression(node.left, scope)) || isTruthy(evaluateExpression(node.right, scope));
+      }
+      const left = evaluateExpression(node.left, scope);
+      const right = evaluateExpression(node.right, scope);
+      switch (op) {
+        case "==":
+          return equals(left, right);
+        case "!=":
+          return !equals(left, right);
+        case "<":
+        case "<=":
+        case ">":
+        case ">=":
+          return compare(op, left, right);
+        case "in":
+          return includes(right, left);
+        case "contains":
+          return includes(left, right);
+        case "startsWith":
+          return typeof left === "string" && typeof right === "string" ? left.startsWith(right) : null;
+        case "endsWith":
+          return typeof left === "string" && typeof right === "string" ? left.endsWith(right) : null;
+        case "matches": {
+          if (typeof left !== "string" || typeof right !== "string") return null;
+          return toRegex(right)?.test(left) ?? null;
+        }
+        default:
+          return arithmetic(op, left, right);
+      }
+    }
+  }
+}
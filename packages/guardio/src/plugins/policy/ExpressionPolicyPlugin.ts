@@ -0,0 +1,190 @@
+import { z } from "zod";
+import type {
+  PolicyPluginInterface,
+  PolicyRequestContext,
+  PolicyResult,
+} from "../../interfaces/index.js";
+import type { PolicyPluginDefinition } from "../../config/plugin-types.js";
+import { logger } from "../../logger.js";
+import {
+  evaluateExpression,
+  isTruthy,
+  parseExpression,
+  validateExpression,
+  type ExpressionNode,
+  type ExpressionScope,
+  type ExpressionValue,
+} from "./Expression.js";
+
+const expressionRuleSchema = z.object({
+  when: z
+    .string()
+    .min(1)
+    .superRefine((source, ctx) => {
+      const result = validateExpression(source);
+      if (!result.valid) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${result.error} (at character ${result.position + 1})`,
+        });
+      }
+    })
+    .describe('Condition, e.g. args.amount > 1000 && agent.name startsWith "test-"'),
+  /** allow ends evaluation without blocking, so a rule can carve out an exception for later rules. */
+  verdict: z
+    .enum(["block", "flag", "negotiate", "allow"])
+    .default("block")
+    .describe("What happens when the condition is true"),
+  code: z.string().min(1).optional().describe("Machine-readable code returned with the verdict"),
+  reason: z.string().min(1).optional().describe("Message returned to the agent"),
+});
+
+export const expressionConfigSchema = z.object({
+  /** Checked in order; the first rule whose condition is true decides. */
+  rules: z.array(expressionRuleSchema).min(1).describe("Rules, checked in order"),
+  /** IANA time zone for the time variables (e.g. "Europe/Paris"). */
+  timeZone: z
+    .string()
+    .default("UTC")
+    .refine(
+      (zone) => {
+        try {
+          new Intl.DateTimeFormat("en-US", { timeZone: zone });
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: "Unknown time zone" },
+    )
+    .describe("Time zone for time.hour, time.weekday and time.date"),
+});
+
+export type ExpressionRule = z.infer<typeof expressionRuleSchema>;
+export type ExpressionPolicyPluginConfig = z.infer<typeof expressionConfigSchema>;
+
+/** RJSF UI schema: rules[].when uses the dashboard's ExpressionEditor widget (live syntax check). */
+export const EXPRESSION_UI_SCHEMA: object = {
+  rules: {
+    items: {
+      when: {
+        "ui:widget": "ExpressionEditor",
+        "ui:title": "When",
+        "ui:placeholder": 'args.amount > 1000 && agent.name startsWith "test-"',
+      },
+      verdict: { "ui:title": "Then" },
+      code: { "ui:placeholder": "LARGE_TRANSFER" },
+      reason: { "ui:widget": "textarea", "ui:options": { rows: 2 } },
+    },
+  },
+  timeZone: { "ui:title": "Time zone", "ui:placeholder": "UTC" },
+};
+
+/** time variable: hour, minute, weekday ("mon"), date ("2025-01-31") in timeZone, and timestamp (epoch ms). */
+function timeScope(now: Date, timeZone: string): ExpressionValue {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      weekday: "short",
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value]),
+  );
+  return {
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: String(parts.weekday).toLowerCase(),
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    timestamp: now.getTime(),
+  };
+}
+
+/** Round-trip through JSON so expressions only ever see plain data. */
+function toValue(value: unknown): ExpressionValue {
+  if (value === undefined) return null;
+  try {
+    return (JSON.parse(JSON.stringify(value)) as ExpressionValue) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Policy plugin that evaluates rules written in a small expression language (see Expression.ts)
+ * against the tool name, arguments, agent, server and time. Rules are checked in order and the
+ * first whose condition is true returns its verdict; if none matches, the call is allowed.
+ * Expressions are parsed once, at construction, and cannot call code or reach outside the data
+ * they are given.
+ *
+ * Config: { rules: [ { when, verdict?, code?, reason? }, ... ], timeZone? }
+ */
+export class ExpressionPolicyPlugin implements PolicyPluginInterface {
+  readonly name = "expression";
+
+  private readonly config: ExpressionPolicyPluginConfig;
+  private readonly conditions: ExpressionNode[];
+
+  getConfigSchema(): z.ZodType {
+    return expressionConfigSchema;
+  }
+
+  getUiSchema(): object {
+    return EXPRESSION_UI_SCHEMA;
+  }
+
+  constructor(config: Record<string, unknown>) {
+    const parsed = expressionConfigSchema.safeParse(config);
+    if (!parsed.success) {
+      throw new Error(`ExpressionPolicyPlugin invalid config: ${parsed.error.message}`);
+    }
+    this.config = parsed.data;
+    this.conditions = this.config.rules.map((rule) => parseExpression(rule.when));
+  }
+
+  private scope(context: PolicyRequestContext): ExpressionScope {
+    return {
+      tool: {
+        name: context.toolName,
+        description: context.tool?.description ?? null,
+        riskScore: context.tool?.risk?.score ?? null,
+      },
+      args: toValue(context.args),
+      agent: { id: context.agentId ?? null, name: context.agentName ?? null },
+      server: { name: context.serverName ?? null },
+      time: timeScope(new Date(), this.config.timeZone),
+    };
+  }
+
+  async evaluate(context: PolicyRequestContext): Promise<PolicyResult> {
+    const scope = this.scope(context);
+    for (let i = 0; i < this.conditions.length; i++) {
+      if (!isTruthy(evaluateExpression(this.conditions[i]!, scope))) continue;
+      const rule = this.config.rules[i]!;
+      logger.debug(
+        { toolName: context.toolName, plugin: this.name, ruleIndex: i, verdict: rule.verdict },
+        "Expression policy rule matched",
+      );
+      if (rule.verdict === "allow") return { verdict: "allow" };
+      return {
+        verdict: rule.verdict,
+        code: rule.code ?? "EXPRESSION_RULE_MATCHED",
+        reason: rule.reason ?? `Tool call matched policy rule: ${rule.when}`,
+        metadata: { ruleIndex: i, expression: rule.when },
+      };
+    }
+    return { verdict: "allow" };
+  }
+}
+
+export const expressionDefinition: PolicyPluginDefinition = {
+  name: "expression",
+  factory: (config) => new ExpressionPolicyPlugin(config),
+  configSchema: expressionConfigSchema,
+  uiSchema: EXPRESSION_UI_SCHEMA,
+};
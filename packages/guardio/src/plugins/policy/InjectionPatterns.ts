@@ -0,0 +1,90 @@
+/**
+ * Pattern library for instructions hidden in text an agent will read: tool definitions
+ * (tool scanner) and tool results (prompt-injection policy). Heuristic and offline.
+ */
+
+/** Characters that render as nothing: zero-width, bidi controls and Unicode tag characters. */
+export const INVISIBLE_CHARS =
+  /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF\u{E0000}-\u{E007F}]/u;
+
+export const INJECTION_PATTERNS = {
+  /** "Ignore previous instructions", "you are now …". */
+  instruction_override: [
+    /\b(ignore|disregard|forget|override)\s+(all\s+|any\s+)?(the\s+|your\s+)?(previous|prior|above|earlier|preceding|other|system)\s+(instructions?|prompts?|rules|directions|messages)/i,
+    /\byou\s+are\s+now\b/i,
+    /\bnew\s+instructions?\s*:/i,
+  ],
+  /** "Do not tell the user", "without informing the user". */
+  concealment: [
+    /\b(do\s+not|don'?t|never)\s+(tell|inform|mention|reveal|show|notify|disclose)\b[^.]{0,40}\b(user|human)\b/i,
+    /\bwithout\s+(telling|informing|notifying|alerting|asking)\s+(the\s+)?(user|human)\b/i,
+    /\b(user|human)\s+(must|should)\s+not\s+(know|see|notice|be\s+told)\b/i,
+    /\bkeep\s+(this|it|these)\s+(a\s+)?(secret|hidden)\b/i,
+  ],
+  /** Sending data to an outside address, or smuggling it through tool arguments. */
+  exfiltration: [
+    /\b(send|post|upload|forward|transmit|exfiltrate|leak)\b[^.]{0,60}\bto\s+(https?:\/\/|www\.|[\w.-]+@[\w-]+\.|(an?\s+|the\s+)?(external|remote|following)\s+(server|url|endpoint|address|email))/i,
+    /\b(include|pass|put|add|embed)\b[^.]{0,40}\b(contents?|secrets?|credentials?|conversation|chat\s+history|previous\s+messages)\b[^.]{0,40}\b(in|into|as)\s+(the\s+)?[\w"' ]{0,20}(parameter|argument|field)\b/i,
+  ],
+  invisible_unicode: [INVISIBLE_CHARS],
+  /** SSH keys, .env files, cloud credentials. */
+  sensitive_file_access: [
+    /~\/\.ssh\b|\bid_(rsa|ed25519|ecdsa)\b|\/etc\/(passwd|shadow)\b|\.aws\/credentials\b|\.git-credentials\b|\.netrc\b|\.npmrc\b|(^|[\s"'`/~])\.env\b|\bmcp\.json\b/i,
+    /\bread\s+(the\s+)?(contents?\s+of\s+)?[^.]{0,30}\b(ssh\s+keys?|private\s+keys?|api\s+keys?|credentials|secrets|passwords|tokens)\b/i,
+  ],
+  /** Pseudo-markup that makes text look authoritative: <IMPORTANT>, [SYSTEM]. */
+  hidden_tags: [
+    /<\s*\/?\s*(important|system|instructions?|secret|hidden|admin)\s*>/i,
+    /\[\s*(system|instructions?)\s*\]/i,
+  ],
+  /** Instructions about how to use other tools. */
+  tool_shadowing: [
+    /\b(before|after|instead\s+of|when)\s+(using|calling|invoking)\s+(any|the|other|another)\b[^.]{0,40}\btools?\b/i,
+    /\bother\s+tools?\s+(must|should)\b/i,
+  ],
+  /** Chat-template markers and fake turns ("System:", "<|im_start|>"). */
+  role_injection: [
+    /^\s*(system|assistant|developer)\s*:/im,
+    /<\|(im_start|im_end|system|endoftext)\|>|\[\/?INST\]|<<\/?SYS>>/i,
+  ],
+  /** Telling the agent to call a tool right away. */
+  tool_invocation: [
+    /\b(now|immediately|next|first)\s*,?\s+(call|use|invoke|run|execute)\b[^.]{0,40}\btool\b/i,
+    /\byou\s+(must|should|need\s+to)\s+(call|invoke|run|execute)\b[^.]{0,40}\btool\b/i,
+  ],
+  /** Asking for passwords, keys or tokens. */
+  credential_request: [
+    /\b(provide|enter|send|share|reveal|paste)\s+(me\s+)?(your|the\s+user'?s?)\s+(password|api\s+key|credentials|token|secret|private\s+key)/i,
+  ],
+} satisfies Record<string, RegExp[]>;
+
+export type InjectionRule = keyof typeof INJECTION_PATTERNS;
+
+export const INJECTION_RULE_NAMES = Object.keys(INJECTION_PATTERNS) as [
+  InjectionRule,
+  ...InjectionRule[],
+];
+
+/** First match of any pattern in text, or null. */
+export function matchAny(patterns: RegExp[], text: string): RegExpExecArray | null {
+  for (const pattern of patterns) {
+    const match = pattern.exec(text);
+    if (match) return match;
+  }
+  return null;
+}
+
+const EXCERPT_CONTEXT = 30;
+
+/** Text around a match, with invisible characters spelled out (\u{200B}) so they can be seen. */
+export function matchExcerpt(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - EXCERPT_CONTEXT);
+  const end = Math.min(text.length, index + length + EXCERPT_CONTEXT);
+  const visible = text
+    .slice(start, end)
+    .replace(
+      new RegExp(INVISIBLE_CHARS.source, "gu"),
+      (c) => `\\u{${c.codePointAt(0)!.toString(16).toUpperCase()}}`,
+    );
+  return `${start > 0 ? "…" : ""}${visible}${end < text.length ? "…" : ""}`;
+}
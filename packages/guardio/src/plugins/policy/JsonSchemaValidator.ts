@@ -0,0 +1,283 @@
+/**
+ * Small JSON Schema validator for MCP tool input schemas. Covers the keywords tool schemas use
+ * in practice (type, properties, required, additionalProperties, items, enum, const, string,
+ * number and array bounds, pattern, allOf/anyOf/oneOf, not and local $ref). Unknown keywords,
+ * including format, are ignored, so a schema never fails because of what this does not check.
+ */
+
+export interface JsonSchemaViolation {
+  /** Where in the arguments, e.g. "items[0].name"; "" for the arguments object itself. */
+  path: string;
+  message: string;
+}
+
+type Schema = Record<string, unknown>;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+}
+
+function describe(value: unknown): string {
+  const json = JSON.stringify(value);
+  return json !== undefined && json.length <= 40 ? json : typeOf(value);
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/** Resolve "#/$defs/x" or "#/definitions/x" style refs against the root schema. */
+function resolveRef(root: Schema, ref: string): Schema | undefined {
+  if (!ref.startsWith("#")) return undefined;
+  let node: unknown = root;
+  for (const raw of ref.slice(1).split("/").filter(Boolean)) {
+    const part = raw.replace(/~1/g, "/").replace(/~0/g, "~");
+    if (!isObject(node)) return undefined;
+    node = node[part];
+  }
+  return isObject(node) ? node : undefined;
+}
+
+class Validator {
+  readonly violations: JsonSchemaViolation[] = [];
+
+  constructor(private readonly root: Schema) {}
+
+  private fail(path: string, message: string): void {
+    this.violations.push({ path, message });
+  }
+
+  /** Violations of schema by value, without recording them. */
+  private probe(schema: unknown, value: unknown, path: string): JsonSchemaViolation[] {
+    const nested = new Validator(this.root);
+    nested.validate(schema, value, path, 0);
+    return nested.violations;
+  }
+
+  validate(schema: unknown, value: unknown, path: string, depth: number): void {
+    if (schema === false) {
+      this.fail(path, "is not allowed");
+      return;
+    }
+    if (!isObject(schema) || depth > 64) return;
+
+    if (typeof schema.$ref === "string") {
+      const target = resolveRef(this.root, schema.$ref);
+      if (target) this.validate(target, value, path, depth + 1);
+    }
+
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some((t) => typeof t === "string" && matchesType(value, t))) {
+        this.fail(path, `must be ${types.join(" or ")}, got ${typeOf(value)}`);
+        return;
+      }
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.some((e) => deepEqual(e, value))) {
+      this.fail(path, `must be one of ${schema.enum.map((e) => JSON.stringify(e)).join(", ")}, got ${describe(value)}`);
+    }
+    if ("const" in schema && !deepEqual(schema.const, value)) {
+      this.fail(path, `must be ${JSON.stringify(schema.const)}, got ${describe(value)}`);
+    }
+
+    if (typeof value === "string") this.validateString(schema, value, path);
+    if (typeof value === "number") this.validateNumber(schema, value, path);
+    if (Array.isArray(value)) this.validateArray(schema, value, path, depth);
+    if (isObject(value)) this.validateObject(schema, value, path, depth);
+
+    if (Array.isArray(schema.allOf)) {
+      for (const sub of schema.allOf) this.validate(sub, value, path, depth + 1);
+    }
+    if (Array.isArray(schema.anyOf) && schema.anyOf.length > 0) {
+      const results = schema.anyOf.map((sub) => this.probe(sub, value, path));
+      if (!results.some((r) => r.length === 0)) {
+        this.violations.push(...closest(results, path, "must match at least one of the allowed shapes"));
+      }
+    }
+    if (Array.isArray(schema.oneOf) && schema.oneOf.length > 0) {
+      const results = schema.oneOf.map((sub) => this.probe(sub, value, path));
+      const passing = results.filter((r) => r.length === 0).length;
+      if (passing === 0) {
+        this.violations.push(...closest(results, path, "must match one of the allowed shapes"));
+      } else if (passing > 1) {
+        this.fail(path, "matches more than one of the allowed shapes");
+      }
+    }
+    if (schema.not !== undefined && this.probe(schema.not, value, path).length === 0) {
+      this.fail(path, "matches a shape that is not allowed");
+    }
+  }
+
+  private validateString(schema: Schema, value: string, path: string): void {
+    const length = [...value].length;
+    if (typeof schema.minLength === "number" && length < schema.minLength) {
+      this.fail(path, `must be at least ${schema.minLength} characters long`);
+    }
+    if (typeof schema.maxLength === "number" && length > schema.maxLength) {
+      this.fail(path, `must be at most ${schema.maxLength} characters long`);
+    }
+    if (typeof schema.pattern === "string") {
+      let re: RegExp | null = null;
+      try {
+        re = new RegExp(schema.pattern, "u");
+      } catch {
+        // invalid pattern in the upstream schema; skip it
+      }
+      if (re && !re.test(value)) this.fail(path, `must match pattern ${schema.pattern}`);
+    }
+  }
+
+  private validateNumber(schema: Schema, value: number, path: string): void {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      this.fail(path, `must be >= ${schema.minimum}, got ${value}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      this.fail(path, `must be <= ${schema.maximum}, got ${value}`);
+    }
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+      this.fail(path, `must be > ${schema.exclusiveMinimum}, got ${value}`);
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+      this.fail(path, `must be < ${schema.exclusiveMaximum}, got ${value}`);
+    }
+    if (
+      typeof schema.multipleOf === "number" &&
+      schema.multipleOf > 0 &&
+      !Number.isInteger(value / schema.multipleOf)
+    ) {
+      this.fail(path, `must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+
+  private validateArray(schema: Schema, value: unknown[], path: string, depth: number): void {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      this.fail(path, `must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      this.fail(path, `must have at most ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems === true) {
+      const seen = value.map((v) => JSON.stringify(v));
+      if (new Set(seen).size !== seen.length) this.fail(path, "must not contain duplicate items");
+    }
+    const prefix = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+    value.forEach((item, i) => {
+      const itemSchema = i < prefix.length ? prefix[i] : schema.items;
+      if (itemSchema !== undefined) this.validate(itemSchema, item, childPath(path, i), depth + 1);
+    });
+  }
+
+  private validateObject(
+    schema: Schema,
+    value: Record<string, unknown>,
+    path: string,
+    depth: number,
+  ): void {
+    const properties = isObject(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (typeof key === "string" && value[key] === undefined) {
+          this.fail(childPath(path, key), "is required");
+        }
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (child === undefined) continue;
+      if (key in properties) {
+        this.validate(properties[key], child, childPath(path, key), depth + 1);
+      } else if (schema.additionalProperties === false) {
+        const known = Object.keys(properties);
+        this.fail(
+          childPath(path, key),
+          known.length > 0
+            ? `is not a known property (expected: ${known.join(", ")})`
+            : "is not a known property",
+        );
+      } else if (isObject(schema.additionalProperties)) {
+        this.validate(schema.additionalProperties, child, childPath(path, key), depth + 1);
+      }
+    }
+  }
+}
+
+/** For a failed anyOf/oneOf, report the branch that came closest, or a summary. */
+function closest(
+  results: JsonSchemaViolation[][],
+  path: string,
+  summary: string,
+): JsonSchemaViolation[] {
+  const best = results.reduce((a, b) => (b.length < a.length ? b : a));
+  return best.length === 1 ? best : [{ path, message: summary }];
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const ka = Object.keys(a);
+  const kb = Object.keys(b);
+  if (ka.length !== kb.length) return false;
+  return ka.every((k) =>
+    deepEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]),
+  );
+}
+
+/** Validate value against a JSON Schema; returns every violation found (empty when valid). */
+export function validateJsonSchema(schema: object, value: unknown): JsonSchemaViolation[] {
+  const validator = new Validator(schema as Schema);
+  validator.validate(schema, value, "", 0);
+  return validator.violations;
+}
+
+/**
+ * Copy of value without object properties the schema does not declare. Objects whose schema
+ * has no properties, or allows extra ones (additionalProperties true or a schema), are kept.
+ * Removed property paths are appended to removed.
+ */
+export function stripUnknownProperties(
+  schema: object,
+  value: unknown,
+  removed: string[] = [],
+): unknown {
+  const root = schema as Schema;
+  const walk = (node: unknown, current: unknown, path: string, depth: number): unknown => {
+    if (!isObject(node) || depth > 64) return current;
+    if (typeof node.$ref === "string") {
+      const target = resolveRef(root, node.$ref);
+      if (target) return walk(target, current, path, depth + 1);
+    }
+    if (Array.isArray(current)) {
+      return current.map((item, i) => walk(node.items, item, childPath(path, i), depth + 1));
+    }
+    if (!isObject(current) || !isObject(node.properties)) return current;
+    const properties = node.properties;
+    const keepExtra =
+      node.additionalProperties === true || isObject(node.additionalProperties);
+    const out: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(current)) {
+      if (key in properties) {
+        out[key] = walk(properties[key], child, childPath(path, key), depth + 1);
+      } else if (keepExtra) {
+        out[key] = child;
+      } else {
+        removed.push(childPath(path, key));
+      }
+    }
+    return out;
+  };
+  return walk(root, value, "", 0);
+}
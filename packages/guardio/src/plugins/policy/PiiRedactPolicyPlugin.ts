@@ -0,0 +1,285 @@
+import { isIPv4, isIPv6 } from "node:net";
+import { z } from "zod";
+import type {
+  PolicyPluginInterface,
+  PolicyRequestContext,
+  PolicyResult,
+} from "../../interfaces/index.js";
+import type { PolicyPluginDefinition } from "../../config/plugin-types.js";
+import { logger } from "../../logger.js";
+import {
+  findTextMatches,
+  replaceTextMatches,
+  rewriteArguments,
+  type TextDetector,
+} from "./ArgumentScanner.js";
+
+const piiActionSchema = z.enum(["redact", "block", "flag", "off"]);
+
+export const piiRedactConfigSchema = z.object({
+  /** What to do with each kind of personal data found in the arguments. */
+  email: piiActionSchema.default("redact").describe("Email addresses"),
+  phone: piiActionSchema
+    .default("redact")
+    .describe("Phone numbers (international +… or separated, e.g. 555-123-4567)"),
+  iban: piiActionSchema.default("redact").describe("IBANs (checksum verified)"),
+  credit_card: piiActionSchema
+    .default("redact")
+    .describe("Credit card numbers (Luhn verified)"),
+  national_id: piiActionSchema
+    .default("redact")
+    .describe("National IDs (US SSN, UK National Insurance number)"),
+  ip_address: piiActionSchema.default("redact").describe("IPv4 and IPv6 addresses"),
+  /** Replacement for redacted values; {entity} becomes the entity name (e.g. EMAIL). */
+  mask: z
+    .string()
+    .min(1)
+    .default("[REDACTED_{entity}]")
+    .describe("Replacement text; {entity} is replaced with the entity name"),
+});
+
+export type PiiRedactPolicyPluginConfig = z.infer<typeof piiRedactConfigSchema>;
+export type PiiAction = z.infer<typeof piiActionSchema>;
+export type PiiEntity = Exclude<keyof PiiRedactPolicyPluginConfig, "mask">;
+
+/** RJSF UI schema for the pii-redact policy configuration form. */
+export const PII_REDACT_UI_SCHEMA: object = {
+  "ui:order": ["email", "phone", "iban", "credit_card", "national_id", "ip_address", "mask"],
+  email: { "ui:title": "Email" },
+  phone: { "ui:title": "Phone number" },
+  iban: { "ui:title": "IBAN" },
+  credit_card: { "ui:title": "Credit card" },
+  national_id: { "ui:title": "National ID" },
+  ip_address: { "ui:title": "IP address" },
+  mask: { "ui:title": "Mask", "ui:placeholder": "[REDACTED_{entity}]" },
+};
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, "");
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/** IBAN length per country (ISO 13616 registry). */
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BI: 27,
+  BR: 29, BY: 28, CH: 21, CR: 22, CY: 28, CZ: 24, DE: 22, DJ: 27, DK: 18, DO: 28,
+  EE: 20, EG: 29, ES: 24, FI: 18, FK: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23,
+  GL: 18, GR: 27, GT: 28, HR: 21, HU: 28, IE: 22, IL: 23, IQ: 23, IS: 26, IT: 27,
+  JO: 30, KW: 30, KZ: 20, LB: 28, LC: 32, LI: 21, LT: 20, LU: 20, LV: 21, LY: 25,
+  MC: 27, MD: 24, ME: 22, MK: 19, MN: 20, MR: 27, MT: 31, MU: 30, NI: 28, NL: 18,
+  NO: 15, OM: 23, PK: 24, PL: 28, PS: 29, PT: 25, QA: 29, RO: 24, RS: 22, RU: 33,
+  SA: 24, SC: 31, SD: 18, SE: 24, SI: 19, SK: 24, SM: 27, SO: 23, ST: 25, SV: 28,
+  TL: 23, TN: 24, TR: 26, UA: 29, VA: 22, VG: 24, XK: 20, YE: 30,
+};
+
+/**
+ * IBAN candidates, exactly as long as their country's IBAN (spaces allowed between
+ * characters), so a match never runs on into the uppercase words that follow it.
+ */
+function ibanPattern(): RegExp {
+  const byLength = new Map<number, string[]>();
+  for (const [country, length] of Object.entries(IBAN_LENGTHS)) {
+    byLength.set(length, [...(byLength.get(length) ?? []), country]);
+  }
+  const alternatives = [...byLength].map(
+    ([length, countries]) => `(?:${countries.join("|")})\\d{2}(?: ?[A-Z0-9]){${length - 4}}`,
+  );
+  return new RegExp(`\\b(?:${alternatives.join("|")})\\b`, "g");
+}
+
+/** ISO 13616 check: move the first four characters to the end, letters to numbers, mod 97 = 1. */
+function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s/g, "").toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const code = ch >= "A" ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const digit of code) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * Detectors in priority order: when matches overlap, the earlier detector wins (a card
+ * number is not also reported as a phone number).
+ */
+const DETECTORS: TextDetector<PiiEntity>[] = [
+  { kind: "email", pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  {
+    kind: "iban",
+    pattern: ibanPattern(),
+    validate: isValidIban,
+  },
+  {
+    kind: "credit_card",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (m) => passesLuhn(digitsOf(m)),
+  },
+  {
+    kind: "national_id",
+    pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g,
+  },
+  {
+    kind: "national_id",
+    pattern: /\b[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+  },
+  {
+    kind: "ip_address",
+    // Not part of a longer dotted or suffixed version (1.2.3.4.5, 1.2.3.4-beta).
+    pattern: /(?<![\w.@-])\d{1,3}(?:\.\d{1,3}){3}(?![\w-]|\.\d)/g,
+    // All single digits reads as a version number (1.2.3.4), not a client address.
+    validate: (m) => isIPv4(m) && !/^\d(?:\.\d){3}$/.test(m),
+  },
+  {
+    kind: "ip_address",
+    pattern: /(?<![\w:])[0-9A-Fa-f]{0,4}(?::[0-9A-Fa-f]{0,4}){2,7}(?![\w:])/g,
+    validate: (m) => isIPv6(m),
+  },
+  {
+    kind: "phone",
+    // International numbers start with +: 8-15 digits in any grouping.
+    pattern: /(?<![\w+])\+\d[\d ().-]{6,}\d\b/g,
+    validate: (m) => {
+      const count = digitsOf(m).length;
+      return count >= 8 && count <= 15 && !/\d{4}-\d{2}-\d{2}/.test(m);
+    },
+  },
+  {
+    kind: "phone",
+    // Without a country code only 3-3-4 groups with one kind of separator, (555) 123-4567
+    // included, so dates, times and ranges (2024-01-15 10:30, 1000-2000) do not match.
+    pattern:
+      /(?<![\w+-]|\d[.:])(?:\(\d{3}\) ?\d{3}[ .-]|\d{3}-\d{3}-|\d{3}\.\d{3}\.|\d{3} \d{3} )\d{4}(?![\w-]|[.:]\d)/g,
+  },
+];
+
+/**
+ * Detectors for integers in the arguments, which have no separators to go by: card numbers
+ * (Luhn verified), US SSNs and US phone numbers (area code and exchange start with 2-9, so
+ * second timestamps do not match).
+ */
+const NUMBER_DETECTORS: TextDetector<PiiEntity>[] = [
+  { kind: "credit_card", pattern: /^\d{13,19}$/g, validate: passesLuhn },
+  { kind: "national_id", pattern: /^(?!000|666|9\d\d)\d{3}(?!00)\d{2}(?!0000)\d{4}$/g },
+  { kind: "phone", pattern: /^1?[2-9]\d{2}[2-9]\d{6}$/g },
+];
+
+export interface PiiFinding {
+  entity: PiiEntity;
+  /** Location in the arguments, e.g. "customer.emails[0]". */
+  path: string;
+  action: Exclude<PiiAction, "off">;
+}
+
+/**
+ * Policy plugin that finds personal data (emails, phone numbers, IBANs, credit cards,
+ * national IDs, IP addresses) in string values anywhere in the tool arguments, and card,
+ * phone and ID numbers passed as numbers, and, per entity, masks it (modified_args, a masked
+ * number becomes the mask string), blocks the call or flags it. Blocking wins over flagging;
+ * masked values are replaced in place, keeping the rest of the string.
+ * Findings (entity and argument path, never the values) go to metadata.
+ */
+export class PiiRedactPolicyPlugin implements PolicyPluginInterface {
+  readonly name = "pii-redact";
+
+  private readonly config: PiiRedactPolicyPluginConfig;
+
+  getConfigSchema(): z.ZodType {
+    return piiRedactConfigSchema;
+  }
+
+  getUiSchema(): object {
+    return PII_REDACT_UI_SCHEMA;
+  }
+
+  constructor(config: Record<string, unknown>) {
+    const parsed = piiRedactConfigSchema.safeParse(config ?? {});
+    if (!parsed.success) {
+      throw new Error(`PiiRedactPolicyPlugin invalid config: ${parsed.error.message}`);
+    }
+    this.config = parsed.data;
+  }
+
+  async evaluate(context: PolicyRequestContext): Promise<PolicyResult> {
+    const args = context.args;
+    if (args == null || typeof args !== "object" || Array.isArray(args)) {
+      return { verdict: "allow" };
+    }
+    const findings: PiiFinding[] = [];
+    const modified = rewriteArguments(
+      args as Record<string, unknown>,
+      (text, path, source) =>
+        this.scanString(text, path, findings, source === "number" ? NUMBER_DETECTORS : DETECTORS),
+      { numbers: true },
+    );
+    if (findings.length === 0) return { verdict: "allow" };
+
+    const entities = [...new Set(findings.map((f) => f.entity))];
+    const metadata = { findings, entities };
+    const blocked = findings.filter((f) => f.action === "block");
+    if (blocked.length > 0) {
+      const where = blocked.map((f) => `${f.entity} in ${f.path}`).join(", ");
+      logger.debug({ toolName: context.toolName, plugin: this.name, entities }, "PII found, blocking call");
+      return {
+        verdict: "block",
+        code: "PII_DETECTED",
+        reason: `Arguments contain personal data that may not be sent to this tool (${where}).`,
+        metadata,
+      };
+    }
+    const flagged = findings.some((f) => f.action === "flag");
+    const redacted = Object.keys(modified).length > 0;
+    logger.debug(
+      { toolName: context.toolName, plugin: this.name, entities, redacted, flagged },
+      "PII found in arguments",
+    );
+    return {
+      verdict: flagged ? "flag" : "allow",
+      code: flagged ? "PII_DETECTED" : "PII_REDACTED",
+      reason: redacted
+        ? `Personal data was masked before forwarding (${entities.join(", ")}).`
+        : `Arguments contain personal data (${entities.join(", ")}).`,
+      ...(redacted ? { modified_args: modified } : {}),
+      metadata,
+    };
+  }
+
+  /** Record findings under path and return text with redact-action matches masked. */
+  private scanString(
+    text: string,
+    path: string,
+    findings: PiiFinding[],
+    detectors: readonly TextDetector<PiiEntity>[],
+  ): string {
+    return replaceTextMatches(text, findTextMatches(text, detectors), (match) => {
+      const action = this.config[match.kind];
+      if (action === "off") return null;
+      findings.push({ entity: match.kind, path, action });
+      return action === "redact" ? this.mask(match.kind) : null;
+    });
+  }
+
+  private mask(entity: PiiEntity): string {
+    return this.config.mask.replaceAll("{entity}", entity.toUpperCase());
+  }
+}
+
+export const piiRedactDefinition: PolicyPluginDefinition = {
+  name: "pii-redact",
+  factory: (config) => new PiiRedactPolicyPlugin(config),
+  configSchema: piiRedactConfigSchema,
+  uiSchema: PII_REDACT_UI_SCHEMA,
+};
@@ -9,28 +9,86 @@ import type { PolicyPluginContext } from "../../interfaces/PolicyPluginContext.j
 import type { PolicyPluginDefinition } from "../../config/plugin-types.js";
 import { logger } from "../../logger.js";
 
-export const rateLimitToolConfigSchema = z.object({
-  /** Maximum calls allowed per time window. */
+const rateLimitTierSchema = z.object({
   limit: z.number().int().min(1).describe("Maximum calls allowed per window"),
-  /** Time window duration in seconds. */
-  windowSeconds: z
-    .number()
-    .int()
-    .min(1)
-    .describe("Time window in seconds"),
+  windowSeconds: z.number().int().min(1).describe("Time window in seconds"),
 });
 
+export const rateLimitToolConfigSchema = z
+  .object({
+    /** Maximum calls allowed per time window. */
+    limit: z.number().int().min(1).optional().describe("Maximum calls allowed per window"),
+    /** Time window duration in seconds. */
+    windowSeconds: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe("Time window in seconds"),
+    /** Additional limits enforced together with limit/windowSeconds, e.g. 10/min and 200/day. */
+    tiers: z
+      .array(rateLimitTierSchema)
+      .default([])
+      .describe("Additional limits; a call must pass all of them"),
+    /** What one counter is kept for. */
+    key: z
+      .enum(["tool", "agent", "agent_tool", "server", "argument"])
+      .default("tool")
+      .describe("Count calls per tool, agent, agent and tool, server, or argument value"),
+    /** Argument whose value is the key when key is "argument"; dots reach nested values. */
+    argument: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Argument name (key: argument), e.g. customer_id or order.customer.id"),
+    algorithm: z
+      .enum(["fixed_window", "sliding_window", "token_bucket"])
+      .default("fixed_window")
+      .describe("Counting algorithm"),
+  })
+  .refine((c) => (c.limit == null) === (c.windowSeconds == null), {
+    message: "limit and windowSeconds must be set together",
+    path: ["windowSeconds"],
+  })
+  .refine((c) => c.limit != null || c.tiers.length > 0, {
+    message: "set limit and windowSeconds, or at least one tier",
+    path: ["limit"],
+  })
+  .refine((c) => c.key !== "argument" || c.argument != null, {
+    message: "argument is required when key is \"argument\"",
+    path: ["argument"],
+  });
+
 export type RateLimitToolPolicyPluginConfig = z.infer<typeof rateLimitToolConfigSchema>;
 
+type RateLimitTier = z.infer<typeof rateLimitTierSchema>;
+
+/** Per-tier state. Fixed and sliding windows count per window; the bucket holds tokens. */
+interface TierState {
+  windowStart?: number;
+  count?: number;
+  previousCount?: number;
+  tokens?: number;
+  updatedAt?: number;
+}
+
 interface RateLimitData extends Record<string, unknown> {
-  windowStart: number;
+  tiers: Record<string, TierState>;
+}
+
+/** Result of checking one tier: the count the call would see, and when room frees up. */
+interface TierCheck {
+  allowed: boolean;
   count: number;
+  next: TierState;
+  resetsAtMs: number;
 }
 
 /**
  * RJSF UI schema for the rate-limit-tool policy configuration form.
  */
 export const RATE_LIMIT_TOOL_UI_SCHEMA: object = {
+  "ui:order": ["key", "argument", "algorithm", "limit", "windowSeconds", "tiers"],
   limit: {
     "ui:title": "Request Limit",
     "ui:description": "Maximum number of calls allowed per time window",
@@ -41,21 +99,69 @@ export const RATE_LIMIT_TOOL_UI_SCHEMA: object = {
     "ui:description": "Time window duration in seconds",
     "ui:placeholder": "60",
   },
+  tiers: {
+    "ui:title": "Additional limits",
+    "ui:description": "E.g. 200 calls per 86400 seconds on top of 10 per 60",
+  },
+  key: {
+    "ui:title": "Limit per",
+  },
+  argument: {
+    "ui:title": "Argument",
+    "ui:description": "Only used when limiting per argument value",
+    "ui:placeholder": "customer_id",
+  },
+  algorithm: {
+    "ui:title": "Algorithm",
+    "ui:description":
+      "Fixed windows reset on the clock; sliding windows smooth the edges; a token bucket refills continuously",
+  },
 };
 
+function argumentValue(args: unknown, path: string): unknown {
+  let value: unknown = args;
+  for (const part of path.split(".")) {
+    if (value == null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+/**
+ * Attempts to count a call beyond the highest limit. Every lost race means another call was
+ * counted, so a call normally sees a full counter (and is blocked) after at most `limit`
+ * conflicts; the extra attempts cover window roll-over and token refills.
+ */
+const MAX_UPDATE_ATTEMPTS = 10;
+
+function tierId(tier: RateLimitTier): string {
+  return `${tier.limit}/${tier.windowSeconds}s`;
+}
+
 /**
  * Rate limiting policy plugin that enforces a maximum number of tool calls
- * within a configurable time window. Uses PluginRepository for persistence.
+ * within configurable time windows. Uses PluginRepository for persistence.
  *
- * Uses fixed time windows (e.g., 0:00-1:00, 1:00-2:00) for simplicity.
+ * Counters are kept per tool (default), agent, agent and tool, upstream server, or
+ * value of a named argument. Algorithms:
+ * - fixed_window: clock-aligned windows (0:00-1:00, 1:00-2:00); bursts at the edge can reach 2x.
+ * - sliding_window: the previous window's count, weighted by how much of it still overlaps
+ *   the sliding window, plus the current count.
+ * - token_bucket: `limit` tokens, refilled evenly over `windowSeconds`.
+ * With several tiers a call must pass all of them, and only allowed calls are counted.
+ * Counters are updated with PluginRepository.compareAndSet and re-read after a conflict, so
+ * concurrent calls cannot overrun the limit; a call that still cannot be counted is blocked.
  * If PluginRepository is not available, fails open (allows all requests).
  */
 export class RateLimitToolPolicyPlugin implements PolicyPluginInterface {
   readonly name = "rate-limit-tool";
 
-  private readonly limit: number;
-  private readonly windowSeconds: number;
-  private readonly windowMs: number;
+  private readonly config: RateLimitToolPolicyPluginConfig;
+  private readonly tiers: RateLimitTier[];
+  /** Counters are only needed for two of the longest windows; idle keys expire after that. */
+  private readonly ttlSeconds: number;
+  /** Lost compareAndSet races a call may see before it is blocked (see MAX_UPDATE_ATTEMPTS). */
+  private readonly maxUpdateAttempts: number;
   private readonly repo?: PluginRepository;
 
   getConfigSchema(): z.ZodType {
@@ -73,9 +179,14 @@ export class RateLimitToolPolicyPlugin implements PolicyPluginInterface {
         `RateLimitToolPolicyPlugin invalid config: ${parsed.error.message}`,
       );
     }
-    this.limit = parsed.data.limit;
-    this.windowSeconds = parsed.data.windowSeconds;
-    this.windowMs = this.windowSeconds * 1000;
+    this.config = parsed.data;
+    const { limit, windowSeconds } = parsed.data;
+    this.tiers = [
+      ...(limit != null && windowSeconds != null ? [{ limit, windowSeconds }] : []),
+      ...parsed.data.tiers,
+    ];
+    this.ttlSeconds = 2 * Math.max(...this.tiers.map((t) => t.windowSeconds));
+    this.maxUpdateAttempts = Math.max(...this.tiers.map((t) => t.limit)) + MAX_UPDATE_ATTEMPTS;
     this.repo = context?.pluginRepository;
 
     if (!this.repo) {
@@ -86,6 +197,72 @@ export class RateLimitToolPolicyPlugin implements PolicyPluginInterface {
     }
   }
 
+  /** Counter key for this call, e.g. "ratelimit:agent_tool:<agentId>:<toolName>". */
+  private contextKey(context: PolicyRequestContext): string {
+    const agent = context.agentId ?? "anonymous";
+    switch (this.config.key) {
+      case "agent":
+        return `ratelimit:agent:${agent}`;
+      case "agent_tool":
+        return `ratelimit:agent_tool:${agent}:${context.toolName}`;
+      case "server":
+        return `ratelimit:server:${context.serverName ?? "(unknown)"}`;
+      case "argument": {
+        const value = argumentValue(context.args, this.config.argument!);
+        const text = typeof value === "string" ? value : (JSON.stringify(value) ?? "(none)");
+        return `ratelimit:argument:${this.config.argument}:${text}`;
+      }
+      default:
+        return `ratelimit:${context.toolName}`;
+    }
+  }
+
+  private checkTier(tier: RateLimitTier, state: TierState | undefined, now: number): TierCheck {
+    const windowMs = tier.windowSeconds * 1000;
+
+    if (this.config.algorithm === "token_bucket") {
+      const refillPerMs = tier.limit / windowMs;
+      const elapsed = Math.max(0, now - (state?.updatedAt ?? now));
+      const tokens = Math.min(tier.limit, (state?.tokens ?? tier.limit) + elapsed * refillPerMs);
+      const allowed = tokens >= 1;
+      return {
+        allowed,
+        count: Math.ceil(tier.limit - tokens) + (allowed ? 1 : 0),
+        next: { tokens: allowed ? tokens - 1 : tokens, updatedAt: now },
+        resetsAtMs: now + Math.ceil((allowed ? 0 : 1 - tokens) / refillPerMs),
+      };
+    }
+
+    const windowStart = Math.floor(now / windowMs);
+    const count = state?.windowStart === windowStart ? (state.count ?? 0) : 0;
+    const previousCount =
+      state?.windowStart === windowStart
+        ? (state.previousCount ?? 0)
+        : state?.windowStart === windowStart - 1
+          ? (state.count ?? 0)
+          : 0;
+
+    let used = count;
+    let resetsAtMs = (windowStart + 1) * windowMs;
+    if (this.config.algorithm === "sliding_window") {
+      const overlap = 1 - (now - windowStart * windowMs) / windowMs;
+      used = previousCount * overlap + count;
+      if (used + 1 > tier.limit && count + 1 <= tier.limit) {
+        // Room frees up once enough of the previous window has slid out.
+        const overlapAllowed = (tier.limit - count - 1) / previousCount;
+        resetsAtMs = Math.ceil((windowStart + 1 - overlapAllowed) * windowMs);
+      }
+    }
+
+    const allowed = used + 1 <= tier.limit;
+    return {
+      allowed,
+      count: Math.ceil(used) + (allowed ? 1 : 0),
+      next: { windowStart, count: allowed ? count + 1 : count, previousCount },
+      resetsAtMs,
+    };
+  }
+
   async evaluate(context: PolicyRequestContext): Promise<PolicyResult> {
     if (!this.repo) {
       logger.debug(
@@ -95,69 +272,95 @@ export class RateLimitToolPolicyPlugin implements PolicyPluginInterface {
       return { verdict: "allow" };
     }
 
-    const now = Date.now();
-    const currentWindowStart = Math.floor(now / this.windowMs);
-    const contextKey = `ratelimit:${context.toolName}`;
+    const contextKey = this.contextKey(context);
+    let checks: Array<{ tier: RateLimitTier; check: TierCheck }> | null = null;
 
-    const doc = await this.repo.getDocument(contextKey);
-    const storedData = doc?.data as RateLimitData | undefined;
+    // Optimistic concurrency: count the call only if nobody else updated the counters since
+    // they were read, otherwise read them again.
+    for (let attempt = 0; attempt < this.maxUpdateAttempts && !checks; attempt++) {
+      const now = Date.now();
+      const doc = await this.repo.getDocument(contextKey);
+      const stored = (doc?.data as Partial<RateLimitData> | undefined)?.tiers ?? {};
 
-    const storedWindowStart = storedData?.windowStart ?? 0;
-    const isNewWindow = storedWindowStart !== currentWindowStart;
-    const currentCount = isNewWindow ? 0 : (storedData?.count ?? 0);
+      const attemptChecks = this.tiers.map((tier) => ({
+        tier,
+        check: this.checkTier(tier, stored[tierId(tier)], now),
+      }));
+      const exceeded = attemptChecks
+        .filter(({ check }) => !check.allowed)
+        .sort((a, b) => b.check.resetsAtMs - a.check.resetsAtMs)[0];
 
-    const resetsAtMs = (currentWindowStart + 1) * this.windowMs;
-    const resetsAt = new Date(resetsAtMs).toISOString();
+      if (exceeded) {
+        const { tier, check } = exceeded;
+        const resetsAt = new Date(check.resetsAtMs).toISOString();
+        logger.debug(
+          {
+            toolName: context.toolName,
+            plugin: this.name,
+            contextKey,
+            currentCount: check.count,
+            limit: tier.limit,
+            windowSeconds: tier.windowSeconds,
+          },
+          "Rate limit exceeded",
+        );
+        return {
+          verdict: "block",
+          code: "RATE_LIMIT_EXCEEDED",
+          reason: `Rate limit exceeded: ${check.count}/${tier.limit} calls in ${tier.windowSeconds}s window. Resets at ${resetsAt}.`,
+          metadata: {
+            key: contextKey,
+            algorithm: this.config.algorithm,
+            currentCount: check.count,
+            limit: tier.limit,
+            windowSeconds: tier.windowSeconds,
+            resetsAt,
+          },
+        };
+      }
 
-    if (currentCount >= this.limit) {
-      logger.debug(
-        {
-          toolName: context.toolName,
-          plugin: this.name,
-          currentCount,
-          limit: this.limit,
-          windowSeconds: this.windowSeconds,
-        },
-        "Rate limit exceeded",
+      const newData: RateLimitData = {
+        tiers: Object.fromEntries(
+          attemptChecks.map(({ tier, check }) => [tierId(tier), check.next]),
+        ),
+      };
+      const saved = await this.repo.compareAndSet(contextKey, newData, doc?.version ?? 0, {
+        ttlSeconds: this.ttlSeconds,
+      });
+      if (saved) checks = attemptChecks;
+    }
+
+    if (!checks) {
+      logger.warn(
+        { toolName: context.toolName, plugin: this.name, contextKey },
+        "Rate limit counters kept changing concurrently; blocking request",
       );
       return {
         verdict: "block",
         code: "RATE_LIMIT_EXCEEDED",
-        reason: `Rate limit exceeded: ${currentCount}/${this.limit} calls in ${this.windowSeconds}s window. Resets at ${resetsAt}.`,
-        metadata: {
-          currentCount,
-          limit: this.limit,
-          windowSeconds: this.windowSeconds,
-          resetsAt,
-        },
+        reason: "Rate limit could not be checked under concurrent calls. Try again shortly.",
+        metadata: { key: contextKey, algorithm: this.config.algorithm },
       };
     }
 
-    const newCount = currentCount + 1;
-    const newData: RateLimitData = {
-      windowStart: currentWindowStart,
-      count: newCount,
-    };
-    await this.repo.saveDocument(contextKey, newData, doc?.id);
-
+    const tiers = checks.map(({ tier, check }) => ({
+      currentCount: check.count,
+      limit: tier.limit,
+      windowSeconds: tier.windowSeconds,
+      resetsAt: new Date(check.resetsAtMs).toISOString(),
+    }));
     logger.debug(
-      {
-        toolName: context.toolName,
-        plugin: this.name,
-        count: newCount,
-        limit: this.limit,
-        windowSeconds: this.windowSeconds,
-      },
+      { toolName: context.toolName, plugin: this.name, contextKey, tiers },
       "Rate limit check passed",
     );
 
     return {
       verdict: "allow",
       metadata: {
-        currentCount: newCount,
-        limit: this.limit,
-        windowSeconds: this.windowSeconds,
-        resetsAt,
+        key: contextKey,
+        algorithm: this.config.algorithm,
+        ...tiers[0],
+        ...(tiers.length > 1 && { tiers }),
       },
     };
   }
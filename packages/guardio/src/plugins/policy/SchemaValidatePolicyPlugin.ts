@@ -0,0 +1,141 @@
+import { z } from "zod";
+import type {
+  PolicyPluginInterface,
+  PolicyRequestContext,
+  PolicyResult,
+} from "../../interfaces/index.js";
+import type { PolicyPluginDefinition } from "../../config/plugin-types.js";
+import { logger } from "../../logger.js";
+import {
+  stripUnknownProperties,
+  validateJsonSchema,
+  type JsonSchemaViolation,
+} from "./JsonSchemaValidator.js";
+
+export const schemaValidateConfigSchema = z.object({
+  /** What to do when arguments do not match the tool's inputSchema. */
+  invalidArguments: z
+    .enum(["block", "flag"])
+    .default("block")
+    .describe("Action for arguments that do not match the tool's input schema"),
+  /** What to do with calls to tools the server did not list in tools/list. */
+  unknownTool: z
+    .enum(["block", "flag", "allow"])
+    .default("block")
+    .describe("Action for calls to tools the server does not list"),
+  /** Remove properties the schema does not declare instead of passing them upstream. */
+  stripUnknownProperties: z
+    .boolean()
+    .default(false)
+    .describe("Remove arguments that are not declared in the tool's input schema"),
+});
+
+export type SchemaValidatePolicyPluginConfig = z.infer<typeof schemaValidateConfigSchema>;
+
+/** RJSF UI schema for the schema-validate policy configuration form. */
+export const SCHEMA_VALIDATE_UI_SCHEMA: object = {
+  invalidArguments: { "ui:title": "Invalid arguments" },
+  unknownTool: { "ui:title": "Unknown tool" },
+  stripUnknownProperties: { "ui:title": "Strip unknown properties" },
+};
+
+function formatViolation(v: JsonSchemaViolation): string {
+  return `- ${v.path || "arguments"}: ${v.message}`;
+}
+
+/**
+ * Policy plugin that checks tools/call arguments against the inputSchema the upstream server
+ * published for the tool (PolicyRequestContext.tool). Violations are listed one per line in
+ * the reason so the agent can fix them and retry. Calls to tools missing from the server's
+ * tools/list are reported as UNKNOWN_TOOL. Before Guardio has seen the server's tools, calls
+ * are allowed unchecked.
+ */
+export class SchemaValidatePolicyPlugin implements PolicyPluginInterface {
+  readonly name = "schema-validate";
+
+  private readonly config: SchemaValidatePolicyPluginConfig;
+
+  getConfigSchema(): z.ZodType {
+    return schemaValidateConfigSchema;
+  }
+
+  getUiSchema(): object {
+    return SCHEMA_VALIDATE_UI_SCHEMA;
+  }
+
+  constructor(config: Record<string, unknown>) {
+    const parsed = schemaValidateConfigSchema.safeParse(config ?? {});
+    if (!parsed.success) {
+      throw new Error(`SchemaValidatePolicyPlugin invalid config: ${parsed.error.message}`);
+    }
+    this.config = parsed.data;
+  }
+
+  async evaluate(context: PolicyRequestContext): Promise<PolicyResult> {
+    const { toolName, tool } = context;
+    if (tool === undefined) return { verdict: "allow" };
+    if (tool === null) {
+      if (this.config.unknownTool === "allow") return { verdict: "allow" };
+      logger.debug({ toolName, plugin: this.name }, "Call to a tool the server does not list");
+      return {
+        verdict: this.config.unknownTool,
+        code: "UNKNOWN_TOOL",
+        reason: `The server does not offer a tool named '${toolName}'. Call tools/list to see the available tools.`,
+      };
+    }
+    const schema = tool.inputSchema;
+    if (!schema) return { verdict: "allow" };
+
+    // MCP treats missing arguments as an empty object.
+    let args = context.args ?? {};
+    let modified_args: Record<string, unknown> | undefined;
+    const stripped: string[] = [];
+    if (this.config.stripUnknownProperties) {
+      const next = stripUnknownProperties(schema, args, stripped);
+      if (stripped.length > 0 && next != null && typeof next === "object") {
+        const removedTopLevel = Object.keys(args as object).filter((k) => !(k in next));
+        modified_args = {
+          ...(next as Record<string, unknown>),
+          ...Object.fromEntries(removedTopLevel.map((k) => [k, undefined])),
+        };
+        args = next;
+      }
+    }
+
+    const violations = validateJsonSchema(schema, args);
+    if (violations.length > 0) {
+      logger.debug(
+        { toolName, plugin: this.name, violations: violations.length },
+        "Arguments do not match the tool's input schema",
+      );
+      return {
+        verdict: this.config.invalidArguments,
+        code: "INVALID_ARGUMENTS",
+        reason: [
+          `Invalid arguments for tool '${toolName}':`,
+          ...violations.map(formatViolation),
+          "Fix these arguments and call the tool again.",
+        ].join("\n"),
+        ...(modified_args ? { modified_args } : {}),
+        metadata: { violations, ...(stripped.length > 0 ? { stripped } : {}) },
+      };
+    }
+    if (modified_args) {
+      return {
+        verdict: "allow",
+        code: "UNKNOWN_PROPERTIES_STRIPPED",
+        reason: `Removed arguments not in the tool's input schema: ${stripped.join(", ")}.`,
+        modified_args,
+        metadata: { stripped },
+      };
+    }
+    return { verdict: "allow" };
+  }
+}
+
+export const schemaValidateDefinition: PolicyPluginDefinition = {
+  name: "schema-validate",
+  factory: (config) => new SchemaValidatePolicyPlugin(config),
+  configSchema: schemaValidateConfigSchema,
+  uiSchema: SCHEMA_VALIDATE_UI_SCHEMA,
+};
@@ -0,0 +1,82 @@
+import { z } from "zod";
+import type {
+  PolicyPluginInterface,
+  PolicyRequestContext,
+  PolicyResult,
+} from "../../interfaces/index.js";
+import type { PolicyPluginDefinition } from "../../config/plugin-types.js";
+import { logger } from "../../logger.js";
+
+export const toolRiskConfigSchema = z.object({
+  /** Risk score (0-100) from the tool definition scanner at which the policy acts. */
+  threshold: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .default(40)
+    .describe("Risk score (1-100) at which calls are blocked or flagged"),
+  action: z
+    .enum(["block", "flag"])
+    .default("block")
+    .describe("Block calls to risky tools, or only flag them"),
+});
+
+export type ToolRiskPolicyPluginConfig = z.infer<typeof toolRiskConfigSchema>;
+
+/** RJSF UI schema for the tool-risk policy configuration form. */
+export const TOOL_RISK_UI_SCHEMA: object = {
+  threshold: { "ui:title": "Risk threshold", "ui:widget": "updown" },
+  action: { "ui:title": "Action" },
+};
+
+/**
+ * Policy plugin that acts on the risk score Guardio's tool definition scanner gave the called
+ * tool (PolicyRequestContext.tool.risk). Unlike toolScan.quarantineScore, which applies to
+ * every agent, it can be assigned per agent or tool. Calls are allowed when the scanner is
+ * off or the server's tools are not known yet.
+ */
+export class ToolRiskPolicyPlugin implements PolicyPluginInterface {
+  readonly name = "tool-risk";
+
+  private readonly config: ToolRiskPolicyPluginConfig;
+
+  getConfigSchema(): z.ZodType {
+    return toolRiskConfigSchema;
+  }
+
+  getUiSchema(): object {
+    return TOOL_RISK_UI_SCHEMA;
+  }
+
+  constructor(config: Record<string, unknown>) {
+    const parsed = toolRiskConfigSchema.safeParse(config ?? {});
+    if (!parsed.success) {
+      throw new Error(`ToolRiskPolicyPlugin invalid config: ${parsed.error.message}`);
+    }
+    this.config = parsed.data;
+  }
+
+  async evaluate(context: PolicyRequestContext): Promise<PolicyResult> {
+    const risk = context.tool?.risk;
+    if (!risk || risk.score < this.config.threshold) return { verdict: "allow" };
+    const rules = [...new Set(risk.findings.map((f) => f.rule))];
+    logger.debug(
+      { toolName: context.toolName, plugin: this.name, score: risk.score, rules },
+      "Call to a tool with a risky definition",
+    );
+    return {
+      verdict: this.config.action,
+      code: "TOOL_RISK",
+      reason: `The definition of tool '${context.toolName}' contains suspicious instructions (${rules.join(", ")}; risk score ${risk.score}).`,
+      metadata: { score: risk.score, findings: risk.findings },
+    };
+  }
+}
+
+export const toolRiskDefinition: PolicyPluginDefinition = {
+  name: "tool-risk",
+  factory: (config) => new ToolRiskPolicyPlugin(config),
+  configSchema: toolRiskConfigSchema,
+  uiSchema: TOOL_RISK_UI_SCHEMA,
+};
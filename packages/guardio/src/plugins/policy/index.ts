@@ -18,3 +18,85 @@ export {
   rateLimitToolDefinition,
   type RateLimitToolPolicyPluginConfig,
 } from "./RateLimitToolPolicyPlugin.js";
+export {
+  ConcurrencyLimitPolicyPlugin,
+  CONCURRENCY_LIMIT_UI_SCHEMA,
+  concurrencyLimitConfigSchema,
+  concurrencyLimitDefinition,
+  type ConcurrencyLimitPolicyPluginConfig,
+} from "./ConcurrencyLimitPolicyPlugin.js";
+export {
+  PiiRedactPolicyPlugin,
+  PII_REDACT_UI_SCHEMA,
+  piiRedactConfigSchema,
+  piiRedactDefinition,
+  type PiiRedactPolicyPluginConfig,
+  type PiiAction,
+  type PiiEntity,
+  type PiiFinding,
+} from "./PiiRedactPolicyPlugin.js";
+export {
+  SecretScanPolicyPlugin,
+  SECRET_SCAN_UI_SCHEMA,
+  SECRET_DETECTOR_NAMES,
+  secretScanConfigSchema,
+  secretScanDefinition,
+  shannonEntropy,
+  type SecretScanPolicyPluginConfig,
+  type SecretDetectorName,
+  type SecretFinding,
+} from "./SecretScanPolicyPlugin.js";
+export {
+  SchemaValidatePolicyPlugin,
+  SCHEMA_VALIDATE_UI_SCHEMA,
+  schemaValidateConfigSchema,
+  schemaValidateDefinition,
+  type SchemaValidatePolicyPluginConfig,
+} from "./SchemaValidatePolicyPlugin.js";
+export {
+  ToolRiskPolicyPlugin,
+  TOOL_RISK_UI_SCHEMA,
+  toolRiskConfigSchema,
+  toolRiskDefinition,
+  type ToolRiskPolicyPluginConfig,
+} from "./ToolRiskPolicyPlugin.js";
+export {
+  PromptInjectionPolicyPlugin,
+  PROMPT_INJECTION_UI_SCHEMA,
+  PROMPT_INJECTION_RULE_NAMES,
+  DEFAULT_INJECTION_BANNER,
+  promptInjectionConfigSchema,
+  promptInjectionDefinition,
+  type PromptInjectionPolicyPluginConfig,
+  type PromptInjectionRuleName,
+  type InjectionFinding,
+} from "./PromptInjectionPolicyPlugin.js";
+export {
+  ExpressionPolicyPlugin,
+  EXPRESSION_UI_SCHEMA,
+  expressionConfigSchema,
+  expressionDefinition,
+  type ExpressionPolicyPluginConfig,
+  type ExpressionRule,
+} from "./ExpressionPolicyPlugin.js";
+export {
+  parseExpression,
+  evaluateExpression,
+  validateExpression,
+  ExpressionSyntaxError,
+  EXPRESSION_VARIABLES,
+  type ExpressionNode,
+  type ExpressionScope,
+  type ExpressionValidation,
+  type ExpressionValue,
+} from "./Expression.js";
+export {
+  INJECTION_PATTERNS,
+  INJECTION_RULE_NAMES,
+  type InjectionRule,
+} from "./InjectionPatterns.js";
+export {
+  validateJsonSchema,
+  stripUnknownProperties,
+  type JsonSchemaViolation,
+} from "./JsonSchemaValidator.js";
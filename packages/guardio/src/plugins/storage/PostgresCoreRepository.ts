@@ -3,10 +3,116 @@ import { v4 as uuidv4 } from "uuid";
 import type {
   CoreRepository,
   Agent,
+  AgentApiKey,
+  ToolVersion,
   PolicyAssignmentWithPlugin,
   PolicyInstance,
+  PolicyInstanceEvaluation,
+  PendingApproval,
+  PendingApprovalStatus,
 } from "../../interfaces/CoreRepository.js";
 
+interface PendingApprovalRow {
+  id: string;
+  status: string;
+  server_name: string;
+  tool_name: string;
+  agent_id: string | null;
+  agent_name_snapshot: string | null;
+  request_id: string | number | null;
+  body: string;
+  policy_name: string;
+  code: string | null;
+  reason: string | null;
+  metadata: Record<string, unknown> | null;
+  note: string | null;
+  created_at: Date | string;
+  expires_at: Date | string;
+  resolved_at: Date | string | null;
+}
+
+interface AgentApiKeyRow {
+  id: string;
+  agent_id: string;
+  name: string | null;
+  key_prefix: string;
+  created_at: Date | string;
+  last_used_at: Date | string | null;
+  revoked_at: Date | string | null;
+}
+
+function toIso(value: Date | string): string {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function rowToAgentApiKey(row: AgentApiKeyRow): AgentApiKey {
+  return {
+    id: row.id,
+    agentId: row.agent_id,
+    name: row.name,
+    prefix: row.key_prefix,
+    createdAt: toIso(row.created_at),
+    lastUsedAt: row.last_used_at != null ? toIso(row.last_used_at) : null,
+    revokedAt: row.revoked_at != null ? toIso(row.revoked_at) : null,
+  };
+}
+
+interface ToolVersionRow {
+  server_name: string;
+  tool_name: string;
+  version: number;
+  fingerprint: string;
+  definition: ToolVersion["definition"];
+  first_seen_at: Date | string;
+  approved_at: Date | string | null;
+  approved_by: string | null;
+}
+
+function rowToToolVersion(row: ToolVersionRow): ToolVersion {
+  return {
+    serverName: row.server_name,
+    toolName: row.tool_name,
+    version: row.version,
+    fingerprint: row.fingerprint,
+    definition: row.definition,
+    firstSeenAt: toIso(row.first_seen_at),
+    approvedAt: row.approved_at != null ? toIso(row.approved_at) : null,
+    approvedBy: row.approved_by,
+  };
+}
+
+/** failure_mode and timeout_ms columns; NULL (use the deployment default) leaves the field out. */
+function instanceEvaluation(
+  failureMode: string | null,
+  timeoutMs: number | null,
+): Pick<PolicyInstance, "failureMode" | "timeoutMs"> {
+  return {
+    ...((failureMode === "open" || failureMode === "closed") && { failureMode }),
+    ...(timeoutMs != null && { timeoutMs }),
+  };
+}
+
+function rowToPendingApproval(row: PendingApprovalRow): PendingApproval {
+  return {
+    id: row.id,
+    status: row.status as PendingApprovalStatus,
+    serverName: row.server_name,
+    toolName: row.tool_name,
+    agentId: row.agent_id,
+    agentNameSnapshot: row.agent_name_snapshot,
+    requestId: row.request_id,
+    body: row.body,
+    policyName: row.policy_name,
+    code: row.code,
+    reason: row.reason,
+    metadata: row.metadata,
+    note: row.note,
+    createdAt: toIso(row.created_at),
+    expiresAt: toIso(row.expires_at),
+    resolvedAt: row.resolved_at != null ? toIso(row.resolved_at) : null,
+  };
+}
+
 /**
  * Ensure a resource_provider row exists for the given server name (used as stable id).
  * Returns the provider's id.
@@ -100,7 +206,8 @@ export class PostgresCoreRepository implements CoreRepository {
       );
     }
     const remaining = await this.pool.query(
-      "SELECT 1 FROM connections WHERE agent_id = $1",
+      `SELECT 1 FROM connections WHERE agent_id = $1
+       UNION ALL SELECT 1 FROM agent_api_keys WHERE agent_id = $1`,
       [agentId],
     );
     if (remaining.rows.length === 0) {
@@ -151,6 +258,7 @@ export class PostgresCoreRepository implements CoreRepository {
 
   async deleteAgent(id: string): Promise<void> {
     await this.pool.query("DELETE FROM connections WHERE agent_id = $1", [id]);
+    await this.pool.query("DELETE FROM agent_api_keys WHERE agent_id = $1", [id]);
     await this.pool.query("DELETE FROM agents WHERE id = $1", [id]);
   }
 
@@ -160,45 +268,65 @@ export class PostgresCoreRepository implements CoreRepository {
     providerId?: string | null,
   ): Promise<PolicyAssignmentWithPlugin[]> {
     const result = await this.pool.query(
-      `SELECT a.id, a.policy_instance_id AS "policyInstanceId", p.plugin_id AS "pluginId", p.config
+      `SELECT a.id, a.policy_instance_id AS "policyInstanceId", p.plugin_id AS "pluginId", p.config,
+              p.failure_mode AS "failureMode", p.timeout_ms AS "timeoutMs"
        FROM policy_assignments a
        JOIN policy_instances p ON p.id = a.policy_instance_id
        WHERE p.is_enabled = true
          AND (a.agent_id IS NULL OR a.agent_id = $1)
          AND (a.provider_id IS NULL OR a.provider_id = $2)
          AND (a.capability_name IS NULL OR a.capability_name = $3)
-       ORDER BY a.priority DESC`,
+       ORDER BY a.priority DESC, a.created_at, a.id`,
       [agentId ?? null, providerId ?? null, toolName ?? null],
     );
     return result.rows.map(
-      (r: { id: string; policyInstanceId: string; pluginId: string; config: unknown }) => ({
+      (r: {
+        id: string;
+        policyInstanceId: string;
+        pluginId: string;
+        config: unknown;
+        failureMode: string | null;
+        timeoutMs: number | null;
+      }) => ({
         id: r.id,
         policyInstanceId: r.policyInstanceId,
         pluginId: r.pluginId ?? "",
         config: r.config ?? null,
+        ...instanceEvaluation(r.failureMode, r.timeoutMs),
       }),
     );
   }
 
   async listPolicyInstances(): Promise<PolicyInstance[]> {
     const result = await this.pool.query(
-      `SELECT id, plugin_id AS "pluginId", name, config, is_enabled AS "isEnabled"
+      `SELECT id, plugin_id AS "pluginId", name, config, is_enabled AS "isEnabled",
+              failure_mode AS "failureMode", timeout_ms AS "timeoutMs"
        FROM policy_instances ORDER BY name IS NULL, name, id`,
     );
     return result.rows.map(
-      (r: { id: string; pluginId: string | null; name: string | null; config: unknown; isEnabled: boolean }) => ({
+      (r: {
+        id: string;
+        pluginId: string | null;
+        name: string | null;
+        config: unknown;
+        isEnabled: boolean;
+        failureMode: string | null;
+        timeoutMs: number | null;
+      }) => ({
         id: r.id,
         pluginId: r.pluginId ?? "",
         name: r.name ?? undefined,
         config: r.config ?? {},
         isEnabled: r.isEnabled,
+        ...instanceEvaluation(r.failureMode, r.timeoutMs),
       }),
     );
   }
 
   async getPolicyInstanceById(id: string): Promise<PolicyInstance | null> {
     const result = await this.pool.query(
-      `SELECT id, plugin_id AS "pluginId", name, config, is_enabled AS "isEnabled"
+      `SELECT id, plugin_id AS "pluginId", name, config, is_enabled AS "isEnabled",
+              failure_mode AS "failureMode", timeout_ms AS "timeoutMs"
        FROM policy_instances WHERE id = $1`,
       [id],
     );
@@ -209,6 +337,8 @@ export class PostgresCoreRepository implements CoreRepository {
           name: string | null;
           config: unknown;
           isEnabled: boolean;
+          failureMode: string | null;
+          timeoutMs: number | null;
         }
       | undefined;
     if (!row) return null;
@@ -218,6 +348,7 @@ export class PostgresCoreRepository implements CoreRepository {
       name: row.name ?? undefined,
       config: row.config ?? {},
       isEnabled: row.isEnabled,
+      ...instanceEvaluation(row.failureMode, row.timeoutMs),
     };
   }
 
@@ -228,12 +359,30 @@ export class PostgresCoreRepository implements CoreRepository {
     agentId?: string | null,
     toolName?: string | null,
     providerId?: string | null,
+    priority?: number,
+    evaluation?: PolicyInstanceEvaluation,
   ): Promise<void> {
     const configJson = JSON.stringify(config ?? {});
+    const keptPriority =
+      priority ??
+      Number(
+        (
+          await this.pool.query(
+            `SELECT COALESCE(MAX(priority), 0) AS priority FROM policy_assignments WHERE policy_instance_id = $1`,
+            [id],
+          )
+        ).rows[0]?.priority ?? 0,
+      );
     await this.pool.query(
       `UPDATE policy_instances SET config = $1, name = $2 WHERE id = $3`,
       [configJson, name ?? "", id],
     );
+    if (evaluation) {
+      await this.pool.query(
+        `UPDATE policy_instances SET failure_mode = $1, timeout_ms = $2 WHERE id = $3`,
+        [evaluation.failureMode, evaluation.timeoutMs, id],
+      );
+    }
     await this.pool.query(
       "DELETE FROM policy_assignments WHERE policy_instance_id = $1",
       [id],
@@ -244,8 +393,8 @@ export class PostgresCoreRepository implements CoreRepository {
     const assignId = uuidv4();
     await this.pool.query(
       `INSERT INTO policy_assignments (id, policy_instance_id, agent_id, provider_id, capability_name, priority, created_at)
-       VALUES ($1, $2, $3, $4, $5, 0, now())`,
-      [assignId, id, assignAgentId, assignProviderId, assignCapabilityName],
+       VALUES ($1, $2, $3, $4, $5, $6, now())`,
+      [assignId, id, assignAgentId, assignProviderId, assignCapabilityName, keptPriority],
     );
   }
 
@@ -254,17 +403,19 @@ export class PostgresCoreRepository implements CoreRepository {
       policyInstanceId: string;
       agentId: string | null;
       toolName: string | null;
+      priority: number;
     }>
   > {
     const result = await this.pool.query(
-      `SELECT policy_instance_id AS "policyInstanceId", agent_id AS "agentId", capability_name AS "toolName"
+      `SELECT policy_instance_id AS "policyInstanceId", agent_id AS "agentId", capability_name AS "toolName", priority
        FROM policy_assignments`,
     );
     return result.rows.map(
-      (r: { policyInstanceId: string; agentId: string | null; toolName: string | null }) => ({
+      (r: { policyInstanceId: string; agentId: string | null; toolName: string | null; priority: number | null }) => ({
         policyInstanceId: r.policyInstanceId ?? "",
         agentId: r.agentId ?? null,
         toolName: r.toolName ?? null,
+        priority: Number(r.priority ?? 0),
       }),
     );
   }
@@ -276,13 +427,22 @@ export class PostgresCoreRepository implements CoreRepository {
     agentId?: string | null,
     toolName?: string | null,
     providerId?: string | null,
+    priority?: number,
+    evaluation?: PolicyInstanceEvaluation,
   ): Promise<string> {
     const id = uuidv4();
     const configJson = JSON.stringify(config ?? {});
     await this.pool.query(
-      `INSERT INTO policy_instances (id, plugin_id, name, config, is_enabled, created_at)
-       VALUES ($1, $2, $3, $4, true, now())`,
-      [id, pluginId, name ?? "", configJson],
+      `INSERT INTO policy_instances (id, plugin_id, name, config, is_enabled, failure_mode, timeout_ms, created_at)
+       VALUES ($1, $2, $3, $4, true, $5, $6, now())`,
+      [
+        id,
+        pluginId,
+        name ?? "",
+        configJson,
+        evaluation?.failureMode ?? null,
+        evaluation?.timeoutMs ?? null,
+      ],
     );
     const assignAgentId = agentId !== undefined ? agentId : null;
     const assignCapabilityName = toolName !== undefined ? toolName : null;
@@ -290,8 +450,8 @@ export class PostgresCoreRepository implements CoreRepository {
     const assignId = uuidv4();
     await this.pool.query(
       `INSERT INTO policy_assignments (id, policy_instance_id, agent_id, provider_id, capability_name, priority, created_at)
-       VALUES ($1, $2, $3, $4, $5, 0, now())`,
-      [assignId, id, assignAgentId, assignProviderId, assignCapabilityName],
+       VALUES ($1, $2, $3, $4, $5, $6, now())`,
+      [assignId, id, assignAgentId, assignProviderId, assignCapabilityName, priority ?? 0],
     );
     return id;
   }
@@ -448,4 +608,152 @@ export class PostgresCoreRepository implements CoreRepository {
       [key, scopeType, scopeId, value],
     );
   }
+
+  async savePendingApproval(approval: PendingApproval): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO pending_approvals (id, status, server_name, tool_name, agent_id, agent_name_snapshot, request_id, body, policy_name, code, reason, metadata, note, created_at, expires_at, resolved_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)`,
+      [
+        approval.id,
+        approval.status,
+        approval.serverName,
+        approval.toolName,
+        approval.agentId,
+        approval.agentNameSnapshot,
+        approval.requestId != null ? JSON.stringify(approval.requestId) : null,
+        approval.body,
+        approval.policyName,
+        approval.code,
+        approval.reason,
+        approval.metadata,
+        approval.note,
+        approval.createdAt,
+        approval.expiresAt,
+        approval.resolvedAt,
+      ],
+    );
+  }
+
+  async getPendingApproval(id: string): Promise<PendingApproval | null> {
+    const result = await this.pool.query(
+      "SELECT * FROM pending_approvals WHERE id = $1",
+      [id],
+    );
+    const row = result.rows[0] as PendingApprovalRow | undefined;
+    return row ? rowToPendingApproval(row) : null;
+  }
+
+  async listPendingApprovals(
+    status?: PendingApprovalStatus,
+    limit = 100,
+  ): Promise<PendingApproval[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM pending_approvals
+       WHERE ($1::text IS NULL OR status = $1)
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [status ?? null, limit],
+    );
+    return (result.rows as PendingApprovalRow[]).map(rowToPendingApproval);
+  }
+
+  async resolvePendingApproval(
+    id: string,
+    status: Exclude<PendingApprovalStatus, "pending">,
+    note: string | null = null,
+  ): Promise<PendingApproval | null> {
+    const result = await this.pool.query(
+      `UPDATE pending_approvals SET status = $1, note = $2, resolved_at = now()
+       WHERE id = $3 AND status = 'pending'
+       RETURNING *`,
+      [status, note, id],
+    );
+    const row = result.rows[0] as PendingApprovalRow | undefined;
+    return row ? rowToPendingApproval(row) : null;
+  }
+
+  async saveAgentApiKey(key: AgentApiKey, keyHash: string): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO agent_api_keys (id, agent_id, name, key_hash, key_prefix, created_at, last_used_at, revoked_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        key.id,
+        key.agentId,
+        key.name,
+        keyHash,
+        key.prefix,
+        key.createdAt,
+        key.lastUsedAt,
+        key.revokedAt,
+      ],
+    );
+  }
+
+  async listAgentApiKeys(agentId?: string): Promise<AgentApiKey[]> {
+    const result =
+      agentId != null
+        ? await this.pool.query(
+            `SELECT * FROM agent_api_keys WHERE agent_id = $1
+             ORDER BY created_at DESC`,
+            [agentId],
+          )
+        : await this.pool.query(
+            `SELECT * FROM agent_api_keys ORDER BY created_at DESC`,
+          );
+    return (result.rows as AgentApiKeyRow[]).map(rowToAgentApiKey);
+  }
+
+  async findActiveAgentApiKey(keyHash: string): Promise<AgentApiKey | null> {
+    const result = await this.pool.query(
+      `UPDATE agent_api_keys SET last_used_at = now()
+       WHERE key_hash = $1 AND revoked_at IS NULL
+       RETURNING *`,
+      [keyHash],
+    );
+    const row = result.rows[0] as AgentApiKeyRow | undefined;
+    return row ? rowToAgentApiKey(row) : null;
+  }
+
+  async revokeAgentApiKey(agentId: string, keyId: string): Promise<AgentApiKey | null> {
+    await this.pool.query(
+      `UPDATE agent_api_keys SET revoked_at = now()
+       WHERE id = $1 AND agent_id = $2 AND revoked_at IS NULL`,
+      [keyId, agentId],
+    );
+    const result = await this.pool.query(
+      "SELECT * FROM agent_api_keys WHERE id = $1 AND agent_id = $2",
+      [keyId, agentId],
+    );
+    const row = result.rows[0] as AgentApiKeyRow | undefined;
+    return row ? rowToAgentApiKey(row) : null;
+  }
+
+  async saveToolVersion(v: ToolVersion): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO tool_versions (server_name, tool_name, version, fingerprint, definition, first_seen_at, approved_at, approved_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (server_name, tool_name, version)
+       DO UPDATE SET approved_at = EXCLUDED.approved_at, approved_by = EXCLUDED.approved_by`,
+      [
+        v.serverName,
+        v.toolName,
+        v.version,
+        v.fingerprint,
+        JSON.stringify(v.definition),
+        v.firstSeenAt,
+        v.approvedAt,
+        v.approvedBy,
+      ],
+    );
+  }
+
+  async listToolVersions(serverName?: string, toolName?: string): Promise<ToolVersion[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM tool_versions
+       WHERE ($1::text IS NULL OR server_name = $1) AND ($2::text IS NULL OR tool_name = $2)
+       ORDER BY server_name, tool_name, version DESC`,
+      [serverName ?? null, toolName ?? null],
+    );
+    return (result.rows as ToolVersionRow[]).map(rowToToolVersion);
+  }
 }
@@ -1,4 +1,4 @@
-import type { Pool, PoolConfig } from "pg";
+import type { Pool, PoolClient, PoolConfig } from "pg";
 import { Pool as PgPool } from "pg";
 import type { CoreRepository } from "../../interfaces/CoreRepository.js";
 import type {
@@ -7,12 +7,14 @@ import type {
 } from "../../interfaces/StorageAdapter.js";
 import type {
   EventSinkRepository,
+  ListEventsOptions,
   StoredEvent,
 } from "../../interfaces/EventSinkRepository.js";
 import type {
   PluginRepository,
   PluginDocument,
   PluginDocumentFilter,
+  PluginWriteOptions,
 } from "../../interfaces/PluginRepository.js";
 import type { GuardioEvent } from "../../interfaces/EventSinkPluginInterface.js";
 import { PostgresCoreRepository } from "./PostgresCoreRepository.js";
@@ -86,6 +88,33 @@ CREATE TABLE IF NOT EXISTS agents (
   last_seen_at TIMESTAMPTZ
 );
 
+-- Agent API keys (only the SHA-256 of each key is stored)
+CREATE TABLE IF NOT EXISTS agent_api_keys (
+  id           TEXT PRIMARY KEY,
+  agent_id     TEXT NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  name         TEXT,
+  key_hash     TEXT NOT NULL UNIQUE,
+  key_prefix   TEXT NOT NULL,
+  created_at   TIMESTAMPTZ NOT NULL,
+  last_used_at TIMESTAMPTZ,
+  revoked_at   TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_api_keys_agent ON agent_api_keys(agent_id);
+
+-- Versions of upstream tool definitions (pinning / change detection)
+CREATE TABLE IF NOT EXISTS tool_versions (
+  server_name   TEXT NOT NULL,
+  tool_name     TEXT NOT NULL,
+  version       INTEGER NOT NULL,
+  fingerprint   TEXT NOT NULL,
+  definition    JSONB NOT NULL,
+  first_seen_at TIMESTAMPTZ NOT NULL,
+  approved_at   TIMESTAMPTZ,
+  approved_by   TEXT,
+  PRIMARY KEY (server_name, tool_name, version)
+);
+
 -- Agent <-> provider connections
 CREATE TABLE IF NOT EXISTS connections (
   agent_id    TEXT NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
@@ -101,9 +130,15 @@ CREATE TABLE IF NOT EXISTS policy_instances (
   name       TEXT NOT NULL,
   config     JSONB,
   is_enabled BOOLEAN NOT NULL DEFAULT true,
+  failure_mode TEXT,
+  timeout_ms INTEGER,
   created_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
+-- policy_instances failure handling, added after the first release
+ALTER TABLE policy_instances ADD COLUMN IF NOT EXISTS failure_mode TEXT;
+ALTER TABLE policy_instances ADD COLUMN IF NOT EXISTS timeout_ms INTEGER;
+
 -- Policy assignments
 CREATE TABLE IF NOT EXISTS policy_assignments (
   id                 TEXT PRIMARY KEY,
@@ -146,6 +181,8 @@ CREATE TABLE IF NOT EXISTS guardio_events (
   created_at           TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
+CREATE INDEX IF NOT EXISTS idx_guardio_events_decision ON guardio_events(decision);
+
 -- Runtime settings (global or scoped key/value configuration)
 CREATE TABLE IF NOT EXISTS runtime_settings (
   key           TEXT NOT NULL,
@@ -159,17 +196,46 @@ CREATE TABLE IF NOT EXISTS runtime_settings (
 CREATE INDEX IF NOT EXISTS idx_runtime_settings_scope
   ON runtime_settings(scope_type, scope_id);
 
+-- Pending approvals (tools/call parked by a "negotiate" verdict)
+CREATE TABLE IF NOT EXISTS pending_approvals (
+  id                  TEXT PRIMARY KEY,
+  status              TEXT NOT NULL DEFAULT 'pending',
+  server_name         TEXT NOT NULL,
+  tool_name           TEXT NOT NULL,
+  agent_id            TEXT,
+  agent_name_snapshot TEXT,
+  request_id          JSONB,
+  body                TEXT NOT NULL,
+  policy_name         TEXT NOT NULL,
+  code                TEXT,
+  reason              TEXT,
+  metadata            JSONB,
+  note                TEXT,
+  created_at          TIMESTAMPTZ NOT NULL,
+  expires_at          TIMESTAMPTZ NOT NULL,
+  resolved_at         TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_approvals_status ON pending_approvals(status);
+
 -- Plugin data storage (for policy plugins to store custom data)
 CREATE TABLE IF NOT EXISTS plugin_data (
   id              TEXT PRIMARY KEY,
   plugin_id       VARCHAR(100) NOT NULL,
   context_key     VARCHAR(255),
   data            JSONB NOT NULL,
+  version         INTEGER NOT NULL DEFAULT 1,
   created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
-  updated_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at      TIMESTAMPTZ
 );
 
+-- plugin_data columns added after the first release
+ALTER TABLE plugin_data ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE plugin_data ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
 CREATE INDEX IF NOT EXISTS idx_plugin_data_lookup ON plugin_data(plugin_id, context_key);
+CREATE INDEX IF NOT EXISTS idx_plugin_data_expires ON plugin_data(expires_at);
 `;
 
 function jsonOrNull(value: unknown): unknown {
@@ -183,16 +249,17 @@ function jsonOrNull(value: unknown): unknown {
 class PostgresEventSinkRepository implements EventSinkRepository {
   constructor(private readonly pool: Pool) {}
 
-  async list(options?: { limit?: number }): Promise<StoredEvent[]> {
+  async list(options?: ListEventsOptions): Promise<StoredEvent[]> {
     const limit = Math.min(Math.max(options?.limit ?? 100, 1), 1000);
     const result = await this.pool.query(
       `SELECT event_id AS "eventId", timestamp, event_type AS "eventType", action_type AS "actionType",
               agent_id AS "agentId", agent_name_snapshot AS "agentNameSnapshot", decision,
-              policy_evaluation AS "policyEvaluation", simulation
+              policy_evaluation AS "policyEvaluation", simulation, error_code AS "errorCode"
        FROM guardio_events
+       WHERE ($2::text IS NULL OR decision = $2)
        ORDER BY created_at DESC
        LIMIT $1`,
-      [limit],
+      [limit, options?.decision ?? null],
     );
     const events = result.rows.map(
       (r: {
@@ -205,6 +272,7 @@ class PostgresEventSinkRepository implements EventSinkRepository {
         decision: string | null;
         policyEvaluation: Record<string, unknown> | null;
         simulation: StoredEvent["simulation"] | null;
+        errorCode: string | null;
       }) => ({
         eventId: r.eventId,
         timestamp: r.timestamp,
@@ -215,6 +283,7 @@ class PostgresEventSinkRepository implements EventSinkRepository {
         decision: r.decision ?? undefined,
         policyEvaluation: r.policyEvaluation ?? undefined,
         simulation: r.simulation ?? null,
+        errorCode: r.errorCode ?? undefined,
       }),
     );
     logger.debug(
@@ -266,9 +335,43 @@ class PostgresEventSinkRepository implements EventSinkRepository {
   }
 }
 
+interface PluginDataRow {
+  id: string;
+  contextKey: string;
+  data: Record<string, unknown>;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt: Date | null;
+}
+
+const PLUGIN_DATA_COLUMNS = `id, context_key AS "contextKey", data, version,
+  created_at AS "createdAt", updated_at AS "updatedAt", expires_at AS "expiresAt"`;
+
+/** How often expired plugin documents are deleted. */
+const PLUGIN_DATA_SWEEP_INTERVAL_MS = 60_000;
+
+function toPluginDocument(row: PluginDataRow): PluginDocument {
+  return {
+    id: row.id,
+    contextKey: row.contextKey,
+    data: row.data,
+    version: row.version,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+    expiresAt: row.expiresAt?.toISOString() ?? null,
+  };
+}
+
+function ttlSeconds(options?: PluginWriteOptions): number | null {
+  return options?.ttlSeconds ?? null;
+}
+
 /**
  * PostgreSQL implementation of PluginRepository.
  * Scoped to a specific pluginId - all operations are automatically filtered.
+ * increment and compareAndSet run in a transaction holding an advisory lock on
+ * (pluginId, contextKey), so concurrent writers (also from other Guardio instances) queue up.
  */
 class PostgresPluginRepository implements PluginRepository {
   constructor(
@@ -280,51 +383,133 @@ class PostgresPluginRepository implements PluginRepository {
     contextKey: string,
     data: Record<string, unknown>,
     id?: string,
+    options?: PluginWriteOptions,
   ): Promise<string> {
     const docId = id ?? randomUUID();
     await this.pool.query(
-      `INSERT INTO plugin_data (id, plugin_id, context_key, data, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, now(), now())
+      `INSERT INTO plugin_data (id, plugin_id, context_key, data, version, created_at, updated_at, expires_at)
+       VALUES ($1, $2, $3, $4, 1, now(), now(), now() + make_interval(secs => $5))
        ON CONFLICT (id) DO UPDATE SET
          data = EXCLUDED.data,
+         version = plugin_data.version + 1,
+         expires_at = EXCLUDED.expires_at,
          updated_at = now()`,
-      [docId, this.pluginId, contextKey, data],
+      [docId, this.pluginId, contextKey, data, ttlSeconds(options)],
     );
     return docId;
   }
 
+  /**
+   * Run fn in a transaction that holds the lock for contextKey, after deleting the key's
+   * expired documents. fn gets the latest remaining document, if any.
+   */
+  private async withKeyLock<T>(
+    contextKey: string,
+    fn: (client: PoolClient, row: PluginDataRow | undefined) => Promise<T>,
+  ): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext($1), hashtext($2))`, [
+        this.pluginId,
+        contextKey,
+      ]);
+      await client.query(
+        `DELETE FROM plugin_data
+         WHERE plugin_id = $1 AND context_key = $2 AND expires_at <= now()`,
+        [this.pluginId, contextKey],
+      );
+      const current = await client.query(
+        `SELECT ${PLUGIN_DATA_COLUMNS} FROM plugin_data
+         WHERE plugin_id = $1 AND context_key = $2
+         ORDER BY updated_at DESC
+         LIMIT 1`,
+        [this.pluginId, contextKey],
+      );
+      const result = await fn(client, current.rows[0] as PluginDataRow | undefined);
+      await client.query("COMMIT");
+      return result;
+    } catch (err) {
+      await client.query("ROLLBACK").catch(() => {});
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  async increment(
+    contextKey: string,
+    field: string,
+    by = 1,
+    options?: PluginWriteOptions,
+  ): Promise<number> {
+    return this.withKeyLock(contextKey, async (client, row) => {
+      if (!row) {
+        await client.query(
+          `INSERT INTO plugin_data (id, plugin_id, context_key, data, version, created_at, updated_at, expires_at)
+           VALUES ($1, $2, $3, $4, 1, now(), now(), now() + make_interval(secs => $5))`,
+          [randomUUID(), this.pluginId, contextKey, { [field]: by }, ttlSeconds(options)],
+        );
+        return by;
+      }
+      const current = row.data[field];
+      const value = (typeof current === "number" ? current : 0) + by;
+      await client.query(
+        `UPDATE plugin_data SET data = $1, version = version + 1, updated_at = now()
+         WHERE id = $2`,
+        [{ ...row.data, [field]: value }, row.id],
+      );
+      return value;
+    });
+  }
+
+  async compareAndSet(
+    contextKey: string,
+    data: Record<string, unknown>,
+    expectedVersion: number,
+    options?: PluginWriteOptions,
+  ): Promise<PluginDocument | null> {
+    return this.withKeyLock(contextKey, async (client, row) => {
+      if ((row?.version ?? 0) !== expectedVersion) return null;
+      const result = await client.query(
+        `INSERT INTO plugin_data (id, plugin_id, context_key, data, version, created_at, updated_at, expires_at)
+         VALUES ($1, $2, $3, $4, $5, now(), now(), now() + make_interval(secs => $6))
+         ON CONFLICT (id) DO UPDATE SET
+           data = EXCLUDED.data,
+           version = EXCLUDED.version,
+           expires_at = EXCLUDED.expires_at,
+           updated_at = now()
+         RETURNING ${PLUGIN_DATA_COLUMNS}`,
+        [
+          row?.id ?? randomUUID(),
+          this.pluginId,
+          contextKey,
+          data,
+          expectedVersion + 1,
+          ttlSeconds(options),
+        ],
+      );
+      return toPluginDocument(result.rows[0] as PluginDataRow);
+    });
+  }
+
   async getDocument(contextKey: string): Promise<PluginDocument | null> {
     const result = await this.pool.query(
-      `SELECT id, context_key AS "contextKey", data, 
-              created_at AS "createdAt", updated_at AS "updatedAt"
+      `SELECT ${PLUGIN_DATA_COLUMNS}
        FROM plugin_data
-       WHERE plugin_id = $1 AND context_key = $2
+       WHERE plugin_id = $1 AND context_key = $2 AND (expires_at IS NULL OR expires_at > now())
        ORDER BY updated_at DESC
        LIMIT 1`,
       [this.pluginId, contextKey],
     );
     if (result.rows.length === 0) return null;
-    const row = result.rows[0] as {
-      id: string;
-      contextKey: string;
-      data: Record<string, unknown>;
-      createdAt: Date;
-      updatedAt: Date;
-    };
-    return {
-      id: row.id,
-      contextKey: row.contextKey,
-      data: row.data,
-      createdAt: row.createdAt.toISOString(),
-      updatedAt: row.updatedAt.toISOString(),
-    };
+    return toPluginDocument(result.rows[0] as PluginDataRow);
   }
 
   async listDocuments(contextKey?: string): Promise<PluginDocument[]> {
-    let query = `SELECT id, context_key AS "contextKey", data,
-                        created_at AS "createdAt", updated_at AS "updatedAt"
+    let query = `SELECT ${PLUGIN_DATA_COLUMNS}
                  FROM plugin_data
-                 WHERE plugin_id = $1`;
+                 WHERE plugin_id = $1 AND (expires_at IS NULL OR expires_at > now())`;
     const params: unknown[] = [this.pluginId];
 
     if (contextKey !== undefined) {
@@ -334,28 +519,13 @@ class PostgresPluginRepository implements PluginRepository {
     query += ` ORDER BY updated_at DESC`;
 
     const result = await this.pool.query(query, params);
-    return result.rows.map(
-      (row: {
-        id: string;
-        contextKey: string;
-        data: Record<string, unknown>;
-        createdAt: Date;
-        updatedAt: Date;
-      }) => ({
-        id: row.id,
-        contextKey: row.contextKey,
-        data: row.data,
-        createdAt: row.createdAt.toISOString(),
-        updatedAt: row.updatedAt.toISOString(),
-      }),
-    );
+    return (result.rows as PluginDataRow[]).map(toPluginDocument);
   }
 
   async queryDocuments(filter: PluginDocumentFilter): Promise<PluginDocument[]> {
-    let query = `SELECT id, context_key AS "contextKey", data,
-                        created_at AS "createdAt", updated_at AS "updatedAt"
+    let query = `SELECT ${PLUGIN_DATA_COLUMNS}
                  FROM plugin_data
-                 WHERE plugin_id = $1`;
+                 WHERE plugin_id = $1 AND (expires_at IS NULL OR expires_at > now())`;
     const params: unknown[] = [this.pluginId];
     let paramIndex = 2;
 
@@ -378,21 +548,7 @@ class PostgresPluginRepository implements PluginRepository {
     query += ` ORDER BY updated_at DESC`;
 
     const result = await this.pool.query(query, params);
-    return result.rows.map(
-      (row: {
-        id: string;
-        contextKey: string;
-        data: Record<string, unknown>;
-        createdAt: Date;
-        updatedAt: Date;
-      }) => ({
-        id: row.id,
-        contextKey: row.contextKey,
-        data: row.data,
-        createdAt: row.createdAt.toISOString(),
-        updatedAt: row.updatedAt.toISOString(),
-      }),
-    );
+    return (result.rows as PluginDataRow[]).map(toPluginDocument);
   }
 
   async deleteDocument(id: string): Promise<boolean> {
@@ -415,6 +571,7 @@ export class PostgresStoragePlugin implements StorageAdapter {
   private pool: Pool | null = null;
   private _repository: PostgresCoreRepository | null = null;
   private _eventSinkRepository: PostgresEventSinkRepository | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
   private readonly poolConfig: PoolConfig;
 
   constructor(config: Record<string, unknown> = {}) {
@@ -451,6 +608,13 @@ export class PostgresStoragePlugin implements StorageAdapter {
       this.pool = new PgPool(this.poolConfig);
       this._repository = new PostgresCoreRepository(this.pool);
       this._eventSinkRepository = new PostgresEventSinkRepository(this.pool);
+      if (!this.sweepTimer) {
+        this.sweepTimer = setInterval(
+          () => void this.deleteExpiredPluginData(),
+          PLUGIN_DATA_SWEEP_INTERVAL_MS,
+        );
+        this.sweepTimer.unref();
+      }
       return { ok: true, client: this.pool };
     } catch (err) {
       logger.error(
@@ -461,6 +625,23 @@ export class PostgresStoragePlugin implements StorageAdapter {
     }
   }
 
+  /** Delete plugin documents whose TTL has passed (all plugins). */
+  async deleteExpiredPluginData(): Promise<number> {
+    if (!this.pool) return 0;
+    try {
+      const result = await this.pool.query(
+        `DELETE FROM plugin_data WHERE expires_at IS NOT NULL AND expires_at <= now()`,
+      );
+      return result.rowCount ?? 0;
+    } catch (err) {
+      logger.warn(
+        { err, database: this.poolConfig.database ?? "connectionString" },
+        "Deleting expired plugin data failed",
+      );
+      return 0;
+    }
+  }
+
   getRepository(): CoreRepository {
     if (!this._repository) {
       throw new Error("Storage adapter not connected; call connect() first.");
@@ -478,6 +659,10 @@ export class PostgresStoragePlugin implements StorageAdapter {
   }
 
   async disconnect(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
     if (this.pool) {
       await this.pool.end();
       this.pool = null;
@@ -3,10 +3,121 @@ import { v4 as uuidv4 } from "uuid";
 import type {
   CoreRepository,
   Agent,
+  AgentApiKey,
+  ToolVersion,
   PolicyAssignmentWithPlugin,
   PolicyInstance,
+  PolicyInstanceEvaluation,
+  PendingApproval,
+  PendingApprovalStatus,
 } from "../../interfaces/CoreRepository.js";
 
+interface PendingApprovalRow {
+  id: string;
+  status: string;
+  server_name: string;
+  tool_name: string;
+  agent_id: string | null;
+  agent_name_snapshot: string | null;
+  request_id: string | null;
+  body: string;
+  policy_name: string;
+  code: string | null;
+  reason: string | null;
+  metadata: string | null;
+  note: string | null;
+  created_at: string;
+  expires_at: string;
+  resolved_at: string | null;
+}
+
+interface AgentApiKeyRow {
+  id: string;
+  agent_id: string;
+  name: string | null;
+  key_prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+function rowToAgentApiKey(row: AgentApiKeyRow): AgentApiKey {
+  return {
+    id: row.id,
+    agentId: row.agent_id,
+    name: row.name,
+    prefix: row.key_prefix,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+interface ToolVersionRow {
+  server_name: string;
+  tool_name: string;
+  version: number;
+  fingerprint: string;
+  definition: string;
+  first_seen_at: string;
+  approved_at: string | null;
+  approved_by: string | null;
+}
+
+function rowToToolVersion(row: ToolVersionRow): ToolVersion {
+  return {
+    serverName: row.server_name,
+    toolName: row.tool_name,
+    version: row.version,
+    fingerprint: row.fingerprint,
+    definition: JSON.parse(row.definition) as ToolVersion["definition"],
+    firstSeenAt: row.first_seen_at,
+    approvedAt: row.approved_at,
+    approvedBy: row.approved_by,
+  };
+}
+
+function parseJsonOrNull<T>(value: string | null): T | null {
+  if (value == null) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+/** failure_mode and timeout_ms columns; NULL (use the deployment default) leaves the field out. */
+function instanceEvaluation(
+  failureMode: string | null,
+  timeoutMs: number | null,
+): Pick<PolicyInstance, "failureMode" | "timeoutMs"> {
+  return {
+    ...((failureMode === "open" || failureMode === "closed") && { failureMode }),
+    ...(timeoutMs != null && { timeoutMs }),
+  };
+}
+
+function rowToPendingApproval(row: PendingApprovalRow): PendingApproval {
+  return {
+    id: row.id,
+    status: row.status as PendingApprovalStatus,
+    serverName: row.server_name,
+    toolName: row.tool_name,
+    agentId: row.agent_id,
+    agentNameSnapshot: row.agent_name_snapshot,
+    requestId: parseJsonOrNull<string | number>(row.request_id),
+    body: row.body,
+    policyName: row.policy_name,
+    code: row.code,
+    reason: row.reason,
+    metadata: parseJsonOrNull<Record<string, unknown>>(row.metadata),
+    note: row.note,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    resolvedAt: row.resolved_at,
+  };
+}
+
 /**
  * Ensure a resource_provider row exists for the given server name (used as stable id).
  * Returns the provider's id.
@@ -95,8 +206,11 @@ export class SqliteCoreRepository implements CoreRepository {
         .run(agentId, row.id);
     }
     const remaining = this.db
-      .prepare("SELECT 1 FROM connections WHERE agent_id = ?")
-      .get(agentId);
+      .prepare(
+        `SELECT 1 FROM connections WHERE agent_id = ?
+         UNION ALL SELECT 1 FROM agent_api_keys WHERE agent_id = ?`,
+      )
+      .get(agentId, agentId);
     if (!remaining) {
       this.db.prepare("DELETE FROM agents WHERE id = ?").run(agentId);
     }
@@ -152,6 +266,7 @@ export class SqliteCoreRepository implements CoreRepository {
 
   async deleteAgent(id: string): Promise<void> {
     this.db.prepare("DELETE FROM connections WHERE agent_id = ?").run(id);
+    this.db.prepare("DELETE FROM agent_api_keys WHERE agent_id = ?").run(id);
     this.db.prepare("DELETE FROM agents WHERE id = ?").run(id);
   }
 
@@ -163,14 +278,15 @@ export class SqliteCoreRepository implements CoreRepository {
     const rows = this.db
       .prepare(
         `
-        SELECT a.id, a.policy_instance_id AS policyInstanceId, p.plugin_id AS pluginId, p.config
+        SELECT a.id, a.policy_instance_id AS policyInstanceId, p.plugin_id AS pluginId, p.config,
+               p.failure_mode AS failureMode, p.timeout_ms AS timeoutMs
         FROM policy_assignments a
         JOIN policy_instances p ON p.id = a.policy_instance_id
         WHERE p.is_enabled = 1
           AND (a.agent_id IS NULL OR a.agent_id = ?)
           AND (a.provider_id IS NULL OR a.provider_id = ?)
           AND (a.capability_name IS NULL OR a.capability_name = ?)
-        ORDER BY a.priority DESC
+        ORDER BY a.priority DESC, a.created_at, a.id
        `,
       )
       .all(agentId ?? null, providerId ?? null, toolName ?? null) as Array<{
@@ -178,6 +294,8 @@ export class SqliteCoreRepository implements CoreRepository {
       policyInstanceId: string;
       pluginId: string;
       config: string | null;
+      failureMode: string | null;
+      timeoutMs: number | null;
     }>;
 
     return rows.map((r) => ({
@@ -185,13 +303,15 @@ export class SqliteCoreRepository implements CoreRepository {
       policyInstanceId: r.policyInstanceId,
       pluginId: r.pluginId ?? "",
       config: r.config != null ? (JSON.parse(r.config) as unknown) : null,
+      ...instanceEvaluation(r.failureMode, r.timeoutMs),
     }));
   }
 
   async listPolicyInstances(): Promise<PolicyInstance[]> {
     const rows = this.db
       .prepare(
-        `SELECT id, plugin_id AS pluginId, name, config, is_enabled AS isEnabled
+        `SELECT id, plugin_id AS pluginId, name, config, is_enabled AS isEnabled,
+                failure_mode AS failureMode, timeout_ms AS timeoutMs
          FROM policy_instances ORDER BY name IS NULL, name, id`,
       )
       .all() as Array<{
@@ -200,6 +320,8 @@ export class SqliteCoreRepository implements CoreRepository {
       name: string | null;
       config: string | null;
       isEnabled: number;
+      failureMode: string | null;
+      timeoutMs: number | null;
     }>;
     return rows.map((r) => ({
       id: r.id,
@@ -207,13 +329,15 @@ export class SqliteCoreRepository implements CoreRepository {
       name: r.name ?? undefined,
       config: r.config != null ? (JSON.parse(r.config) as unknown) : {},
       isEnabled: r.isEnabled !== 0,
+      ...instanceEvaluation(r.failureMode, r.timeoutMs),
     }));
   }
 
   async getPolicyInstanceById(id: string): Promise<PolicyInstance | null> {
     const row = this.db
       .prepare(
-        `SELECT id, plugin_id AS pluginId, name, config, is_enabled AS isEnabled
+        `SELECT id, plugin_id AS pluginId, name, config, is_enabled AS isEnabled,
+                failure_mode AS failureMode, timeout_ms AS timeoutMs
          FROM policy_instances WHERE id = ?`,
       )
       .get(id) as
@@ -223,6 +347,8 @@ export class SqliteCoreRepository implements CoreRepository {
           name: string | null;
           config: string | null;
           isEnabled: number;
+          failureMode: string | null;
+          timeoutMs: number | null;
         }
       | undefined;
     if (!row) return null;
@@ -232,6 +358,7 @@ export class SqliteCoreRepository implements CoreRepository {
       name: row.name ?? undefined,
       config: row.config != null ? (JSON.parse(row.config) as unknown) : {},
       isEnabled: row.isEnabled !== 0,
+      ...instanceEvaluation(row.failureMode, row.timeoutMs),
     };
   }
 
@@ -242,11 +369,27 @@ export class SqliteCoreRepository implements CoreRepository {
     agentId?: string | null,
     toolName?: string | null,
     providerId?: string | null,
+    priority?: number,
+    evaluation?: PolicyInstanceEvaluation,
   ): Promise<void> {
     const configJson = JSON.stringify(config ?? {});
+    const keptPriority =
+      priority ??
+      (
+        this.db
+          .prepare(
+            "SELECT COALESCE(MAX(priority), 0) AS priority FROM policy_assignments WHERE policy_instance_id = ?",
+          )
+          .get(id) as { priority: number }
+      ).priority;
     this.db
       .prepare(`UPDATE policy_instances SET config = ?, name = ? WHERE id = ?`)
       .run(configJson, name ?? "", id);
+    if (evaluation) {
+      this.db
+        .prepare(`UPDATE policy_instances SET failure_mode = ?, timeout_ms = ? WHERE id = ?`)
+        .run(evaluation.failureMode, evaluation.timeoutMs, id);
+    }
     this.db
       .prepare("DELETE FROM policy_assignments WHERE policy_instance_id = ?")
       .run(id);
@@ -257,9 +400,9 @@ export class SqliteCoreRepository implements CoreRepository {
     this.db
       .prepare(
         `INSERT INTO policy_assignments (id, policy_instance_id, agent_id, provider_id, capability_name, priority, created_at)
-         VALUES (?, ?, ?, ?, ?, 0, datetime('now'))`,
+         VALUES (?, ?, ?, ?, ?, ?, datetime('now'))`,
       )
-      .run(assignId, id, assignAgentId, assignProviderId, assignCapabilityName);
+      .run(assignId, id, assignAgentId, assignProviderId, assignCapabilityName, keptPriority);
   }
 
   async listPolicyAssignmentRows(): Promise<
@@ -267,11 +410,12 @@ export class SqliteCoreRepository implements CoreRepository {
       policyInstanceId: string;
       agentId: string | null;
       toolName: string | null;
+      priority: number;
     }>
   > {
     const rows = this.db
       .prepare(
-        `SELECT policy_instance_id AS policyInstanceId, agent_id AS agentId, capability_name AS toolName
+        `SELECT policy_instance_id AS policyInstanceId, agent_id AS agentId, capability_name AS toolName, priority
          FROM policy_assignments`,
       )
       .all() as Array<Record<string, unknown>>;
@@ -282,6 +426,7 @@ export class SqliteCoreRepository implements CoreRepository {
         "",
       agentId: (r.agentId ?? r.agent_id ?? null) as string | null,
       toolName: (r.toolName ?? r.capability_name ?? null) as string | null,
+      priority: Number(r.priority ?? 0),
     }));
   }
 
@@ -292,15 +437,24 @@ export class SqliteCoreRepository implements CoreRepository {
     agentId?: string | null,
     toolName?: string | null,
     providerId?: string | null,
+    priority?: number,
+    evaluation?: PolicyInstanceEvaluation,
   ): Promise<string> {
     const id = uuidv4();
     const configJson = JSON.stringify(config ?? {});
     this.db
       .prepare(
-        `INSERT INTO policy_instances (id, plugin_id, name, config, is_enabled, created_at)
-         VALUES (?, ?, ?, ?, 1, datetime('now'))`,
+        `INSERT INTO policy_instances (id, plugin_id, name, config, is_enabled, failure_mode, timeout_ms, created_at)
+         VALUES (?, ?, ?, ?, 1, ?, ?, datetime('now'))`,
       )
-      .run(id, pluginId, name ?? "", configJson);
+      .run(
+        id,
+        pluginId,
+        name ?? "",
+        configJson,
+        evaluation?.failureMode ?? null,
+        evaluation?.timeoutMs ?? null,
+      );
     const assignAgentId = agentId !== undefined ? agentId : null;
     const assignCapabilityName = toolName !== undefined ? toolName : null;
     const assignProviderId = providerId !== undefined ? providerId : null;
@@ -308,9 +462,9 @@ export class SqliteCoreRepository implements CoreRepository {
     this.db
       .prepare(
         `INSERT INTO policy_assignments (id, policy_instance_id, agent_id, provider_id, capability_name, priority, created_at)
-         VALUES (?, ?, ?, ?, ?, 0, datetime('now'))`,
+         VALUES (?, ?, ?, ?, ?, ?, datetime('now'))`,
       )
-      .run(assignId, id, assignAgentId, assignProviderId, assignCapabilityName);
+      .run(assignId, id, assignAgentId, assignProviderId, assignCapabilityName, priority ?? 0);
     return id;
   }
 
@@ -473,4 +627,161 @@ export class SqliteCoreRepository implements CoreRepository {
       )
       .run(key, scopeType, scopeId, valueJson);
   }
+
+  async savePendingApproval(approval: PendingApproval): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO pending_approvals (id, status, server_name, tool_name, agent_id, agent_name_snapshot, request_id, body, policy_name, code, reason, metadata, note, created_at, expires_at, resolved_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        approval.id,
+        approval.status,
+        approval.serverName,
+        approval.toolName,
+        approval.agentId,
+        approval.agentNameSnapshot,
+        approval.requestId != null ? JSON.stringify(approval.requestId) : null,
+        approval.body,
+        approval.policyName,
+        approval.code,
+        approval.reason,
+        approval.metadata != null ? JSON.stringify(approval.metadata) : null,
+        approval.note,
+        approval.createdAt,
+        approval.expiresAt,
+        approval.resolvedAt,
+      );
+  }
+
+  async getPendingApproval(id: string): Promise<PendingApproval | null> {
+    const row = this.db
+      .prepare("SELECT * FROM pending_approvals WHERE id = ?")
+      .get(id) as PendingApprovalRow | undefined;
+    return row ? rowToPendingApproval(row) : null;
+  }
+
+  async listPendingApprovals(
+    status?: PendingApprovalStatus,
+    limit = 100,
+  ): Promise<PendingApproval[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM pending_approvals
+         WHERE (? IS NULL OR status = ?)
+         ORDER BY created_at DESC
+         LIMIT ?`,
+      )
+      .all(status ?? null, status ?? null, limit) as PendingApprovalRow[];
+    return rows.map(rowToPendingApproval);
+  }
+
+  async resolvePendingApproval(
+    id: string,
+    status: Exclude<PendingApprovalStatus, "pending">,
+    note: string | null = null,
+  ): Promise<PendingApproval | null> {
+    const result = this.db
+      .prepare(
+        `UPDATE pending_approvals SET status = ?, note = ?, resolved_at = ?
+         WHERE id = ? AND status = 'pending'`,
+      )
+      .run(status, note, new Date().toISOString(), id);
+    if (result.changes === 0) return null;
+    return this.getPendingApproval(id);
+  }
+
+  async saveAgentApiKey(key: AgentApiKey, keyHash: string): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO agent_api_keys (id, agent_id, name, key_hash, key_prefix, created_at, last_used_at, revoked_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        key.id,
+        key.agentId,
+        key.name,
+        keyHash,
+        key.prefix,
+        key.createdAt,
+        key.lastUsedAt,
+        key.revokedAt,
+      );
+  }
+
+  async listAgentApiKeys(agentId?: string): Promise<AgentApiKey[]> {
+    const rows = (
+      agentId != null
+        ? this.db
+            .prepare(
+              `SELECT * FROM agent_api_keys WHERE agent_id = ?
+               ORDER BY created_at DESC`,
+            )
+            .all(agentId)
+        : this.db
+            .prepare(`SELECT * FROM agent_api_keys ORDER BY created_at DESC`)
+            .all()
+    ) as AgentApiKeyRow[];
+    return rows.map(rowToAgentApiKey);
+  }
+
+  async findActiveAgentApiKey(keyHash: string): Promise<AgentApiKey | null> {
+    const row = this.db
+      .prepare(
+        `UPDATE agent_api_keys SET last_used_at = ?
+         WHERE key_hash = ? AND revoked_at IS NULL
+         RETURNING *`,
+      )
+      .get(new Date().toISOString(), keyHash) as AgentApiKeyRow | undefined;
+    return row ? rowToAgentApiKey(row) : null;
+  }
+
+  async revokeAgentApiKey(agentId: string, keyId: string): Promise<AgentApiKey | null> {
+    this.db
+      .prepare(
+        `UPDATE agent_api_keys SET revoked_at = ?
+         WHERE id = ? AND agent_id = ? AND revoked_at IS NULL`,
+      )
+      .run(new Date().toISOString(), keyId, agentId);
+    const row = this.db
+      .prepare("SELECT * FROM agent_api_keys WHERE id = ? AND agent_id = ?")
+      .get(keyId, agentId) as AgentApiKeyRow | undefined;
+    return row ? rowToAgentApiKey(row) : null;
+  }
+
+  async saveToolVersion(v: ToolVersion): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO tool_versions (server_name, tool_name, version, fingerprint, definition, first_seen_at, approved_at, approved_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (server_name, tool_name, version)
+         DO UPDATE SET approved_at = excluded.approved_at, approved_by = excluded.approved_by`,
+      )
+      .run(
+        v.serverName,
+        v.toolName,
+        v.version,
+        v.fingerprint,
+        JSON.stringify(v.definition),
+        v.firstSeenAt,
+        v.approvedAt,
+        v.approvedBy,
+      );
+  }
+
+  async listToolVersions(serverName?: string, toolName?: string): Promise<ToolVersion[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM tool_versions
+         WHERE (? IS NULL OR server_name = ?) AND (? IS NULL OR tool_name = ?)
+         ORDER BY server_name, tool_name, version DESC`,
+      )
+      .all(
+        serverName ?? null,
+        serverName ?? null,
+        toolName ?? null,
+        toolName ?? null,
+      ) as ToolVersionRow[];
+    return rows.map(rowToToolVersion);
+  }
 }
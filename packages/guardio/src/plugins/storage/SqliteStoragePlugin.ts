@@ -6,12 +6,14 @@ import type {
 } from "../../interfaces/StorageAdapter.js";
 import type {
   EventSinkRepository,
+  ListEventsOptions,
   StoredEvent,
 } from "../../interfaces/EventSinkRepository.js";
 import type {
   PluginRepository,
   PluginDocument,
   PluginDocumentFilter,
+  PluginWriteOptions,
 } from "../../interfaces/PluginRepository.js";
 import type { GuardioEvent } from "../../interfaces/EventSinkPluginInterface.js";
 import { SqliteCoreRepository } from "./SqliteCoreRepository.js";
@@ -41,18 +43,20 @@ function jsonOrNull(value: unknown): string | null {
 class SqliteEventSinkRepository implements EventSinkRepository {
   constructor(private readonly db: Database.Database) {}
 
-  async list(options?: { limit?: number }): Promise<StoredEvent[]> {
+  async list(options?: ListEventsOptions): Promise<StoredEvent[]> {
     const limit = Math.min(Math.max(options?.limit ?? 100, 1), 1000);
+    const decision = options?.decision ?? null;
     const rows = this.db
       .prepare(
         `SELECT event_id AS eventId, timestamp, event_type AS eventType, action_type AS actionType,
                 agent_id AS agentId, agent_name_snapshot AS agentNameSnapshot, decision,
-                policy_evaluation AS policyEvaluation, simulation
+                policy_evaluation AS policyEvaluation, simulation, error_code AS errorCode
          FROM guardio_events
+         WHERE (? IS NULL OR decision = ?)
          ORDER BY created_at DESC
          LIMIT ?`,
       )
-      .all(limit) as Array<{
+      .all(decision, decision, limit) as Array<{
       eventId: string;
       timestamp: string;
       eventType: string;
@@ -62,6 +66,7 @@ class SqliteEventSinkRepository implements EventSinkRepository {
       decision: string | null;
       policyEvaluation: string | null;
         simulation: string | null;
+      errorCode: string | null;
     }>;
     const events = rows.map((r) => ({
       eventId: r.eventId,
@@ -77,6 +82,7 @@ class SqliteEventSinkRepository implements EventSinkRepository {
       simulation: r.simulation
         ? (JSON.parse(r.simulation) as StoredEvent["simulation"])
         : null,
+      errorCode: r.errorCode ?? undefined,
     }));
     return events;
   }
@@ -124,9 +130,45 @@ class SqliteEventSinkRepository implements EventSinkRepository {
   }
 }
 
+interface PluginDataRow {
+  id: string;
+  contextKey: string;
+  data: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string | null;
+}
+
+const PLUGIN_DATA_COLUMNS = `id, context_key AS contextKey, data, version,
+  created_at AS createdAt, updated_at AS updatedAt, expires_at AS expiresAt`;
+
+/** How often expired plugin documents are deleted. */
+const PLUGIN_DATA_SWEEP_INTERVAL_MS = 60_000;
+
+function toPluginDocument(row: PluginDataRow): PluginDocument {
+  return {
+    id: row.id,
+    contextKey: row.contextKey,
+    data: JSON.parse(row.data) as Record<string, unknown>,
+    version: row.version,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    expiresAt: row.expiresAt,
+  };
+}
+
+function expiresAt(options?: PluginWriteOptions): string | null {
+  return options?.ttlSeconds != null
+    ? new Date(Date.now() + options.ttlSeconds * 1000).toISOString()
+    : null;
+}
+
 /**
  * SQLite implementation of PluginRepository.
  * Scoped to a specific pluginId - all operations are automatically filtered.
+ * expires_at is an ISO string compared with the current time in JS; increment and
+ * compareAndSet run in an immediate transaction.
  */
 class SqlitePluginRepository implements PluginRepository {
   constructor(
@@ -138,54 +180,122 @@ class SqlitePluginRepository implements PluginRepository {
     contextKey: string,
     data: Record<string, unknown>,
     id?: string,
+    options?: PluginWriteOptions,
   ): Promise<string> {
     const docId = id ?? randomUUID();
     this.db
       .prepare(
-        `INSERT INTO plugin_data (id, plugin_id, context_key, data, created_at, updated_at)
-         VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))
+        `INSERT INTO plugin_data (id, plugin_id, context_key, data, version, created_at, updated_at, expires_at)
+         VALUES (?, ?, ?, ?, 1, datetime('now'), datetime('now'), ?)
          ON CONFLICT(id) DO UPDATE SET
            data = excluded.data,
+           version = plugin_data.version + 1,
+           expires_at = excluded.expires_at,
            updated_at = datetime('now')`,
       )
-      .run(docId, this.pluginId, contextKey, JSON.stringify(data));
+      .run(docId, this.pluginId, contextKey, JSON.stringify(data), expiresAt(options));
     return docId;
   }
 
+  /** Latest live document for contextKey; expired ones for the key are deleted first. */
+  private currentRow(contextKey: string): PluginDataRow | undefined {
+    this.db
+      .prepare(
+        `DELETE FROM plugin_data
+         WHERE plugin_id = ? AND context_key = ? AND expires_at IS NOT NULL AND expires_at <= ?`,
+      )
+      .run(this.pluginId, contextKey, new Date().toISOString());
+    return this.db
+      .prepare(
+        `SELECT ${PLUGIN_DATA_COLUMNS} FROM plugin_data
+         WHERE plugin_id = ? AND context_key = ?
+         ORDER BY updated_at DESC
+         LIMIT 1`,
+      )
+      .get(this.pluginId, contextKey) as PluginDataRow | undefined;
+  }
+
+  async increment(
+    contextKey: string,
+    field: string,
+    by = 1,
+    options?: PluginWriteOptions,
+  ): Promise<number> {
+    const run = this.db.transaction(() => {
+      const row = this.currentRow(contextKey);
+      if (!row) {
+        this.db
+          .prepare(
+            `INSERT INTO plugin_data (id, plugin_id, context_key, data, version, created_at, updated_at, expires_at)
+             VALUES (?, ?, ?, ?, 1, datetime('now'), datetime('now'), ?)`,
+          )
+          .run(randomUUID(), this.pluginId, contextKey, JSON.stringify({ [field]: by }), expiresAt(options));
+        return by;
+      }
+      const data = JSON.parse(row.data) as Record<string, unknown>;
+      const current = data[field];
+      const value = (typeof current === "number" ? current : 0) + by;
+      data[field] = value;
+      this.db
+        .prepare(
+          `UPDATE plugin_data SET data = ?, version = version + 1, updated_at = datetime('now')
+           WHERE id = ?`,
+        )
+        .run(JSON.stringify(data), row.id);
+      return value;
+    });
+    return run.immediate();
+  }
+
+  async compareAndSet(
+    contextKey: string,
+    data: Record<string, unknown>,
+    expectedVersion: number,
+    options?: PluginWriteOptions,
+  ): Promise<PluginDocument | null> {
+    const run = this.db.transaction(() => {
+      const row = this.currentRow(contextKey);
+      if ((row?.version ?? 0) !== expectedVersion) return null;
+      const docId = row?.id ?? randomUUID();
+      this.db
+        .prepare(
+          `INSERT INTO plugin_data (id, plugin_id, context_key, data, version, created_at, updated_at, expires_at)
+           VALUES (?, ?, ?, ?, ?, datetime('now'), datetime('now'), ?)
+           ON CONFLICT(id) DO UPDATE SET
+             data = excluded.data,
+             version = excluded.version,
+             expires_at = excluded.expires_at,
+             updated_at = datetime('now')`,
+        )
+        .run(docId, this.pluginId, contextKey, JSON.stringify(data), expectedVersion + 1, expiresAt(options));
+      return this.db
+        .prepare(`SELECT ${PLUGIN_DATA_COLUMNS} FROM plugin_data WHERE id = ?`)
+        .get(docId) as PluginDataRow;
+    });
+    const row = run.immediate();
+    return row ? toPluginDocument(row) : null;
+  }
+
   async getDocument(contextKey: string): Promise<PluginDocument | null> {
     const row = this.db
       .prepare(
-        `SELECT id, context_key AS contextKey, data, created_at AS createdAt, updated_at AS updatedAt
+        `SELECT ${PLUGIN_DATA_COLUMNS}
          FROM plugin_data
-         WHERE plugin_id = ? AND context_key = ?
+         WHERE plugin_id = ? AND context_key = ? AND (expires_at IS NULL OR expires_at > ?)
          ORDER BY updated_at DESC
          LIMIT 1`,
       )
-      .get(this.pluginId, contextKey) as
-      | {
-          id: string;
-          contextKey: string;
-          data: string;
-          createdAt: string;
-          updatedAt: string;
-        }
-      | undefined;
+      .get(this.pluginId, contextKey, new Date().toISOString()) as PluginDataRow | undefined;
 
     if (!row) return null;
-    return {
-      id: row.id,
-      contextKey: row.contextKey,
-      data: JSON.parse(row.data) as Record<string, unknown>,
-      createdAt: row.createdAt,
-      updatedAt: row.updatedAt,
-    };
+    return toPluginDocument(row);
   }
 
   async listDocuments(contextKey?: string): Promise<PluginDocument[]> {
-    let query = `SELECT id, context_key AS contextKey, data, created_at AS createdAt, updated_at AS updatedAt
+    let query = `SELECT ${PLUGIN_DATA_COLUMNS}
                  FROM plugin_data
-                 WHERE plugin_id = ?`;
-    const params: unknown[] = [this.pluginId];
+                 WHERE plugin_id = ? AND (expires_at IS NULL OR expires_at > ?)`;
+    const params: unknown[] = [this.pluginId, new Date().toISOString()];
 
     if (contextKey !== undefined) {
       query += ` AND context_key = ?`;
@@ -193,28 +303,15 @@ class SqlitePluginRepository implements PluginRepository {
     }
     query += ` ORDER BY updated_at DESC`;
 
-    const rows = this.db.prepare(query).all(...params) as Array<{
-      id: string;
-      contextKey: string;
-      data: string;
-      createdAt: string;
-      updatedAt: string;
-    }>;
-
-    return rows.map((row) => ({
-      id: row.id,
-      contextKey: row.contextKey,
-      data: JSON.parse(row.data) as Record<string, unknown>,
-      createdAt: row.createdAt,
-      updatedAt: row.updatedAt,
-    }));
+    const rows = this.db.prepare(query).all(...params) as PluginDataRow[];
+    return rows.map(toPluginDocument);
   }
 
   async queryDocuments(filter: PluginDocumentFilter): Promise<PluginDocument[]> {
-    let query = `SELECT id, context_key AS contextKey, data, created_at AS createdAt, updated_at AS updatedAt
+    let query = `SELECT ${PLUGIN_DATA_COLUMNS}
                  FROM plugin_data
-                 WHERE plugin_id = ?`;
-    const params: unknown[] = [this.pluginId];
+                 WHERE plugin_id = ? AND (expires_at IS NULL OR expires_at > ?)`;
+    const params: unknown[] = [this.pluginId, new Date().toISOString()];
 
     if (filter.contextKey !== undefined) {
       if (filter.contextKey.includes("%")) {
@@ -227,21 +324,8 @@ class SqlitePluginRepository implements PluginRepository {
 
     query += ` ORDER BY updated_at DESC`;
 
-    const rows = this.db.prepare(query).all(...params) as Array<{
-      id: string;
-      contextKey: string;
-      data: string;
-      createdAt: string;
-      updatedAt: string;
-    }>;
-
-    let results = rows.map((row) => ({
-      id: row.id,
-      contextKey: row.contextKey,
-      data: JSON.parse(row.data) as Record<string, unknown>,
-      createdAt: row.createdAt,
-      updatedAt: row.updatedAt,
-    }));
+    const rows = this.db.prepare(query).all(...params) as PluginDataRow[];
+    let results = rows.map(toPluginDocument);
 
     if (filter.dataFilter !== undefined) {
       results = results.filter((doc) => {
@@ -274,6 +358,7 @@ export class SqliteStoragePlugin implements StorageAdapter {
   private db: Database.Database | null = null;
   private _repository: SqliteCoreRepository | null = null;
   private _eventSinkRepository: SqliteEventSinkRepository | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
   private readonly databasePath: string;
   private readonly inMemory: boolean;
 
@@ -344,6 +429,33 @@ export class SqliteStoragePlugin implements StorageAdapter {
           last_seen_at TEXT
         );
 
+        -- Agent API keys (only the SHA-256 of each key is stored)
+        CREATE TABLE IF NOT EXISTS agent_api_keys (
+          id           TEXT PRIMARY KEY,
+          agent_id     TEXT NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+          name         TEXT,
+          key_hash     TEXT NOT NULL UNIQUE,
+          key_prefix   TEXT NOT NULL,
+          created_at   TEXT NOT NULL,
+          last_used_at TEXT,
+          revoked_at   TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_agent_api_keys_agent ON agent_api_keys(agent_id);
+
+        -- Versions of upstream tool definitions (pinning / change detection)
+        CREATE TABLE IF NOT EXISTS tool_versions (
+          server_name   TEXT NOT NULL,
+          tool_name     TEXT NOT NULL,
+          version       INTEGER NOT NULL,
+          fingerprint   TEXT NOT NULL,
+          definition    TEXT NOT NULL,
+          first_seen_at TEXT NOT NULL,
+          approved_at   TEXT,
+          approved_by   TEXT,
+          PRIMARY KEY (server_name, tool_name, version)
+        );
+
         -- Agent <-> provider connections
         CREATE TABLE IF NOT EXISTS connections (
           agent_id    TEXT NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
@@ -359,6 +471,8 @@ export class SqliteStoragePlugin implements StorageAdapter {
           name       TEXT NOT NULL,
           config     TEXT,
           is_enabled INTEGER NOT NULL DEFAULT 1,
+          failure_mode TEXT,
+          timeout_ms INTEGER,
           created_at TEXT NOT NULL DEFAULT (datetime('now'))
         );
 
@@ -404,6 +518,8 @@ export class SqliteStoragePlugin implements StorageAdapter {
           created_at           TEXT NOT NULL DEFAULT (datetime('now'))
         );
 
+        CREATE INDEX IF NOT EXISTS idx_guardio_events_decision ON guardio_events(decision);
+
         -- Runtime settings (global or scoped key/value configuration)
         CREATE TABLE IF NOT EXISTS runtime_settings (
           key           TEXT NOT NULL,
@@ -417,18 +533,69 @@ export class SqliteStoragePlugin implements StorageAdapter {
         CREATE INDEX IF NOT EXISTS idx_runtime_settings_scope
           ON runtime_settings(scope_type, scope_id);
 
+        -- Pending approvals (tools/call parked by a "negotiate" verdict)
+        CREATE TABLE IF NOT EXISTS pending_approvals (
+          id                  TEXT PRIMARY KEY,
+          status              TEXT NOT NULL DEFAULT 'pending',
+          server_name         TEXT NOT NULL,
+          tool_name           TEXT NOT NULL,
+          agent_id            TEXT,
+          agent_name_snapshot TEXT,
+          request_id          TEXT,
+          body                TEXT NOT NULL,
+          policy_name         TEXT NOT NULL,
+          code                TEXT,
+          reason              TEXT,
+          metadata            TEXT,
+          note                TEXT,
+          created_at          TEXT NOT NULL,
+          expires_at          TEXT NOT NULL,
+          resolved_at         TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_pending_approvals_status ON pending_approvals(status);
+
         -- Plugin data storage (for policy plugins to store custom data)
         CREATE TABLE IF NOT EXISTS plugin_data (
           id              TEXT PRIMARY KEY,
           plugin_id       TEXT NOT NULL,
           context_key     TEXT,
           data            TEXT NOT NULL,
+          version         INTEGER NOT NULL DEFAULT 1,
           created_at      TEXT NOT NULL DEFAULT (datetime('now')),
-          updated_at      TEXT NOT NULL DEFAULT (datetime('now'))
+          updated_at      TEXT NOT NULL DEFAULT (datetime('now')),
+          expires_at      TEXT
         );
 
         CREATE INDEX IF NOT EXISTS idx_plugin_data_lookup ON plugin_data(plugin_id, context_key);
       `);
+    // plugin_data columns added after the first release
+    const pluginDataColumns = new Set(
+      (this.db.prepare(`PRAGMA table_info(plugin_data)`).all() as Array<{ name: string }>).map(
+        (c) => c.name,
+      ),
+    );
+    if (!pluginDataColumns.has("version")) {
+      this.db.exec(`ALTER TABLE plugin_data ADD COLUMN version INTEGER NOT NULL DEFAULT 1`);
+    }
+    if (!pluginDataColumns.has("expires_at")) {
+      this.db.exec(`ALTER TABLE plugin_data ADD COLUMN expires_at TEXT`);
+    }
+    this.db.exec(
+      `CREATE INDEX IF NOT EXISTS idx_plugin_data_expires ON plugin_data(expires_at)`,
+    );
+    // policy_instances failure handling, added after the first release
+    const policyInstanceColumns = new Set(
+      (
+        this.db.prepare(`PRAGMA table_info(policy_instances)`).all() as Array<{ name: string }>
+      ).map((c) => c.name),
+    );
+    if (!policyInstanceColumns.has("failure_mode")) {
+      this.db.exec(`ALTER TABLE policy_instances ADD COLUMN failure_mode TEXT`);
+    }
+    if (!policyInstanceColumns.has("timeout_ms")) {
+      this.db.exec(`ALTER TABLE policy_instances ADD COLUMN timeout_ms INTEGER`);
+    }
     logger.debug(this.logContext(), "SQLite storage tables created");
   }
 
@@ -442,6 +609,13 @@ export class SqliteStoragePlugin implements StorageAdapter {
       }
       this._repository = new SqliteCoreRepository(this.db);
       this._eventSinkRepository = new SqliteEventSinkRepository(this.db);
+      if (!this.sweepTimer) {
+        this.sweepTimer = setInterval(
+          () => this.deleteExpiredPluginData(),
+          PLUGIN_DATA_SWEEP_INTERVAL_MS,
+        );
+        this.sweepTimer.unref();
+      }
       return { ok: true, client: this.db };
     } catch (err) {
       logger.error({ err, ...this.logContext() }, "SQLite connect failed");
@@ -449,6 +623,19 @@ export class SqliteStoragePlugin implements StorageAdapter {
     }
   }
 
+  /** Delete plugin documents whose TTL has passed (all plugins). */
+  deleteExpiredPluginData(): number {
+    if (!this.db) return 0;
+    try {
+      return this.db
+        .prepare(`DELETE FROM plugin_data WHERE expires_at IS NOT NULL AND expires_at <= ?`)
+        .run(new Date().toISOString()).changes;
+    } catch (err) {
+      logger.warn({ err, ...this.logContext() }, "Deleting expired plugin data failed");
+      return 0;
+    }
+  }
+
   getRepository(): CoreRepository {
     if (!this._repository) {
       throw new Error("Storage adapter not connected; call connect() first.");
@@ -466,6 +653,10 @@ export class SqliteStoragePlugin implements StorageAdapter {
   }
 
   disconnect(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
     if (this.db) {
       this.db.close();
       this.db = null;
@@ -1,22 +1,46 @@
 import { EventEmitter } from "node:events";
 import { GuardioCore } from "../core/index.js";
-import type { GuardioServerConfigUrl } from "../config/types.js";
+import type {
+  GuardioServerConfig,
+  GuardioApprovalsConfig,
+  GuardioToolsListConfig,
+  GuardioToolPinningConfig,
+  GuardioToolScanConfig,
+  GuardioPolicyEvaluationConfig,
+  GuardioDashboardAuthConfig,
+} from "../config/types.js";
 import { PluginManager } from "../config/PluginManager.js";
 import type { StorageAdapter } from "../interfaces/StorageAdapter.js";
 import { logger } from "../logger.js";
 
 export interface GuardioHttpServerConfig {
-  servers: GuardioServerConfigUrl[];
+  servers: GuardioServerConfig[];
   listen: { port: number; host?: string };
+  /** Reject HTTP agents without a valid API key (client.requireAgentAuth). */
+  requireAgentAuth?: boolean;
+  /** Request headers passed to policies (client.policyHeaders). */
+  policyHeaders?: string[];
   cwd: string;
   configPath: string;
+  approvals?: GuardioApprovalsConfig;
+  toolsList?: GuardioToolsListConfig;
+  toolPinning?: GuardioToolPinningConfig;
+  toolScan?: GuardioToolScanConfig;
+  policyEvaluation?: GuardioPolicyEvaluationConfig;
+  /** Users, tokens and roles for /api/* (HTTP mode). */
+  dashboardAuth?: GuardioDashboardAuthConfig;
+  /**
+   * Serve one server over stdin/stdout instead of listening on HTTP (agent launches Guardio
+   * as a subprocess). listen is ignored and the dashboard API is unavailable in this mode.
+   */
+  stdio?: { serverName: string; agentName?: string };
 }
 
 /**
  * Standalone HTTP server that proxies MCP to remote URL(s). Uses GuardioCore with
  * client transport = HTTP (listen on port) and server transport(s) = URL per server.
  * Requires at least one storage plugin in config. Starts storage (start + connect) before
- * core, and disconnects storage on stop (SIGINT/SIGTERM).
+ * core, and disconnects storage on stop (SIGINT/SIGTERM, or stdin closing in stdio mode).
  */
 export class GuardioHttpServer {
   private readonly config: GuardioHttpServerConfig;
@@ -63,19 +87,41 @@ export class GuardioHttpServer {
 
     const eventBus = new EventEmitter();
 
-    logger.info(
-      { port: this.config.listen.port, host: this.config.listen.host },
-      "Guardio HTTP server starting",
-    );
+    const { stdio } = this.config;
+    const servers = stdio
+      ? this.config.servers.filter((s) => s.name === stdio.serverName)
+      : this.config.servers;
+    if (stdio && servers.length === 0) {
+      throw new Error(`Unknown server "${stdio.serverName}" for stdio mode.`);
+    }
+
+    if (stdio) {
+      logger.info({ serverName: stdio.serverName }, "Guardio stdio server starting");
+    } else {
+      logger.info(
+        { port: this.config.listen.port, host: this.config.listen.host },
+        "Guardio HTTP server starting",
+      );
+    }
     const core = new GuardioCore({
-      servers: this.config.servers,
-      client: {
-        mode: "http",
-        port: this.config.listen.port,
-        host: this.config.listen.host,
-      },
+      servers,
+      client: stdio
+        ? { type: "stdio", agentName: stdio.agentName }
+        : {
+            mode: "http",
+            port: this.config.listen.port,
+            host: this.config.listen.host,
+            requireAgentAuth: this.config.requireAgentAuth,
+            policyHeaders: this.config.policyHeaders,
+          },
       cwd: this.config.cwd,
       configPath: this.config.configPath,
+      approvals: this.config.approvals,
+      toolsList: this.config.toolsList,
+      toolPinning: this.config.toolPinning,
+      toolScan: this.config.toolScan,
+      policyEvaluation: this.config.policyEvaluation,
+      dashboardAuth: this.config.dashboardAuth,
       eventBus,
       coreRepository,
       eventSinkStore,
@@ -84,6 +130,8 @@ export class GuardioHttpServer {
     this.core = core;
     await core.run();
 
+    // The agent closing stdin ends a stdio session.
+    const clientTransport = stdio ? core.getClientTransport() : null;
     return new Promise<void>((resolve) => {
       const bound = (): void => {
         void (async (): Promise<void> => {
@@ -91,6 +139,7 @@ export class GuardioHttpServer {
           this.signalHandlersAttached = false;
           process.off("SIGINT", bound);
           process.off("SIGTERM", bound);
+          clientTransport?.off("close", bound);
           try {
             await this.stop();
           } catch (err) {
@@ -102,6 +151,7 @@ export class GuardioHttpServer {
       this.signalHandlersAttached = true;
       process.on("SIGINT", bound);
       process.on("SIGTERM", bound);
+      clientTransport?.once("close", bound);
     });
   }
 